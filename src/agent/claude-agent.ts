@@ -4,34 +4,14 @@
  */
 
 import * as vscode from "vscode";
-import { tools } from "../tools/definitions";
-import { ToolExecutor } from "../tools/executor";
-import {
-  getProviderManager,
-  Message,
-  ToolDefinition,
-  ToolCall,
-  TokenUsage,
-} from "../providers";
+import { getCheckpointManager } from "../tools/checkpoints";
+import { Message, ContentBlock, ToolCall, TokenUsage } from "../providers";
+import { getMythaTron } from "../engine/mythatron";
 import { getMemoryManager } from "../memory";
 import { getContextTracker } from "../features/context";
-import {
-  THINKING_SYSTEM_PROMPT,
-  extractThinkingBlocks,
-  formatThinkingForDisplay,
-} from "../features/thinking";
-import { buildImageMessage, readImageAsBase64, isImageFile } from "../features/vision";
-import {
-  AgentState,
-  AgentStep,
-  AgentConfig,
-  DEFAULT_AGENT_CONFIG,
-  shouldContinue,
-  needsConfirmation,
-  createToolCallStep,
-  createToolResultStep,
-  generateStepId,
-} from "../features/agent-loop";
+import { THINKING_SYSTEM_PROMPT } from "../features/thinking";
+import { readImageAsBase64, isImageFile } from "../features/vision";
+import { AgentState, AgentConfig } from "../features/agent-loop";
 
 export interface AgentOptions {
   systemPrompt?: string;
@@ -68,15 +48,11 @@ For complex tasks:
 Be proactive but not over-eager. Only make changes that are directly requested or clearly necessary.`;
 
 export class ClaudeAgent {
-  private executor: ToolExecutor;
   private conversationHistory: Message[] = [];
   private totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
-  private agentConfig: AgentConfig;
+  private agentConfig: Partial<AgentConfig> = {};
 
-  constructor(private outputChannel?: vscode.OutputChannel) {
-    this.executor = new ToolExecutor();
-    this.agentConfig = { ...DEFAULT_AGENT_CONFIG };
-  }
+  constructor(private outputChannel?: vscode.OutputChannel) {}
 
   setConfig(config: Partial<AgentConfig>): void {
     this.agentConfig = { ...this.agentConfig, ...config };
@@ -86,12 +62,8 @@ export class ClaudeAgent {
     userMessage: string,
     options: AgentOptions = {}
   ): Promise<AgentResponse> {
-    const state: AgentState = {
-      steps: [],
-      isComplete: false,
-      totalTokens: 0,
-      totalCost: 0,
-    };
+    // Everything this turn writes lands in one checkpoint
+    getCheckpointManager().startNext(`Before: ${userMessage.slice(0, 60)}`);
 
     // Build system prompt with memories and rules
     let systemPrompt = options.systemPrompt || DEFAULT_SYSTEM_PROMPT;
@@ -120,189 +92,58 @@ export class ClaudeAgent {
     // Build user message with context
     let fullMessage = userMessage;
 
-    // Add user context
+    // Add user context and anything attached to this message
+    const attachments = getContextTracker().takeAttachments();
+    if (attachments) {
+      fullMessage = attachments + "\n\n" + fullMessage;
+    }
     const context = getContextTracker().buildContextString();
     if (context) {
       fullMessage = context + "\n\n" + fullMessage;
     }
 
     // Handle images
-    let userContent: string | Array<{ type: string; [key: string]: unknown }> = fullMessage;
+    let userContent: string | ContentBlock[] = fullMessage;
     if (options.images && options.images.length > 0) {
-      const imageData = options.images
+      const imageBlocks: ContentBlock[] = options.images
         .filter((p) => isImageFile(p))
         .map((p) => readImageAsBase64(p))
-        .filter((d) => d !== null);
+        .flatMap((d) =>
+          d && d.type === "base64" ? [{ type: "image" as const, mediaType: d.mediaType, data: d.data }] : []
+        );
 
-      if (imageData.length > 0) {
-        userContent = buildImageMessage(fullMessage, imageData as any);
+      if (imageBlocks.length > 0) {
+        userContent = [...imageBlocks, { type: "text", text: fullMessage }];
       }
     }
 
     // Add to conversation
-    this.conversationHistory.push({ role: "user", content: userContent as string });
-
-    // Get provider manager
-    const providerManager = getProviderManager();
-
-    // Convert tools to provider format
-    const toolDefs: ToolDefinition[] = tools.map((t) => ({
-      name: t.name,
-      description: t.description || "",
-      input_schema: {
-        type: "object" as const,
-        properties: t.input_schema.properties as Record<string, unknown>,
-        required: (t.input_schema.required || []) as string[],
-      },
-    }));
-
-    const maxIterations = options.maxIterations || this.agentConfig.maxIterations;
-    let allToolCalls: ToolCall[] = [];
-    let finalContent = "";
-    let thinkingContent = "";
-
-    // Agent loop
-    for (let iteration = 0; iteration < maxIterations; iteration++) {
-      this.log(`Iteration ${iteration + 1}/${maxIterations}`);
-
-      const check = shouldContinue(state, this.agentConfig);
-      if (!check.continue) {
-        this.log(`Stopping: ${check.reason}`);
-        break;
-      }
-
-      try {
-        const response = await providerManager.complete({
-          messages: [
-            { role: "system", content: systemPrompt },
-            ...this.conversationHistory,
-          ],
-          tools: toolDefs,
-          maxTokens: this.agentConfig.maxTokensPerIteration,
-        });
-
-        // Update usage
-        const usage = response.usage || { inputTokens: 0, outputTokens: 0 };
-        state.totalTokens += usage.inputTokens + usage.outputTokens;
-        state.totalCost += this.estimateCost(usage);
-        this.totalUsage.inputTokens += usage.inputTokens;
-        this.totalUsage.outputTokens += usage.outputTokens;
-
-        // Extract thinking if present
-        if (options.enableThinking && response.content) {
-          const { thinking, content } = extractThinkingBlocks(response.content);
-          if (thinking.length > 0) {
-            thinkingContent += formatThinkingForDisplay(thinking) + "\n\n";
-            state.steps.push({
-              id: generateStepId(),
-              type: "thinking",
-              content: thinking.map((t) => t.content).join("\n"),
-              timestamp: new Date(),
-            });
-          }
-          finalContent = content;
-        } else {
-          finalContent = response.content;
-        }
-
-        // Handle tool calls
-        if (response.toolCalls && response.toolCalls.length > 0) {
-          const toolResults: Array<{ toolUseId: string; result: string }> = [];
-
-          for (const toolCall of response.toolCalls) {
-            allToolCalls.push(toolCall);
-            state.steps.push(createToolCallStep(toolCall));
-
-            this.log(`Tool: ${toolCall.name}`);
-
-            // Check if confirmation needed
-            if (needsConfirmation(toolCall.name, toolCall.input, this.agentConfig)) {
-              const confirmed = await this.askConfirmation(toolCall);
-              if (!confirmed) {
-                toolResults.push({
-                  toolUseId: toolCall.id,
-                  result: "Tool execution cancelled by user",
-                });
-                continue;
-              }
-            }
-
-            // Execute tool
-            const start = Date.now();
-            const result = await this.executor.execute(
-              toolCall.name as any,
-              toolCall.input
-            );
-            const duration = Date.now() - start;
-
-            state.steps.push(createToolResultStep(toolCall.name, result, duration));
-            toolResults.push({ toolUseId: toolCall.id, result });
-
-            this.log(`Result (${duration}ms): ${result.slice(0, 200)}...`);
-          }
-
-          // Add assistant message with tool calls
-          this.conversationHistory.push({
-            role: "assistant",
-            content: finalContent + (response.toolCalls ? "\n[Tool calls executed]" : ""),
-          });
-
-          // Add tool results
-          this.conversationHistory.push({
-            role: "user",
-            content: toolResults
-              .map((r) => `<tool_result tool_use_id="${r.toolUseId}">${r.result}</tool_result>`)
-              .join("\n"),
-          });
-        } else {
-          // No tool calls - we're done
-          state.isComplete = true;
-
-          state.steps.push({
-            id: generateStepId(),
-            type: "response",
-            content: finalContent,
-            timestamp: new Date(),
-          });
-
-          // Add final response to history
-          this.conversationHistory.push({
-            role: "assistant",
-            content: finalContent,
-          });
-
-          break;
-        }
-      } catch (error) {
-        state.error = error instanceof Error ? error.message : String(error);
-        this.log(`Error: ${state.error}`);
-
-        if (this.agentConfig.stopOnError) {
-          break;
-        }
-      }
-    }
+    this.conversationHistory.push({ role: "user", content: userContent });
+
+    // The engine runs the loop: routing, tools, confirmation and validation
+    const result = await getMythaTron().runConversation(this.conversationHistory, {
+      systemPrompt,
+      maxIterations: options.maxIterations,
+      enableThinking: options.enableThinking,
+      agentConfig:
+        options.requireConfirmation === undefined
+          ? this.agentConfig
+          : { ...this.agentConfig, requireConfirmation: options.requireConfirmation },
+      onLog: (message) => this.log(message),
+    });
+
+    this.totalUsage.inputTokens += result.usage.inputTokens;
+    this.totalUsage.outputTokens += result.usage.outputTokens;
 
     return {
-      content: finalContent,
-      thinking: thinkingContent || undefined,
-      toolCalls: allToolCalls,
+      content: result.content,
+      thinking: result.thinking,
+      toolCalls: result.toolCalls,
       usage: this.totalUsage,
-      state,
+      state: result.state,
     };
   }
 
-  private async askConfirmation(toolCall: ToolCall): Promise<boolean> {
-    const message = `Execute ${toolCall.name}?\n${JSON.stringify(toolCall.input, null, 2).slice(0, 200)}`;
-    const result = await vscode.window.showWarningMessage(
-      message,
-      { modal: true },
-      "Yes",
-      "No"
-    );
-    return result === "Yes";
-  }
-
   private estimateCost(usage: TokenUsage): number {
     // Use Claude 3.5 Sonnet pricing as base estimate
     const inputCost = (usage.inputTokens / 1_000_000) * 3.0;
@@ -7,6 +7,7 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import ignore from "ignore";
+import { IndexManifest, IndexWatcher, IndexChangeBatch } from "../search/incremental";
 
 export interface FileInfo {
   path: string;
@@ -33,11 +34,22 @@ export interface CodebaseIndex {
   lastIndexed: Date;
 }
 
+interface FileStats {
+  language: string;
+  lines: number;
+}
+
+// Bump when per-file stats change shape so the manifest is rebuilt
+const INDEXER_VERSION = "1";
+
 export class CodebaseIndexer {
   private workspaceRoot: string;
   private index: CodebaseIndex | null = null;
   private gitignore: ReturnType<typeof ignore> | null = null;
   private indexing = false;
+  private files: Map<string, FileInfo> = new Map();
+  private manifest: IndexManifest<FileStats>;
+  private manifestLoaded = false;
 
   // File extensions we care about
   private readonly CODE_EXTENSIONS = new Set([
@@ -78,9 +90,14 @@ export class CodebaseIndexer {
     ".vscode",
   ]);
 
-  constructor() {
+  constructor(workspaceRoot?: string) {
     this.workspaceRoot =
-      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+      workspaceRoot ||
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ||
+      process.cwd();
+    this.manifest = new IndexManifest(
+      path.join(this.workspaceRoot, ".mythatron", "index", "codebase-manifest.json")
+    );
     this.loadGitignore();
   }
 
@@ -96,6 +113,10 @@ export class CodebaseIndexer {
     }
   }
 
+  /**
+   * Scan the workspace. Line counts are only recomputed for files that changed
+   * since the last build (tracked in .mythatron/index/codebase-manifest.json).
+   */
   async buildIndex(onProgress?: (message: string) => void): Promise<CodebaseIndex> {
     if (this.indexing) {
       throw new Error("Indexing already in progress");
@@ -103,42 +124,151 @@ export class CodebaseIndexer {
 
     this.indexing = true;
     const files: FileInfo[] = [];
-    let totalLines = 0;
-    const languages: Record<string, number> = {};
 
     try {
+      if (!this.manifestLoaded) {
+        this.manifest.load({ indexer: INDEXER_VERSION });
+        this.manifestLoaded = true;
+      }
+
       onProgress?.("Scanning workspace...");
       await this.scanDirectory(this.workspaceRoot, files, onProgress);
 
-      // Count lines and languages
-      for (const file of files) {
-        try {
-          const content = fs.readFileSync(file.path, "utf-8");
-          const lineCount = content.split("\n").length;
-          totalLines += lineCount;
-          languages[file.language] = (languages[file.language] || 0) + 1;
-        } catch {
-          // Skip files we can't read
-        }
+      const changes = this.manifest.detectChanges(
+        this.workspaceRoot,
+        files.map((f) => f.relativePath)
+      );
+
+      for (const relativePath of changes.removed) {
+        this.manifest.delete(relativePath);
       }
 
-      onProgress?.(`Indexed ${files.length} files`);
+      // Count lines only for new and edited files
+      for (const relativePath of [...changes.added, ...changes.changed]) {
+        this.recordFile(relativePath);
+      }
 
-      this.index = {
-        workspaceRoot: this.workspaceRoot,
-        files,
-        totalFiles: files.length,
-        totalLines,
-        languages,
-        lastIndexed: new Date(),
-      };
+      this.files = new Map(files.map((f) => [f.relativePath, f]));
+      this.refreshIndex();
+      this.manifest.save();
 
-      return this.index;
+      onProgress?.(
+        `Indexed ${files.length} files (${changes.added.length + changes.changed.length} updated)`
+      );
+
+      return this.index!;
     } finally {
       this.indexing = false;
     }
   }
 
+  /**
+   * Apply a batch of file-system events without rescanning the workspace
+   */
+  applyChanges(batch: IndexChangeBatch): void {
+    if (!this.index || this.indexing) return;
+
+    for (const filePath of batch.deleted) {
+      const relativePath = path.relative(this.workspaceRoot, filePath);
+      for (const removed of this.manifest.deleteTree(relativePath)) {
+        this.files.delete(removed);
+      }
+    }
+
+    for (const filePath of batch.changed) {
+      const relativePath = path.relative(this.workspaceRoot, filePath);
+      const ext = path.extname(filePath).toLowerCase();
+      if (!this.CODE_EXTENSIONS.has(ext) || this.gitignore?.ignores(relativePath)) {
+        continue;
+      }
+
+      let stats: fs.Stats;
+      try {
+        stats = fs.statSync(filePath);
+      } catch {
+        this.files.delete(relativePath);
+        this.manifest.delete(relativePath);
+        continue;
+      }
+
+      if (!stats.isFile() || stats.size > 1024 * 1024) continue;
+
+      if (this.manifest.checkFile(this.workspaceRoot, relativePath) !== "unchanged") {
+        this.recordFile(relativePath);
+      }
+
+      this.files.set(relativePath, {
+        path: filePath,
+        relativePath,
+        language: this.getLanguage(ext),
+        size: stats.size,
+        lastModified: stats.mtime,
+      });
+    }
+
+    this.refreshIndex();
+    this.manifest.save();
+  }
+
+  /**
+   * Keep the index current as files change on disk
+   */
+  watch(): vscode.Disposable {
+    const watcher = new IndexWatcher(this.workspaceRoot, { ignoreDirs: this.IGNORE_DIRS });
+    watcher.onDidChange((batch) => this.applyChanges(batch));
+    return watcher;
+  }
+
+  /**
+   * Whether a previous build left a manifest on disk
+   */
+  hasPersistedIndex(): boolean {
+    return fs.existsSync(
+      path.join(this.workspaceRoot, ".mythatron", "index", "codebase-manifest.json")
+    );
+  }
+
+  private recordFile(relativePath: string): void {
+    const fullPath = path.join(this.workspaceRoot, relativePath);
+    try {
+      const stats = fs.statSync(fullPath);
+      const content = fs.readFileSync(fullPath, "utf-8");
+      this.manifest.record(relativePath, content, stats, {
+        language: this.getLanguage(path.extname(relativePath).toLowerCase()),
+        lines: content.split("\n").length,
+      });
+    } catch {
+      // Skip files we can't read
+      this.manifest.delete(relativePath);
+    }
+  }
+
+  /**
+   * Recompute totals from the current file set and manifest
+   */
+  private refreshIndex(): void {
+    const files = [...this.files.values()];
+    let totalLines = 0;
+    const languages: Record<string, number> = {};
+
+    for (const file of files) {
+      const stats = this.manifest.get(file.relativePath);
+      if (!stats) continue;
+
+      totalLines += stats.lines;
+      languages[file.language] = (languages[file.language] || 0) + 1;
+    }
+
+    this.index = {
+      workspaceRoot: this.workspaceRoot,
+      files,
+      totalFiles: files.length,
+      totalLines,
+      languages,
+      lastIndexed: new Date(),
+    };
+  }
+
   private async scanDirectory(
     dir: string,
     files: FileInfo[],
@@ -336,4 +466,17 @@ export class CodebaseIndexer {
   }
 }
 
+// Singleton
+let codebaseIndexer: CodebaseIndexer | null = null;
+
+export function getCodebaseIndexer(): CodebaseIndexer {
+  if (!codebaseIndexer) {
+    codebaseIndexer = new CodebaseIndexer();
+  }
+  return codebaseIndexer;
+}
 
+export function initCodebaseIndexer(workspaceRoot: string): CodebaseIndexer {
+  codebaseIndexer = new CodebaseIndexer(workspaceRoot);
+  return codebaseIndexer;
+}
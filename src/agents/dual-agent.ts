@@ -10,21 +10,31 @@
  * - Debate: Agents debate until consensus
  * - Ensemble: Both generate, best answer selected
  * - Chain-of-Thought: Deep reasoning with verification
+ *
+ * Every agent can use the tools its role permits (see orchestration.ts),
+ * so a critic can read the code and run the tests it is judging.
  */
 
 import * as vscode from "vscode";
-import { getProviderManager } from "../providers";
 import { Message, CompletionResponse, ToolDefinition } from "../providers/types";
+import {
+  AgentOrchestrator,
+  AgentRole,
+  TranscriptEntry,
+  ScratchpadEntry,
+  formatTranscript,
+} from "./orchestration";
 
 export type DualAgentMode = "sequential" | "debate" | "ensemble" | "chain-of-thought";
 
 export interface AgentConfig {
   name: string;
-  role: "generator" | "critic" | "verifier" | "synthesizer";
+  role: AgentRole;
   provider?: string; // anthropic, openai, groq, ollama
   model?: string;
   temperature?: number;
   systemPrompt?: string;
+  tools?: string[]; // tool groups (read, write, terminal) or tool names; defaults by role
 }
 
 export interface DualAgentConfig {
@@ -35,6 +45,7 @@ export interface DualAgentConfig {
   consensusThreshold: number; // 0-1, how similar responses must be
   enableThinking: boolean;
   debugMode: boolean;
+  maxToolRounds: number; // tool call rounds per agent turn
 }
 
 export interface DualAgentResult {
@@ -47,8 +58,12 @@ export interface DualAgentResult {
   confidence: number;
   totalTokens: number;
   totalCost: number;
+  transcript: TranscriptEntry[];
+  scratchpad: ScratchpadEntry[];
 }
 
+type ModeResult = Omit<DualAgentResult, "transcript" | "scratchpad">;
+
 const DEFAULT_GENERATOR_PROMPT = `You are a Generator agent. Your role is to:
 1. Analyze the user's request thoroughly
 2. Generate a comprehensive, well-reasoned response
@@ -89,6 +104,8 @@ Your output should be the definitive answer incorporating all valuable insights.
 export class DualAgentSystem {
   private config: DualAgentConfig;
   private outputChannel?: vscode.OutputChannel;
+  private orchestrator = new AgentOrchestrator((message) => this.log(message));
+  private toolFilter?: ToolDefinition[];
   private totalTokens: number = 0;
   private totalCost: number = 0;
 
@@ -111,6 +128,7 @@ export class DualAgentSystem {
       consensusThreshold: 0.8,
       enableThinking: true,
       debugMode: false,
+      maxToolRounds: 8,
       ...config,
     };
   }
@@ -132,7 +150,8 @@ export class DualAgentSystem {
   }
 
   /**
-   * Execute dual agent reasoning
+   * Execute dual agent reasoning.
+   * When tools is given, agents are only offered those of its tools their role permits.
    */
   async execute(
     query: string,
@@ -141,19 +160,31 @@ export class DualAgentSystem {
   ): Promise<DualAgentResult> {
     this.totalTokens = 0;
     this.totalCost = 0;
+    this.toolFilter = tools;
+    this.orchestrator.reset();
 
+    let result: ModeResult;
     switch (this.config.mode) {
-      case "sequential":
-        return this.executeSequential(query, context, tools);
       case "debate":
-        return this.executeDebate(query, context, tools);
+        result = await this.executeDebate(query, context);
+        break;
       case "ensemble":
-        return this.executeEnsemble(query, context, tools);
+        result = await this.executeEnsemble(query, context);
+        break;
       case "chain-of-thought":
-        return this.executeChainOfThought(query, context, tools);
+        result = await this.executeChainOfThought(query, context);
+        break;
       default:
-        return this.executeSequential(query, context, tools);
+        result = await this.executeSequential(query, context);
+    }
+
+    const transcript = this.orchestrator.getTranscript();
+    const actions = transcript.filter((e) => e.kind !== "message");
+    if (result.thinking && actions.length > 0) {
+      result.thinking += `## Agent Actions\n${formatTranscript(actions)}\n\n`;
     }
+
+    return { ...result, transcript, scratchpad: this.orchestrator.getScratchpad() };
   }
 
   /**
@@ -161,9 +192,8 @@ export class DualAgentSystem {
    */
   private async executeSequential(
     query: string,
-    context?: string,
-    tools?: ToolDefinition[]
-  ): Promise<DualAgentResult> {
+    context?: string
+  ): Promise<ModeResult> {
     const agent1Outputs: string[] = [];
     const agent2Outputs: string[] = [];
     let currentResponse = "";
@@ -178,8 +208,7 @@ export class DualAgentSystem {
       [
         { role: "system", content: this.config.agent1.systemPrompt || DEFAULT_GENERATOR_PROMPT },
         { role: "user", content: context ? `Context:\n${context}\n\nQuery: ${query}` : query },
-      ],
-      tools
+      ]
     );
     currentResponse = generatorResponse.content;
     agent1Outputs.push(currentResponse);
@@ -208,8 +237,7 @@ export class DualAgentSystem {
         { role: "user", content: query },
         { role: "assistant", content: currentResponse },
         { role: "user", content: `Please refine your response based on this feedback:\n${criticResponse.content}` },
-      ],
-      tools
+      ]
     );
     agent1Outputs.push(refinedResponse.content);
     thinking += `## Refined Response\n${refinedResponse.content}\n\n`;
@@ -232,9 +260,8 @@ export class DualAgentSystem {
    */
   private async executeDebate(
     query: string,
-    context?: string,
-    tools?: ToolDefinition[]
-  ): Promise<DualAgentResult> {
+    context?: string
+  ): Promise<ModeResult> {
     const agent1Outputs: string[] = [];
     const agent2Outputs: string[] = [];
     let thinking = "";
@@ -246,8 +273,7 @@ export class DualAgentSystem {
     // Initial positions
     const agent1Initial = await this.callAgent(
       { ...this.config.agent1, systemPrompt: `You are debating agent. Take a clear position and defend it with reasoning. ${this.config.agent1.systemPrompt || ""}` },
-      [{ role: "user", content: context ? `${context}\n\n${query}` : query }],
-      tools
+      [{ role: "user", content: context ? `${context}\n\n${query}` : query }]
     );
     agent1Outputs.push(agent1Initial.content);
     thinking += `## Round 1 - Agent 1\n${agent1Initial.content}\n\n`;
@@ -258,8 +284,7 @@ export class DualAgentSystem {
         { role: "user", content: query },
         { role: "assistant", content: `Other agent says: ${agent1Initial.content}` },
         { role: "user", content: "What is your perspective? Do you agree or disagree? Why?" },
-      ],
-      tools
+      ]
     );
     agent2Outputs.push(agent2Initial.content);
     thinking += `## Round 1 - Agent 2\n${agent2Initial.content}\n\n`;
@@ -332,9 +357,8 @@ export class DualAgentSystem {
    */
   private async executeEnsemble(
     query: string,
-    context?: string,
-    tools?: ToolDefinition[]
-  ): Promise<DualAgentResult> {
+    context?: string
+  ): Promise<ModeResult> {
     this.log("Starting Ensemble mode");
     let thinking = "";
 
@@ -345,16 +369,14 @@ export class DualAgentSystem {
         [
           { role: "system", content: this.config.agent1.systemPrompt || "Generate the best possible response." },
           { role: "user", content: context ? `${context}\n\n${query}` : query },
-        ],
-        tools
+        ]
       ),
       this.callAgent(
         this.config.agent2,
         [
           { role: "system", content: this.config.agent2.systemPrompt || "Generate the best possible response." },
           { role: "user", content: context ? `${context}\n\n${query}` : query },
-        ],
-        tools
+        ]
       ),
     ]);
 
@@ -391,9 +413,8 @@ export class DualAgentSystem {
    */
   private async executeChainOfThought(
     query: string,
-    context?: string,
-    tools?: ToolDefinition[]
-  ): Promise<DualAgentResult> {
+    context?: string
+  ): Promise<ModeResult> {
     this.log("Starting Chain-of-Thought mode");
     let thinking = "";
     const agent1Outputs: string[] = [];
@@ -418,8 +439,7 @@ export class DualAgentSystem {
         { role: "user", content: query },
         { role: "assistant", content: breakdown.content },
         { role: "user", content: "Now solve each step you identified. Show your work and reasoning clearly." },
-      ],
-      tools
+      ]
     );
     agent1Outputs.push(solution.content);
     thinking += `## Step 2: Solution\n${solution.content}\n\n`;
@@ -444,8 +464,7 @@ export class DualAgentSystem {
           { role: "user", content: query },
           { role: "assistant", content: solution.content },
           { role: "user", content: `The verifier found issues:\n${verification.content}\n\nPlease fix these issues and provide a corrected solution.` },
-        ],
-        tools
+        ]
       );
       agent1Outputs.push(refined.content);
       thinking += `## Step 4: Refined Solution\n${refined.content}\n\n`;
@@ -466,30 +485,18 @@ export class DualAgentSystem {
   }
 
   /**
-   * Call an agent with messages
+   * Call an agent with messages, running any tool calls its role permits
    */
-  private async callAgent(
-    agent: AgentConfig,
-    messages: Message[],
-    tools?: ToolDefinition[]
-  ): Promise<CompletionResponse> {
-    const provider = getProviderManager();
-
-    // Use agent-specific model if configured, otherwise use default
-    const response = await provider.complete({
-      messages,
-      tools,
-      temperature: agent.temperature,
+  private async callAgent(agent: AgentConfig, messages: Message[]): Promise<CompletionResponse> {
+    const response = await this.orchestrator.run(agent, messages, {
+      tools: this.toolFilter,
+      maxToolRounds: this.config.maxToolRounds,
     });
 
-    // Track tokens and cost
-    if (response.usage) {
-      this.totalTokens += response.usage.inputTokens + response.usage.outputTokens;
-      // Estimate cost (rough approximation based on model)
-      const inputCost = (response.usage.inputTokens / 1_000_000) * 3; // ~$3/M input
-      const outputCost = (response.usage.outputTokens / 1_000_000) * 15; // ~$15/M output
-      this.totalCost += inputCost + outputCost;
-    }
+    // Track tokens and cost across every agent turn of this run
+    const usage = this.orchestrator.getUsage();
+    this.totalTokens = usage.tokens;
+    this.totalCost = usage.cost;
 
     return response;
   }
@@ -554,7 +561,7 @@ export class DualAgentSystem {
 
 // Preset configurations
 export const DUAL_AGENT_PRESETS = {
-  // Code review: Generator writes, Critic reviews
+  // Code review: Generator writes, Critic reviews and runs the tests
   codeReview: {
     mode: "sequential" as DualAgentMode,
     agent1: {
@@ -596,7 +603,7 @@ export const DUAL_AGENT_PRESETS = {
     debugMode: false,
   },
 
-  // Creative: Generate multiple options
+  // Creative: Generate multiple options (read-only, since both run in parallel)
   creative: {
     mode: "ensemble" as DualAgentMode,
     agent1: {
@@ -604,12 +611,14 @@ export const DUAL_AGENT_PRESETS = {
       role: "generator" as const,
       systemPrompt: "You are highly creative. Think outside the box and generate innovative solutions.",
       temperature: 0.9,
+      tools: ["read"],
     },
     agent2: {
       name: "Creative2",
       role: "generator" as const,
       systemPrompt: "You are creative but practical. Generate solutions that are both innovative and feasible.",
       temperature: 0.7,
+      tools: ["read"],
     },
     maxIterations: 1,
     consensusThreshold: 0.5,
@@ -617,7 +626,7 @@ export const DUAL_AGENT_PRESETS = {
     debugMode: false,
   },
 
-  // Debate: Multiple perspectives
+  // Debate: Multiple perspectives, argued from the code and test runs
   debate: {
     mode: "debate" as DualAgentMode,
     agent1: {
@@ -625,6 +634,7 @@ export const DUAL_AGENT_PRESETS = {
       role: "generator" as const,
       systemPrompt: "You advocate for the proposed approach. Highlight benefits and address concerns.",
       temperature: 0.6,
+      tools: ["read", "run_terminal_command"],
     },
     agent2: {
       name: "Skeptic",
@@ -11,4 +11,25 @@ export {
   DualAgentResult,
   AgentConfig,
 } from "./dual-agent";
-
+export {
+  AgentOrchestrator,
+  AgentRole,
+  ToolGroup,
+  TOOL_GROUPS,
+  ROLE_TOOL_ACCESS,
+  TranscriptEntry,
+  ScratchpadEntry,
+  resolveToolAccess,
+  formatTranscript,
+} from "./orchestration";
+export {
+  WorkflowEngine,
+  getWorkflowEngine,
+  loadWorkflows,
+  validateWorkflow,
+  formatWorkflowReport,
+  WorkflowDefinition,
+  WorkflowAgentConfig,
+  WorkflowStep,
+  WorkflowRunResult,
+} from "./workflow";
@@ -0,0 +1,391 @@
+/**
+ * Agent Orchestration - Tool access for cooperating agents
+ *
+ * Lets any agent in a multi-agent run call the ToolExecutor tool set,
+ * restricted by per-role permissions:
+ * - Generator: read, write and terminal
+ * - Critic / Verifier: read-only plus run_terminal_command, so claims
+ *   can be checked by actually running the tests
+ * - Synthesizer: read-only
+ *
+ * Tool calls run through the engine, so they get the same confirmation
+ * policy, MCP approvals and edit attribution as the main agent. Agents
+ * share a scratchpad for notes, and every message, tool call and result is
+ * recorded in a transcript tagged with the agent that made it.
+ */
+
+import { tools as toolDefinitions, ToolName } from "../tools/definitions";
+import { getMythaTron } from "../engine/mythatron";
+import { getProviderManager } from "../providers";
+import {
+  Message,
+  ContentBlock,
+  ToolResultBlock,
+  ToolDefinition,
+  CompletionResponse,
+  ProviderType,
+} from "../providers/types";
+
+export type AgentRole = "generator" | "critic" | "verifier" | "synthesizer";
+
+export type ToolGroup = "read" | "write" | "terminal";
+
+/** Tool groups an agent may be granted; individual tool names also work */
+export const TOOL_GROUPS: Record<ToolGroup, ToolName[]> = {
+  read: [
+    "read_file",
+    "list_directory",
+    "codebase_search",
+    "grep",
+    "search_files",
+    "get_diagnostics",
+    "get_definition",
+    "get_references",
+    "get_hover_info",
+    "find_implementations",
+    "workspace_symbols",
+    "document_symbols",
+    "call_hierarchy",
+    "type_hierarchy",
+    "get_code_actions",
+    "get_git_status",
+    "git_diff",
+    "git_log",
+    "git_blame",
+    "get_workspace_info",
+    "get_open_files",
+    "list_checkpoints",
+    "diff_checkpoint",
+    "list_running_jobs",
+    "read_terminal_output",
+  ],
+  write: [
+    "write_file",
+    "edit_file",
+    "multi_edit",
+    "apply_diff",
+    "create_directory",
+    "delete_file",
+    "rename_file",
+    "copy_file",
+    "edit_notebook",
+    "rename_symbol",
+    "apply_code_action",
+    "format_document",
+  ],
+  terminal: ["run_terminal_command", "kill_job", "send_job_input"],
+};
+
+/** Default tool access per role */
+export const ROLE_TOOL_ACCESS: Record<AgentRole, string[]> = {
+  generator: ["read", "write", "terminal"],
+  critic: ["read", "run_terminal_command"],
+  verifier: ["read", "run_terminal_command"],
+  synthesizer: ["read"],
+};
+
+export interface TranscriptEntry {
+  agent: string;
+  role: AgentRole;
+  kind: "message" | "tool_call" | "tool_result" | "scratchpad";
+  content: string;
+  toolName?: string;
+  toolInput?: Record<string, unknown>;
+  isError?: boolean;
+  durationMs?: number;
+  timestamp: Date;
+}
+
+export interface ScratchpadEntry {
+  agent: string;
+  note: string;
+  timestamp: Date;
+}
+
+/** Minimal view of an agent needed to run it with tools */
+export interface OrchestratedAgent {
+  name: string;
+  role: AgentRole;
+  temperature?: number;
+  /** Tool groups and/or tool names; defaults to ROLE_TOOL_ACCESS[role] */
+  tools?: string[];
+  /** Pin this agent to one provider instead of smart routing */
+  provider?: string;
+}
+
+export interface AgentTurnOptions {
+  /** Restrict the offered tools to these definitions (intersected with permissions) */
+  tools?: ToolDefinition[];
+  maxToolRounds?: number;
+  /** Called after every completion this turn makes */
+  onUsage?: (response: CompletionResponse, latencyMs: number) => void;
+}
+
+const SCRATCHPAD_TOOLS: ToolDefinition[] = [
+  {
+    name: "scratchpad_read",
+    description: "Read the notes shared between all agents in this run.",
+    input_schema: { type: "object", properties: {}, required: [] },
+  },
+  {
+    name: "scratchpad_write",
+    description:
+      "Add a note to the scratchpad shared with the other agents, e.g. findings, test results or open questions.",
+    input_schema: {
+      type: "object",
+      properties: { note: { type: "string", description: "The note to share" } },
+      required: ["note"],
+    },
+  },
+];
+
+const MAX_RESULT_CHARS = 20000;
+
+/**
+ * Resolve an agent's granted groups and names to a set of tool names
+ */
+export function resolveToolAccess(agent: OrchestratedAgent): Set<string> {
+  const grants = agent.tools ?? ROLE_TOOL_ACCESS[agent.role] ?? [];
+  const allowed = new Set<string>();
+  for (const grant of grants) {
+    const group = TOOL_GROUPS[grant as ToolGroup];
+    if (group) group.forEach((name) => allowed.add(name));
+    else allowed.add(grant);
+  }
+  return allowed;
+}
+
+/**
+ * Shared state for one multi-agent run: scratchpad, transcript and usage
+ */
+export class AgentOrchestrator {
+  private scratchpad: ScratchpadEntry[] = [];
+  private transcript: TranscriptEntry[] = [];
+  private tokens = 0;
+  private cost = 0;
+
+  constructor(private log: (message: string) => void = () => {}) {}
+
+  /**
+   * Start a fresh run
+   */
+  reset(): void {
+    this.scratchpad = [];
+    this.transcript = [];
+    this.tokens = 0;
+    this.cost = 0;
+  }
+
+  /**
+   * Run one agent turn, letting it call its permitted tools until it answers
+   */
+  async run(
+    agent: OrchestratedAgent,
+    messages: Message[],
+    options: AgentTurnOptions = {}
+  ): Promise<CompletionResponse> {
+    const toolDefs = this.toolsFor(agent, options.tools);
+    const conversation = this.withToolGuidance(agent, messages, toolDefs);
+    const maxRounds = options.maxToolRounds ?? 8;
+    const provider = getProviderManager();
+
+    for (let round = 0; ; round++) {
+      // Out of rounds: ask for an answer without tools
+      const offerTools = toolDefs.length > 0 && round < maxRounds;
+      const start = Date.now();
+      const response = await provider.complete(
+        {
+          messages: conversation,
+          tools: offerTools ? toolDefs : undefined,
+          temperature: agent.temperature,
+        },
+        { forceProvider: agent.provider as ProviderType | undefined }
+      );
+      this.trackUsage(response);
+      options.onUsage?.(response, Date.now() - start);
+
+      if (!offerTools || !response.toolCalls?.length) {
+        this.record(agent, { kind: "message", content: response.content });
+        return response;
+      }
+
+      if (response.content) {
+        this.record(agent, { kind: "message", content: response.content });
+      }
+
+      const assistantContent: ContentBlock[] = [];
+      if (response.content) assistantContent.push({ type: "text", text: response.content });
+      const results: ToolResultBlock[] = [];
+
+      for (const toolCall of response.toolCalls) {
+        assistantContent.push({
+          type: "tool_use",
+          id: toolCall.id,
+          name: toolCall.name,
+          input: toolCall.input,
+        });
+        const result = await this.executeTool(agent, toolCall.id, toolCall.name, toolCall.input, toolDefs);
+        results.push({
+          type: "tool_result",
+          toolUseId: toolCall.id,
+          content: result.content,
+          isError: result.isError || undefined,
+        });
+      }
+
+      conversation.push({ role: "assistant", content: assistantContent });
+      conversation.push({ role: "user", content: results });
+    }
+  }
+
+  getScratchpad(): ScratchpadEntry[] {
+    return [...this.scratchpad];
+  }
+
+  getTranscript(): TranscriptEntry[] {
+    return [...this.transcript];
+  }
+
+  getUsage(): { tokens: number; cost: number } {
+    return { tokens: this.tokens, cost: this.cost };
+  }
+
+  private toolsFor(agent: OrchestratedAgent, restrict?: ToolDefinition[]): ToolDefinition[] {
+    const allowed = resolveToolAccess(agent);
+    const offered = restrict ? new Set(restrict.map((t) => t.name)) : null;
+
+    const defs: ToolDefinition[] = toolDefinitions
+      .filter((t) => allowed.has(t.name) && (!offered || offered.has(t.name)))
+      .map((t) => ({
+        name: t.name,
+        description: t.description || "",
+        input_schema: {
+          type: "object" as const,
+          properties: t.input_schema.properties as Record<string, unknown>,
+          required: (t.input_schema.required || []) as string[],
+        },
+      }));
+
+    return defs.length > 0 ? [...defs, ...SCRATCHPAD_TOOLS] : defs;
+  }
+
+  private withToolGuidance(
+    agent: OrchestratedAgent,
+    messages: Message[],
+    toolDefs: ToolDefinition[]
+  ): Message[] {
+    const conversation = [...messages];
+    if (toolDefs.length === 0) return conversation;
+
+    const canWrite = toolDefs.some((t) => (TOOL_GROUPS.write as string[]).includes(t.name));
+    const canRun = toolDefs.some((t) => t.name === "run_terminal_command");
+    let guidance =
+      `You are ${agent.name} (${agent.role}) working with other agents. ` +
+      `Use your tools to check claims against the actual code instead of guessing.` +
+      (canRun ? " Run the tests or build when it would confirm or refute a claim." : "") +
+      (canWrite ? "" : " You cannot modify files; describe required changes instead.") +
+      " Share findings the other agents need with scratchpad_write.";
+
+    if (this.scratchpad.length > 0) {
+      guidance += `\n\n<scratchpad>\n${this.renderScratchpad()}\n</scratchpad>`;
+    }
+
+    const systemIndex = conversation.findIndex((m) => m.role === "system");
+    if (systemIndex >= 0 && typeof conversation[systemIndex].content === "string") {
+      conversation[systemIndex] = {
+        role: "system",
+        content: `${conversation[systemIndex].content}\n\n${guidance}`,
+      };
+    } else {
+      conversation.unshift({ role: "system", content: guidance });
+    }
+    return conversation;
+  }
+
+  private async executeTool(
+    agent: OrchestratedAgent,
+    toolUseId: string,
+    name: string,
+    input: Record<string, unknown>,
+    toolDefs: ToolDefinition[]
+  ): Promise<{ content: string; isError: boolean }> {
+    this.record(agent, { kind: "tool_call", content: `Calling ${name}`, toolName: name, toolInput: input });
+    this.log(`${agent.name} → ${name}`);
+
+    const start = Date.now();
+    let content: string;
+    let isError = false;
+
+    if (!toolDefs.some((t) => t.name === name)) {
+      content = `Permission denied: ${agent.name} (${agent.role}) may not use ${name}`;
+      isError = true;
+    } else if (name === "scratchpad_read") {
+      content = this.renderScratchpad() || "The scratchpad is empty";
+    } else if (name === "scratchpad_write") {
+      const note = String(input.note ?? "").trim();
+      if (note) {
+        this.scratchpad.push({ agent: agent.name, note, timestamp: new Date() });
+        this.record(agent, { kind: "scratchpad", content: note });
+      }
+      content = note ? "Note added" : "Empty note ignored";
+    } else {
+      try {
+        ({ content, isError } = await getMythaTron().runTool({ id: toolUseId, name, input }));
+      } catch (error) {
+        content = `Error: ${error instanceof Error ? error.message : String(error)}`;
+        isError = true;
+      }
+    }
+
+    if (content.length > MAX_RESULT_CHARS) {
+      content = content.slice(0, MAX_RESULT_CHARS) + `\n... (${content.length - MAX_RESULT_CHARS} more chars)`;
+    }
+
+    this.record(agent, {
+      kind: "tool_result",
+      content,
+      toolName: name,
+      isError: isError || undefined,
+      durationMs: Date.now() - start,
+    });
+    return { content, isError };
+  }
+
+  private renderScratchpad(): string {
+    return this.scratchpad.map((e) => `[${e.agent}] ${e.note}`).join("\n");
+  }
+
+  private record(agent: OrchestratedAgent, entry: Omit<TranscriptEntry, "agent" | "role" | "timestamp">): void {
+    this.transcript.push({ agent: agent.name, role: agent.role, timestamp: new Date(), ...entry });
+  }
+
+  private trackUsage(response: CompletionResponse): void {
+    if (!response.usage) return;
+    this.tokens += response.usage.inputTokens + response.usage.outputTokens;
+    this.cost += getProviderManager().estimateCost(response);
+  }
+}
+
+/**
+ * Render a transcript as markdown showing which agent did what
+ */
+export function formatTranscript(transcript: TranscriptEntry[]): string {
+  return transcript
+    .map((entry) => {
+      const who = `**${entry.agent}**`;
+      switch (entry.kind) {
+        case "tool_call":
+          return `${who} → \`${entry.toolName}\` ${JSON.stringify(entry.toolInput ?? {}).slice(0, 200)}`;
+        case "tool_result": {
+          const status = entry.isError ? "failed" : "ok";
+          const preview = entry.content.split("\n").slice(0, 5).join("\n");
+          return `${who} ← \`${entry.toolName}\` ${status} (${entry.durationMs}ms)\n\`\`\`\n${preview}\n\`\`\``;
+        }
+        case "scratchpad":
+          return `${who} 📝 ${entry.content}`;
+        default:
+          return `${who}: ${entry.content}`;
+      }
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,634 @@
+/**
+ * Agent Workflows - Declarative N-agent pipelines
+ *
+ * Workflows live in .mythatron/workflows/*.json. Each one names any number
+ * of agents (role, provider, prompt, tools) and wires steps into a DAG:
+ * steps run as soon as the steps they depend on finish, so independent
+ * branches run in parallel. A step with a `check` loops back when its
+ * output does not match, e.g. a verifier sending work back to the
+ * implementers. Tokens and costs are logged per agent through CostTracker.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { getCostTracker } from "../optimizations/cost-tracker";
+import type { CompletionResponse, Message } from "../providers/types";
+import {
+  AgentOrchestrator,
+  AgentRole,
+  OrchestratedAgent,
+  ROLE_TOOL_ACCESS,
+  ScratchpadEntry,
+  TranscriptEntry,
+  formatTranscript,
+} from "./orchestration";
+
+export interface WorkflowAgentConfig {
+  role: AgentRole;
+  provider?: "anthropic" | "openai" | "groq" | "ollama"; // default: smart routing
+  systemPrompt?: string;
+  temperature?: number;
+  tools?: string[]; // tool groups or names; default by role
+}
+
+export interface WorkflowStepCheck {
+  pass: string; // regex (case-insensitive) the output must match
+  retryFrom: string; // step to rerun from when it does not; this step or one it depends on
+  maxAttempts?: number; // runs of this step before the workflow fails (default 3)
+}
+
+export interface WorkflowStep {
+  id: string;
+  agent: string;
+  prompt?: string; // supports {{input}}, {{context}}, {{feedback}} and {{steps.<id>}}
+  dependsOn?: string[];
+  check?: WorkflowStepCheck;
+}
+
+export interface WorkflowDefinition {
+  id: string; // file name without .json
+  name: string;
+  description?: string;
+  agents: Record<string, WorkflowAgentConfig>;
+  steps: WorkflowStep[];
+  maxToolRounds?: number;
+}
+
+export type WorkflowStepStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+export interface WorkflowStepResult {
+  agent: string;
+  status: WorkflowStepStatus;
+  output: string;
+  runs: number;
+  error?: string;
+}
+
+export interface WorkflowAgentUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface WorkflowRunResult {
+  workflowId: string;
+  status: "passed" | "failed" | "cancelled";
+  output: string;
+  steps: Record<string, WorkflowStepResult>;
+  usage: Record<string, WorkflowAgentUsage>;
+  totalCost: number;
+  durationMs: number;
+  transcript: TranscriptEntry[];
+  scratchpad: ScratchpadEntry[];
+}
+
+export interface WorkflowRunOptions {
+  context?: string;
+  onProgress?: (message: string) => void;
+  token?: vscode.CancellationToken;
+}
+
+interface StepState extends WorkflowStepResult {
+  generation: number; // bumped on reset so a superseded run's output is dropped
+  feedback?: string;
+}
+
+const WORKFLOW_DIR = path.join(".mythatron", "workflows");
+
+const PROVIDERS = ["anthropic", "openai", "groq", "ollama"];
+
+const WORKFLOW_TEMPLATE: Omit<WorkflowDefinition, "id"> = {
+  name: "Team review",
+  description: "Plan, implement API and UI in parallel, review, then verify with the test suite",
+  agents: {
+    planner: {
+      role: "generator",
+      tools: ["read"],
+      systemPrompt: "You are a tech lead. Turn the request into a short, concrete plan split into API and UI work.",
+    },
+    api: { role: "generator", systemPrompt: "You implement the backend/API part of the plan." },
+    ui: { role: "generator", systemPrompt: "You implement the frontend/UI part of the plan." },
+    reviewer: {
+      role: "critic",
+      systemPrompt: "You are a senior reviewer. Read the changed files and point out bugs, missing tests and style problems.",
+    },
+    verifier: {
+      role: "verifier",
+      systemPrompt:
+        "Run the build and tests. Answer VERIFIED: yes only if they pass and the review's concerns are addressed, " +
+        "otherwise VERIFIED: no with the failures.",
+    },
+  },
+  steps: [
+    { id: "plan", agent: "planner" },
+    { id: "api", agent: "api", dependsOn: ["plan"], prompt: "Implement the API part of this plan:\n{{steps.plan}}" },
+    { id: "ui", agent: "ui", dependsOn: ["plan"], prompt: "Implement the UI part of this plan:\n{{steps.plan}}" },
+    { id: "review", agent: "reviewer", dependsOn: ["api", "ui"] },
+    {
+      id: "verify",
+      agent: "verifier",
+      dependsOn: ["review"],
+      check: { pass: "VERIFIED:\\s*yes", retryFrom: "api", maxAttempts: 3 },
+    },
+  ],
+};
+
+export function getWorkflowDir(workspacePath: string): string {
+  return path.join(workspacePath, WORKFLOW_DIR);
+}
+
+/**
+ * Read every workflow in .mythatron/workflows. Files with problems are
+ * skipped and reported rather than half-loaded.
+ */
+export function loadWorkflows(workspacePath: string): {
+  workflows: WorkflowDefinition[];
+  problems: string[];
+} {
+  const dir = getWorkflowDir(workspacePath);
+  if (!fs.existsSync(dir)) return { workflows: [], problems: [] };
+
+  const workflows: WorkflowDefinition[] = [];
+  const problems: string[] = [];
+
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".json")).sort()) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8"));
+    } catch (error) {
+      problems.push(`${file}: Invalid JSON: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    const id = path.basename(file, ".json");
+    const errors = validateWorkflow(raw);
+    if (errors.length > 0) {
+      problems.push(...errors.map((e) => `${file}: ${e}`));
+      continue;
+    }
+
+    const definition = raw as Omit<WorkflowDefinition, "id">;
+    workflows.push({ ...definition, id, name: definition.name || id });
+  }
+
+  return { workflows, problems };
+}
+
+/**
+ * Write the example workflow if the folder has none yet
+ */
+export function ensureWorkflowTemplate(workspacePath: string): string {
+  const dir = getWorkflowDir(workspacePath);
+  const templatePath = path.join(dir, "team-review.json");
+  const existing = fs.existsSync(dir) ? fs.readdirSync(dir).filter((f) => f.endsWith(".json")) : [];
+
+  if (existing.length > 0) return path.join(dir, existing[0]);
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(templatePath, JSON.stringify(WORKFLOW_TEMPLATE, null, 2));
+  return templatePath;
+}
+
+/**
+ * Structural checks: known agents and roles, unique step ids, dependencies
+ * that exist, no cycles, and checks that retry from an upstream step
+ */
+export function validateWorkflow(raw: unknown): string[] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return ["Expected an object with \"agents\" and \"steps\""];
+  }
+
+  const workflow = raw as Partial<WorkflowDefinition>;
+  const errors: string[] = [];
+
+  const agents = workflow.agents;
+  if (!agents || typeof agents !== "object" || Array.isArray(agents) || Object.keys(agents).length === 0) {
+    errors.push("\"agents\" must be an object with at least one agent");
+  } else {
+    for (const [name, agent] of Object.entries(agents)) {
+      if (!agent || typeof agent !== "object") {
+        errors.push(`Agent "${name}" must be an object`);
+        continue;
+      }
+      if (!(agent.role in ROLE_TOOL_ACCESS)) {
+        errors.push(`Agent "${name}" has unknown role "${agent.role}"`);
+      }
+      if (agent.provider !== undefined && !PROVIDERS.includes(agent.provider)) {
+        errors.push(`Agent "${name}" has unknown provider "${agent.provider}"`);
+      }
+      if (agent.tools !== undefined && !(Array.isArray(agent.tools) && agent.tools.every((t) => typeof t === "string"))) {
+        errors.push(`Agent "${name}": "tools" must be an array of strings`);
+      }
+    }
+  }
+
+  if (!Array.isArray(workflow.steps) || workflow.steps.length === 0) {
+    errors.push("\"steps\" must be a non-empty array");
+    return errors;
+  }
+
+  const steps = new Map<string, WorkflowStep>();
+  workflow.steps.forEach((step, index) => {
+    if (!step || typeof step.id !== "string" || !step.id) {
+      errors.push(`Step ${index + 1} needs an "id"`);
+    } else if (steps.has(step.id)) {
+      errors.push(`Duplicate step id "${step.id}"`);
+    } else {
+      steps.set(step.id, step);
+    }
+  });
+
+  for (const step of steps.values()) {
+    if (agents && typeof agents === "object" && !(step.agent in agents)) {
+      errors.push(`Step "${step.id}" uses unknown agent "${step.agent}"`);
+    }
+    for (const dep of step.dependsOn ?? []) {
+      if (!steps.has(dep)) errors.push(`Step "${step.id}" depends on unknown step "${dep}"`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  const cycle = findCycle([...steps.values()]);
+  if (cycle) {
+    errors.push(`Steps form a cycle: ${cycle.join(" → ")}`);
+    return errors;
+  }
+
+  for (const step of steps.values()) {
+    if (!step.check) continue;
+    try {
+      new RegExp(step.check.pass, "i");
+    } catch {
+      errors.push(`Step "${step.id}": invalid check pattern /${step.check.pass}/`);
+    }
+    const upstream = ancestorsOf(step.id, steps);
+    if (step.check.retryFrom !== step.id && !upstream.has(step.check.retryFrom)) {
+      errors.push(`Step "${step.id}" can only retry from itself or a step it depends on, not "${step.check.retryFrom}"`);
+    }
+  }
+
+  return errors;
+}
+
+function findCycle(steps: WorkflowStep[]): string[] | null {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const visiting: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (id: string): string[] | null => {
+    const index = visiting.indexOf(id);
+    if (index >= 0) return [...visiting.slice(index), id];
+    if (done.has(id)) return null;
+
+    visiting.push(id);
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    visiting.pop();
+    done.add(id);
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+function ancestorsOf(id: string, steps: Map<string, WorkflowStep>): Set<string> {
+  const found = new Set<string>();
+  const queue = [...(steps.get(id)?.dependsOn ?? [])];
+  while (queue.length > 0) {
+    const next = queue.pop()!;
+    if (found.has(next)) continue;
+    found.add(next);
+    queue.push(...(steps.get(next)?.dependsOn ?? []));
+  }
+  return found;
+}
+
+function descendantsOf(id: string, steps: WorkflowStep[]): Set<string> {
+  const found = new Set<string>([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const step of steps) {
+      if (!found.has(step.id) && (step.dependsOn ?? []).some((dep) => found.has(dep))) {
+        found.add(step.id);
+        grew = true;
+      }
+    }
+  }
+  return found;
+}
+
+export class WorkflowEngine {
+  private outputChannel?: vscode.OutputChannel;
+
+  setOutputChannel(channel: vscode.OutputChannel): void {
+    this.outputChannel = channel;
+  }
+
+  /**
+   * Run a workflow to completion, starting each step once its dependencies are done
+   */
+  async run(workflow: WorkflowDefinition, input: string, options: WorkflowRunOptions = {}): Promise<WorkflowRunResult> {
+    const startedAt = Date.now();
+    const orchestrator = new AgentOrchestrator((message) => this.log(message));
+    const usage: Record<string, WorkflowAgentUsage> = {};
+    const states = new Map<string, StepState>(
+      workflow.steps.map((step) => [
+        step.id,
+        { agent: step.agent, status: "pending", output: "", runs: 0, generation: 0 },
+      ])
+    );
+    const running = new Map<string, Promise<void>>();
+    const report = (message: string) => {
+      this.log(message);
+      options.onProgress?.(message);
+    };
+
+    const startStep = (step: WorkflowStep): void => {
+      const state = states.get(step.id)!;
+      const generation = state.generation;
+      state.status = "running";
+      state.runs++;
+      report(`${step.id}: ${step.agent} working${state.runs > 1 ? ` (run ${state.runs})` : ""}`);
+
+      const task = this.runStep(workflow, step, input, options.context, states, orchestrator, usage).then(
+        (output) => {
+          if (state.generation !== generation) return;
+          state.output = output;
+          state.status = "done";
+          this.applyCheck(workflow, step, states, report);
+        },
+        (error) => {
+          if (state.generation !== generation) return;
+          state.status = "failed";
+          state.error = error instanceof Error ? error.message : String(error);
+          report(`${step.id} failed: ${state.error}`);
+        }
+      );
+      running.set(step.id, task.finally(() => running.delete(step.id)));
+    };
+
+    for (;;) {
+      this.skipBlockedSteps(workflow, states);
+
+      if (!options.token?.isCancellationRequested) {
+        for (const step of workflow.steps) {
+          const state = states.get(step.id)!;
+          const ready = (step.dependsOn ?? []).every((dep) => states.get(dep)!.status === "done");
+          if (state.status === "pending" && ready && !running.has(step.id)) startStep(step);
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    const steps: Record<string, WorkflowStepResult> = {};
+    for (const [id, state] of states) {
+      steps[id] = { agent: state.agent, status: state.status, output: state.output, runs: state.runs, error: state.error };
+    }
+
+    const cancelled = !!options.token?.isCancellationRequested && [...states.values()].some((s) => s.status === "pending");
+    const passed = [...states.values()].every((s) => s.status === "done");
+
+    return {
+      workflowId: workflow.id,
+      status: cancelled ? "cancelled" : passed ? "passed" : "failed",
+      output: this.collectOutput(workflow, states),
+      steps,
+      usage,
+      totalCost: Object.values(usage).reduce((sum, u) => sum + u.cost, 0),
+      durationMs: Date.now() - startedAt,
+      transcript: orchestrator.getTranscript(),
+      scratchpad: orchestrator.getScratchpad(),
+    };
+  }
+
+  private async runStep(
+    workflow: WorkflowDefinition,
+    step: WorkflowStep,
+    input: string,
+    context: string | undefined,
+    states: Map<string, StepState>,
+    orchestrator: AgentOrchestrator,
+    usage: Record<string, WorkflowAgentUsage>
+  ): Promise<string> {
+    const config = workflow.agents[step.agent];
+    const agent: OrchestratedAgent = {
+      name: step.agent,
+      role: config.role,
+      temperature: config.temperature,
+      tools: config.tools,
+      provider: config.provider,
+    };
+
+    const messages: Message[] = [
+      {
+        role: "system",
+        content: config.systemPrompt || `You are ${step.agent}, the ${config.role} in the "${workflow.name}" workflow.`,
+      },
+      { role: "user", content: this.renderPrompt(workflow, step, input, context, states) },
+    ];
+
+    const response = await orchestrator.run(agent, messages, {
+      maxToolRounds: workflow.maxToolRounds,
+      onUsage: (completion, latencyMs) => this.trackUsage(workflow, step, completion, latencyMs, usage),
+    });
+    return response.content;
+  }
+
+  /**
+   * Fill the step's template; without one, hand it the task and its inputs
+   */
+  private renderPrompt(
+    workflow: WorkflowDefinition,
+    step: WorkflowStep,
+    input: string,
+    context: string | undefined,
+    states: Map<string, StepState>
+  ): string {
+    const feedback = states.get(step.id)!.feedback ?? "";
+    const template = step.prompt ?? this.defaultPrompt(workflow, step, context);
+
+    let prompt = template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, key: string) => {
+      if (key === "input") return input;
+      if (key === "context") return context ?? "";
+      if (key === "feedback") return feedback;
+      if (key.startsWith("steps.")) return states.get(key.slice("steps.".length))?.output ?? match;
+      return match;
+    });
+
+    if (feedback && !/\{\{\s*feedback\s*\}\}/.test(template)) {
+      prompt += `\n\nThe previous attempt was sent back with this feedback:\n${feedback}\n\nAddress these problems.`;
+    }
+    return prompt;
+  }
+
+  private defaultPrompt(workflow: WorkflowDefinition, step: WorkflowStep, context?: string): string {
+    let prompt = "Task: {{input}}";
+    if (context) prompt += "\n\nContext:\n{{context}}";
+    for (const dep of step.dependsOn ?? []) {
+      const agent = workflow.steps.find((s) => s.id === dep)?.agent;
+      prompt += `\n\n## Output of ${dep} (${agent})\n{{steps.${dep}}}`;
+    }
+    return prompt;
+  }
+
+  /**
+   * A failed check resets its retry point and everything downstream of it
+   */
+  private applyCheck(
+    workflow: WorkflowDefinition,
+    step: WorkflowStep,
+    states: Map<string, StepState>,
+    report: (message: string) => void
+  ): void {
+    if (!step.check) return;
+
+    const state = states.get(step.id)!;
+    if (new RegExp(step.check.pass, "i").test(state.output)) {
+      report(`${step.id}: check passed`);
+      return;
+    }
+
+    const maxAttempts = step.check.maxAttempts ?? 3;
+    if (state.runs >= maxAttempts) {
+      state.status = "failed";
+      state.error = `Check /${step.check.pass}/ did not pass after ${state.runs} attempts`;
+      report(`${step.id}: ${state.error}`);
+      return;
+    }
+
+    const feedback = `${step.id} (${step.agent}):\n${state.output}`;
+    for (const id of descendantsOf(step.check.retryFrom, workflow.steps)) {
+      const target = states.get(id)!;
+      target.status = "pending";
+      target.generation++;
+      target.feedback = feedback;
+    }
+    report(`${step.id}: check failed, rerunning from ${step.check.retryFrom}`);
+  }
+
+  /**
+   * Steps downstream of a failure can never run
+   */
+  private skipBlockedSteps(workflow: WorkflowDefinition, states: Map<string, StepState>): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const step of workflow.steps) {
+        const state = states.get(step.id)!;
+        if (state.status !== "pending") continue;
+        const blocked = (step.dependsOn ?? []).some((dep) => {
+          const status = states.get(dep)!.status;
+          return status === "failed" || status === "skipped";
+        });
+        if (blocked) {
+          state.status = "skipped";
+          changed = true;
+        }
+      }
+    }
+  }
+
+  private trackUsage(
+    workflow: WorkflowDefinition,
+    step: WorkflowStep,
+    response: CompletionResponse,
+    latencyMs: number,
+    usage: Record<string, WorkflowAgentUsage>
+  ): void {
+    if (!response.usage) return;
+
+    const log = getCostTracker().logRequest({
+      provider: response.provider,
+      model: response.model,
+      query: `${workflow.name} / ${step.id}`,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
+      latencyMs,
+      cached: response.model.endsWith("(cached)"),
+      category: `workflow:${workflow.id}/${step.agent}`,
+    });
+
+    const entry = (usage[step.agent] ??= { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+    entry.requests++;
+    entry.inputTokens += response.usage.inputTokens;
+    entry.outputTokens += response.usage.outputTokens;
+    entry.cost += log.cost;
+  }
+
+  /**
+   * The workflow's answer: the output of its final steps
+   */
+  private collectOutput(workflow: WorkflowDefinition, states: Map<string, StepState>): string {
+    const upstream = new Set(workflow.steps.flatMap((s) => s.dependsOn ?? []));
+    const finals = workflow.steps.filter((s) => !upstream.has(s.id) && states.get(s.id)!.status === "done");
+
+    if (finals.length === 1) return states.get(finals[0].id)!.output;
+    return finals.map((s) => `## ${s.id}\n${states.get(s.id)!.output}`).join("\n\n");
+  }
+
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[Workflow] ${message}`);
+  }
+}
+
+/**
+ * Markdown report of a run: step outcomes, per-agent cost and what each agent did
+ */
+export function formatWorkflowReport(workflow: WorkflowDefinition, result: WorkflowRunResult): string {
+  const lines = [
+    `# ${workflow.name}`,
+    "",
+    `**Status:** ${result.status} · ${(result.durationMs / 1000).toFixed(1)}s · $${result.totalCost.toFixed(4)}`,
+    "",
+    "## Steps",
+    "",
+    "| Step | Agent | Status | Runs |",
+    "|------|-------|--------|------|",
+    ...workflow.steps.map((step) => {
+      const s = result.steps[step.id];
+      return `| ${step.id} | ${s.agent} | ${s.status}${s.error ? ` (${s.error})` : ""} | ${s.runs} |`;
+    }),
+    "",
+    "## Cost by Agent",
+    "",
+    "| Agent | Requests | Input | Output | Cost |",
+    "|-------|----------|-------|--------|------|",
+    ...Object.entries(result.usage).map(
+      ([agent, u]) => `| ${agent} | ${u.requests} | ${u.inputTokens} | ${u.outputTokens} | $${u.cost.toFixed(4)} |`
+    ),
+    "",
+    "## Output",
+    "",
+    result.output || "_No output_",
+  ];
+
+  if (result.scratchpad.length > 0) {
+    lines.push("", "## Scratchpad", "", ...result.scratchpad.map((e) => `- **${e.agent}:** ${e.note}`));
+  }
+  if (result.transcript.length > 0) {
+    lines.push("", "## Transcript", "", formatTranscript(result.transcript));
+  }
+
+  return lines.join("\n");
+}
+
+// Singleton
+let engine: WorkflowEngine | null = null;
+
+export function getWorkflowEngine(): WorkflowEngine {
+  if (!engine) {
+    engine = new WorkflowEngine();
+  }
+  return engine;
+}
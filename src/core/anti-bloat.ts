@@ -16,6 +16,7 @@
 
 import * as crypto from "crypto";
 import * as vscode from "vscode";
+import { getRegressionTracker } from "../preflight/regressions";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ANTI-PATTERN DETECTION
@@ -30,7 +31,8 @@ export interface DetectedIssue {
     | "duplicate_request"
     | "wrong_model"
     | "incomplete_code"
-    | "hallucinated_file";
+    | "hallucinated_file"
+    | "error_regression";
   severity: "low" | "medium" | "high";
   message: string;
   suggestion: string;
@@ -411,23 +413,30 @@ export function recommendModel(prompt: string): ModelRecommendation {
 // ═══════════════════════════════════════════════════════════════════════════
 
 let errorCount = 0;
-let lastErrorCheck = Date.now();
 
 /**
- * Track error accumulation - warn before it gets out of hand
+ * Track error accumulation - warn before it gets out of hand, naming the
+ * agent edit most of the new errors came from
  */
-export function trackErrors(newErrors: number): DetectedIssue | null {
-  const now = Date.now();
-  const timeSinceLastCheck = now - lastErrorCheck;
-  lastErrorCheck = now;
+export function trackErrors(): DetectedIssue | null {
+  const tracker = getRegressionTracker();
+  const regressions = tracker.getRegressions();
+  const newErrors = regressions.length;
 
   // If errors are accumulating quickly
-  if (newErrors > errorCount + 3 && timeSinceLastCheck < 60000) {
+  if (newErrors > errorCount + 3) {
+    const byEdit = new Map<string, number>();
+    for (const regression of regressions) {
+      byEdit.set(regression.editId, (byEdit.get(regression.editId) ?? 0) + 1);
+    }
+    const [worstId, worstCount] = Array.from(byEdit).sort((a, b) => b[1] - a[1])[0];
+    const label = tracker.getEdit(worstId)?.label ?? "an earlier edit";
+
     const issue: DetectedIssue = {
-      type: "hallucinated_file",
+      type: "error_regression",
       severity: "high",
-      message: `Errors increasing: ${errorCount} → ${newErrors}`,
-      suggestion: "Stop and fix current errors before continuing",
+      message: `Errors increasing: ${errorCount} → ${newErrors} new errors, ${worstCount} from ${label}`,
+      suggestion: `Stop and fix current errors before continuing, or revert "${label}"`,
     };
     errorCount = newErrors;
     return issue;
@@ -442,7 +451,6 @@ export function trackErrors(newErrors: number): DetectedIssue | null {
  */
 export function resetErrorTracking(): void {
   errorCount = 0;
-  lastErrorCheck = Date.now();
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
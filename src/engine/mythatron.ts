@@ -16,10 +16,49 @@
  * 2. QUALITY BY DEFAULT - Validate continuously, catch errors early
  * 3. INTELLIGENT ROUTING - Right model for the right task
  * 4. ZERO WASTE - Cache everything, duplicate nothing
+ *
+ * Every entry point - chat, editor commands, project builds - runs through
+ * this engine: ProviderManager routes and caches requests, ToolExecutor
+ * carries out actions under the confirmation policy, and continuous
+ * validation feeds any errors the actions introduce back for another pass.
  */
 
 import * as path from "path";
+import * as fs from "fs";
 import * as vscode from "vscode";
+import { getProviderManager } from "../providers";
+import { getMCPManager } from "../mcp";
+import type { MCPApprovalPolicy } from "../mcp";
+import type {
+  Message,
+  ContentBlock,
+  ToolResultBlock,
+  ToolDefinition,
+  ToolCall,
+  TokenUsage,
+  TaskComplexity,
+} from "../providers/types";
+import { tools } from "../tools/definitions";
+import type { ToolName } from "../tools/definitions";
+import { ToolExecutor } from "../tools/executor";
+import { describeToolCall, getRegressionTracker } from "../preflight/regressions";
+import { extractThinkingBlocks, formatThinkingForDisplay } from "../features/thinking";
+import {
+  AgentState,
+  AgentConfig,
+  DEFAULT_AGENT_CONFIG,
+  shouldContinue,
+  needsConfirmation,
+  createToolCallStep,
+  createToolResultStep,
+  generateStepId,
+} from "../features/agent-loop";
+import {
+  getProjectBuilder,
+  ProjectPlan,
+  PlanExecutionOptions,
+  PlanStepOutcome,
+} from "./project-builder";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES & INTERFACES
@@ -33,7 +72,6 @@ export interface MythaTronConfig {
   ollamaUrl: string;
 
   // Behavior
-  smartRouting: boolean;
   aggressiveCaching: boolean;
   continuousValidation: boolean;
   autoFix: boolean;
@@ -89,6 +127,28 @@ export interface TaskAction {
   applied: boolean;
 }
 
+export interface ConversationOptions {
+  systemPrompt: string;
+  tools?: boolean; // offer the ToolExecutor tools (default true)
+  maxIterations?: number;
+  enableThinking?: boolean;
+  complexity?: TaskComplexity; // pin the routing tier instead of classifying
+  agentConfig?: Partial<AgentConfig>; // overrides the confirmation policy and limits
+  applyTextActions?: boolean; // write file blocks from a text answer when autoFix is on (default false)
+  onLog?: (message: string) => void;
+}
+
+export interface ConversationResult {
+  content: string;
+  thinking?: string;
+  toolCalls: ToolCall[];
+  actions: TaskAction[];
+  usage: TokenUsage;
+  model: string;
+  cached: boolean;
+  state: AgentState;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // THE MYTHATRON ENGINE
 // ═══════════════════════════════════════════════════════════════════════════
@@ -98,8 +158,8 @@ export class MythaTronEngine {
   private sessionId: string;
   private taskQueue: TaskRequest[] = [];
   private completedTasks: Map<string, TaskResult> = new Map();
-  private responseCache: Map<string, { result: TaskResult; expiry: number }> =
-    new Map();
+  private executor: ToolExecutor | null = null;
+  private approvedTools: Set<string> = new Set(); // MCP tools allowed for the session
 
   // Metrics
   private metrics = {
@@ -116,7 +176,6 @@ export class MythaTronEngine {
   constructor(config: Partial<MythaTronConfig> = {}) {
     this.config = {
       ollamaUrl: "http://localhost:11434",
-      smartRouting: true,
       aggressiveCaching: true,
       continuousValidation: true,
       autoFix: true,
@@ -139,31 +198,41 @@ export class MythaTronEngine {
   async process(request: TaskRequest): Promise<TaskResult> {
     const startTime = Date.now();
 
-    // 1. Check cache first (ZERO WASTE principle)
-    const cached = this.checkCache(request);
-    if (cached) {
-      this.metrics.cacheHits++;
-      return cached;
-    }
-
-    // 2. Select optimal model (INTELLIGENT ROUTING)
-    const model = this.selectModel(request);
-
-    // 3. Build optimized context (EFFICIENCY FIRST)
+    // 1. Build optimized context (EFFICIENCY FIRST)
     const context = await this.buildContext(request);
+    const prompt = context ? `${request.prompt}\n\n${context}` : request.prompt;
+
+    // 2. Run the conversation: routing and caching happen in ProviderManager,
+    //    actions go through ToolExecutor and are validated (QUALITY BY DEFAULT)
+    const history: Message[] = [{ role: "user", content: prompt }];
+    const run = await this.runConversation(history, {
+      systemPrompt: this.getSystemPrompt(request.type),
+      tools: this.usesTools(request.type),
+      enableThinking: request.options?.thinking,
+      applyTextActions: true,
+    });
 
-    // 4. Execute with validation (QUALITY BY DEFAULT)
-    const result = await this.execute(request, model, context);
-
-    // 5. Apply actions if auto-fix enabled
-    if (this.config.autoFix && result.actions) {
-      await this.applyActions(result.actions);
-    }
+    const endTime = Date.now();
+    const usage = {
+      ...run.usage,
+      cost: this.calculateCost(run.model, run.usage.inputTokens, run.usage.outputTokens),
+    };
 
-    // 6. Cache result
-    this.cacheResult(request, result);
+    const result: TaskResult = {
+      id: request.id,
+      success: !run.state.error,
+      content: run.content || run.state.error || "",
+      thinking: run.thinking,
+      actions: run.actions,
+      usage,
+      timing: { started: startTime, completed: endTime, duration: endTime - startTime },
+      cached: run.cached,
+      model: run.model,
+      savings: this.calculateSavings(run.model, usage),
+    };
 
-    // 7. Update metrics
+    // 3. Update metrics
+    this.completedTasks.set(request.id, result);
     this.updateMetrics(result);
 
     return result;
@@ -255,70 +324,377 @@ export class MythaTronEngine {
   }
 
   /**
-   * Build entire project from description
+   * Build entire project from description: plan, let the caller review or
+   * edit the saved plan, then execute it step by step
    */
-  async buildProject(description: string): Promise<TaskResult[]> {
-    const results: TaskResult[] = [];
+  async buildProject(
+    description: string,
+    options: PlanExecutionOptions & {
+      review?: (plan: ProjectPlan, planPath: string) => Promise<boolean>;
+    } = {}
+  ): Promise<TaskResult[]> {
+    const builder = getProjectBuilder();
+    const started = Date.now();
 
     // Phase 1: Plan
-    const plan = await this.process({
-      id: this.generateId(),
-      type: "chat",
-      prompt: `Plan the file structure and architecture for: ${description}`,
-      options: { thinking: true },
+    options.onProgress?.("Planning...");
+    const { plan, usage, model } = await builder.createPlan(description);
+    const planResult: TaskResult = {
+      id: plan.id,
+      success: true,
+      content: this.describePlan(plan),
+      usage: { ...usage, cost: this.calculateCost(model, usage.inputTokens, usage.outputTokens) },
+      timing: { started, completed: Date.now(), duration: Date.now() - started },
+      cached: false,
+      model,
+      savings: this.calculateSavings(model, usage),
+    };
+    this.updateMetrics(planResult);
+
+    // Phase 2: Review - the plan on disk may be edited before it runs
+    if (options.review && !(await options.review(plan, builder.getPlanPath(plan.id)))) {
+      return [planResult];
+    }
+
+    // Phase 3: Execute
+    return [planResult, ...(await this.resumeProject(plan.id, options))];
+  }
+
+  /**
+   * Run the remaining steps of a saved plan, e.g. after a failed step was fixed
+   */
+  async resumeProject(planId: string, options: PlanExecutionOptions = {}): Promise<TaskResult[]> {
+    const builder = getProjectBuilder();
+    const plan = builder.loadPlan(planId);
+    const outcomes = await builder.executePlan(plan, options);
+
+    return outcomes.map((outcome) => {
+      const result = this.toStepResult(outcome);
+      this.updateMetrics(result);
+      this.metrics.filesModified += outcome.files.length;
+      return result;
     });
-    results.push(plan);
+  }
 
-    // Phase 2: Generate files (would be expanded with actual implementation)
-    // This would iterate through the plan and create each file
+  private toStepResult(outcome: PlanStepOutcome): TaskResult {
+    const { usage, model } = outcome;
+    return {
+      id: outcome.stepId,
+      success: outcome.success,
+      content: outcome.message,
+      actions: outcome.files.map((file) => ({ type: "file_create" as const, file, applied: true })),
+      usage: { ...usage, cost: this.calculateCost(model, usage.inputTokens, usage.outputTokens) },
+      timing: { started: outcome.started, completed: outcome.completed, duration: outcome.completed - outcome.started },
+      cached: false,
+      model,
+      savings: this.calculateSavings(model, usage),
+    };
+  }
 
-    return results;
+  private describePlan(plan: ProjectPlan): string {
+    const steps = plan.steps.map(
+      (step, i) =>
+        `${i + 1}. ${step.title}${step.dependsOn.length ? ` (after ${step.dependsOn.join(", ")})` : ""}\n` +
+        step.files.map((f) => `   - ${f.path}: ${f.responsibility}`).join("\n")
+    );
+    return `${plan.summary}\n\n${steps.join("\n")}`;
   }
 
   // ─────────────────────────────────────────────────────────────────────────
-  // INTELLIGENT ROUTING
+  // CONVERSATION LOOP
   // ─────────────────────────────────────────────────────────────────────────
 
-  private selectModel(request: TaskRequest): string {
-    if (!this.config.smartRouting) {
-      return "claude-sonnet-4-20250514";
+  /**
+   * The one agent loop: call the model, run its tool calls (or the file
+   * blocks of a text-only answer), validate what changed and feed new errors
+   * back until the model is done. Appends every turn to history.
+   */
+  async runConversation(history: Message[], options: ConversationOptions): Promise<ConversationResult> {
+    const agentConfig = this.getAgentConfig(options.agentConfig);
+    const maxIterations = options.maxIterations || agentConfig.maxIterations;
+    const useTools = options.tools !== false;
+    const log = options.onLog ?? (() => {});
+
+    const state: AgentState = { steps: [], isComplete: false, totalTokens: 0, totalCost: 0 };
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const allToolCalls: ToolCall[] = [];
+    const actions: TaskAction[] = [];
+    let finalContent = "";
+    let thinkingContent = "";
+    let model = "";
+    let cached = false;
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      log(`Iteration ${iteration + 1}/${maxIterations}`);
+
+      const check = shouldContinue(state, agentConfig);
+      if (!check.continue) {
+        log(`Stopping: ${check.reason}`);
+        break;
+      }
+
+      try {
+        const response = await getProviderManager().complete(
+          {
+            messages: [{ role: "system", content: options.systemPrompt }, ...history],
+            // Rebuilt each turn so MCP servers' tool list changes show up
+            tools: useTools ? this.getToolDefinitions() : undefined,
+            maxTokens: Math.min(agentConfig.maxTokensPerIteration, this.config.maxTokensPerRequest),
+          },
+          { forceComplexity: options.complexity, useCache: this.config.aggressiveCaching }
+        );
+
+        // Update usage
+        const responseUsage = response.usage || { inputTokens: 0, outputTokens: 0 };
+        usage.inputTokens += responseUsage.inputTokens;
+        usage.outputTokens += responseUsage.outputTokens;
+        state.totalTokens += responseUsage.inputTokens + responseUsage.outputTokens;
+        state.totalCost += this.calculateCost(response.model, responseUsage.inputTokens, responseUsage.outputTokens);
+        model = response.model.replace(/ \(cached\)$/, "");
+        if (response.model.endsWith("(cached)")) cached = true;
+
+        // Extract thinking if present
+        if (options.enableThinking && response.content) {
+          const { thinking, content } = extractThinkingBlocks(response.content);
+          if (thinking.length > 0) {
+            thinkingContent += formatThinkingForDisplay(thinking) + "\n\n";
+            state.steps.push({
+              id: generateStepId(),
+              type: "thinking",
+              content: thinking.map((t) => t.content).join("\n"),
+              timestamp: new Date(),
+            });
+          }
+          finalContent = content;
+        } else {
+          finalContent = response.content;
+        }
+
+        if (response.toolCalls && response.toolCalls.length > 0) {
+          const toolResults: ToolResultBlock[] = [];
+
+          for (const toolCall of response.toolCalls) {
+            allToolCalls.push(toolCall);
+            state.steps.push(createToolCallStep(toolCall));
+            log(`Tool: ${toolCall.name}`);
+
+            const result = await this.executeTool(toolCall, agentConfig, state, actions);
+            toolResults.push({
+              type: "tool_result",
+              toolUseId: toolCall.id,
+              content: result.content,
+              isError: result.isError || undefined,
+            });
+            log(`Result: ${result.content.slice(0, 200)}...`);
+          }
+
+          // Keep the model's own tool calls so results pair up by id
+          const assistantContent: ContentBlock[] = [];
+          if (finalContent) {
+            assistantContent.push({ type: "text", text: finalContent });
+          }
+          for (const toolCall of response.toolCalls) {
+            assistantContent.push({ type: "tool_use", id: toolCall.id, name: toolCall.name, input: toolCall.input });
+          }
+          history.push({ role: "assistant", content: assistantContent });
+
+          // Add tool results, with any errors this round's edits introduced
+          const feedback = await this.collectValidationFeedback(response.toolCalls.map((toolCall) => toolCall.id));
+          if (feedback) log(`New errors attributed to edits:\n${feedback}`);
+          history.push({
+            role: "user",
+            content: feedback ? [...toolResults, { type: "text", text: feedback }] : toolResults,
+          });
+          continue;
+        }
+
+        history.push({ role: "assistant", content: finalContent });
+
+        // A text answer with file blocks: apply them the same way as tool calls.
+        // Only task modes ask for this; a chat answer's code blocks are just examples.
+        const textActions =
+          this.config.autoFix && useTools && options.applyTextActions ? this.parseActions(finalContent) : [];
+        if (textActions.length > 0) {
+          const ids = await this.applyActions(textActions, agentConfig, state);
+          actions.push(...textActions);
+
+          const feedback = await this.collectValidationFeedback(ids);
+          if (feedback) {
+            log(`New errors attributed to edits:\n${feedback}`);
+            history.push({ role: "user", content: feedback });
+            continue;
+          }
+        }
+
+        // Nothing left to do
+        state.isComplete = true;
+        state.steps.push({ id: generateStepId(), type: "response", content: finalContent, timestamp: new Date() });
+        break;
+      } catch (error) {
+        state.error = error instanceof Error ? error.message : String(error);
+        log(`Error: ${state.error}`);
+
+        if (agentConfig.stopOnError) {
+          break;
+        }
+      }
     }
 
-    const prompt = request.prompt.toLowerCase();
-    const type = request.type;
-
-    // TIER 0: Ollama (FREE) - Simple tasks
-    if (
-      type === "chat" ||
-      type === "explain" ||
-      prompt.length < 100 ||
-      /^(what|how|explain|list|show)\s/i.test(prompt) ||
-      /fix\s+(typo|spelling|indent)/i.test(prompt)
-    ) {
-      return "ollama:qwen2.5-coder:7b";
+    return {
+      content: finalContent,
+      thinking: thinkingContent || undefined,
+      toolCalls: allToolCalls,
+      actions,
+      usage,
+      model,
+      cached,
+      state,
+    };
+  }
+
+  /**
+   * Run a single tool call outside a conversation (the built-in MCP server,
+   * multi-agent runs) with the agent's confirmation policy
+   */
+  async runTool(toolCall: ToolCall): Promise<{ content: string; cancelled: boolean; isError: boolean }> {
+    const state: AgentState = { steps: [], isComplete: false, totalTokens: 0, totalCost: 0 };
+    return this.executeTool(toolCall, this.getAgentConfig(), state, []);
+  }
+
+  private getAgentConfig(overrides?: Partial<AgentConfig>): AgentConfig {
+    return {
+      ...DEFAULT_AGENT_CONFIG,
+      maxIterations: this.config.maxIterations,
+      requireConfirmation: vscode.workspace.getConfiguration("mythaTron").get("requireConfirmation", false),
+      ...overrides,
+    };
+  }
+
+  /**
+   * Run one tool call under the confirmation policy, attributing its writes
+   */
+  private async executeTool(
+    toolCall: ToolCall,
+    agentConfig: AgentConfig,
+    state: AgentState,
+    actions: TaskAction[]
+  ): Promise<{ content: string; cancelled: boolean; isError: boolean }> {
+    if (toolCall.error) {
+      return { content: `Error: ${toolCall.error}`, cancelled: true, isError: true };
     }
 
-    // TIER 1: Groq (very fast, cheap) - Code generation
-    if (type === "create" || /^(create|write|generate|add)\s/i.test(prompt)) {
-      return "groq:llama-3.1-70b-versatile";
+    if (!(await this.approveTool(toolCall, agentConfig))) {
+      const target = this.getApprovalTarget(toolCall);
+      return {
+        content: target.approval === "deny" ? `${target.name} is disabled in .mythatron/mcp.json` : "Tool execution cancelled by user",
+        cancelled: true,
+        isError: true,
+      };
     }
 
-    // TIER 2: Claude Sonnet - Refactoring, debugging
-    if (
-      type === "refactor" ||
-      type === "debug" ||
-      /refactor|debug|fix|review/i.test(prompt)
-    ) {
-      return "claude-sonnet-4-20250514";
+    const start = Date.now();
+    const { content, isError } = await getRegressionTracker().attribute(
+      describeToolCall(toolCall.name, toolCall.input),
+      toolCall.id,
+      () => this.getExecutor().execute(toolCall.name as ToolName, toolCall.input)
+    );
+    state.steps.push(createToolResultStep(toolCall.name, content, Date.now() - start));
+
+    // A failed tool changed nothing, so it isn't an action
+    const action = isError ? null : this.toAction(toolCall);
+    if (action) {
+      actions.push(action);
+      if (action.type !== "terminal") this.metrics.filesModified++;
     }
+    return { content, cancelled: false, isError };
+  }
 
-    // TIER 3: Claude Opus - Complex architecture
-    if (/architect|design|security|migration|critical/i.test(prompt)) {
-      return "claude-opus-4-20250514";
+  /**
+   * New errors the last actions introduced, once validation has caught up
+   */
+  private async collectValidationFeedback(toolCallIds: string[]): Promise<string | null> {
+    if (!this.config.continuousValidation || toolCallIds.length === 0) return null;
+    return getRegressionTracker().collectFeedback(toolCallIds);
+  }
+
+  /**
+   * Built-in tools follow the agent's confirmation policy; MCP tools follow
+   * the approval set for them in .mythatron/mcp.json
+   */
+  private async approveTool(toolCall: ToolCall, agentConfig: AgentConfig): Promise<boolean> {
+    const { name, approval } = this.getApprovalTarget(toolCall);
+
+    switch (approval) {
+      case undefined:
+        return !needsConfirmation(toolCall.name, toolCall.input, agentConfig) || this.askConfirmation(toolCall);
+      case "auto":
+        return true;
+      case "deny":
+        return false;
+      case "ask":
+        return this.askConfirmation(toolCall);
+      case "session": {
+        if (this.approvedTools.has(name)) return true;
+        const message = `Allow MCP tool ${name}?\n${JSON.stringify(toolCall.input, null, 2).slice(0, 200)}`;
+        const result = await vscode.window.showWarningMessage(message, { modal: true }, "Yes", "Allow for Session");
+        if (result === "Allow for Session") this.approvedTools.add(name);
+        return result !== undefined;
+      }
+    }
+  }
+
+  /**
+   * The MCP tool a call reaches and its approval policy. mcp_call names the
+   * server and tool in its input, so it gets that tool's policy; built-in
+   * tools have none.
+   */
+  private getApprovalTarget(toolCall: ToolCall): { name: string; approval: MCPApprovalPolicy | undefined } {
+    const mcp = getMCPManager();
+    if (toolCall.name === "mcp_call") {
+      return mcp.resolveCall(String(toolCall.input.server ?? ""), String(toolCall.input.tool ?? ""));
     }
+    return { name: toolCall.name, approval: mcp.getToolApproval(toolCall.name) };
+  }
+
+  private async askConfirmation(toolCall: ToolCall): Promise<boolean> {
+    const message = `Execute ${toolCall.name}?\n${JSON.stringify(toolCall.input, null, 2).slice(0, 200)}`;
+    const result = await vscode.window.showWarningMessage(message, { modal: true }, "Yes", "No");
+    return result === "Yes";
+  }
+
+  private getToolDefinitions(): ToolDefinition[] {
+    const builtIn = tools.map((t) => ({
+      name: t.name,
+      description: t.description || "",
+      input_schema: {
+        type: "object" as const,
+        properties: t.input_schema.properties as Record<string, unknown>,
+        required: (t.input_schema.required || []) as string[],
+      },
+    }));
+    return [...builtIn, ...getMCPManager().getToolDefinitions()];
+  }
+
+  private getSystemPrompt(type: TaskRequest["type"]): string {
+    const base = "You are MythaTron Code, an expert AI assistant for software development.";
+    const byType: Record<TaskRequest["type"], string> = {
+      chat: "Answer concisely.",
+      explain: "Explain the code clearly: what it does, how, and anything surprising.",
+      code: "Make the requested change with your tools. Read files before editing them.",
+      refactor: "Refactor without changing behavior. Edit the files with your tools.",
+      debug: "Find the root cause of the errors and fix them with your tools.",
+      create: "Create the requested code. Write files with your tools.",
+    };
+    return `${base}\n\n${byType[type]}`;
+  }
 
-    // Default to Sonnet
-    return "claude-sonnet-4-20250514";
+  private usesTools(type: TaskRequest["type"]): boolean {
+    return type !== "chat" && type !== "explain";
+  }
+
+  private getExecutor(): ToolExecutor {
+    if (!this.executor) this.executor = new ToolExecutor();
+    return this.executor;
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -372,117 +748,6 @@ export class MythaTronEngine {
     return parts.join("\n\n");
   }
 
-  // ─────────────────────────────────────────────────────────────────────────
-  // EXECUTION
-  // ─────────────────────────────────────────────────────────────────────────
-
-  private async execute(
-    request: TaskRequest,
-    model: string,
-    context: string
-  ): Promise<TaskResult> {
-    const startTime = Date.now();
-
-    // Build full prompt
-    const fullPrompt = context
-      ? `${request.prompt}\n\n${context}`
-      : request.prompt;
-
-    // This would call the actual LLM provider
-    // For now, return a placeholder
-    const response = await this.callModel(model, fullPrompt, request.options);
-
-    const endTime = Date.now();
-
-    return {
-      id: request.id,
-      success: true,
-      content: response.content,
-      thinking: response.thinking,
-      actions: this.parseActions(response.content),
-      usage: response.usage,
-      timing: {
-        started: startTime,
-        completed: endTime,
-        duration: endTime - startTime,
-      },
-      cached: false,
-      model,
-      savings: this.calculateSavings(model, response.usage),
-    };
-  }
-
-  private async callModel(
-    model: string,
-    prompt: string,
-    options?: TaskOptions
-  ): Promise<{
-    content: string;
-    thinking?: string;
-    usage: { inputTokens: number; outputTokens: number; cost: number };
-  }> {
-    // This would be the actual LLM call
-    // For now, placeholder
-    const inputTokens = Math.ceil(prompt.length / 4);
-    const outputTokens = 500; // Estimate
-
-    return {
-      content: "Response placeholder - connect to actual LLM",
-      thinking: options?.thinking ? "Thinking placeholder" : undefined,
-      usage: {
-        inputTokens,
-        outputTokens,
-        cost: this.calculateCost(model, inputTokens, outputTokens),
-      },
-    };
-  }
-
-  // ─────────────────────────────────────────────────────────────────────────
-  // CACHING
-  // ─────────────────────────────────────────────────────────────────────────
-
-  private checkCache(request: TaskRequest): TaskResult | null {
-    if (!this.config.aggressiveCaching) return null;
-
-    const key = this.generateCacheKey(request);
-    const cached = this.responseCache.get(key);
-
-    if (cached && cached.expiry > Date.now()) {
-      return { ...cached.result, cached: true };
-    }
-
-    return null;
-  }
-
-  private cacheResult(request: TaskRequest, result: TaskResult): void {
-    if (!this.config.aggressiveCaching) return;
-
-    const key = this.generateCacheKey(request);
-    const ttl = this.getCacheTTL(request.type);
-
-    this.responseCache.set(key, {
-      result,
-      expiry: Date.now() + ttl,
-    });
-  }
-
-  private generateCacheKey(request: TaskRequest): string {
-    const normalized = request.prompt.toLowerCase().replace(/\s+/g, " ").trim();
-    return `${request.type}:${normalized}`;
-  }
-
-  private getCacheTTL(type: TaskRequest["type"]): number {
-    const ttls: Record<TaskRequest["type"], number> = {
-      chat: 5 * 60 * 1000, // 5 minutes
-      explain: 30 * 60 * 1000, // 30 minutes
-      code: 10 * 60 * 1000, // 10 minutes
-      refactor: 5 * 60 * 1000, // 5 minutes
-      debug: 2 * 60 * 1000, // 2 minutes
-      create: 5 * 60 * 1000, // 5 minutes
-    };
-    return ttls[type] || 5 * 60 * 1000;
-  }
-
   // ─────────────────────────────────────────────────────────────────────────
   // ACTIONS
   // ─────────────────────────────────────────────────────────────────────────
@@ -509,36 +774,56 @@ export class MythaTronEngine {
     return actions;
   }
 
-  private async applyActions(actions: TaskAction[]): Promise<void> {
+  /**
+   * Write parsed file blocks through ToolExecutor so they get the same
+   * confirmation, checkpointing and attribution as tool calls
+   */
+  private async applyActions(actions: TaskAction[], agentConfig: AgentConfig, state: AgentState): Promise<string[]> {
+    const ids: string[] = [];
+
     for (const action of actions) {
-      if (action.type === "file_edit" && action.file && action.content) {
-        try {
-          const uri = vscode.Uri.file(action.file);
-          const edit = new vscode.WorkspaceEdit();
-
-          // Check if file exists
-          try {
-            const doc = await vscode.workspace.openTextDocument(uri);
-            const fullRange = new vscode.Range(
-              doc.positionAt(0),
-              doc.positionAt(doc.getText().length)
-            );
-            edit.replace(uri, fullRange, action.content);
-          } catch {
-            // File doesn't exist, create it
-            edit.createFile(uri, { contents: Buffer.from(action.content) });
-          }
+      if (action.type !== "file_edit" || !action.file || action.content === undefined) continue;
+
+      const toolCall: ToolCall = {
+        id: `text_${generateStepId()}`,
+        name: "write_file",
+        input: { path: action.file, content: action.content },
+      };
+      if (!this.fileExists(action.file)) action.type = "file_create";
+
+      const result = await this.executeTool(toolCall, agentConfig, state, []);
+      action.applied = !result.isError;
+      if (action.applied) ids.push(toolCall.id);
+    }
 
-          await vscode.workspace.applyEdit(edit);
-          action.applied = true;
-          this.metrics.filesModified++;
-        } catch (error) {
-          console.error(`Failed to apply action for ${action.file}:`, error);
-        }
-      }
+    return ids;
+  }
+
+  private toAction(toolCall: ToolCall): TaskAction | null {
+    const input = toolCall.input as Record<string, unknown>;
+    const file = typeof input.path === "string" ? input.path : undefined;
+
+    switch (toolCall.name) {
+      case "write_file":
+      case "edit_file":
+      case "multi_edit":
+      case "apply_diff":
+      case "edit_notebook":
+        return { type: "file_edit", file, applied: true };
+      case "delete_file":
+        return { type: "file_delete", file, applied: true };
+      case "run_terminal_command":
+        return { type: "terminal", command: String(input.command ?? ""), applied: true };
+      default:
+        return null;
     }
   }
 
+  private fileExists(file: string): boolean {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    return fs.existsSync(root ? path.resolve(root, file) : file);
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // UTILITIES
   // ─────────────────────────────────────────────────────────────────────────
@@ -631,6 +916,7 @@ export class MythaTronEngine {
 
   private updateMetrics(result: TaskResult): void {
     this.metrics.tasksCompleted++;
+    if (result.cached) this.metrics.cacheHits++;
     this.metrics.tokensUsed +=
       result.usage.inputTokens + result.usage.outputTokens;
     this.metrics.totalCost += result.usage.cost;
@@ -0,0 +1,595 @@
+/**
+ * Project Builder - Plan-then-execute scaffolding for MythaTronEngine.buildProject
+ *
+ * Phase 1 asks for a structured plan: steps with the files each one creates,
+ * what every file is responsible for, and which steps must finish first. The
+ * plan is saved to .mythatron/plans/<id>.json where it can be reviewed and
+ * edited before anything is written.
+ *
+ * Phase 2 runs the steps in dependency order. Each step's files are written
+ * in one AutoApply transaction and checked by continuous validation; errors
+ * go back to the model for a bounded number of fixes. Step status is saved
+ * after every step, so a failed build resumes where it stopped.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { getProviderManager } from "../providers";
+import type { Message, TokenUsage } from "../providers/types";
+import { getAutoApply } from "../optimizations/auto-apply";
+import {
+  validateFiles,
+  waitForValidation,
+  getValidationDiagnostics,
+} from "../preflight/continuous";
+
+export type PlanStepStatus = "pending" | "done" | "failed";
+
+export interface PlanFile {
+  path: string; // relative to the workspace root
+  responsibility: string;
+}
+
+export interface PlanStep {
+  id: string;
+  title: string;
+  description: string;
+  files: PlanFile[];
+  dependsOn: string[];
+  status: PlanStepStatus;
+  error?: string;
+  transactionIds?: string[];
+  completedAt?: number;
+}
+
+export interface ProjectPlan {
+  id: string;
+  description: string;
+  summary: string; // architecture overview shared with every step
+  createdAt: number;
+  steps: PlanStep[];
+}
+
+export interface PlanStepOutcome {
+  stepId: string;
+  success: boolean;
+  files: string[]; // absolute paths written
+  message: string;
+  usage: TokenUsage;
+  model: string;
+  started: number;
+  completed: number;
+}
+
+export interface PlanExecutionOptions {
+  onProgress?: (message: string) => void;
+  token?: vscode.CancellationToken;
+  maxFixAttempts?: number; // validation fix rounds per step (default 2)
+  validationTimeoutMs?: number; // default 120000
+}
+
+const PLAN_DIR = path.join(".mythatron", "plans");
+
+const MAX_DEPENDENCY_CONTEXT = 30000;
+const MAX_FILE_CONTEXT = 6000;
+
+const PLAN_PROMPT = `You are planning a software project that will be generated file by file.
+
+Reply with only a JSON object of this shape:
+{
+  "summary": "architecture overview: stack, layout, key decisions",
+  "steps": [
+    {
+      "id": "short-kebab-id",
+      "title": "what this step builds",
+      "description": "details the implementer needs",
+      "files": [{ "path": "relative/path.ext", "responsibility": "what this file does" }],
+      "dependsOn": ["ids of steps whose files this step builds on"]
+    }
+  ]
+}
+
+Keep steps small (1-5 files), start with configuration and shared types, and list
+every file exactly once. Paths are relative to the workspace root.`;
+
+const STEP_PROMPT = `You are implementing one step of a project plan.
+Write the complete contents of every file listed for this step. Wrap each file as:
+
+<file path="relative/path.ext">
+...full file contents...
+</file>
+
+Write complete, working code that matches the plan and the files already written. No placeholders.`;
+
+export class ProjectBuilder {
+  private workspacePath: string;
+
+  constructor() {
+    this.workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // PHASE 1: PLAN
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Ask for a structured plan and save it for review
+   */
+  async createPlan(description: string): Promise<{ plan: ProjectPlan; usage: TokenUsage; model: string }> {
+    const response = await getProviderManager().complete(
+      {
+        messages: [
+          { role: "system", content: PLAN_PROMPT },
+          { role: "user", content: `Project: ${description}${this.describeWorkspace()}` },
+        ],
+        temperature: 0.2,
+      },
+      { forceComplexity: "complex", useCache: false }
+    );
+
+    const parsed = extractJson(response.content);
+    const plan = normalizePlan(parsed, description);
+    const problems = validatePlan(plan);
+    if (problems.length > 0) {
+      throw new Error(`The generated plan is invalid: ${problems.join("; ")}`);
+    }
+
+    this.savePlan(plan);
+    return {
+      plan,
+      usage: response.usage || { inputTokens: 0, outputTokens: 0 },
+      model: response.model,
+    };
+  }
+
+  getPlanPath(planId: string): string {
+    return path.join(this.workspacePath, PLAN_DIR, `${planId}.json`);
+  }
+
+  savePlan(plan: ProjectPlan): void {
+    const planPath = this.getPlanPath(plan.id);
+    fs.mkdirSync(path.dirname(planPath), { recursive: true });
+    fs.writeFileSync(planPath, JSON.stringify(plan, null, 2));
+  }
+
+  /**
+   * Read a plan back from disk, including any edits made during review
+   */
+  loadPlan(planId: string): ProjectPlan {
+    const raw: unknown = JSON.parse(fs.readFileSync(this.getPlanPath(planId), "utf-8"));
+    const plan = normalizePlan(raw, "");
+    plan.id = planId;
+
+    const problems = validatePlan(plan);
+    if (problems.length > 0) {
+      throw new Error(`Plan ${planId} is invalid: ${problems.join("; ")}`);
+    }
+    return plan;
+  }
+
+  /**
+   * Saved plans, newest first
+   */
+  listPlans(): ProjectPlan[] {
+    const dir = path.join(this.workspacePath, PLAN_DIR);
+    if (!fs.existsSync(dir)) return [];
+
+    const plans: ProjectPlan[] = [];
+    for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+      try {
+        plans.push(this.loadPlan(path.basename(file, ".json")));
+      } catch {
+        // Unreadable or invalid plans are left for the user to fix
+      }
+    }
+    return plans.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // PHASE 2: EXECUTE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Run every step that is not done yet, in dependency order. Stops at the
+   * first failed step; running again resumes from it.
+   */
+  async executePlan(plan: ProjectPlan, options: PlanExecutionOptions = {}): Promise<PlanStepOutcome[]> {
+    const outcomes: PlanStepOutcome[] = [];
+    const order = topologicalOrder(plan.steps);
+
+    for (const step of order) {
+      if (step.status === "done") continue;
+      if (options.token?.isCancellationRequested) break;
+
+      const index = order.indexOf(step) + 1;
+      options.onProgress?.(`Step ${index}/${order.length}: ${step.title}`);
+
+      const outcome = await this.executeStep(plan, step, options);
+      outcomes.push(outcome);
+
+      step.status = outcome.success ? "done" : "failed";
+      step.error = outcome.success ? undefined : outcome.message;
+      step.completedAt = outcome.success ? outcome.completed : undefined;
+      this.savePlan(plan);
+
+      if (!outcome.success) break;
+    }
+
+    return outcomes;
+  }
+
+  private async executeStep(
+    plan: ProjectPlan,
+    step: PlanStep,
+    options: PlanExecutionOptions
+  ): Promise<PlanStepOutcome> {
+    const started = Date.now();
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const written = new Set<string>();
+    const maxFixAttempts = options.maxFixAttempts ?? 2;
+    let model = "";
+
+    const messages: Message[] = [
+      { role: "system", content: STEP_PROMPT },
+      { role: "user", content: this.buildStepPrompt(plan, step) },
+    ];
+
+    const finish = (success: boolean, message: string): PlanStepOutcome => ({
+      stepId: step.id,
+      success,
+      files: [...written],
+      message,
+      usage,
+      model,
+      started,
+      completed: Date.now(),
+    });
+
+    for (let attempt = 0; attempt <= maxFixAttempts; attempt++) {
+      if (options.token?.isCancellationRequested) return finish(false, "Cancelled");
+
+      let response;
+      try {
+        response = await getProviderManager().complete(
+          { messages, temperature: 0.2 },
+          { forceComplexity: "complex", useCache: false }
+        );
+      } catch (error) {
+        return finish(false, `Model request failed: ${error instanceof Error ? error.message : error}`);
+      }
+      model = response.model;
+      usage.inputTokens += response.usage?.inputTokens ?? 0;
+      usage.outputTokens += response.usage?.outputTokens ?? 0;
+
+      const files = parseFileBlocks(response.content);
+      const unsafe = files.find((file) => !this.isInsideWorkspace(file.path));
+      if (unsafe) return finish(false, `Refused to write outside the workspace: ${unsafe.path}`);
+
+      if (files.length > 0) {
+        const applied = await this.applyFiles(plan, step, files, attempt);
+        if (!applied.success) return finish(false, applied.message);
+        step.transactionIds = [...(step.transactionIds ?? []), applied.transactionId];
+        files.forEach((file) => written.add(this.resolve(file.path)));
+      }
+
+      const missing = step.files.filter((file) => !written.has(this.resolve(file.path))).map((file) => file.path);
+      const errors = written.size > 0 ? await this.validate([...written], options) : [];
+
+      if (missing.length === 0 && errors.length === 0) {
+        return finish(true, `Wrote ${written.size} file${written.size === 1 ? "" : "s"}`);
+      }
+
+      const problems = [
+        ...missing.map((file) => `Missing file: ${file}`),
+        ...errors,
+      ];
+      if (attempt === maxFixAttempts) {
+        return finish(false, problems.slice(0, 10).join("\n"));
+      }
+
+      options.onProgress?.(`${step.title}: fixing ${problems.length} problem${problems.length === 1 ? "" : "s"}`);
+      messages.push({ role: "assistant", content: response.content });
+      messages.push({
+        role: "user",
+        content:
+          `These problems remain:\n${problems.slice(0, 30).join("\n")}\n\n` +
+          "Reply with the corrected files in full, using the same <file> format. Only include files that change.",
+      });
+    }
+
+    return finish(false, "Step did not complete");
+  }
+
+  /**
+   * Write one round of a step's files as a single AutoApply transaction
+   */
+  private async applyFiles(
+    plan: ProjectPlan,
+    step: PlanStep,
+    files: Array<{ path: string; content: string }>,
+    attempt: number
+  ): Promise<{ success: true; transactionId: string } | { success: false; message: string }> {
+    const autoApply = getAutoApply();
+    const description = `Build ${plan.id} / ${step.id}${attempt > 0 ? ` (fix ${attempt})` : ""}: ${step.title}`;
+
+    let transactionId: string;
+    try {
+      transactionId = autoApply.beginTransaction(description);
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+
+    try {
+      for (const file of files) {
+        await autoApply.stageChange(file.path, file.content);
+      }
+      const result = await autoApply.commitTransaction();
+      if (!result.success) return { success: false, message: result.message };
+      return { success: true, transactionId };
+    } catch (error) {
+      autoApply.abortTransaction();
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Validate the written files and return their errors as prompt lines
+   */
+  private async validate(files: string[], options: PlanExecutionOptions): Promise<string[]> {
+    validateFiles(files);
+    await waitForValidation(options.validationTimeoutMs ?? 120000);
+
+    return getValidationDiagnostics(files)
+      .filter((diagnostic) => diagnostic.severity === "error")
+      .map((diagnostic) => {
+        const relative = path.relative(this.workspacePath, diagnostic.file);
+        const code = diagnostic.code ? ` ${diagnostic.code}` : "";
+        return `${relative}:${diagnostic.line}:${diagnostic.column}${code} ${diagnostic.message}`;
+      });
+  }
+
+  private buildStepPrompt(plan: ProjectPlan, step: PlanStep): string {
+    const parts = [
+      `Project: ${plan.description}`,
+      `Architecture:\n${plan.summary}`,
+      "Full plan:\n" +
+        plan.steps
+          .map((s) => `- ${s.id}: ${s.title}\n` + s.files.map((f) => `    ${f.path} — ${f.responsibility}`).join("\n"))
+          .join("\n"),
+      `Current step: ${step.id} — ${step.title}\n${step.description}\n\nFiles to write:\n` +
+        step.files.map((f) => `- ${f.path}: ${f.responsibility}`).join("\n"),
+    ];
+
+    const context = this.dependencyContext(plan, step);
+    if (context) parts.push(`Files already written by earlier steps:\n${context}`);
+
+    return parts.join("\n\n");
+  }
+
+  /**
+   * Contents of the files produced by the steps this one depends on
+   */
+  private dependencyContext(plan: ProjectPlan, step: PlanStep): string {
+    const byId = new Map(plan.steps.map((s) => [s.id, s]));
+    const seen = new Set<string>();
+    const queue = [...step.dependsOn];
+    const files: string[] = [];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const dependency = byId.get(id);
+      if (!dependency) continue;
+      files.push(...dependency.files.map((f) => f.path));
+      queue.push(...dependency.dependsOn);
+    }
+
+    let context = "";
+    for (const file of files) {
+      const absolute = this.resolve(file);
+      if (!fs.existsSync(absolute)) continue;
+
+      let content = fs.readFileSync(absolute, "utf-8");
+      if (content.length > MAX_FILE_CONTEXT) content = content.slice(0, MAX_FILE_CONTEXT) + "\n... (truncated)";
+
+      const block = `<file path="${file}">\n${content}\n</file>\n`;
+      if (context.length + block.length > MAX_DEPENDENCY_CONTEXT) break;
+      context += block;
+    }
+    return context;
+  }
+
+  private describeWorkspace(): string {
+    try {
+      const entries = fs
+        .readdirSync(this.workspacePath)
+        .filter((name) => !name.startsWith(".") && name !== "node_modules")
+        .slice(0, 40);
+      return entries.length > 0 ? `\n\nThe workspace already contains: ${entries.join(", ")}` : "";
+    } catch {
+      return "";
+    }
+  }
+
+  private resolve(filePath: string): string {
+    return path.resolve(this.workspacePath, filePath);
+  }
+
+  private isInsideWorkspace(filePath: string): boolean {
+    const relative = path.relative(this.workspacePath, this.resolve(filePath));
+    return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PLAN PARSING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Pull the JSON object out of a reply that may wrap it in prose or a fence
+ */
+function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1);
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    throw new Error("The model did not return a JSON plan");
+  }
+}
+
+/**
+ * Fill in defaults so model output and hand edits both become a full plan
+ */
+export function normalizePlan(raw: unknown, description: string): ProjectPlan {
+  const source = isRecord(raw) ? raw : {};
+  const steps = Array.isArray(source.steps) ? source.steps : [];
+
+  return {
+    id: optionalString(source.id) ?? `plan_${Date.now()}`,
+    description: optionalString(source.description) ?? description,
+    summary: optionalString(source.summary) ?? "",
+    createdAt: optionalNumber(source.createdAt) ?? Date.now(),
+    steps: steps.map((entry: unknown, index) => {
+      const step = isRecord(entry) ? entry : {};
+      const files = Array.isArray(step.files) ? step.files : [];
+      return {
+        id: optionalString(step.id) || `step-${index + 1}`,
+        title: optionalString(step.title) ?? `Step ${index + 1}`,
+        description: optionalString(step.description) ?? "",
+        files: files.map((file: unknown) =>
+          typeof file === "string"
+            ? { path: file, responsibility: "" }
+            : {
+                path: isRecord(file) ? String(file.path ?? "") : "",
+                responsibility: isRecord(file) ? String(file.responsibility ?? "") : "",
+              }
+        ),
+        dependsOn: stringArray(step.dependsOn) ?? [],
+        status: isStepStatus(step.status) ? step.status : "pending",
+        error: optionalString(step.error),
+        transactionIds: stringArray(step.transactionIds),
+        completedAt: optionalNumber(step.completedAt),
+      };
+    }),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStepStatus(value: unknown): value is PlanStepStatus {
+  return value === "pending" || value === "done" || value === "failed";
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function stringArray(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : undefined;
+}
+
+/**
+ * Problems that would make a plan unrunnable
+ */
+export function validatePlan(plan: ProjectPlan): string[] {
+  const problems: string[] = [];
+  if (plan.steps.length === 0) problems.push("it has no steps");
+
+  const ids = new Set<string>();
+  const paths = new Map<string, string>();
+  for (const step of plan.steps) {
+    if (ids.has(step.id)) problems.push(`duplicate step id "${step.id}"`);
+    ids.add(step.id);
+
+    if (step.files.length === 0) problems.push(`step "${step.id}" lists no files`);
+    for (const file of step.files) {
+      if (!file.path) problems.push(`step "${step.id}" has a file without a path`);
+      else if (path.isAbsolute(file.path) || path.normalize(file.path).startsWith("..")) {
+        problems.push(`step "${step.id}": ${file.path} is outside the workspace`);
+      } else if (paths.has(file.path)) {
+        problems.push(`${file.path} is listed by both "${paths.get(file.path)}" and "${step.id}"`);
+      } else {
+        paths.set(file.path, step.id);
+      }
+    }
+  }
+
+  for (const step of plan.steps) {
+    for (const dep of step.dependsOn) {
+      if (!ids.has(dep)) problems.push(`step "${step.id}" depends on unknown step "${dep}"`);
+    }
+  }
+
+  if (problems.length === 0) {
+    try {
+      topologicalOrder(plan.steps);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  return problems;
+}
+
+/**
+ * Steps ordered so dependencies come first, keeping plan order otherwise
+ */
+function topologicalOrder(steps: PlanStep[]): PlanStep[] {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const ordered: PlanStep[] = [];
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (step: PlanStep, trail: string[]) => {
+    const current = state.get(step.id);
+    if (current === "done") return;
+    if (current === "visiting") {
+      throw new Error(`steps depend on each other: ${[...trail, step.id].join(" → ")}`);
+    }
+    state.set(step.id, "visiting");
+    for (const dep of step.dependsOn) {
+      const dependency = byId.get(dep);
+      if (dependency) visit(dependency, [...trail, step.id]);
+    }
+    state.set(step.id, "done");
+    ordered.push(step);
+  };
+
+  steps.forEach((step) => visit(step, []));
+  return ordered;
+}
+
+/**
+ * Files in a reply, as <file path="...">...</file> blocks
+ */
+export function parseFileBlocks(content: string): Array<{ path: string; content: string }> {
+  const files: Array<{ path: string; content: string }> = [];
+  const pattern = /<file\s+path=["']([^"']+)["']\s*>\n?([\s\S]*?)<\/file>/g;
+  let match;
+
+  while ((match = pattern.exec(content)) !== null) {
+    let body = match[2];
+    // Tolerate a code fence inside the block
+    const fenced = body.match(/^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/);
+    if (fenced) body = fenced[1] + "\n";
+    files.push({ path: match[1].trim(), content: body.endsWith("\n") ? body : body + "\n" });
+  }
+  return files;
+}
+
+// Singleton
+let builder: ProjectBuilder | null = null;
+
+export function getProjectBuilder(): ProjectBuilder {
+  if (!builder) {
+    builder = new ProjectBuilder();
+  }
+  return builder;
+}
@@ -5,26 +5,50 @@
 
 import * as vscode from "vscode";
 import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
 import { getAgent, ClaudeAgent } from "./agent/claude-agent";
 import { initializeProviders, getProviderManager } from "./providers";
-import { initMCPManager, getMCPManager } from "./mcp";
+import {
+  initMCPManager,
+  getMCPManager,
+  getMCPSlashCommands,
+  expandMCPSlashCommand,
+  attachMCPResource,
+  MCPServerItem,
+  MCPServerTreeProvider,
+  getMCPToolServer,
+} from "./mcp";
 import { initMemoryManager, getMemoryManager } from "./memory";
-import { initTerminalManager, getTerminalManager } from "./terminal";
-import { initSemanticSearch } from "./search/semantic";
+import { initTerminalManager, getTerminalManager, getTerminalCapture } from "./terminal";
+import { initSemanticSearch, getSemanticSearch } from "./search/semantic";
+import { initCodebaseIndexer, getCodebaseIndexer } from "./agent/indexer";
+import { getCheckpointManager } from "./tools/checkpoints";
 import { initWebSearch } from "./search/web";
 import { getContextTracker } from "./features/context";
 import { registerInlineCompletions, InlineCompletionProvider } from "./features/completions";
+import { getCompletionCache } from "./features/completion-cache";
 import { showDiffPreview, DiffChange } from "./features/diff-preview";
 import { showCommitPicker } from "./features/smart-commits";
-import { showDeadCodeReport } from "./features/dead-code";
+import { showDeadCodeReport, initDeadCodeActions } from "./features/dead-code";
 import { showDependencyReport } from "./features/deps-analyzer";
 import { createNewProject } from "./features/project-templates";
 import { getPromptsLibrary } from "./features/prompts";
 import { getConversationHistory } from "./features/history";
 import { autoFixImports } from "./features/smart-imports";
 import { showCLIStatus, importCLIConfigs, runSetupWizard, createRepoInteractive, quickPush } from "./cli";
-import { showPreflightReport } from "./preflight";
+import { showPreflightReport, registerPreflightCheck, registerValidator } from "./preflight";
+import { ensurePreflightConfigFile } from "./preflight/project-checks";
 import { initContinuousValidation, forceValidation } from "./preflight/continuous";
+import { initRegressionTracking } from "./preflight/regressions";
+import { getMythaTron } from "./engine/mythatron";
+import { getProjectBuilder, ProjectPlan } from "./engine/project-builder";
+import {
+  getWorkflowEngine,
+  loadWorkflows,
+  ensureWorkflowTemplate,
+  formatWorkflowReport,
+} from "./agents/workflow";
 
 // Cost-saving optimizations
 import {
@@ -51,7 +75,15 @@ let completionProvider: InlineCompletionProvider;
 let currentAbortController: AbortController | null = null;
 let optimizations: ReturnType<typeof initializeOptimizations>;
 
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
+/**
+ * API returned from activate() for other extensions
+ */
+export interface MythaTronApi {
+  registerPreflightCheck: typeof registerPreflightCheck;
+  registerValidator: typeof registerValidator;
+}
+
+export async function activate(context: vscode.ExtensionContext): Promise<MythaTronApi> {
   outputChannel = vscode.window.createOutputChannel("MythaTron Code");
   outputChannel.appendLine("Activating MythaTron Code...");
 
@@ -66,20 +98,47 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     
     // Initialize continuous validation (catches errors early!)
     initContinuousValidation(context);
+    initRegressionTracking(context);
     outputChannel.appendLine("✓ Continuous validation enabled");
 
+    initDeadCodeActions(context);
+
     await initMemoryManager(workspaceRoot);
     outputChannel.appendLine("✓ Memory manager initialized");
 
     await initMCPManager(workspaceRoot);
     outputChannel.appendLine("✓ MCP manager initialized");
 
+    await getMCPToolServer().initialize(workspaceRoot);
+    if (getMCPToolServer().isRunning) {
+      outputChannel.appendLine("✓ MCP tool server listening");
+    }
+
     await initTerminalManager();
+    context.subscriptions.push(getTerminalCapture());
     outputChannel.appendLine("✓ Terminal manager initialized");
 
     await initSemanticSearch(workspaceRoot);
+    const semanticSearch = getSemanticSearch();
+    const codebaseIndexer = initCodebaseIndexer(workspaceRoot);
+    context.subscriptions.push(semanticSearch.watch(), codebaseIndexer.watch());
     outputChannel.appendLine("✓ Semantic search initialized");
 
+    // Catch up on edits made while the window was closed. Only refresh an
+    // existing index - a first full build (and its embedding cost) stays opt-in.
+    if (vscode.workspace.getConfiguration("mythaTron").get<boolean>("autoIndex", true)) {
+      if (semanticSearch.hasPersistedIndex()) {
+        semanticSearch.buildIndex().catch((error) => {
+          outputChannel.appendLine(`Index refresh failed: ${error instanceof Error ? error.message : error}`);
+        });
+      }
+      if (codebaseIndexer.hasPersistedIndex()) {
+        codebaseIndexer.buildIndex().catch(() => {
+          // Rebuilt on the next Index Workspace
+        });
+      }
+    }
+
     await initWebSearch();
     outputChannel.appendLine("✓ Web search initialized");
 
@@ -155,6 +214,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   savingsStatusItem.tooltip = "Cost savings from optimizations";
   savingsStatusItem.show();
 
+  const mcpServersView = new MCPServerTreeProvider();
+  context.subscriptions.push(
+    mcpServersView,
+    vscode.window.registerTreeDataProvider("mythaTron.mcpServers", mcpServersView)
+  );
+
   // Register commands
   context.subscriptions.push(
     // Core commands
@@ -163,13 +228,40 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.commands.registerCommand("mythaTron.showCostDetails", () => showCostDetails()),
     vscode.commands.registerCommand("mythaTron.showCostDashboard", () => getCostTracker().showDashboard()),
     vscode.commands.registerCommand("mythaTron.configureMCP", () => configureMCP(context)),
+    vscode.commands.registerCommand("mythaTron.attachMCPResource", async () => {
+      const title = await attachMCPResource();
+      if (title) {
+        vscode.window.showInformationMessage(`Attached "${title}" to your next chat message`);
+        postAttachments();
+      }
+    }),
+    vscode.commands.registerCommand("mythaTron.mcpStartServer", (item?: MCPServerItem) =>
+      manageMCPServer(item, "start")
+    ),
+    vscode.commands.registerCommand("mythaTron.mcpStopServer", (item?: MCPServerItem) =>
+      manageMCPServer(item, "stop")
+    ),
+    vscode.commands.registerCommand("mythaTron.mcpRestartServer", (item?: MCPServerItem) =>
+      manageMCPServer(item, "restart")
+    ),
+    vscode.commands.registerCommand("mythaTron.mcpShowServerLogs", (item?: MCPServerItem) =>
+      manageMCPServer(item, "logs")
+    ),
+    vscode.commands.registerCommand("mythaTron.mcpRefreshServers", () => mcpServersView.refresh()),
+    vscode.commands.registerCommand("mythaTron.copyMCPServerConfig", () => copyMCPServerConfig(context)),
     vscode.commands.registerCommand("mythaTron.editRules", () => editRules()),
     vscode.commands.registerCommand("mythaTron.toggleCompletions", () => toggleCompletions()),
     vscode.commands.registerCommand("mythaTron.indexWorkspace", () => indexWorkspace()),
     vscode.commands.registerCommand("mythaTron.sendSelection", () => sendSelection()),
     vscode.commands.registerCommand("mythaTron.showSavings", () => showSavingsReport()),
     vscode.commands.registerCommand("mythaTron.clearCache", () => clearAllCaches()),
+    vscode.commands.registerCommand("mythaTron.resetProviderCircuits", () => {
+      getProviderManager().resetCircuits();
+      vscode.window.showInformationMessage("Provider health reset");
+    }),
+    vscode.commands.registerCommand("mythaTron.editTerminalPolicy", () => editTerminalPolicy()),
     vscode.commands.registerCommand("mythaTron.rollback", () => rollbackLastChange()),
+    vscode.commands.registerCommand("mythaTron.showCheckpoints", () => showCheckpoints()),
     vscode.commands.registerCommand("mythaTron.exportCosts", () => exportCostReport()),
     
     // Smart commit
@@ -211,6 +303,15 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.commands.registerCommand("mythaTron.preflightCheck", () => showPreflightReport()),
     vscode.commands.registerCommand("mythaTron.forceValidation", () => forceValidation()),
     vscode.commands.registerCommand("mythaTron.showPreflightReport", () => showPreflightReport()),
+    vscode.commands.registerCommand("mythaTron.editPreflightChecks", () => editPreflightChecks()),
+    
+    // Plan-then-execute project builds
+    vscode.commands.registerCommand("mythaTron.buildProject", () => buildProject()),
+    vscode.commands.registerCommand("mythaTron.resumeProjectPlan", () => resumeProjectPlan()),
+    
+    // Agent workflows
+    vscode.commands.registerCommand("mythaTron.runWorkflow", () => runWorkflow()),
+    vscode.commands.registerCommand("mythaTron.editWorkflows", () => editWorkflows()),
     
     statusBarItem,
     costStatusItem,
@@ -219,6 +320,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   );
 
   outputChannel.appendLine("MythaTron Code activated");
+
+  return { registerPreflightCheck, registerValidator };
 }
 
 function openWebview(context: vscode.ExtensionContext): void {
@@ -256,10 +359,26 @@ function openWebview(context: vscode.ExtensionContext): void {
       case "clear":
         startNewChat();
         break;
+      case "attachResource":
+        try {
+          await attachMCPResource();
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to attach resource: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+        postAttachments();
+        break;
     }
   });
 
+  // Prompts come and go as servers connect or change their lists
+  const mcpListener = getMCPManager().onDidChange(() => {
+    webviewPanel?.webview.postMessage({ type: "slashCommands", data: getMCPSlashCommands() });
+  });
+
   webviewPanel.onDidDispose(() => {
+    mcpListener.dispose();
     webviewPanel = undefined;
   });
 
@@ -270,10 +389,18 @@ function openWebview(context: vscode.ExtensionContext): void {
       model: getProviderManager().getCurrentModel(),
       memories: getMemoryManager().getAllMemories().length,
       mcpServers: getMCPManager().getAllTools().length,
+      slashCommands: getMCPSlashCommands(),
     },
   });
 }
 
+function postAttachments(): void {
+  webviewPanel?.webview.postMessage({
+    type: "attachments",
+    data: getContextTracker().getAttachments().map((a) => a.title),
+  });
+}
+
 async function handleUserMessage(text: string, images?: string[]): Promise<void> {
   if (!webviewPanel) return;
 
@@ -290,7 +417,10 @@ async function handleUserMessage(text: string, images?: string[]): Promise<void>
       throw new Error("Request cancelled");
     }
 
-    const response = await agent.processMessage(text, {
+    // MCP prompts typed as /server:prompt expand into the message to send
+    const expanded = await expandMCPSlashCommand(text);
+
+    const response = await agent.processMessage(expanded ?? text, {
       enableThinking: true,
       images,
     });
@@ -411,6 +541,63 @@ async function configureMCP(context: vscode.ExtensionContext): Promise<void> {
   await vscode.window.showTextDocument(doc);
 }
 
+async function manageMCPServer(
+  item: MCPServerItem | undefined,
+  action: "start" | "stop" | "restart" | "logs"
+): Promise<void> {
+  const mcp = getMCPManager();
+  let name = item?.state.name;
+
+  if (!name) {
+    const states = mcp.getServerStates();
+    if (states.length === 0) {
+      vscode.window.showInformationMessage("No MCP servers configured in .mythatron/mcp.json");
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      states.map((s) => ({ label: s.name, description: s.status })),
+      { placeHolder: `Select an MCP server to ${action === "logs" ? "show logs for" : action}` }
+    );
+    if (!picked) return;
+    name = picked.label;
+  }
+
+  if (action === "logs") {
+    mcp.showLogs(name);
+    return;
+  }
+
+  try {
+    if (action === "start") await mcp.startServer(name);
+    else if (action === "stop") await mcp.stopServer(name);
+    else await mcp.restartServer(name);
+  } catch (error) {
+    const choice = await vscode.window.showErrorMessage(
+      `Failed to ${action} MCP server "${name}": ${error instanceof Error ? error.message : String(error)}`,
+      "Show Logs"
+    );
+    if (choice === "Show Logs") mcp.showLogs(name);
+  }
+}
+
+async function copyMCPServerConfig(context: vscode.ExtensionContext): Promise<void> {
+  const server = getMCPToolServer();
+  if (!server.isRunning) {
+    const choice = await vscode.window.showWarningMessage(
+      "The MythaTron MCP server is off. Enable mythaTron.exposeMCPServer to let other MCP clients use its tools.",
+      "Enable"
+    );
+    if (choice !== "Enable") return;
+    await vscode.workspace.getConfiguration("mythaTron").update("exposeMCPServer", true);
+  }
+
+  const config = server.getClientConfig(context.extensionPath);
+  await vscode.env.clipboard.writeText(JSON.stringify(config, null, 2));
+  vscode.window.showInformationMessage(
+    `Copied MCP client config (${server.getExposedTools().length} tools). Socket: ${server.getSocketPath() ?? "starting"}`
+  );
+}
+
 async function editRules(): Promise<void> {
   const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
   if (!workspaceRoot) {
@@ -423,9 +610,223 @@ async function editRules(): Promise<void> {
   await vscode.window.showTextDocument(doc);
 }
 
-function toggleCompletions(): void {
-  const enabled = !completionProvider;
-  // Toggle inline completions
+async function editTerminalPolicy(): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.[0]) {
+    vscode.window.showWarningMessage("Open a workspace first");
+    return;
+  }
+
+  const policyPath = getTerminalManager().getPolicy().ensurePolicyFile();
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(policyPath));
+  await vscode.window.showTextDocument(doc);
+}
+
+async function editPreflightChecks(): Promise<void> {
+  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspacePath) {
+    vscode.window.showWarningMessage("Open a workspace first");
+    return;
+  }
+
+  const configPath = ensurePreflightConfigFile(workspacePath);
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(configPath));
+  await vscode.window.showTextDocument(doc);
+}
+
+async function buildProject(): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.[0]) {
+    vscode.window.showWarningMessage("Open a workspace first");
+    return;
+  }
+
+  const description = await vscode.window.showInputBox({
+    prompt: "Describe the project or service to build",
+    placeHolder: "e.g. REST service for orders with Express, Prisma and Jest tests",
+  });
+  if (!description) return;
+
+  let planId: string | undefined;
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "Building project", cancellable: true },
+      (progress, token) =>
+        getMythaTron().buildProject(description, {
+          token,
+          onProgress: (message) => progress.report({ message }),
+          review: (plan, planPath) => {
+            planId = plan.id;
+            progress.report({ message: "Waiting for plan review" });
+            return reviewProjectPlan(plan, planPath);
+          },
+        })
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Build failed: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  if (planId) await reportProjectPlan(planId);
+}
+
+/**
+ * Open the saved plan for editing; true once the user chooses to execute it
+ */
+async function reviewProjectPlan(plan: ProjectPlan, planPath: string): Promise<boolean> {
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(planPath));
+  await vscode.window.showTextDocument(doc);
+
+  const fileCount = plan.steps.reduce((sum, step) => sum + step.files.length, 0);
+  const choice = await vscode.window.showInformationMessage(
+    `Plan ready: ${plan.steps.length} steps, ${fileCount} files. Edit it if needed, then execute.`,
+    "Execute Plan",
+    "Later"
+  );
+  if (choice !== "Execute Plan") return false;
+
+  if (doc.isDirty) await doc.save();
+  return true;
+}
+
+async function resumeProjectPlan(): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.[0]) {
+    vscode.window.showWarningMessage("Open a workspace first");
+    return;
+  }
+
+  const unfinished = getProjectBuilder()
+    .listPlans()
+    .filter((plan) => plan.steps.some((step) => step.status !== "done"));
+  if (unfinished.length === 0) {
+    vscode.window.showInformationMessage("No unfinished project plans");
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    unfinished.map((plan) => {
+      const done = plan.steps.filter((step) => step.status === "done").length;
+      const failed = plan.steps.find((step) => step.status === "failed");
+      return {
+        label: plan.description.slice(0, 80),
+        description: `${done}/${plan.steps.length} steps done`,
+        detail: failed ? `Failed at ${failed.title}: ${failed.error?.split("\n")[0]}` : undefined,
+        plan,
+      };
+    }),
+    { placeHolder: "Select a plan to resume" }
+  );
+  if (picked) await executeProjectPlan(picked.plan.id);
+}
+
+async function executeProjectPlan(planId: string): Promise<void> {
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "Building project", cancellable: true },
+      (progress, token) =>
+        getMythaTron().resumeProject(planId, { token, onProgress: (message) => progress.report({ message }) })
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Build failed: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  await reportProjectPlan(planId);
+}
+
+/**
+ * Summarize where a plan stands, offering to resume one that stopped
+ */
+async function reportProjectPlan(planId: string): Promise<void> {
+  const plan = getProjectBuilder().loadPlan(planId);
+  const done = plan.steps.filter((step) => step.status === "done");
+  const failed = plan.steps.find((step) => step.status === "failed");
+
+  if (done.length === plan.steps.length) {
+    const files = plan.steps.reduce((sum, step) => sum + step.files.length, 0);
+    vscode.window.showInformationMessage(`Project built: ${plan.steps.length} steps, ${files} files`);
+    return;
+  }
+  if (done.length === 0 && !failed) return; // not executed yet (review postponed)
+
+  const message = failed
+    ? `Step "${failed.title}" failed: ${failed.error?.split("\n")[0]}`
+    : `Build stopped after ${done.length}/${plan.steps.length} steps`;
+  const action = await vscode.window.showWarningMessage(message, "Open Plan", "Resume");
+  if (action === "Resume") {
+    await executeProjectPlan(planId);
+  } else if (action === "Open Plan") {
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(getProjectBuilder().getPlanPath(planId)));
+    await vscode.window.showTextDocument(doc);
+  }
+}
+
+async function editWorkflows(): Promise<void> {
+  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspacePath) {
+    vscode.window.showWarningMessage("Open a workspace first");
+    return;
+  }
+
+  const workflowPath = ensureWorkflowTemplate(workspacePath);
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(workflowPath));
+  await vscode.window.showTextDocument(doc);
+}
+
+async function runWorkflow(): Promise<void> {
+  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspacePath) {
+    vscode.window.showWarningMessage("Open a workspace first");
+    return;
+  }
+
+  const { workflows, problems } = loadWorkflows(workspacePath);
+  for (const problem of problems) outputChannel.appendLine(`[Workflow] ${problem}`);
+  if (problems.length > 0) {
+    vscode.window.showWarningMessage(`Some workflows were skipped: ${problems[0]}`);
+  }
+  if (workflows.length === 0) {
+    const action = await vscode.window.showInformationMessage(
+      "No workflows in .mythatron/workflows",
+      "Create Example"
+    );
+    if (action) await editWorkflows();
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    workflows.map((w) => ({
+      label: w.name,
+      description: `${Object.keys(w.agents).length} agents, ${w.steps.length} steps`,
+      detail: w.description,
+      workflow: w,
+    })),
+    { placeHolder: "Select a workflow" }
+  );
+  if (!picked) return;
+
+  const input = await vscode.window.showInputBox({ prompt: `Task for "${picked.workflow.name}"` });
+  if (!input) return;
+
+  const engine = getWorkflowEngine();
+  engine.setOutputChannel(outputChannel);
+
+  const result = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: picked.workflow.name, cancellable: true },
+    (progress, token) => engine.run(picked.workflow, input, { token, onProgress: (message) => progress.report({ message }) })
+  );
+
+  const doc = await vscode.workspace.openTextDocument({
+    content: formatWorkflowReport(picked.workflow, result),
+    language: "markdown",
+  });
+  await vscode.window.showTextDocument(doc);
+}
+
+async function toggleCompletions(): Promise<void> {
+  const enabled = !completionProvider.isEnabled();
+  completionProvider.setEnabled(enabled);
+  await vscode.workspace
+    .getConfiguration("mythaTron")
+    .update("enableInlineCompletions", enabled, vscode.ConfigurationTarget.Global);
   vscode.window.showInformationMessage(
     `Inline completions: ${enabled ? "enabled" : "disabled"}`
   );
@@ -444,10 +845,14 @@ async function indexWorkspace(): Promise<void> {
 
       progress.report({ increment: 0, message: "Scanning files..." });
 
-      // This would trigger a full reindex
-      // await semantic.reindex();
+      await semantic.buildIndex((message) => progress.report({ message }));
+      await getCodebaseIndexer().buildIndex();
 
-      progress.report({ increment: 100, message: "Done!" });
+      const stats = semantic.getStats();
+      progress.report({
+        increment: 100,
+        message: `${stats.chunks} chunks, ${stats.vectors} vectors (${stats.embedder})`,
+      });
       return true;
     }
   );
@@ -682,6 +1087,31 @@ function getWebviewContent(): string {
       justify-content: space-between;
     }
 
+    .slash-menu {
+      display: none;
+      margin-bottom: 8px;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      background: var(--bg);
+      max-height: 160px;
+      overflow-y: auto;
+    }
+
+    .slash-item {
+      padding: 6px 10px;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .slash-item:hover { background: var(--border); }
+    .slash-item span { color: var(--text-secondary); margin-left: 8px; }
+
+    .attachments {
+      font-size: 12px;
+      color: var(--accent);
+      margin-bottom: 8px;
+    }
+
     .typing-indicator {
       display: flex;
       gap: 4px;
@@ -732,6 +1162,7 @@ function getWebviewContent(): string {
       MythaTron Code
     </h1>
     <div class="header-actions">
+      <button class="header-btn" onclick="attachResource()">Attach</button>
       <button class="header-btn" onclick="clearChat()">Clear</button>
       <button class="header-btn" onclick="showSettings()">Settings</button>
     </div>
@@ -750,6 +1181,8 @@ function getWebviewContent(): string {
   </div>
 
   <div class="input-area">
+    <div class="slash-menu" id="slashMenu"></div>
+    <div class="attachments" id="attachments"></div>
     <div class="input-wrapper">
       <textarea id="input" placeholder="Ask me anything..." rows="1" onkeydown="handleKeydown(event)"></textarea>
       <button class="send-btn" id="sendBtn" onclick="send()">Send</button>
@@ -763,6 +1196,7 @@ function getWebviewContent(): string {
   <script>
     const vscode = acquireVsCodeApi();
     let isThinking = false;
+    let slashCommands = [];
 
     function send() {
       const input = document.getElementById('input');
@@ -772,6 +1206,8 @@ function getWebviewContent(): string {
       addMessage(text, 'user');
       input.value = '';
       autoResize(input);
+      updateSlashMenu();
+      document.getElementById('attachments').textContent = '';
 
       vscode.postMessage({ type: 'send', text });
     }
@@ -832,8 +1268,44 @@ function getWebviewContent(): string {
       vscode.postMessage({ type: 'openSettings' });
     }
 
+    function attachResource() {
+      vscode.postMessage({ type: 'attachResource' });
+    }
+
+    // MCP prompts: suggest commands while the input is a bare /word
+    function updateSlashMenu() {
+      const menu = document.getElementById('slashMenu');
+      const text = document.getElementById('input').value;
+      const matches = /^\\/\\S*$/.test(text)
+        ? slashCommands.filter(c => c.command.startsWith(text))
+        : [];
+
+      menu.innerHTML = '';
+      for (const c of matches) {
+        const item = document.createElement('div');
+        item.className = 'slash-item';
+        item.textContent = c.command;
+        if (c.description) {
+          const desc = document.createElement('span');
+          desc.textContent = c.description;
+          item.appendChild(desc);
+        }
+        item.onclick = () => {
+          const input = document.getElementById('input');
+          input.value = c.command + ' ';
+          input.focus();
+          updateSlashMenu();
+        };
+        menu.appendChild(item);
+      }
+      menu.style.display = matches.length ? 'block' : 'none';
+    }
+
     const input = document.getElementById('input');
-    input.addEventListener('input', () => autoResize(input));
+    input.addEventListener('input', () => {
+      autoResize(input);
+      updateSlashMenu();
+    });
 
     function autoResize(el) {
       el.style.height = 'auto';
@@ -846,6 +1318,17 @@ function getWebviewContent(): string {
       switch (msg.type) {
         case 'init':
           document.getElementById('modelInfo').textContent = msg.data.model;
+          slashCommands = msg.data.slashCommands || [];
+          break;
+
+        case 'slashCommands':
+          slashCommands = msg.data;
+          updateSlashMenu();
+          break;
+
+        case 'attachments':
+          document.getElementById('attachments').textContent =
+            msg.data.length ? 'Attached: ' + msg.data.join(', ') : '';
           break;
 
         case 'thinking':
@@ -947,6 +1430,7 @@ function clearAllCaches(): void {
   getResponseCache().cleanup();
   getContextManager().clearCache();
   getLSPCache().clearAll();
+  getCompletionCache().clear();
 
   vscode.window.showInformationMessage("All caches cleared");
 }
@@ -967,6 +1451,107 @@ async function rollbackLastChange(): Promise<void> {
   }
 }
 
+/**
+ * Browse agent checkpoints: diff against the working tree or restore files
+ */
+async function showCheckpoints(): Promise<void> {
+  const manager = getCheckpointManager();
+  const checkpoints = manager.list().reverse();
+
+  if (checkpoints.length === 0) {
+    vscode.window.showInformationMessage("No checkpoints yet");
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    checkpoints.map((c) => ({
+      label: c.name,
+      description: new Date(c.createdAt).toLocaleString(),
+      detail: `${Object.keys(c.files).length} files`,
+      checkpoint: c,
+    })),
+    { placeHolder: "Select a checkpoint" }
+  );
+  if (!picked) return;
+
+  const { checkpoint } = picked;
+  const changed = manager.changedFiles(checkpoint.id);
+  if (changed.length === 0) {
+    vscode.window.showInformationMessage("Working tree matches this checkpoint");
+    return;
+  }
+
+  const action = await vscode.window.showQuickPick(
+    [
+      { label: "$(diff) Show diff", value: "diff" },
+      { label: "$(go-to-file) Compare a file", value: "compare" },
+      { label: "$(discard) Restore files...", value: "restore-some" },
+      { label: "$(history) Restore all", value: "restore-all" },
+    ],
+    { placeHolder: `${changed.length} file(s) changed since "${checkpoint.name}"` }
+  );
+  if (!action) return;
+
+  switch (action.value) {
+    case "diff": {
+      const doc = await vscode.workspace.openTextDocument({
+        content: manager.diff(checkpoint.id),
+        language: "diff",
+      });
+      await vscode.window.showTextDocument(doc);
+      break;
+    }
+
+    case "compare": {
+      const file = await vscode.window.showQuickPick(changed, { placeHolder: "File to compare" });
+      if (!file) return;
+
+      // Left side: checkpoint content in a temp file (empty if the file was created later)
+      const tempPath = path.join(os.tmpdir(), `mythatron-checkpoint-${Date.now()}-${path.basename(file)}`);
+      fs.writeFileSync(tempPath, manager.readFileAt(checkpoint.id, file) || "");
+
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        vscode.Uri.file(tempPath),
+        vscode.Uri.file(manager.toPath(file)),
+        `${path.basename(file)} (${checkpoint.name}) ↔ Working Tree`
+      );
+      break;
+    }
+
+    case "restore-some":
+    case "restore-all": {
+      let files = changed;
+      if (action.value === "restore-some") {
+        const selected = await vscode.window.showQuickPick(changed, {
+          canPickMany: true,
+          placeHolder: "Files to restore",
+        });
+        if (!selected || selected.length === 0) return;
+        files = selected;
+      }
+
+      const policy = getTerminalManager().getPolicy();
+      const result = manager.restore(checkpoint.id, files, (file) => {
+        if (policy.isProtectedPath(file)) throw new Error(`${file} is protected`);
+      });
+      vscode.window.showInformationMessage(
+        `Restored ${result.restored.length} file(s), removed ${result.deleted.length}` +
+          (result.skipped.length ? `, skipped ${result.skipped.length}` : "")
+      );
+      const notRestored = [...result.tooLarge, ...result.refused];
+      if (notRestored.length > 0) {
+        vscode.window.showWarningMessage(
+          `Not restored: ${notRestored.join(", ")}` +
+            (result.tooLarge.length ? ` (${result.tooLarge.length} over 20 MB were never checkpointed)` : "") +
+            (result.refused.length ? ` (${result.refused.length} outside the workspace or protected)` : "")
+        );
+      }
+      break;
+    }
+  }
+}
+
 /**
  * Export cost report to CSV
  */
@@ -1221,6 +1806,8 @@ export function deactivate(): void {
     getOfflineMode().dispose();
     getCostTracker().dispose();
     getLSPCache().dispose();
+    getMCPManager().dispose();
+    getMCPToolServer().dispose();
   } catch {
     // Best effort cleanup
   }
@@ -0,0 +1,215 @@
+/**
+ * Completion Cache - Inline suggestions that survive typing
+ * Keyed on language and the normalized text around the cursor, so the same
+ * spot asks the model once. A suggestion keeps being served, shortened, while
+ * the user types its next characters. Entries are dropped when LSPCache
+ * invalidates their document or a file their context came from, unless the
+ * document change was the user typing through the suggestion.
+ */
+
+import * as crypto from "crypto";
+import * as vscode from "vscode";
+import { getLSPCache } from "../optimizations/lsp-cache";
+
+export interface CachedCompletion {
+  id: number;
+  text: string; // what is left of the suggestion at the cursor
+  multiline: boolean;
+  typed: number; // characters of it the user has already typed
+}
+
+interface CompletionEntry {
+  id: number;
+  filePath: string;
+  offset: number; // cursor offset the suggestion was made for
+  prefix: string; // raw text windows around that offset, to check the entry still applies
+  suffix: string;
+  completion: string;
+  multiline: boolean;
+  dependencies: string[]; // other files whose contents went into the request
+  timestamp: number;
+}
+
+interface CompletionCacheStats {
+  hits: number;
+  typedThroughHits: number;
+  misses: number;
+  invalidations: number;
+}
+
+export class CompletionCache implements vscode.Disposable {
+  // By key, oldest first
+  private entries: Map<string, CompletionEntry> = new Map();
+  private nextId = 1;
+  private invalidationListener: vscode.Disposable;
+
+  private stats: CompletionCacheStats = {
+    hits: 0,
+    typedThroughHits: 0,
+    misses: 0,
+    invalidations: 0,
+  };
+
+  private readonly PREFIX_WINDOW = 1500;
+  private readonly SUFFIX_WINDOW = 500;
+  private readonly TTL = 10 * 60 * 1000; // 10 minutes
+  private readonly MAX_ENTRIES = 500;
+
+  constructor() {
+    this.invalidationListener = getLSPCache().onDidInvalidateFile((filePath) => this.invalidateFile(filePath));
+  }
+
+  /**
+   * Suggestion for the cursor: one made for this exact context, or one the
+   * user is typing through
+   */
+  get(filePath: string, language: string, text: string, offset: number): CachedCompletion | null {
+    const key = this.makeKey(language, text, offset);
+    const exact = this.entries.get(key);
+
+    if (exact && Date.now() - exact.timestamp < this.TTL) {
+      // Refresh LRU position
+      this.entries.delete(key);
+      this.entries.set(key, exact);
+      this.stats.hits++;
+      return { id: exact.id, text: exact.completion, multiline: exact.multiline, typed: 0 };
+    }
+
+    for (const entry of this.entries.values()) {
+      if (entry.filePath !== filePath || Date.now() - entry.timestamp >= this.TTL) continue;
+
+      const typed = offset - entry.offset;
+      if (typed > 0 && typed < entry.completion.length && this.typedThrough(entry, text, typed)) {
+        this.stats.typedThroughHits++;
+        return {
+          id: entry.id,
+          text: entry.completion.slice(typed),
+          multiline: entry.completion.slice(typed).includes("\n"),
+          typed,
+        };
+      }
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  /**
+   * Store a suggestion made for `offset` in `text` (the document as it was
+   * when the request started)
+   */
+  set(
+    filePath: string,
+    language: string,
+    text: string,
+    offset: number,
+    completion: string,
+    multiline: boolean,
+    dependencies: string[] = []
+  ): number {
+    const key = this.makeKey(language, text, offset);
+    const entry: CompletionEntry = {
+      id: this.nextId++,
+      filePath,
+      offset,
+      prefix: text.slice(Math.max(0, offset - this.PREFIX_WINDOW), offset),
+      suffix: text.slice(offset, offset + this.SUFFIX_WINDOW),
+      completion,
+      multiline,
+      dependencies: dependencies.filter((dependency) => dependency !== filePath),
+      timestamp: Date.now(),
+    };
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+
+    return entry.id;
+  }
+
+  /**
+   * Drop entries built from this file. Entries for the file itself survive if
+   * its open document still matches them, allowing for typed-through characters.
+   */
+  invalidateFile(filePath: string): void {
+    const document = vscode.workspace.textDocuments.find((doc) => doc.uri.fsPath === filePath);
+    const text = document?.getText();
+
+    for (const [key, entry] of this.entries) {
+      if (entry.dependencies.includes(filePath)) {
+        this.entries.delete(key);
+        this.stats.invalidations++;
+      } else if (entry.filePath === filePath && (text === undefined || !this.stillApplies(entry, text))) {
+        this.entries.delete(key);
+        this.stats.invalidations++;
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): CompletionCacheStats & { size: number; hitRate: number } {
+    const hits = this.stats.hits + this.stats.typedThroughHits;
+    const total = hits + this.stats.misses;
+    return {
+      ...this.stats,
+      size: this.entries.size,
+      hitRate: total > 0 ? (hits / total) * 100 : 0,
+    };
+  }
+
+  dispose(): void {
+    this.invalidationListener.dispose();
+    this.clear();
+  }
+
+  /**
+   * Language plus the text windows on both sides of the cursor, with trailing
+   * whitespace on complete lines and line endings normalized
+   */
+  private makeKey(language: string, text: string, offset: number): string {
+    const normalize = (window: string) => window.replace(/\r\n/g, "\n").replace(/[ \t]+\n/g, "\n");
+    const prefix = normalize(text.slice(Math.max(0, offset - this.PREFIX_WINDOW), offset));
+    const suffix = normalize(text.slice(offset, offset + this.SUFFIX_WINDOW));
+
+    const hash = crypto.createHash("md5").update(`${prefix}\u0000${suffix}`).digest("hex");
+    return `${language}:${hash}`;
+  }
+
+  /**
+   * The text around the entry is unchanged except for `typed` characters of
+   * the suggestion inserted at its offset
+   */
+  private typedThrough(entry: CompletionEntry, text: string, typed: number): boolean {
+    const start = entry.offset;
+    return (
+      text.slice(start - entry.prefix.length, start) === entry.prefix &&
+      text.slice(start, start + typed) === entry.completion.slice(0, typed) &&
+      text.slice(start + typed, start + typed + entry.suffix.length) === entry.suffix
+    );
+  }
+
+  private stillApplies(entry: CompletionEntry, text: string): boolean {
+    for (let typed = 0; typed < entry.completion.length; typed++) {
+      // Typed characters have to follow the suggestion; stop at the first that doesn't
+      if (typed > 0 && text[entry.offset + typed - 1] !== entry.completion[typed - 1]) return false;
+      if (this.typedThrough(entry, text, typed)) return true;
+    }
+    return false;
+  }
+}
+
+// Singleton instance
+let instance: CompletionCache | null = null;
+
+export function getCompletionCache(): CompletionCache {
+  if (!instance) {
+    instance = new CompletionCache();
+  }
+  return instance;
+}
@@ -0,0 +1,341 @@
+/**
+ * Completion Context - Related code for inline completions
+ * Signatures of symbols the file imports from local modules, and the most
+ * similar snippets from other open editors of the same language. Rendered as
+ * comments ahead of the prefix, within a character budget.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+
+export interface ContextSnippet {
+  file: string; // workspace-relative
+  fsPath: string;
+  text: string;
+  source: "import" | "tab";
+}
+
+const WINDOW_LINES = 20;
+const WINDOW_STEP = 10;
+const MIN_SIMILARITY = 0.2;
+const MAX_TAB_DOCUMENTS = 10;
+const MAX_TAB_SIZE = 200_000;
+
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py"];
+
+const COMMENT_PREFIXES: Record<string, string> = {
+  python: "#",
+  ruby: "#",
+  shellscript: "#",
+  yaml: "#",
+  r: "#",
+  perl: "#",
+  elixir: "#",
+  lua: "--",
+  sql: "--",
+  haskell: "--",
+};
+
+// File content by path and mtime, so imports aren't re-read on every keystroke
+const fileCache = new Map<string, { mtime: number; content: string }>();
+
+/**
+ * Related code for the cursor position, best first, within maxChars
+ */
+export async function gatherCompletionContext(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  maxChars: number
+): Promise<ContextSnippet[]> {
+  if (maxChars <= 0) return [];
+
+  const nearby = document.getText(
+    new vscode.Range(Math.max(0, position.line - WINDOW_LINES), 0, position.line, position.character)
+  );
+
+  const snippets: ContextSnippet[] = [];
+  let budget = maxChars;
+  const take = (candidates: ContextSnippet[], share: number): void => {
+    let allowance = Math.min(budget, share);
+    for (const snippet of candidates) {
+      const size = snippet.text.length + snippet.file.length + 10;
+      if (size > allowance) continue;
+      snippets.push(snippet);
+      allowance -= size;
+      budget -= size;
+    }
+  };
+
+  // Imports first: a signature is what the model most often gets wrong without context
+  take(await collectImportedSignatures(document, nearby), Math.floor(maxChars * 0.6));
+  take(collectTabSnippets(document, nearby), budget);
+
+  return snippets;
+}
+
+/**
+ * Render snippets as comments to prepend to a FIM prompt
+ */
+export function formatContextAsComments(snippets: ContextSnippet[], languageId: string): string {
+  if (snippets.length === 0) return "";
+  const comment = COMMENT_PREFIXES[languageId] ?? "//";
+
+  return snippets
+    .map((snippet) => {
+      const body = snippet.text.split("\n").map((line) => `${comment} ${line}`.trimEnd());
+      return [`${comment} Path: ${snippet.file}`, ...body].join("\n") + "\n";
+    })
+    .join("");
+}
+
+// ============================================
+// IMPORTED SYMBOLS
+// ============================================
+
+async function collectImportedSignatures(document: vscode.TextDocument, nearby: string): Promise<ContextSnippet[]> {
+  const imports = parseImports(document.getText(new vscode.Range(0, 0, Math.min(document.lineCount, 200), 0)), document.languageId);
+  const dir = path.dirname(document.uri.fsPath);
+  const snippets: Array<ContextSnippet & { used: boolean }> = [];
+
+  for (const { specifier, names } of imports) {
+    const file = resolveImport(dir, specifier, document.languageId);
+    if (!file) continue;
+
+    const content = readCached(file);
+    if (!content) continue;
+
+    for (const name of names) {
+      const signature = extractSignature(content, name, document.languageId);
+      if (!signature) continue;
+      snippets.push({
+        file: vscode.workspace.asRelativePath(file),
+        fsPath: file,
+        text: signature,
+        source: "import",
+        used: new RegExp(`\\b${escapeName(name)}\\b`).test(nearby),
+      });
+    }
+  }
+
+  // Symbols used near the cursor first
+  return snippets.sort((a, b) => Number(b.used) - Number(a.used)).map(({ used: _used, ...snippet }) => snippet);
+}
+
+function parseImports(text: string, languageId: string): Array<{ specifier: string; names: string[] }> {
+  const imports: Array<{ specifier: string; names: string[] }> = [];
+
+  if (languageId === "python") {
+    for (const m of text.matchAll(/^from\s+(\.+[\w.]*)\s+import\s+\(?([\w\s,]+)\)?/gm)) {
+      imports.push({ specifier: m[1], names: splitNames(m[2]) });
+    }
+    return imports;
+  }
+
+  for (const m of text.matchAll(/import\s+(?:type\s+)?([\w$]+)?\s*,?\s*(?:\{([^}]*)\})?\s*from\s*["']([^"']+)["']/g)) {
+    const names = [...(m[1] ? [m[1]] : []), ...splitNames(m[2] ?? "")];
+    imports.push({ specifier: m[3], names });
+  }
+  for (const m of text.matchAll(/(?:const|let|var)\s+\{([^}]*)\}\s*=\s*require\(\s*["']([^"']+)["']\s*\)/g)) {
+    imports.push({ specifier: m[2], names: splitNames(m[1]) });
+  }
+  return imports;
+}
+
+function splitNames(list: string): string[] {
+  return list
+    .split(",")
+    .map((part) => part.trim().replace(/^type\s+/, "").split(/\s+as\s+|\s*:\s*/)[0].trim())
+    .filter((name) => /^[\w$]+$/.test(name));
+}
+
+/**
+ * Local modules only; packages are better known to the model than any snippet
+ */
+function resolveImport(dir: string, specifier: string, languageId: string): string | null {
+  let base: string;
+  if (languageId === "python") {
+    const dots = specifier.match(/^\.+/)![0].length;
+    const rest = specifier.slice(dots).replace(/\./g, path.sep);
+    base = path.join(dir, ...Array(dots - 1).fill(".."), rest);
+  } else {
+    if (!specifier.startsWith(".")) return null;
+    base = path.resolve(dir, specifier.replace(/\.js$/, ""));
+  }
+
+  const candidates = [
+    ...RESOLVE_EXTENSIONS.map((ext) => base + ext),
+    ...RESOLVE_EXTENSIONS.map((ext) => path.join(base, (languageId === "python" ? "__init__" : "index") + ext)),
+  ];
+  return candidates.find((candidate) => fs.existsSync(candidate)) ?? null;
+}
+
+function readCached(file: string): string | null {
+  const open = vscode.workspace.textDocuments.find((doc) => doc.uri.fsPath === file);
+  if (open) return open.getText();
+
+  try {
+    const mtime = fs.statSync(file).mtimeMs;
+    const cached = fileCache.get(file);
+    if (cached?.mtime === mtime) return cached.content;
+
+    const content = fs.readFileSync(file, "utf-8");
+    fileCache.set(file, { mtime, content });
+    if (fileCache.size > 200) fileCache.delete(fileCache.keys().next().value!);
+    return content;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A declaration without its implementation: a function's signature, or a
+ * class/interface with member bodies left out
+ */
+function extractSignature(content: string, name: string, languageId: string): string | null {
+  const lines = content.split("\n");
+  const declaration = new RegExp(
+    languageId === "python"
+      ? `^\\s*(async\\s+)?(def|class)\\s+${escapeName(name)}\\b`
+      : `^\\s*(export\\s+)?(default\\s+)?(declare\\s+)?(abstract\\s+)?(async\\s+)?(function\\*?|class|interface|type|enum|const|let|var)\\s+${escapeName(name)}\\b`
+  );
+
+  const start = lines.findIndex((line) => declaration.test(line));
+  if (start < 0) return null;
+
+  return languageId === "python" ? pythonSignature(lines, start) : braceSignature(lines, start);
+}
+
+function braceSignature(lines: string[], start: number): string {
+  const header = lines[start];
+  const kept: string[] = [];
+
+  if (!/\b(class|interface|enum)\b/.test(header)) {
+    // Signature lines up to where the body opens or the statement ends
+    for (let i = start; i < lines.length && kept.length < 10; i++) {
+      const line = lines[i].trimEnd();
+      if (line.endsWith("{")) {
+        kept.push(line + " ... }");
+        break;
+      }
+      kept.push(line);
+      if (/[;}]$/.test(line) || (i === start && !/[,(<:=|&]$/.test(line))) break;
+    }
+    return dedent(kept).join("\n");
+  }
+
+  // Containers: keep the members at the top level of the body, without their bodies
+  let depth = 0;
+  let opened = false;
+  for (let i = start; i < lines.length && kept.length < 25; i++) {
+    const line = lines[i].trimEnd();
+    const depthBefore = depth;
+    opened ||= line.includes("{");
+    depth += (line.match(/\{/g)?.length ?? 0) - (line.match(/\}/g)?.length ?? 0);
+
+    if (depthBefore <= 1) {
+      kept.push(depthBefore === 1 && depth > 1 ? line.slice(0, line.indexOf("{") + 1) + " ... }" : line);
+    }
+    if (opened && depth <= 0) break;
+  }
+
+  return dedent(kept).join("\n");
+}
+
+function pythonSignature(lines: string[], start: number): string {
+  const indent = lines[start].match(/^\s*/)![0].length;
+  const kept = [lines[start]];
+
+  if (/^\s*class\b/.test(lines[start])) {
+    for (let i = start + 1; i < lines.length && kept.length < 25; i++) {
+      const line = lines[i];
+      if (!line.trim()) continue;
+      const lineIndent = line.match(/^\s*/)![0].length;
+      if (lineIndent <= indent) break;
+      if (/^\s*(async\s+)?def\s|^\s*\w+\s*[:=]/.test(line) && lineIndent <= indent + 4) kept.push(line);
+    }
+  } else {
+    // Multi-line parameter lists
+    for (let i = start + 1; i < lines.length && !/:\s*(#.*)?$/.test(kept[kept.length - 1]) && kept.length < 10; i++) {
+      kept.push(lines[i]);
+    }
+  }
+
+  return dedent(kept).join("\n");
+}
+
+function escapeName(name: string): string {
+  return name.replace(/\$/g, "\\$");
+}
+
+function dedent(lines: string[]): string[] {
+  const indent = Math.min(...lines.filter((l) => l.trim()).map((l) => l.match(/^\s*/)![0].length));
+  return lines.map((line) => line.slice(Number.isFinite(indent) ? indent : 0).trimEnd());
+}
+
+// ============================================
+// NEIGHBOURING TABS
+// ============================================
+
+/**
+ * Windows from other open editors most similar to the code around the cursor
+ * (Jaccard similarity over identifiers)
+ */
+function collectTabSnippets(document: vscode.TextDocument, nearby: string): ContextSnippet[] {
+  const query = tokenize(nearby);
+  if (query.size === 0) return [];
+
+  const openUris = new Set(
+    vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .map((tab) => tab.input)
+      .filter((input): input is vscode.TabInputText => input instanceof vscode.TabInputText)
+      .map((input) => input.uri.toString())
+  );
+
+  const documents = vscode.workspace.textDocuments
+    .filter(
+      (doc) =>
+        doc.uri.toString() !== document.uri.toString() &&
+        doc.uri.scheme === "file" &&
+        doc.languageId === document.languageId &&
+        openUris.has(doc.uri.toString()) &&
+        doc.getText().length <= MAX_TAB_SIZE
+    )
+    .slice(0, MAX_TAB_DOCUMENTS);
+
+  const scored: Array<ContextSnippet & { score: number }> = [];
+  for (const doc of documents) {
+    const lines = doc.getText().split("\n");
+    let best: { score: number; start: number } | null = null;
+
+    for (let start = 0; start < lines.length; start += WINDOW_STEP) {
+      const score = jaccard(query, tokenize(lines.slice(start, start + WINDOW_LINES).join("\n")));
+      if (!best || score > best.score) best = { score, start };
+      if (start + WINDOW_LINES >= lines.length) break;
+    }
+
+    if (best && best.score >= MIN_SIMILARITY) {
+      scored.push({
+        file: vscode.workspace.asRelativePath(doc.uri),
+        fsPath: doc.uri.fsPath,
+        text: lines.slice(best.start, best.start + WINDOW_LINES).join("\n").trimEnd(),
+        source: "tab",
+        score: best.score,
+      });
+    }
+  }
+
+  return scored.sort((a, b) => b.score - a.score).map(({ score: _score, ...snippet }) => snippet);
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.match(/[A-Za-z_$][\w$]{2,}/g) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const token of a) if (b.has(token)) intersection++;
+  return intersection / (a.size + b.size - intersection);
+}
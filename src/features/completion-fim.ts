@@ -0,0 +1,315 @@
+/**
+ * Completion Backends - Fill-in-the-middle requests for inline completions
+ * Ollama's /api/generate with a suffix (coder models apply their own FIM
+ * template), OpenAI-compatible /completions with prompt + suffix, or a chat
+ * model through the provider manager when no FIM model is configured. FIM
+ * backends stream so a request can stop as soon as the completion is complete.
+ */
+
+import * as vscode from "vscode";
+import { getProviderManager } from "../providers";
+import { getCostTracker } from "../optimizations/cost-tracker";
+
+export type CompletionBackendType = "ollama" | "openai" | "chat";
+
+export interface FimRequest {
+  prefix: string;
+  suffix: string;
+  context: string; // related code, formatted as comments in the file's language
+  language: string;
+  fileName: string;
+  maxTokens: number;
+  stop: string[];
+  signal: AbortSignal;
+  // Called with the text so far; return true to stop generating
+  onText?: (text: string) => boolean;
+}
+
+export interface CompletionBackend {
+  readonly type: CompletionBackendType;
+  readonly model: string;
+  complete(request: FimRequest): Promise<string>;
+}
+
+/**
+ * Backend from settings. "auto" uses an OpenAI-compatible server when an
+ * endpoint is set, Ollama when only a model is set, and the chat models otherwise.
+ */
+export function createCompletionBackend(): CompletionBackend {
+  const config = vscode.workspace.getConfiguration("mythaTron");
+  const model = config.get<string>("completionModel", "");
+  const endpoint = config.get<string>("completionEndpoint", "");
+
+  let type = config.get<string>("completionBackend", "auto");
+  if (type === "auto") type = model ? (endpoint ? "openai" : "ollama") : "chat";
+
+  if (type === "ollama") {
+    return new OllamaFimBackend(
+      config.get<string>("ollamaUrl", "http://localhost:11434"),
+      model || "qwen2.5-coder:1.5b"
+    );
+  }
+  if (type === "openai") {
+    return new OpenAIFimBackend(
+      endpoint || "https://api.openai.com/v1",
+      model || "gpt-3.5-turbo-instruct",
+      config.get<string>("completionApiKey", "") || config.get<string>("openaiApiKey", "")
+    );
+  }
+  return new ChatCompletionBackend();
+}
+
+// ============================================
+// OLLAMA
+// ============================================
+
+class OllamaFimBackend implements CompletionBackend {
+  readonly type = "ollama";
+
+  constructor(private baseUrl: string, readonly model: string) {}
+
+  async complete(request: FimRequest): Promise<string> {
+    const startTime = Date.now();
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/api/generate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.model,
+        prompt: request.context + request.prefix,
+        suffix: request.suffix,
+        stream: true,
+        keep_alive: "30m",
+        options: {
+          temperature: 0,
+          num_predict: request.maxTokens,
+          stop: request.stop.length > 0 ? request.stop : undefined,
+        },
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama completion failed: ${response.status} ${await response.text()}`);
+    }
+
+    let text = "";
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    await readLines(response, (line) => {
+      const parsed = JSON.parse(line) as {
+        response?: string;
+        done?: boolean;
+        prompt_eval_count?: number;
+        eval_count?: number;
+      };
+      if (parsed.response) text += parsed.response;
+      if (parsed.done) {
+        inputTokens = parsed.prompt_eval_count || 0;
+        outputTokens = parsed.eval_count || 0;
+      }
+      return !!parsed.done || !!request.onText?.(text);
+    });
+
+    logUsage(this, request, inputTokens, outputTokens || estimateTokens(text), startTime);
+    return text;
+  }
+}
+
+// ============================================
+// OPENAI-COMPATIBLE
+// ============================================
+
+class OpenAIFimBackend implements CompletionBackend {
+  readonly type = "openai";
+
+  constructor(private baseUrl: string, readonly model: string, private apiKey: string) {}
+
+  async complete(request: FimRequest): Promise<string> {
+    const startTime = Date.now();
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        prompt: request.context + request.prefix,
+        suffix: request.suffix,
+        max_tokens: request.maxTokens,
+        temperature: 0,
+        stream: true,
+        // The OpenAI API accepts at most four stop sequences
+        stop: request.stop.length > 0 ? request.stop.slice(0, 4) : undefined,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Completion request failed: ${response.status} ${await response.text()}`);
+    }
+
+    let text = "";
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    await readLines(response, (line) => {
+      if (!line.startsWith("data:")) return false;
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return true;
+
+      const parsed = JSON.parse(data) as {
+        choices?: Array<{ text?: string; finish_reason?: string | null }>;
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+      const choice = parsed.choices?.[0];
+      if (choice?.text) text += choice.text;
+      if (parsed.usage) {
+        inputTokens = parsed.usage.prompt_tokens || 0;
+        outputTokens = parsed.usage.completion_tokens || 0;
+      }
+      return !!request.onText?.(text);
+    });
+
+    logUsage(
+      this,
+      request,
+      inputTokens || estimateTokens(request.context + request.prefix + request.suffix),
+      outputTokens || estimateTokens(text),
+      startTime
+    );
+    return text;
+  }
+}
+
+// ============================================
+// CHAT FALLBACK
+// ============================================
+
+const CHAT_SYSTEM_PROMPT = `You are a code completion engine. Output ONLY the text to insert at <CURSOR>.
+
+Rules:
+- Output ONLY completion text, no explanations and no code fences
+- Do not repeat code before or after <CURSOR>
+- Match existing code style and indentation
+- Complete the current statement, or the current block when the cursor starts one`;
+
+class ChatCompletionBackend implements CompletionBackend {
+  readonly type = "chat";
+  readonly model = "auto";
+
+  async complete(request: FimRequest): Promise<string> {
+    const related = request.context ? `Related code:\n${request.context}\n` : "";
+    const prompt = `${related}Complete the code at <CURSOR>.
+File: ${request.fileName} (${request.language})
+
+\`\`\`${request.language}
+${request.prefix}<CURSOR>${request.suffix}
+\`\`\``;
+
+    // The provider manager tracks cost itself; it can't be aborted, so drop late results.
+    // Its response cache is skipped: suggestions are cached by the completion cache.
+    const response = await getProviderManager().complete(
+      {
+        messages: [
+          { role: "system", content: CHAT_SYSTEM_PROMPT },
+          { role: "user", content: prompt },
+        ],
+        maxTokens: request.maxTokens,
+        temperature: 0,
+      },
+      {
+        forceComplexity: "simple",
+        useCache: false,
+      }
+    );
+
+    if (request.signal.aborted) throw abortError();
+    return extractChatCompletion(response.content);
+  }
+}
+
+/**
+ * Strip the fences and preamble chat models add despite instructions
+ */
+function extractChatCompletion(response: string): string {
+  const fenced = response.match(/```[\w-]*\n([\s\S]*?)(```|$)/);
+  const completion = fenced ? fenced[1] : response;
+  return completion.replace(/^(here'?s?( is)?( the)?( completion)?:?)\s*\n/i, "").replace(/\s+$/, "");
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Feed complete lines of a streamed body to onLine until it returns true or the
+ * stream ends. Lines that fail to parse are skipped.
+ */
+async function readLines(response: Response, onLine: (line: string) => boolean): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No response body");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          if (onLine(line.trim())) return;
+        } catch {
+          // Skip invalid JSON
+        }
+      }
+    }
+
+    if (buffer.trim()) {
+      try {
+        onLine(buffer.trim());
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+  } finally {
+    // Stops generation on the server when we return early
+    reader.cancel().catch(() => {});
+  }
+}
+
+function logUsage(
+  backend: CompletionBackend,
+  request: FimRequest,
+  inputTokens: number,
+  outputTokens: number,
+  startTime: number
+): void {
+  getCostTracker().logRequest({
+    provider: backend.type,
+    model: backend.model,
+    query: request.prefix.slice(-100),
+    inputTokens,
+    outputTokens,
+    latencyMs: Date.now() - startTime,
+    category: "completion",
+  });
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function abortError(): Error {
+  const error = new Error("Completion aborted");
+  error.name = "AbortError";
+  return error;
+}
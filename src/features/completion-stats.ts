@@ -0,0 +1,111 @@
+/**
+ * Completion Stats - Acceptance rates for inline completions per language
+ * Counts suggestions shown, fully accepted and partially accepted (word/line),
+ * persisted in global state. Languages where multi-line suggestions are
+ * rarely taken fall back to single-line ones.
+ */
+
+import * as vscode from "vscode";
+
+export interface LanguageCompletionStats {
+  shown: number;
+  accepted: number;
+  partial: number;
+  multilineShown: number;
+  multilineAccepted: number;
+  acceptedChars: number;
+}
+
+const STATE_KEY = "mythaTron.completionStats";
+const MIN_SAMPLES = 20;
+const MIN_MULTILINE_RATE = 0.1;
+
+export class CompletionStats {
+  private stats: Record<string, LanguageCompletionStats>;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private state?: vscode.Memento) {
+    this.stats = state?.get<Record<string, LanguageCompletionStats>>(STATE_KEY) ?? {};
+  }
+
+  recordShown(language: string, multiline: boolean): void {
+    const stats = this.get(language);
+    stats.shown++;
+    if (multiline) stats.multilineShown++;
+    this.save();
+  }
+
+  recordAccepted(language: string, multiline: boolean, chars: number): void {
+    const stats = this.get(language);
+    stats.accepted++;
+    stats.acceptedChars += chars;
+    if (multiline) stats.multilineAccepted++;
+    this.save();
+  }
+
+  recordPartial(language: string): void {
+    this.get(language).partial++;
+    this.save();
+  }
+
+  /**
+   * Share of shown suggestions taken in full or in part, once there's enough data
+   */
+  getAcceptanceRate(language: string): number | undefined {
+    const stats = this.stats[language];
+    if (!stats || stats.shown < MIN_SAMPLES) return undefined;
+    return Math.min(1, (stats.accepted + stats.partial) / stats.shown);
+  }
+
+  /**
+   * Multi-line suggestions are shown often here but almost never accepted
+   */
+  preferSingleLine(language: string): boolean {
+    const stats = this.stats[language];
+    if (!stats || stats.multilineShown < MIN_SAMPLES) return false;
+    return stats.multilineAccepted / stats.multilineShown < MIN_MULTILINE_RATE;
+  }
+
+  getAll(): Record<string, LanguageCompletionStats> {
+    return { ...this.stats };
+  }
+
+  reset(): void {
+    this.stats = {};
+    this.save();
+  }
+
+  private get(language: string): LanguageCompletionStats {
+    return (this.stats[language] ??= {
+      shown: 0,
+      accepted: 0,
+      partial: 0,
+      multilineShown: 0,
+      multilineAccepted: 0,
+      acceptedChars: 0,
+    });
+  }
+
+  private save(): void {
+    if (!this.state || this.saveTimer) return;
+    // Batch writes; suggestions are shown on nearly every pause in typing
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.state?.update(STATE_KEY, this.stats);
+    }, 5000);
+  }
+}
+
+let completionStats: CompletionStats | null = null;
+
+export function initCompletionStats(state: vscode.Memento): CompletionStats {
+  completionStats = new CompletionStats(state);
+  return completionStats;
+}
+
+export function getCompletionStats(): CompletionStats {
+  if (!completionStats) {
+    completionStats = new CompletionStats();
+  }
+  return completionStats;
+}
@@ -0,0 +1,139 @@
+/**
+ * Completion Trimming - Cut model output at syntactic boundaries
+ * Models keep generating past the end of the block they were asked to fill:
+ * closing braces the file already has, the next function, or a repeat of the
+ * code after the cursor. These helpers decide single vs multi-line and keep
+ * only the part that belongs at the cursor.
+ */
+
+export interface TrimContext {
+  linePrefix: string; // current line up to the cursor
+  lineSuffix: string; // rest of the current line
+  suffix: string; // everything after the cursor (a window is enough)
+  multiline: boolean;
+  maxLines: number;
+}
+
+const SPECIAL_TOKENS = /<\|[a-z_]+\|>|<EOT>|<\/s>|<fim_[a-z]+>/i;
+const BLOCK_OPENER = /(\{|\(|\[|:|=>)\s*$/;
+const CLOSERS = /^[\s)\]}'"`;,]*$/;
+
+/**
+ * Multi-line when starting a fresh statement or right after a block opener,
+ * with nothing but closers after the cursor
+ */
+export function shouldCompleteMultiline(linePrefix: string, lineSuffix: string): boolean {
+  if (!CLOSERS.test(lineSuffix)) return false;
+  return linePrefix.trim() === "" || BLOCK_OPENER.test(linePrefix);
+}
+
+/**
+ * Keep the part of the model output that belongs at the cursor
+ */
+export function trimCompletion(text: string, context: TrimContext): string {
+  let completion = text.replace(/\r\n/g, "\n");
+
+  const special = completion.search(SPECIAL_TOKENS);
+  if (special >= 0) completion = completion.slice(0, special);
+
+  if (!context.multiline) {
+    completion = completion.split("\n")[0];
+  } else {
+    completion = cutAtBlockEnd(completion, context).text;
+  }
+
+  completion = stripSuffixOverlap(completion, context.lineSuffix).trimEnd();
+  return completion.trim() ? completion : "";
+}
+
+/**
+ * True once streamed output has run past a boundary, so the request can stop early
+ */
+export function reachedBoundary(text: string, context: TrimContext): boolean {
+  const lastNewline = text.lastIndexOf("\n");
+  if (lastNewline < 0) return false;
+
+  // Only judge complete lines; the last one may still be arriving
+  const complete = text.slice(0, lastNewline + 1);
+  if (!context.multiline) return true;
+  if (complete.split("\n").length - 1 >= context.maxLines) return true;
+  return cutAtBlockEnd(complete, context).ended;
+}
+
+/**
+ * Lines up to the end of the block being written; `ended` when a boundary was hit
+ */
+function cutAtBlockEnd(completion: string, context: TrimContext): { text: string; ended: boolean } {
+  const lines = completion.split("\n");
+  const cursorIndent = indentOf(context.linePrefix);
+  const opensBlock = BLOCK_OPENER.test(context.linePrefix);
+  const nextSuffixLine = context.suffix.split("\n").slice(1).find((l) => l.trim())?.trim() ?? "";
+
+  const kept: string[] = [lines[0]];
+  let blankRun = 0;
+  let ended = false;
+
+  for (let i = 1; i < lines.length && kept.length < context.maxLines; i++) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      if (++blankRun >= 2) {
+        ended = true;
+        break;
+      }
+      kept.push(line);
+      continue;
+    }
+    blankRun = 0;
+
+    const indent = indentOf(line);
+    const closes = /^[)\]}]/.test(line.trim());
+
+    // Dedented past where the cursor started: the enclosing block has ended
+    if (indent < cursorIndent) {
+      ended = true;
+      break;
+    }
+
+    if (indent === cursorIndent && closes) {
+      // Closes the block the cursor line opened; keep it unless the file already has it
+      if (opensBlock && line.trim() !== nextSuffixLine) kept.push(line);
+      ended = true;
+      break;
+    }
+
+    // The model is reproducing code that already follows the cursor
+    if (line.trim() === nextSuffixLine && nextSuffixLine.length > 3) {
+      ended = true;
+      break;
+    }
+
+    kept.push(line);
+  }
+
+  while (kept.length > 1 && !kept[kept.length - 1].trim()) kept.pop();
+  return { text: kept.join("\n"), ended };
+}
+
+/**
+ * Drop a trailing copy of what already follows the cursor on this line
+ * ("foo(|)" completed as "a, b)")
+ */
+function stripSuffixOverlap(completion: string, lineSuffix: string): string {
+  const rest = lineSuffix.trim();
+  if (!rest) return completion;
+
+  const trimmed = completion.trimEnd();
+  if (trimmed.endsWith(rest)) return trimmed.slice(0, -rest.length);
+
+  // Partial overlap: the completion ends with the first closers of the suffix
+  for (let length = rest.length - 1; length > 0; length--) {
+    const head = rest.slice(0, length);
+    if (CLOSERS.test(head) && trimmed.endsWith(head)) return trimmed.slice(0, -length);
+  }
+  return completion;
+}
+
+function indentOf(line: string): number {
+  return line.match(/^[ \t]*/)![0].replace(/\t/g, "    ").length;
+}
@@ -1,24 +1,76 @@
 /**
  * Inline Completions - Tab autocomplete like Cursor
- * Predicts what you're about to type
+ * Fill-in-the-middle with the code before and after the cursor, plus related
+ * code from imports and open editors. Suggestions can span several lines and
+ * are trimmed at block boundaries; acceptance is tracked per language.
  */
 
 import * as vscode from "vscode";
-import { getProviderManager } from "../providers";
+import { getSmartDebouncer } from "../optimizations/debouncer";
+import { CompletionBackend, createCompletionBackend } from "./completion-fim";
+import { formatContextAsComments, gatherCompletionContext } from "./completion-context";
+import { TrimContext, reachedBoundary, shouldCompleteMultiline, trimCompletion } from "./completion-trim";
+import { getCompletionStats, initCompletionStats } from "./completion-stats";
+import { getCompletionCache } from "./completion-cache";
 
-export class InlineCompletionProvider implements vscode.InlineCompletionItemProvider {
-  private debounceTimer: NodeJS.Timeout | null = null;
-  private enabled = true;
+const PREFIX_CHARS = 6000;
+const SUFFIX_CHARS = 2000;
+const CONTEXT_CHARS = 2000;
+const SINGLE_LINE_TOKENS = 64;
+
+interface ShownCompletion {
+  id: number; // cache entry; typing through a suggestion keeps its id
+  uri: string;
+  language: string;
+  multiline: boolean;
+}
+
+export class InlineCompletionProvider implements vscode.InlineCompletionItemProvider, vscode.Disposable {
+  private enabled = false;
+  private backend!: CompletionBackend;
+  private maxLines = 8;
+  private maxTokens = 256;
+  private inFlight: AbortController | null = null;
+  private lastShown: ShownCompletion | null = null;
+  private configListener: vscode.Disposable;
+
+  // Resolves once typing pauses; the delay adapts to typing speed and the text before the cursor
+  private readonly settle = getSmartDebouncer().debounce(
+    "inline-completion",
+    async (_linePrefix: string) => true,
+    { minDelay: 75, maxDelay: 600 }
+  );
 
   constructor() {
-    const config = vscode.workspace.getConfiguration("claudeCode");
-    this.enabled = config.get<boolean>("enableInlineCompletions") ?? false;
+    this.loadConfig();
+    this.configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("mythaTron")) this.loadConfig();
+    });
+  }
+
+  private loadConfig(): void {
+    const config = vscode.workspace.getConfiguration("mythaTron");
+    this.enabled = config.get<boolean>("enableInlineCompletions", false);
+    this.maxLines = Math.max(1, config.get<number>("completionMaxLines", 8));
+    this.maxTokens = Math.max(16, config.get<number>("completionMaxTokens", 256));
+    this.backend = createCompletionBackend();
   }
 
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
   }
 
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * The suggestion currently on screen, for acceptance tracking
+   */
+  getLastShown(): ShownCompletion | null {
+    return this.lastShown;
+  }
+
   async provideInlineCompletionItems(
     document: vscode.TextDocument,
     position: vscode.Position,
@@ -28,146 +80,228 @@ export class InlineCompletionProvider implements vscode.InlineCompletionItemProv
     if (!this.enabled) return null;
     if (context.selectedCompletionInfo) return null;
 
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
+    const line = document.lineAt(position.line).text;
+    const linePrefix = line.slice(0, position.character);
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+
+    // Served without waiting: this spot was asked before, or the user is typing through a suggestion
+    const cached = getCompletionCache().get(document.uri.fsPath, document.languageId, text, offset);
+    if (cached) {
+      return [this.createItem(document, position, cached.id, cached.text, cached.multiline)];
     }
 
-    return new Promise((resolve) => {
-      this.debounceTimer = setTimeout(async () => {
-        if (token.isCancellationRequested) {
-          resolve(null);
-          return;
-        }
-
-        const completion = await this.getCompletion(document, position);
-        if (!completion || token.isCancellationRequested) {
-          resolve(null);
-          return;
-        }
-
-        const item = new vscode.InlineCompletionItem(
-          completion,
-          new vscode.Range(position, position)
-        );
-
-        resolve([item]);
-      }, 500);
-    });
-  }
+    // A superseded debounce call never resolves, so wait on cancellation too
+    const settled = await raceCancellation(this.settle(linePrefix), token);
+    if (!settled || token.isCancellationRequested) return null;
 
-  private async getCompletion(
-    document: vscode.TextDocument,
-    position: vscode.Position
-  ): Promise<string | null> {
-    try {
-      const prefix = this.getPrefix(document, position);
-      const suffix = this.getSuffix(document, position);
+    // Only one request at a time: a new keystroke aborts the previous one
+    this.inFlight?.abort();
+    const controller = new AbortController();
+    this.inFlight = controller;
+    const cancelListener = token.onCancellationRequested(() => controller.abort());
 
-      if (prefix.trim().length < 3 && suffix.trim().length < 3) {
-        return null;
-      }
+    try {
+      const completion = await this.getCompletion(document, position, text, offset, linePrefix, line.slice(position.character), controller.signal);
+      if (!completion) return null;
 
-      const prompt = this.buildCompletionPrompt(document, prefix, suffix);
-      const providerManager = getProviderManager();
-      
-      const response = await providerManager.complete(
-        {
-          messages: [
-            { role: "system", content: COMPLETION_SYSTEM_PROMPT },
-            { role: "user", content: prompt },
-          ],
-          maxTokens: 150,
-          temperature: 0,
-        },
-        {
-          forceComplexity: "simple",
-          useCache: true,
-        }
+      // Cached against the text the request was made for, even if the user has moved on
+      const id = getCompletionCache().set(
+        document.uri.fsPath,
+        document.languageId,
+        text,
+        offset,
+        completion.text,
+        completion.multiline,
+        completion.dependencies
       );
+      if (token.isCancellationRequested) return null;
 
-      const completion = this.extractCompletion(response.content);
-      
-      if (!completion || completion.length < 2) {
-        return null;
-      }
-
-      return completion;
+      return [this.createItem(document, position, id, completion.text, completion.multiline)];
     } catch (error) {
-      console.error("Completion error:", error);
+      if (!(error instanceof Error && error.name === "AbortError")) {
+        console.error("Completion error:", error);
+      }
       return null;
+    } finally {
+      cancelListener.dispose();
+      if (this.inFlight === controller) this.inFlight = null;
     }
   }
 
-  private getPrefix(document: vscode.TextDocument, position: vscode.Position): string {
-    const startLine = Math.max(0, position.line - 15);
-    const range = new vscode.Range(startLine, 0, position.line, position.character);
-    return document.getText(range);
-  }
+  private async getCompletion(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    text: string,
+    offset: number,
+    linePrefix: string,
+    lineSuffix: string,
+    signal: AbortSignal
+  ): Promise<{ text: string; multiline: boolean; dependencies: string[] } | null> {
+    const prefix = text.slice(Math.max(0, offset - PREFIX_CHARS), offset);
+    const suffix = text.slice(offset, offset + SUFFIX_CHARS);
 
-  private getSuffix(document: vscode.TextDocument, position: vscode.Position): string {
-    const endLine = Math.min(document.lineCount - 1, position.line + 5);
-    const range = new vscode.Range(
-      position.line,
-      position.character,
-      endLine,
-      document.lineAt(endLine).text.length
-    );
-    return document.getText(range);
-  }
+    if (prefix.trim().length < 3 && suffix.trim().length < 3) {
+      return null;
+    }
 
-  private buildCompletionPrompt(
-    document: vscode.TextDocument,
-    prefix: string,
-    suffix: string
-  ): string {
-    const language = document.languageId;
-    const filename = document.fileName.split("/").pop() || "file";
+    const multiline =
+      shouldCompleteMultiline(linePrefix, lineSuffix) &&
+      !getCompletionStats().preferSingleLine(document.languageId);
+    const trimContext: TrimContext = { linePrefix, lineSuffix, suffix, multiline, maxLines: this.maxLines };
 
-    return `Complete the code at <CURSOR>.
-File: ${filename} (${language})
+    const snippets = await gatherCompletionContext(document, position, CONTEXT_CHARS);
+    if (signal.aborted) return null;
 
-\`\`\`${language}
-${prefix}<CURSOR>${suffix}
-\`\`\`
+    const raw = await this.backend.complete({
+      prefix,
+      suffix,
+      context: formatContextAsComments(snippets, document.languageId),
+      language: document.languageId,
+      fileName: vscode.workspace.asRelativePath(document.uri),
+      maxTokens: multiline ? this.maxTokens : SINGLE_LINE_TOKENS,
+      stop: multiline ? [] : ["\n"],
+      signal,
+      onText: (output) => reachedBoundary(output, trimContext),
+    });
+
+    const completion = trimCompletion(raw, trimContext);
+    if (!completion) return null;
 
-Output ONLY the completion text.`;
+    return {
+      text: completion,
+      multiline: completion.includes("\n"),
+      dependencies: snippets.map((snippet) => snippet.fsPath),
+    };
   }
 
-  private extractCompletion(response: string): string | null {
-    let completion = response.replace(/```[\s\S]*?```/g, "").trim();
-    completion = completion.replace(/^(here'?s?|the|completion:?)\s*/i, "").trim();
+  private createItem(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    id: number,
+    text: string,
+    multiline: boolean
+  ): vscode.InlineCompletionItem {
+    this.recordShown(document, id, multiline);
+
+    return new vscode.InlineCompletionItem(text, new vscode.Range(position, position), {
+      command: "mythaTron.completionAccepted",
+      title: "Completion accepted",
+      arguments: [document.languageId, multiline, text.length],
+    });
+  }
 
-    if (completion.includes("The completion") || completion.length > 200) {
-      return null;
-    }
+  private recordShown(document: vscode.TextDocument, id: number, multiline: boolean): void {
+    const uri = document.uri.toString();
+    // VS Code asks again as the user types through a suggestion; count each suggestion once
+    const last = this.lastShown;
+    if (last && last.uri === uri && last.id === id) return;
 
-    return completion || null;
+    this.lastShown = { id, uri, language: document.languageId, multiline };
+    getCompletionStats().recordShown(document.languageId, multiline);
+  }
+
+  dispose(): void {
+    this.inFlight?.abort();
+    this.settle.cancel();
+    this.configListener.dispose();
   }
 }
 
-const COMPLETION_SYSTEM_PROMPT = `You are a code completion engine. Output ONLY the text to insert at <CURSOR>.
+function raceCancellation<T>(promise: Promise<T>, token: vscode.CancellationToken): Promise<T | undefined> {
+  if (token.isCancellationRequested) return Promise.resolve(undefined);
 
-Rules:
-- Output ONLY completion text, no explanations
-- Match existing code style
-- Complete the current statement
-- Keep it short and focused`;
+  return new Promise((resolve) => {
+    const listener = token.onCancellationRequested(() => {
+      listener.dispose();
+      resolve(undefined);
+    });
+    promise.then(
+      (value) => {
+        listener.dispose();
+        resolve(value);
+      },
+      () => {
+        listener.dispose();
+        resolve(undefined);
+      }
+    );
+  });
+}
 
 /**
- * Register the inline completion provider
+ * Register the inline completion provider and its acceptance tracking commands
  */
 export function registerInlineCompletions(
   context: vscode.ExtensionContext
 ): InlineCompletionProvider {
+  initCompletionStats(context.globalState);
   const provider = new InlineCompletionProvider();
 
+  // Partial accepts go through these so they can be counted
+  const acceptPart = (command: string) => async () => {
+    const shown = provider.getLastShown();
+    if (shown) getCompletionStats().recordPartial(shown.language);
+    await vscode.commands.executeCommand(command);
+  };
+
   context.subscriptions.push(
+    provider,
     vscode.languages.registerInlineCompletionItemProvider(
       { pattern: "**" },
       provider
-    )
+    ),
+    vscode.commands.registerCommand(
+      "mythaTron.completionAccepted",
+      (language: string, multiline: boolean, chars: number) => {
+        getCompletionStats().recordAccepted(language, multiline, chars);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "mythaTron.acceptCompletionWord",
+      acceptPart("editor.action.inlineSuggest.acceptNextWord")
+    ),
+    vscode.commands.registerCommand(
+      "mythaTron.acceptCompletionLine",
+      acceptPart("editor.action.inlineSuggest.acceptNextLine")
+    ),
+    vscode.commands.registerCommand("mythaTron.showCompletionStats", () => showCompletionStats())
   );
 
   return provider;
 }
 
+async function showCompletionStats(): Promise<void> {
+  const stats = getCompletionStats();
+  const all = Object.entries(stats.getAll()).sort((a, b) => b[1].shown - a[1].shown);
+
+  if (all.length === 0) {
+    vscode.window.showInformationMessage("No inline completions shown yet");
+    return;
+  }
+
+  const items: vscode.QuickPickItem[] = all.map(([language, s]) => {
+    const rate = s.shown > 0 ? Math.round(((s.accepted + s.partial) / s.shown) * 100) : 0;
+    const multiline = s.multilineShown > 0 ? Math.round((s.multilineAccepted / s.multilineShown) * 100) : 0;
+    return {
+      label: language,
+      description: `${rate}% accepted`,
+      detail:
+        `${s.shown} shown, ${s.accepted} accepted, ${s.partial} partial, ` +
+        `multi-line ${multiline}% of ${s.multilineShown}` +
+        (stats.preferSingleLine(language) ? " (single-line only)" : ""),
+    };
+  });
+
+  const reset: vscode.QuickPickItem = { label: "$(trash) Reset statistics" };
+  const cache = getCompletionCache().getStats();
+  const choice = await vscode.window.showQuickPick([...items, reset], {
+    title:
+      `Inline Completion Acceptance (cache: ${cache.hitRate.toFixed(0)}% hits, ` +
+      `${cache.typedThroughHits} typed through)`,
+  });
+  if (choice === reset) {
+    stats.reset();
+    vscode.window.showInformationMessage("Completion statistics reset");
+  }
+}
@@ -50,6 +50,12 @@ export interface TerminalState {
   isActive: boolean;
 }
 
+export interface ContextAttachment {
+  title: string;
+  source: string; // where it came from, e.g. "mcp:docs"
+  content: string;
+}
+
 export interface FullContext {
   cursor?: CursorPosition;
   selection?: Selection;
@@ -71,6 +77,7 @@ export class ContextTracker {
   private maxRecentFiles = 20;
   private maxRecentEdits = 50;
   private disposables: vscode.Disposable[] = [];
+  private attachments: ContextAttachment[] = [];
 
   constructor() {
     this.workspaceRoot =
@@ -274,6 +281,33 @@ export class ContextTracker {
     return lines.join("\n");
   }
 
+  /**
+   * Attach extra context (e.g. an MCP resource) to the next chat message
+   */
+  attach(attachment: ContextAttachment): void {
+    this.attachments = this.attachments.filter(
+      (a) => a.source !== attachment.source || a.title !== attachment.title
+    );
+    this.attachments.push(attachment);
+  }
+
+  getAttachments(): ContextAttachment[] {
+    return [...this.attachments];
+  }
+
+  /**
+   * Format pending attachments for the AI and clear them
+   */
+  takeAttachments(): string {
+    if (this.attachments.length === 0) return "";
+
+    const blocks = this.attachments.map(
+      (a) => `<attachment title="${a.title}" source="${a.source}">\n${a.content}\n</attachment>`
+    );
+    this.attachments = [];
+    return blocks.join("\n\n");
+  }
+
   dispose(): void {
     for (const d of this.disposables) {
       d.dispose();
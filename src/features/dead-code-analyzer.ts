@@ -0,0 +1,881 @@
+/**
+ * Dead Code Analyzer - Compiler-backed reachability and reference analysis
+ * Builds one ts.Program per tsconfig in the workspace (sharing parsed files),
+ * walks the module graph from the entry points, then resolves every reference
+ * through the type checker so re-exports, `export *`, namespace imports and
+ * dynamic imports count as uses. Loaded lazily: it pulls in the compiler.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { glob } from "glob";
+import type { DeadCodeItem, DeadCodeFix, DeadCodeOptions, DeadCodeReport } from "./dead-code";
+
+const IGNORE_GLOBS = ["**/node_modules/**", "**/.git/**", "**/.mythatron/**"];
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+const TEST_FILE = /(\.(test|spec)\.[cm]?[jt]sx?$)|([\\/](__tests__|tests?)[\\/])/;
+const TOOL_CONFIG_FILE = /[\\/][^\\/]+\.config\.[cm]?[jt]s$/;
+
+// "declared but never read/used" and their "all ... are unused" variants
+const UNUSED_DIAGNOSTICS = new Set([6133, 6138, 6192, 6196, 6198, 6199, 6205]);
+
+interface Project {
+  configPath: string;
+  dir: string;
+  options: ts.CompilerOptions;
+  fileNames: string[];
+  program?: ts.Program;
+  resolutionCache?: ts.ModuleResolutionCache;
+}
+
+interface WorkspacePackage {
+  name: string;
+  dir: string;
+  manifest: Record<string, unknown>;
+}
+
+interface Workspace {
+  projects: Project[];
+  owners: Map<string, Project>; // analyzed source file -> its project
+  packages: WorkspacePackage[];
+}
+
+interface ExportRecord {
+  file: string;
+  name: string;
+  keys: string[];
+  node: ts.Node;
+}
+
+export async function runDeadCodeAnalysis(
+  workspaceRoot: string,
+  options: DeadCodeOptions = {}
+): Promise<DeadCodeReport> {
+  const report = (message: string) => options.onProgress?.(message);
+  const checkCancelled = () => {
+    if (options.token?.isCancellationRequested) throw new Error("Dead code analysis cancelled");
+  };
+
+  report("Loading projects...");
+  const projects = await loadProjects(workspaceRoot);
+  const packages = await loadPackages(workspaceRoot);
+
+  // Each file belongs to the nearest project that includes it
+  const owners = new Map<string, Project>();
+  for (const project of [...projects].sort((a, b) => a.dir.length - b.dir.length)) {
+    for (const file of project.fileNames) {
+      if (!isDeclarationFile(file)) owners.set(file, project);
+    }
+  }
+
+  const workspace: Workspace = { projects, owners, packages };
+  const host = createSharedHost(workspace);
+  for (const project of projects) {
+    project.program = ts.createProgram({
+      rootNames: project.fileNames,
+      options: project.options,
+      host: host.forProject(project),
+    });
+  }
+
+  // ---- module graph ----
+  report("Building module graph...");
+  const edges = new Map<string, Set<string>>();
+  const loadedWhole = new Set<string>(); // dynamically imported or required: every export counts as used
+  let opaqueDynamicImports = false; // import(expr) could load anything
+
+  for (const [file, project] of owners) {
+    checkCancelled();
+    const sourceFile = project.program!.getSourceFile(file);
+    if (!sourceFile) continue;
+
+    const targets = new Set<string>();
+    for (const reference of collectModuleReferences(sourceFile)) {
+      if (reference.specifier === undefined) {
+        opaqueDynamicImports = true;
+        continue;
+      }
+      const resolved = resolveModule(reference.specifier, file, project, workspace).resolvedModule;
+      const target = resolved && path.resolve(resolved.resolvedFileName);
+      if (!target || !owners.has(target)) continue;
+      targets.add(target);
+      if (reference.dynamic) loadedWhole.add(target);
+    }
+    edges.set(file, targets);
+  }
+
+  // ---- entry points and reachability ----
+  const entries = await findEntryPoints(workspaceRoot, options, workspace);
+  const reachable = new Set<string>();
+  const queue = [...entries];
+  while (queue.length > 0) {
+    const file = queue.pop()!;
+    if (reachable.has(file)) continue;
+    reachable.add(file);
+    for (const target of edges.get(file) ?? []) queue.push(target);
+  }
+
+  // ---- references ----
+  report("Resolving references...");
+  const used = new Set<string>(); // declaration keys referenced from another file
+  const exportRecords: ExportRecord[] = [];
+
+  for (const project of projects) {
+    checkCancelled();
+    const program = project.program!;
+    const checker = program.getTypeChecker();
+
+    for (const sourceFile of program.getSourceFiles()) {
+      const file = sourceFile.fileName;
+      if (owners.get(file) !== project || !reachable.has(file)) continue;
+
+      markReferences(sourceFile, checker, used, loadedWhole);
+
+      const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+      if (!moduleSymbol) continue;
+
+      for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+        if (entries.has(file)) {
+          markSymbol(symbol, checker, used, "");
+          continue;
+        }
+        const declarations = (symbol.declarations ?? []).filter((d) => d.getSourceFile() === sourceFile);
+        if (declarations.length === 0 || symbol.name === "export=") continue;
+        exportRecords.push({ file, name: symbol.name, keys: declarations.map(declarationKey), node: declarations[0] });
+      }
+    }
+  }
+
+  // Modules loaded whole (dynamic import, require, namespace passed around) use all their exports
+  for (const file of loadedWhole) {
+    const program = owners.get(file)?.program;
+    const sourceFile = program?.getSourceFile(file);
+    const moduleSymbol = sourceFile && program!.getTypeChecker().getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) continue;
+    for (const symbol of program!.getTypeChecker().getExportsOfModule(moduleSymbol)) {
+      markSymbol(symbol, program!.getTypeChecker(), used, "");
+    }
+  }
+
+  // ---- findings ----
+  report("Collecting findings...");
+  const items: DeadCodeItem[] = [];
+  const relative = (file: string) => path.relative(workspaceRoot, file);
+  const confidence = opaqueDynamicImports ? "medium" : "high";
+
+  const fileSizes = new Map<string, { lines: number; bytes: number }>();
+  for (const [file, project] of owners) {
+    if (reachable.has(file)) continue;
+    const text = project.program!.getSourceFile(file)?.text ?? "";
+    fileSizes.set(relative(file), { lines: text.split("\n").length, bytes: Buffer.byteLength(text) });
+    items.push({
+      type: "file",
+      name: path.basename(file),
+      file: relative(file),
+      line: 1,
+      column: 1,
+      confidence,
+      reason: "Not reachable from any entry point",
+      fix: { description: `Delete ${path.basename(file)}`, edits: [], deleteFile: true },
+    });
+  }
+
+  for (const record of exportRecords) {
+    if (loadedWhole.has(record.file) || record.keys.some((key) => used.has(key))) continue;
+    const sourceFile = record.node.getSourceFile();
+    const anchor = (record.node as ts.NamedDeclaration).name ?? record.node;
+    const position = sourceFile.getLineAndCharacterOfPosition(anchor.getStart(sourceFile));
+    items.push({
+      type: "export",
+      name: record.name,
+      file: relative(record.file),
+      line: position.line + 1,
+      column: position.character + 1,
+      confidence,
+      reason: "Exported but not imported by any reachable file",
+      fix: removeExportFix(record.node),
+    });
+  }
+
+  for (const project of projects) {
+    checkCancelled();
+    const program = project.program!;
+    for (const sourceFile of program.getSourceFiles()) {
+      const file = sourceFile.fileName;
+      if (owners.get(file) !== project || !reachable.has(file)) continue;
+
+      for (const diagnostic of program.getSemanticDiagnostics(sourceFile)) {
+        if (!UNUSED_DIAGNOSTICS.has(diagnostic.code) || diagnostic.start === undefined) continue;
+        const item = describeUnused(sourceFile, diagnostic);
+        if (!item || (item.type === "parameter" && options.unusedParameters === false)) continue;
+        items.push({ ...item, file: relative(file) });
+      }
+    }
+  }
+
+  const order: Record<DeadCodeItem["type"], number> = { file: 0, export: 1, import: 2, local: 3, parameter: 4 };
+  items.sort((a, b) => order[a.type] - order[b.type] || a.file.localeCompare(b.file) || a.line - b.line);
+
+  return {
+    items,
+    filesAnalyzed: owners.size,
+    entryPoints: [...entries].map(relative).sort(),
+    projects: projects.map((p) => relative(p.configPath) || p.configPath),
+    potentialSavings: estimateSavings(items, fileSizes),
+  };
+}
+
+// ============================================
+// PROJECTS
+// ============================================
+
+async function loadProjects(workspaceRoot: string): Promise<Project[]> {
+  const configPaths = await glob("**/tsconfig.json", { cwd: workspaceRoot, ignore: IGNORE_GLOBS, absolute: true });
+  const projects: Project[] = [];
+
+  for (const configPath of configPaths.sort()) {
+    const parsed = ts.getParsedCommandLineOfConfigFile(
+      configPath,
+      {},
+      { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => undefined }
+    );
+    if (!parsed || parsed.fileNames.length === 0) continue;
+    projects.push(toProject(configPath, parsed));
+  }
+
+  // No tsconfig: treat the workspace as one JavaScript/TypeScript project
+  if (projects.length === 0) {
+    const parsed = ts.parseJsonConfigFileContent(
+      {
+        compilerOptions: { allowJs: true, jsx: "preserve", moduleResolution: "node", noEmit: true },
+        exclude: ["**/node_modules", "**/dist", "**/build", "**/out", "**/.*"],
+      },
+      ts.sys,
+      workspaceRoot
+    );
+    projects.push(toProject(path.join(workspaceRoot, "tsconfig.json"), parsed));
+  }
+
+  return projects;
+}
+
+function toProject(configPath: string, parsed: ts.ParsedCommandLine): Project {
+  return {
+    configPath,
+    dir: path.dirname(configPath),
+    fileNames: parsed.fileNames.map((f) => path.resolve(f)),
+    // The checker reports unused locals/parameters only when asked to
+    options: {
+      ...parsed.options,
+      noEmit: true,
+      noUnusedLocals: true,
+      noUnusedParameters: true,
+      checkJs: parsed.options.checkJs ?? parsed.options.allowJs,
+    },
+  };
+}
+
+async function loadPackages(workspaceRoot: string): Promise<WorkspacePackage[]> {
+  const manifests = await glob("**/package.json", { cwd: workspaceRoot, ignore: IGNORE_GLOBS, absolute: true });
+  const packages: WorkspacePackage[] = [];
+
+  for (const manifestPath of manifests.sort()) {
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+      packages.push({ name: manifest.name ?? "", dir: path.dirname(manifestPath), manifest });
+    } catch {
+      // Not valid JSON
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Compiler hosts that parse each file once across all projects and resolve
+ * imports the same way the module graph does
+ */
+function createSharedHost(workspace: Workspace): { forProject(project: Project): ts.CompilerHost } {
+  const cache = new Map<string, ts.SourceFile>();
+
+  return {
+    forProject(project) {
+      const host = ts.createCompilerHost(project.options, true);
+      const getSourceFile = host.getSourceFile.bind(host);
+
+      host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+        const version = typeof languageVersion === "object" ? languageVersion.languageVersion : languageVersion;
+        const key = `${version}:${fileName}`;
+        let sourceFile = cache.get(key);
+        if (!sourceFile) {
+          sourceFile = getSourceFile(fileName, languageVersion, onError, shouldCreate);
+          if (sourceFile) cache.set(key, sourceFile);
+        }
+        return sourceFile;
+      };
+
+      host.resolveModuleNameLiterals = (literals, containingFile) =>
+        literals.map((literal) => resolveModule(literal.text, containingFile, project, workspace));
+
+      return host;
+    },
+  };
+}
+
+function isDeclarationFile(file: string): boolean {
+  return /\.d\.[cm]?ts$/.test(file);
+}
+
+// ============================================
+// MODULE GRAPH
+// ============================================
+
+/**
+ * Module specifiers a file loads; undefined specifier for import(expr)
+ */
+function collectModuleReferences(sourceFile: ts.SourceFile): Array<{ specifier?: string; dynamic: boolean }> {
+  const references: Array<{ specifier?: string; dynamic: boolean }> = [];
+
+  const literal = (node: ts.Node | undefined): string | undefined =>
+    node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+
+  const visit = (node: ts.Node): void => {
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier) {
+      const specifier = literal(node.moduleSpecifier);
+      if (specifier) references.push({ specifier, dynamic: false });
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      const specifier = literal(node.moduleReference.expression);
+      if (specifier) references.push({ specifier, dynamic: false });
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      const specifier = literal(node.argument.literal);
+      if (specifier) references.push({ specifier, dynamic: false });
+    } else if (ts.isCallExpression(node)) {
+      const isImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === "require";
+      if (isImport || (isRequire && node.arguments.length === 1)) {
+        const specifier = literal(node.arguments[0]);
+        if (specifier || isImport) references.push({ specifier, dynamic: true });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return references;
+}
+
+/**
+ * Resolve a specifier like the compiler does, then redirect workspace packages to
+ * their analyzed sources: build output (dist/*.js, .d.ts) maps back through the
+ * owning project's outDir/rootDir, and unbuilt packages resolve by name
+ */
+function resolveModule(
+  specifier: string,
+  containingFile: string,
+  project: Project,
+  workspace: Workspace
+): ts.ResolvedModuleWithFailedLookupLocations {
+  project.resolutionCache ??= ts.createModuleResolutionCache(project.dir, (f) => f, project.options);
+  const result = ts.resolveModuleName(specifier, containingFile, project.options, ts.sys, project.resolutionCache);
+
+  const resolvedFile = result.resolvedModule && path.resolve(result.resolvedModule.resolvedFileName);
+  const source = resolvedFile
+    ? resolveSourcePath(resolvedFile, workspace)
+    : resolveWorkspacePackage(specifier, workspace);
+  if (!source || source === resolvedFile) return result;
+
+  return {
+    ...result,
+    resolvedModule: {
+      resolvedFileName: source,
+      extension: path.extname(source) as ts.Extension,
+      isExternalLibraryImport: false,
+    },
+  };
+}
+
+function resolveWorkspacePackage(specifier: string, workspace: Workspace): string | undefined {
+  const pkg = workspace.packages.find((p) => p.name && (specifier === p.name || specifier.startsWith(`${p.name}/`)));
+  if (!pkg) return undefined;
+
+  const subpath = specifier.slice(pkg.name.length + 1);
+  if (!subpath) {
+    for (const field of ["types", "typings", "module", "main"]) {
+      const value = pkg.manifest[field];
+      const source = typeof value === "string" ? resolveSourcePath(path.join(pkg.dir, value), workspace) : undefined;
+      if (source) return source;
+    }
+    return resolveSourcePath(path.join(pkg.dir, "index"), workspace);
+  }
+
+  const roots = [pkg.dir, ...workspace.projects.filter((p) => p.dir === pkg.dir).map((p) => p.options.rootDir ?? p.dir)];
+  for (const root of roots) {
+    const source = resolveSourcePath(path.join(root, subpath), workspace);
+    if (source) return source;
+  }
+  return undefined;
+}
+
+/**
+ * The analyzed source file a path refers to: itself, the source of a build
+ * output file, or an extensionless/directory path ("./lib", "bin/cli")
+ */
+function resolveSourcePath(file: string, workspace: Workspace): string | undefined {
+  const candidates = [file, ...SOURCE_EXTENSIONS.map((e) => file + e), ...SOURCE_EXTENSIONS.map((e) => path.join(file, "index" + e))];
+
+  for (const candidate of candidates) {
+    if (workspace.owners.has(candidate)) return candidate;
+    const source = mapOutputToSource(candidate, workspace);
+    if (source) return source;
+  }
+  return undefined;
+}
+
+function mapOutputToSource(file: string, workspace: Workspace): string | undefined {
+  for (const project of workspace.projects) {
+    const outDir = project.options.outDir ?? project.options.declarationDir;
+    if (!outDir || !isWithin(file, outDir)) continue;
+
+    const rootDir = project.options.rootDir ?? project.dir;
+    const base = path.join(rootDir, path.relative(outDir, file)).replace(/(\.d)?\.[cm]?[jt]sx?$/, "");
+    for (const extension of SOURCE_EXTENSIONS) {
+      if (workspace.owners.has(base + extension)) return base + extension;
+    }
+  }
+  return undefined;
+}
+
+function isWithin(file: string, dir: string): boolean {
+  const relative = path.relative(dir, file);
+  return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+// ============================================
+// ENTRY POINTS
+// ============================================
+
+/**
+ * Package main/module/browser/types/bin/exports, script files named in
+ * package.json scripts and VS Code contributes, tests, tool configs and the
+ * configured globs. Falls back to index/main files when nothing is declared.
+ */
+async function findEntryPoints(
+  workspaceRoot: string,
+  options: DeadCodeOptions,
+  workspace: Workspace
+): Promise<Set<string>> {
+  const entries = new Set<string>();
+  const add = async (pattern: string, cwd: string) => {
+    for (const file of await resolveEntryPattern(pattern, cwd, workspace)) entries.add(file);
+  };
+
+  for (const { dir, manifest } of workspace.packages) {
+    for (const field of ["main", "module", "browser", "types", "typings", "bin", "exports"]) {
+      for (const value of collectStrings(manifest[field])) await add(value, dir);
+    }
+    for (const value of collectStrings(manifest.contributes)) {
+      if (/\.[cm]?[jt]sx?$/.test(value)) await add(value, dir);
+    }
+    for (const script of collectStrings(manifest.scripts)) {
+      for (const token of script.match(/[\w@./-]+\.[cm]?[jt]sx?\b/g) ?? []) await add(token, dir);
+    }
+  }
+
+  for (const pattern of options.entryPoints ?? []) await add(pattern, workspaceRoot);
+
+  for (const file of workspace.owners.keys()) {
+    if (TOOL_CONFIG_FILE.test(file)) entries.add(file);
+    if (options.testsAsEntryPoints !== false && TEST_FILE.test(path.relative(workspaceRoot, file))) entries.add(file);
+  }
+
+  if (entries.size === 0) {
+    for (const project of workspace.projects) {
+      for (const dir of [project.dir, path.join(project.dir, "src")]) {
+        await add("{index,main}.{ts,tsx,mts,js,jsx,mjs}", dir);
+      }
+    }
+  }
+
+  return entries;
+}
+
+async function resolveEntryPattern(pattern: string, cwd: string, workspace: Workspace): Promise<string[]> {
+  const absolute = path.resolve(cwd, pattern.replace(/^\.\//, ""));
+
+  if (!/[*{]/.test(pattern)) {
+    const source = resolveSourcePath(absolute, workspace);
+    return source ? [source] : [];
+  }
+
+  const found = new Set<string>();
+  const take = (file: string) => {
+    const resolved = path.resolve(file);
+    const source = workspace.owners.has(resolved) ? resolved : mapOutputToSource(resolved, workspace);
+    if (source) found.add(source);
+  };
+
+  const patterns = [absolute];
+  // Output globs (dist/*.js) name files that may not be built yet; match them against sources too
+  for (const project of workspace.projects) {
+    const outDir = project.options.outDir;
+    if (!outDir || !isWithin(absolute, outDir)) continue;
+    const source = path.join(project.options.rootDir ?? project.dir, path.relative(outDir, absolute));
+    patterns.push(source.replace(/(\.d)?\.[cm]?[jt]sx?$/, ".{ts,tsx,mts,cts,js,jsx,mjs,cjs}"));
+  }
+  for (const candidate of patterns) {
+    const relative = path.relative(cwd, candidate).split(path.sep).join("/");
+    for (const file of await glob(relative, { cwd, ignore: IGNORE_GLOBS, absolute: true, nodir: true })) take(file);
+  }
+
+  return [...found];
+}
+
+function collectStrings(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value && typeof value === "object") return Object.values(value).flatMap(collectStrings);
+  return [];
+}
+
+// ============================================
+// REFERENCES
+// ============================================
+
+function declarationKey(declaration: ts.Node): string {
+  return `${declaration.getSourceFile().fileName}:${declaration.pos}`;
+}
+
+/**
+ * Mark a symbol and every alias hop behind it (import -> re-export -> declaration)
+ * as used by `fromFile`; declarations in that same file don't count
+ */
+function markSymbol(symbol: ts.Symbol | undefined, checker: ts.TypeChecker, used: Set<string>, fromFile: string): ts.Symbol | undefined {
+  let current = symbol;
+  for (let hop = 0; current && hop < 20; hop++) {
+    for (const declaration of current.declarations ?? []) {
+      if (declaration.getSourceFile().fileName !== fromFile) used.add(declarationKey(declaration));
+    }
+    if (!(current.flags & ts.SymbolFlags.Alias)) break;
+    current = checker.getImmediateAliasedSymbol(current);
+  }
+  return current;
+}
+
+function markReferences(
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+  used: Set<string>,
+  loadedWhole: Set<string>
+): void {
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || (ts.isExportDeclaration(node) && node.moduleSpecifier)) return;
+
+    if (ts.isIdentifier(node) && isReference(node)) {
+      const symbol = ts.isShorthandPropertyAssignment(node.parent)
+        ? checker.getShorthandAssignmentValueSymbol(node.parent)
+        : checker.getSymbolAtLocation(node);
+      const target = markSymbol(symbol, checker, used, sourceFile.fileName);
+
+      // A module namespace used as a value (not just ns.member) exposes every export
+      const moduleFile = target?.declarations?.find(ts.isSourceFile)?.fileName;
+      const memberAccess =
+        (ts.isPropertyAccessExpression(node.parent) && node.parent.expression === node) ||
+        (ts.isQualifiedName(node.parent) && node.parent.left === node);
+      if (moduleFile && !memberAccess) loadedWhole.add(path.resolve(moduleFile));
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+}
+
+function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isImportSpecifier(parent) || ts.isImportClause(parent) || ts.isNamespaceImport(parent)) return false;
+  if (ts.isExportSpecifier(parent) || ts.isNamespaceExport(parent)) return false;
+  if (ts.isShorthandPropertyAssignment(parent)) return true;
+  return (parent as ts.NamedDeclaration).name !== node;
+}
+
+// ============================================
+// FINDINGS AND FIXES
+// ============================================
+
+function describeUnused(
+  sourceFile: ts.SourceFile,
+  diagnostic: ts.Diagnostic
+): Omit<DeadCodeItem, "file"> | null {
+  const start = diagnostic.start!;
+  const position = sourceFile.getLineAndCharacterOfPosition(start);
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, " ");
+  const node = findNodeAt(sourceFile, start);
+  const base = {
+    name: message.match(/'([^']+)'/)?.[1] ?? sourceFile.text.slice(start, start + (diagnostic.length ?? 0)).slice(0, 60),
+    line: position.line + 1,
+    column: position.character + 1,
+    confidence: "high" as const,
+    reason: message,
+  };
+
+  const importDeclaration = findAncestor(node, ts.isImportDeclaration);
+  if (importDeclaration) {
+    const binding = diagnostic.code === 6192 ? undefined : findImportBinding(node);
+    const name = diagnostic.code === 6192 ? `imports from ${importDeclaration.moduleSpecifier.getText(sourceFile)}` : base.name;
+    return { ...base, name, type: "import", fix: removeImportFix(importDeclaration, binding) };
+  }
+
+  const parameter = findAncestor(node, ts.isParameter);
+  if (parameter) {
+    // Renaming a parameter property would rename the class member too
+    const renamable = ts.isIdentifier(parameter.name) && parameter.name === node &&
+      !ts.isParameterPropertyDeclaration(parameter, parameter.parent);
+    const fix: DeadCodeFix | undefined = renamable
+      ? {
+          description: `Prefix '${node.getText(sourceFile)}' with _`,
+          edits: [edit(sourceFile, node.getStart(sourceFile), node.getStart(sourceFile), "_")],
+        }
+      : undefined;
+    return { ...base, type: "parameter", fix };
+  }
+
+  return { ...base, type: "local", fix: removeLocalFix(node) };
+}
+
+function removeLocalFix(node: ts.Node): DeadCodeFix | undefined {
+  const declaration = node.parent;
+  if (!declaration || (declaration as ts.NamedDeclaration).name !== node) return undefined;
+
+  if (
+    ts.isFunctionDeclaration(declaration) ||
+    ts.isInterfaceDeclaration(declaration) ||
+    ts.isTypeAliasDeclaration(declaration) ||
+    ts.isEnumDeclaration(declaration) ||
+    ts.isMethodDeclaration(declaration) ||
+    (ts.isClassDeclaration(declaration) && !hasDecorators(declaration))
+  ) {
+    return removeNodeFix(declaration, `Remove unused ${describeKind(declaration)}`);
+  }
+
+  if (ts.isPropertyDeclaration(declaration) && !hasDecorators(declaration)) {
+    if (declaration.initializer && !isSideEffectFree(declaration.initializer)) return undefined;
+    return removeNodeFix(declaration, "Remove unused property");
+  }
+
+  if (
+    ts.isVariableDeclaration(declaration) &&
+    ts.isVariableDeclarationList(declaration.parent) &&
+    declaration.parent.declarations.length === 1 &&
+    ts.isVariableStatement(declaration.parent.parent) &&
+    (!declaration.initializer || isSideEffectFree(declaration.initializer))
+  ) {
+    return removeNodeFix(declaration.parent.parent, "Remove unused variable");
+  }
+
+  return undefined;
+}
+
+function removeImportFix(declaration: ts.ImportDeclaration, binding: ts.Node | undefined): DeadCodeFix | undefined {
+  const sourceFile = declaration.getSourceFile();
+  const clause = declaration.importClause;
+  const whole = removeNodeFix(declaration, "Remove unused import");
+  if (!clause || !binding) return whole;
+
+  const namedBindings = clause.namedBindings;
+
+  if (binding === clause) {
+    // Default import next to named/namespace bindings: drop "name, "
+    if (!namedBindings) return whole;
+    return {
+      description: "Remove unused default import",
+      edits: [edit(sourceFile, clause.name!.getStart(sourceFile), namedBindings.getStart(sourceFile), "")],
+    };
+  }
+
+  if (ts.isNamespaceImport(binding)) {
+    if (!clause.name) return whole;
+    return {
+      description: "Remove unused namespace import",
+      edits: [edit(sourceFile, clause.name.getEnd(), binding.getEnd(), "")],
+    };
+  }
+
+  if (ts.isImportSpecifier(binding) && namedBindings && ts.isNamedImports(namedBindings)) {
+    if (namedBindings.elements.length === 1) {
+      if (!clause.name) return whole;
+      return {
+        description: "Remove unused import",
+        edits: [edit(sourceFile, clause.name.getEnd(), namedBindings.getEnd(), "")],
+      };
+    }
+    return removeListElement(namedBindings.elements, binding, "Remove unused import");
+  }
+
+  return whole;
+}
+
+function removeExportFix(node: ts.Node): DeadCodeFix | undefined {
+  const sourceFile = node.getSourceFile();
+
+  if (ts.isExportSpecifier(node)) {
+    const declaration = node.parent.parent;
+    if (node.parent.elements.length === 1) return removeNodeFix(declaration, "Remove unused export");
+    return removeListElement(node.parent.elements, node, "Remove unused export");
+  }
+
+  let statement: ts.Node = node;
+  if (ts.isVariableDeclaration(node)) {
+    const list = node.parent;
+    if (!ts.isVariableDeclarationList(list) || list.declarations.length !== 1) return undefined;
+    statement = list.parent;
+  }
+
+  if (!ts.canHaveModifiers(statement)) return undefined;
+  const modifiers = ts.getModifiers(statement) ?? [];
+  const exportKeyword = modifiers.find((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+  if (!exportKeyword || modifiers.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)) return undefined;
+
+  // Drop the keyword, keep the declaration: it may still be used locally
+  const start = exportKeyword.getStart(sourceFile);
+  let end = exportKeyword.getEnd();
+  while (end < sourceFile.text.length && /[ \t]/.test(sourceFile.text[end])) end++;
+  return { description: "Remove export keyword", edits: [edit(sourceFile, start, end, "")] };
+}
+
+function removeListElement(elements: ts.NodeArray<ts.Node>, element: ts.Node, description: string): DeadCodeFix {
+  const sourceFile = element.getSourceFile();
+  const index = elements.indexOf(element);
+  const [start, end] = index < elements.length - 1
+    ? [element.getStart(sourceFile), elements[index + 1].getStart(sourceFile)]
+    : [elements[index - 1].getEnd(), element.getEnd()];
+  return { description, edits: [edit(sourceFile, start, end, "")] };
+}
+
+/**
+ * Remove a statement or member with its attached comments and its line
+ */
+function removeNodeFix(node: ts.Node, description: string): DeadCodeFix {
+  const sourceFile = node.getSourceFile();
+  const text = sourceFile.text;
+  let start = node.getStart(sourceFile);
+
+  // Leading comments directly above (no blank line in between) belong to the node
+  const comments = ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [];
+  for (let i = comments.length - 1; i >= 0; i--) {
+    if ((text.slice(comments[i].end, start).match(/\n/g) ?? []).length > 1) break;
+    start = comments[i].pos;
+  }
+
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  if (!text.slice(lineStart, start).trim()) start = lineStart;
+
+  let end = node.getEnd();
+  const lineEnd = text.indexOf("\n", end);
+  if (!text.slice(end, lineEnd < 0 ? text.length : lineEnd).trim()) end = lineEnd < 0 ? text.length : lineEnd + 1;
+
+  return { description, edits: [edit(sourceFile, start, end, "")] };
+}
+
+function edit(sourceFile: ts.SourceFile, start: number, end: number, newText: string) {
+  return { start, end, newText, expected: sourceFile.text.slice(start, end) };
+}
+
+/**
+ * Initializers that can be dropped without changing behaviour
+ */
+function isSideEffectFree(node: ts.Expression): boolean {
+  if (
+    ts.isLiteralExpression(node) ||
+    ts.isIdentifier(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isNoSubstitutionTemplateLiteral(node) ||
+    [ts.SyntaxKind.TrueKeyword, ts.SyntaxKind.FalseKeyword, ts.SyntaxKind.NullKeyword, ts.SyntaxKind.ThisKeyword].includes(node.kind)
+  ) {
+    return true;
+  }
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isTypeAssertionExpression(node)) {
+    return isSideEffectFree(node.expression);
+  }
+  if (ts.isPrefixUnaryExpression(node)) return isSideEffectFree(node.operand);
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.every((e) => !ts.isSpreadElement(e) && isSideEffectFree(e));
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    return node.properties.every(
+      (p) =>
+        (ts.isPropertyAssignment(p) && !ts.isComputedPropertyName(p.name) && isSideEffectFree(p.initializer)) ||
+        ts.isShorthandPropertyAssignment(p) ||
+        ts.isMethodDeclaration(p)
+    );
+  }
+  return false;
+}
+
+function hasDecorators(node: ts.Node): boolean {
+  return ts.canHaveDecorators(node) && (ts.getDecorators(node)?.length ?? 0) > 0;
+}
+
+function describeKind(node: ts.Node): string {
+  if (ts.isFunctionDeclaration(node)) return "function";
+  if (ts.isClassDeclaration(node)) return "class";
+  if (ts.isInterfaceDeclaration(node)) return "interface";
+  if (ts.isTypeAliasDeclaration(node)) return "type";
+  if (ts.isEnumDeclaration(node)) return "enum";
+  return "method";
+}
+
+function findImportBinding(node: ts.Node): ts.Node | undefined {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (ts.isImportSpecifier(current) || ts.isNamespaceImport(current) || ts.isImportClause(current)) return current;
+    if (ts.isImportDeclaration(current)) return undefined;
+  }
+  return undefined;
+}
+
+function findAncestor<T extends ts.Node>(node: ts.Node, test: (n: ts.Node) => n is T): T | undefined {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (test(current)) return current;
+    if (ts.isSourceFile(current) || ts.isBlock(current)) return undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Innermost node starting at (or containing) a position
+ */
+function findNodeAt(sourceFile: ts.SourceFile, position: number): ts.Node {
+  let found: ts.Node = sourceFile;
+  const visit = (node: ts.Node): void => {
+    if (node.getStart(sourceFile) <= position && position < node.getEnd()) {
+      found = node;
+      ts.forEachChild(node, visit);
+    }
+  };
+  ts.forEachChild(sourceFile, visit);
+  return found;
+}
+
+function estimateSavings(
+  items: DeadCodeItem[],
+  fileSizes: Map<string, { lines: number; bytes: number }>
+): { lines: number; bytes: number } {
+  let lines = 0;
+  let bytes = 0;
+
+  for (const item of items) {
+    const size = item.type === "file" ? fileSizes.get(item.file) : undefined;
+    if (size) {
+      lines += size.lines;
+      bytes += size.bytes;
+      continue;
+    }
+    for (const change of item.fix?.edits ?? []) {
+      bytes += Buffer.byteLength(change.expected);
+      lines += (change.expected.match(/\n/g) ?? []).length;
+    }
+  }
+
+  return { lines, bytes };
+}
@@ -1,291 +1,304 @@
 /**
  * Dead Code Detection - Find unused code
- * Identifies unused exports, functions, variables, imports
+ * Identifies unreachable files, unused exports, imports, locals and parameters
+ * using the TypeScript compiler (see dead-code-analyzer.ts), and offers safe
+ * removals as quick fixes and from the report.
  */
 
 import * as vscode from "vscode";
-import * as fs from "fs";
 import * as path from "path";
 
+export interface DeadCodeFix {
+  description: string;
+  // Character offsets into the file as analyzed; `expected` is checked before applying
+  edits: Array<{ start: number; end: number; newText: string; expected: string }>;
+  deleteFile?: boolean;
+}
+
 export interface DeadCodeItem {
-  type: "export" | "function" | "variable" | "import" | "class" | "type";
+  type: "file" | "export" | "import" | "local" | "parameter";
   name: string;
-  file: string;
+  file: string; // relative to the workspace root
   line: number;
+  column: number;
   confidence: "high" | "medium" | "low";
   reason: string;
+  fix?: DeadCodeFix;
 }
 
 export interface DeadCodeReport {
   items: DeadCodeItem[];
   filesAnalyzed: number;
+  entryPoints: string[];
+  projects: string[];
   potentialSavings: {
     lines: number;
     bytes: number;
   };
 }
 
+export interface DeadCodeOptions {
+  entryPoints?: string[]; // extra entry globs, relative to the workspace root
+  testsAsEntryPoints?: boolean; // default true: code used only by tests is live
+  unusedParameters?: boolean; // default true
+  token?: vscode.CancellationToken;
+  onProgress?: (message: string) => void;
+}
+
+const DIAGNOSTIC_SOURCE = "MythaTron dead code";
+
+let diagnosticCollection: vscode.DiagnosticCollection | null = null;
+let lastReport: { workspaceRoot: string; report: DeadCodeReport } | null = null;
+
 /**
  * Analyze workspace for dead code
  */
 export async function analyzeDeadCode(
   workspaceRoot: string,
-  options: {
-    includeTests?: boolean;
-    maxFiles?: number;
-  } = {}
+  options: DeadCodeOptions = {}
 ): Promise<DeadCodeReport> {
-  const items: DeadCodeItem[] = [];
-  const exports = new Map<string, { file: string; line: number; used: boolean }>();
-  const imports = new Map<string, { file: string; line: number; from: string; used: boolean }>();
-  
-  // Collect all exports and imports
-  const files = await collectTypeScriptFiles(workspaceRoot, options.maxFiles || 500);
-  
-  for (const file of files) {
-    if (!options.includeTests && (file.includes(".test.") || file.includes(".spec."))) {
-      continue;
-    }
-    
-    try {
-      const content = fs.readFileSync(file, "utf-8");
-      const relativePath = path.relative(workspaceRoot, file);
-      
-      // Find exports
-      const exportMatches = content.matchAll(
-        /export\s+(?:const|let|var|function|class|interface|type|enum)\s+(\w+)/g
-      );
-      for (const match of exportMatches) {
-        const key = `${relativePath}:${match[1]}`;
-        exports.set(key, {
-          file: relativePath,
-          line: getLineNumber(content, match.index!),
-          used: false,
-        });
-      }
-      
-      // Find named exports
-      const namedExportMatches = content.matchAll(/export\s*\{\s*([^}]+)\s*\}/g);
-      for (const match of namedExportMatches) {
-        const names = match[1].split(",").map((n) => n.trim().split(" as ")[0].trim());
-        for (const name of names) {
-          const key = `${relativePath}:${name}`;
-          exports.set(key, {
-            file: relativePath,
-            line: getLineNumber(content, match.index!),
-            used: false,
-          });
-        }
-      }
-      
-      // Find imports
-      const importMatches = content.matchAll(
-        /import\s+(?:\{([^}]+)\}|(\w+))\s+from\s+['"]([^'"]+)['"]/g
-      );
-      for (const match of importMatches) {
-        const importPath = match[3];
-        if (match[1]) {
-          // Named imports
-          const names = match[1].split(",").map((n) => n.trim().split(" as ")[0].trim());
-          for (const name of names) {
-            const key = `${relativePath}:import:${name}`;
-            imports.set(key, {
-              file: relativePath,
-              line: getLineNumber(content, match.index!),
-              from: importPath,
-              used: false,
-            });
-          }
-        }
-        if (match[2]) {
-          // Default import
-          const key = `${relativePath}:import:${match[2]}`;
-          imports.set(key, {
-            file: relativePath,
-            line: getLineNumber(content, match.index!),
-            from: importPath,
-            used: false,
-          });
-        }
-      }
-    } catch {
-      // Skip files that can't be read
-    }
-  }
-  
-  // Check usage of exports across files
-  for (const file of files) {
-    try {
-      const content = fs.readFileSync(file, "utf-8");
-      
-      // Check if exports are imported elsewhere
-      for (const [key, exp] of exports) {
-        const name = key.split(":")[1];
-        // Check for import or usage
-        const usageRegex = new RegExp(`\\b${name}\\b`, "g");
-        const matches = content.match(usageRegex);
-        if (matches && matches.length > 0) {
-          if (file !== path.join(workspaceRoot, exp.file)) {
-            exp.used = true;
-          }
-        }
-      }
-      
-      // Check if imports are used in the file
-      const relativePath = path.relative(workspaceRoot, file);
-      for (const [key, imp] of imports) {
-        if (!key.startsWith(relativePath + ":import:")) continue;
-        const name = key.split(":import:")[1];
-        
-        // Count occurrences (first is the import itself)
-        const regex = new RegExp(`\\b${name}\\b`, "g");
-        const matches = content.match(regex);
-        if (matches && matches.length > 1) {
-          imp.used = true;
-        }
-      }
-    } catch {
-      // Skip
-    }
-  }
-  
-  // Report unused exports
-  for (const [key, exp] of exports) {
-    if (!exp.used) {
-      const name = key.split(":")[1];
-      items.push({
-        type: "export",
-        name,
-        file: exp.file,
-        line: exp.line,
-        confidence: "medium",
-        reason: "Export not imported in any other file",
-      });
-    }
-  }
-  
-  // Report unused imports
-  for (const [key, imp] of imports) {
-    if (!imp.used) {
-      const name = key.split(":import:")[1];
-      items.push({
-        type: "import",
-        name,
-        file: imp.file,
-        line: imp.line,
-        confidence: "high",
-        reason: `Imported from "${imp.from}" but never used`,
-      });
-    }
-  }
-  
-  // Calculate potential savings
-  let savedLines = 0;
-  let savedBytes = 0;
-  for (const item of items) {
-    savedLines += 1;
-    savedBytes += item.name.length + 20; // Rough estimate
-  }
-  
-  return {
-    items,
-    filesAnalyzed: files.length,
-    potentialSavings: {
-      lines: savedLines,
-      bytes: savedBytes,
-    },
-  };
+  // The analyzer loads the TypeScript compiler, so only pull it in on demand
+  const { runDeadCodeAnalysis } = await import("./dead-code-analyzer");
+  return runDeadCodeAnalysis(workspaceRoot, options);
 }
 
 /**
- * Get line number from string index
+ * Register the diagnostics and quick fixes that surface the last report in editors
  */
-function getLineNumber(content: string, index: number): number {
-  return content.slice(0, index).split("\n").length;
+export function initDeadCodeActions(context: vscode.ExtensionContext): void {
+  diagnosticCollection = vscode.languages.createDiagnosticCollection("mythatronDeadCode");
+
+  context.subscriptions.push(
+    diagnosticCollection,
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: "file", pattern: "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}" },
+      new DeadCodeActionProvider(),
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    )
+  );
 }
 
-/**
- * Collect TypeScript/JavaScript files
- */
-async function collectTypeScriptFiles(
-  dir: string,
-  maxFiles: number
-): Promise<string[]> {
-  const files: string[] = [];
-  const extensions = new Set([".ts", ".tsx", ".js", ".jsx"]);
-  const ignoreDirs = new Set(["node_modules", ".git", "dist", "build", ".next"]);
-  
-  function walk(currentDir: string): void {
-    if (files.length >= maxFiles) return;
-    
-    try {
-      const entries = fs.readdirSync(currentDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (files.length >= maxFiles) return;
-        
-        if (entry.isDirectory()) {
-          if (!ignoreDirs.has(entry.name) && !entry.name.startsWith(".")) {
-            walk(path.join(currentDir, entry.name));
-          }
-        } else if (extensions.has(path.extname(entry.name))) {
-          files.push(path.join(currentDir, entry.name));
-        }
-      }
-    } catch {
-      // Skip inaccessible directories
+class DeadCodeActionProvider implements vscode.CodeActionProvider {
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    if (!lastReport) return [];
+    const { workspaceRoot, report } = lastReport;
+
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE) continue;
+
+      const item = report.items.find(
+        (i) =>
+          path.join(workspaceRoot, i.file) === document.uri.fsPath &&
+          i.line - 1 === diagnostic.range.start.line &&
+          i.reason === diagnostic.message
+      );
+      if (!item?.fix) continue;
+
+      // Offsets are from the analysis; skip fixes the file has drifted away from
+      const edit = buildEdit(workspaceRoot, [item], new Map([[document.uri.fsPath, document]]));
+      if (!edit) continue;
+
+      const action = new vscode.CodeAction(item.fix.description, vscode.CodeActionKind.QuickFix);
+      action.edit = edit;
+      action.diagnostics = [diagnostic];
+      action.isPreferred = item.type !== "file";
+      actions.push(action);
     }
+
+    return actions;
   }
-  
-  walk(dir);
-  return files;
 }
 
 /**
  * Show dead code report
  */
 export async function showDeadCodeReport(workspaceRoot: string): Promise<void> {
-  const report = await vscode.window.withProgress(
-    {
-      location: vscode.ProgressLocation.Notification,
-      title: "Analyzing for dead code...",
-      cancellable: true,
-    },
-    async (progress, token) => {
-      return analyzeDeadCode(workspaceRoot);
-    }
-  );
-  
+  const config = vscode.workspace.getConfiguration("mythaTron");
+
+  let report: DeadCodeReport;
+  try {
+    report = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Analyzing for dead code...",
+        cancellable: true,
+      },
+      async (progress, token) => {
+        return analyzeDeadCode(workspaceRoot, {
+          entryPoints: config.get<string[]>("deadCodeEntryPoints", []),
+          testsAsEntryPoints: config.get<boolean>("deadCodeTestEntryPoints", true),
+          unusedParameters: config.get<boolean>("deadCodeUnusedParameters", true),
+          token,
+          onProgress: (message) => progress.report({ message }),
+        });
+      }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Dead code analysis failed: ${message}`);
+    return;
+  }
+
+  publishDiagnostics(workspaceRoot, report);
+
+  if (report.entryPoints.length === 0) {
+    vscode.window.showWarningMessage(
+      "No entry points found; every file counts as unreachable. Set mythaTron.deadCodeEntryPoints."
+    );
+  }
+
   if (report.items.length === 0) {
     vscode.window.showInformationMessage("No dead code found!");
     return;
   }
-  
+
   const panel = vscode.window.createWebviewPanel(
     "deadCodeReport",
     "Dead Code Report",
     vscode.ViewColumn.One,
     { enableScripts: true }
   );
-  
+
   panel.webview.html = generateReportHTML(report);
+  panel.webview.onDidReceiveMessage(async (message: { command: string; index?: number }) => {
+    if (message.command === "fix" && message.index !== undefined) {
+      await applyFixes(workspaceRoot, [report.items[message.index]]);
+    } else if (message.command === "fixAll") {
+      const fixable = report.items.filter((item) => item.fix);
+      const deletions = fixable.filter((item) => item.fix!.deleteFile).length;
+      const choice = await vscode.window.showWarningMessage(
+        `Apply ${fixable.length} fixes${deletions ? `, deleting ${deletions} files` : ""}?`,
+        { modal: true },
+        "Apply"
+      );
+      if (choice === "Apply") await applyFixes(workspaceRoot, fixable);
+    }
+  });
+}
+
+function publishDiagnostics(workspaceRoot: string, report: DeadCodeReport): void {
+  lastReport = { workspaceRoot, report };
+  if (!diagnosticCollection) return;
+
+  diagnosticCollection.clear();
+  const byFile = new Map<string, vscode.Diagnostic[]>();
+
+  for (const item of report.items) {
+    const position = new vscode.Position(item.line - 1, item.column - 1);
+    const length = item.type === "file" ? 0 : item.name.length;
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(position, position.translate(0, length)),
+      item.reason,
+      item.type === "file" || item.type === "export"
+        ? vscode.DiagnosticSeverity.Information
+        : vscode.DiagnosticSeverity.Hint
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = item.type;
+    diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+
+    const file = path.join(workspaceRoot, item.file);
+    byFile.set(file, [...(byFile.get(file) ?? []), diagnostic]);
+  }
+
+  for (const [file, diagnostics] of byFile) {
+    diagnosticCollection.set(vscode.Uri.file(file), diagnostics);
+  }
+}
+
+/**
+ * Apply fixes and save the touched files. Nothing is applied if any of the
+ * text being fixed has changed since the analysis.
+ */
+async function applyFixes(workspaceRoot: string, items: DeadCodeItem[]): Promise<void> {
+  const documents = new Map<string, vscode.TextDocument>();
+  for (const item of items) {
+    const file = path.join(workspaceRoot, item.file);
+    if (!item.fix?.deleteFile && !documents.has(file)) {
+      documents.set(file, await vscode.workspace.openTextDocument(file));
+    }
+  }
+
+  const edit = buildEdit(workspaceRoot, items, documents);
+  if (!edit) {
+    vscode.window.showWarningMessage("Files changed since the analysis; run Find Dead Code again.");
+    return;
+  }
+
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    vscode.window.showErrorMessage("Could not apply dead code fixes");
+    return;
+  }
+
+  for (const document of documents.values()) {
+    if (document.isDirty) await document.save();
+  }
+
+  // Applied fixes invalidate the stored offsets
+  const applied = new Set(items);
+  const remaining = lastReport?.report.items.filter((item) => !applied.has(item) && !documents.has(path.join(workspaceRoot, item.file)));
+  if (lastReport && remaining) publishDiagnostics(workspaceRoot, { ...lastReport.report, items: remaining });
+
+  vscode.window.showInformationMessage(`Applied ${items.length} dead code fix${items.length === 1 ? "" : "es"}`);
+}
+
+function buildEdit(
+  workspaceRoot: string,
+  items: DeadCodeItem[],
+  documents: Map<string, vscode.TextDocument>
+): vscode.WorkspaceEdit | null {
+  const edit = new vscode.WorkspaceEdit();
+  const deleted = new Set<string>();
+  const taken = new Map<string, vscode.Range[]>();
+
+  for (const item of items) {
+    const file = path.join(workspaceRoot, item.file);
+    if (!item.fix || deleted.has(file)) continue;
+
+    if (item.fix.deleteFile) {
+      edit.deleteFile(vscode.Uri.file(file), { ignoreIfNotExists: true });
+      deleted.add(file);
+      continue;
+    }
+
+    const document = documents.get(file);
+    if (!document) return null;
+
+    const ranges = item.fix.edits.map((change) => new vscode.Range(document.positionAt(change.start), document.positionAt(change.end)));
+    if (ranges.some((range, i) => document.getText(range) !== item.fix!.edits[i].expected)) return null;
+
+    // Neighbouring fixes can overlap (two adjacent list elements); the next run picks up the rest
+    const used = taken.get(file) ?? [];
+    if (ranges.some((range) => used.some((other) => !!range.intersection(other) && !range.isEmpty && !other.isEmpty))) continue;
+    taken.set(file, [...used, ...ranges]);
+
+    ranges.forEach((range, i) => edit.replace(document.uri, range, item.fix!.edits[i].newText));
+  }
+
+  return edit;
 }
 
 function generateReportHTML(report: DeadCodeReport): string {
   const rows = report.items
     .map(
-      (item) => `
+      (item, index) => `
       <tr>
         <td>${item.type}</td>
-        <td><code>${item.name}</code></td>
-        <td>${item.file}:${item.line}</td>
+        <td><code>${escapeHtml(item.name)}</code></td>
+        <td>${escapeHtml(item.file)}:${item.line}</td>
         <td>${item.confidence}</td>
-        <td>${item.reason}</td>
+        <td>${escapeHtml(item.reason)}</td>
+        <td>${item.fix ? `<button onclick="fix(${index})">${escapeHtml(item.fix.description)}</button>` : ""}</td>
       </tr>
     `
     )
     .join("");
-  
+
   return `<!DOCTYPE html>
 <html>
 <head>
@@ -295,21 +308,32 @@ function generateReportHTML(report: DeadCodeReport): string {
     th, td { padding: 8px; text-align: left; border-bottom: 1px solid #333; }
     th { background: #252526; }
     code { background: #2d2d2d; padding: 2px 6px; border-radius: 3px; }
+    button { background: #0e639c; color: #fff; border: none; padding: 4px 10px; border-radius: 3px; cursor: pointer; }
     .stats { margin-bottom: 20px; padding: 15px; background: #252526; border-radius: 8px; }
   </style>
 </head>
 <body>
   <h1>Dead Code Report</h1>
   <div class="stats">
-    <p>Files analyzed: ${report.filesAnalyzed}</p>
+    <p>Files analyzed: ${report.filesAnalyzed} (${report.projects.map(escapeHtml).join(", ")})</p>
+    <p>Entry points: ${report.entryPoints.length}</p>
     <p>Issues found: ${report.items.length}</p>
     <p>Potential savings: ${report.potentialSavings.lines} lines (~${Math.round(report.potentialSavings.bytes / 1024)}KB)</p>
+    <button onclick="fixAll()">Apply all fixes</button>
   </div>
   <table>
-    <tr><th>Type</th><th>Name</th><th>Location</th><th>Confidence</th><th>Reason</th></tr>
+    <tr><th>Type</th><th>Name</th><th>Location</th><th>Confidence</th><th>Reason</th><th></th></tr>
     ${rows}
   </table>
+  <script>
+    const vscode = acquireVsCodeApi();
+    function fix(index) { vscode.postMessage({ command: "fix", index }); }
+    function fixAll() { vscode.postMessage({ command: "fixAll" }); }
+  </script>
 </body>
 </html>`;
 }
 
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
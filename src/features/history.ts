@@ -7,6 +7,7 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import type { Message, TokenUsage } from "../providers/types";
+import { getMessageText } from "../providers/types";
 
 export interface ConversationMetadata {
   id: string;
@@ -222,7 +223,7 @@ export class ConversationHistory {
       const role = message.role === "user" ? "**You:**" : "**Claude:**";
       lines.push(role);
       lines.push("");
-      lines.push(message.content);
+      lines.push(getMessageText(message.content));
       lines.push("");
       lines.push("---");
       lines.push("");
@@ -255,7 +256,7 @@ export class ConversationHistory {
         
         // Search in messages
         for (const msg of conv.messages) {
-          if (msg.content.toLowerCase().includes(queryLower)) {
+          if (getMessageText(msg.content).toLowerCase().includes(queryLower)) {
             return true;
           }
         }
@@ -191,6 +191,7 @@ function isWriteTool(name: string): boolean {
     "copy_file",
     "create_directory",
     "run_terminal_command",
+    "send_job_input",
     "git_commit",
     "git_push",
     "git_checkout",
@@ -0,0 +1,179 @@
+/**
+ * MCP in chat - Prompts as slash commands, resources as attachments
+ *
+ * A server's prompt "review" on server "docs" is typed as
+ * `/docs:review key=value other="quoted value"`; missing required
+ * arguments are asked for. Resources are picked and attached to the next
+ * chat message.
+ */
+
+import * as vscode from "vscode";
+import { getMCPManager } from "./manager";
+import { getContextTracker } from "../features/context";
+import type { MCPPrompt, MCPPromptResult, MCPResourceContents } from "./types";
+
+export interface SlashCommand {
+  command: string;
+  description?: string;
+}
+
+const MAX_ATTACHMENT_CHARS = 50000;
+
+/**
+ * Slash commands for every prompt the connected servers offer
+ */
+export function getMCPSlashCommands(): SlashCommand[] {
+  return getMCPManager()
+    .getAllPrompts()
+    .map(({ server, prompt }) => ({
+      command: `/${server}:${prompt.name}`,
+      description: describePrompt(prompt),
+    }));
+}
+
+/**
+ * Expand an MCP slash command into the message to send. Returns null when
+ * the text isn't one, so it can be sent as typed.
+ */
+export async function expandMCPSlashCommand(text: string): Promise<string | null> {
+  const match = text.trim().match(/^\/([^\s:]+):(\S+)\s*([\s\S]*)$/);
+  if (!match) return null;
+
+  const [, server, name, rest] = match;
+  const entry = getMCPManager()
+    .getAllPrompts()
+    .find((p) => p.server === server && p.prompt.name === name);
+  if (!entry) return null;
+
+  const args = await collectArguments(entry.prompt, parseArguments(rest, entry.prompt));
+  if (!args) {
+    throw new Error("Request cancelled");
+  }
+
+  const result = await getMCPManager().getPrompt(server, name, args);
+  return renderPrompt(server, result);
+}
+
+/**
+ * Pick a resource from a connected server and attach it to the next message
+ */
+export async function attachMCPResource(): Promise<string | undefined> {
+  const resources = getMCPManager().getAllResources();
+  if (resources.length === 0) {
+    vscode.window.showInformationMessage("No connected MCP server offers resources");
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    resources.map(({ server, resource }) => ({
+      label: resource.name,
+      description: server,
+      detail: resource.description || resource.uri,
+      server,
+      uri: resource.uri,
+    })),
+    { placeHolder: "Attach an MCP resource to the next message", matchOnDetail: true }
+  );
+  if (!selected) return undefined;
+
+  const contents = await getMCPManager().readResource(selected.server, selected.uri);
+  getContextTracker().attach({
+    title: selected.label,
+    source: `mcp:${selected.server}`,
+    content: contents.map(formatContents).join("\n\n"),
+  });
+  return selected.label;
+}
+
+/**
+ * key=value / key="quoted value" pairs; bare words fill arguments in order
+ */
+function parseArguments(text: string, prompt: MCPPrompt): Record<string, string> {
+  const args: Record<string, string> = {};
+  const positional: string[] = [];
+  const pattern = /(\w+)=(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g;
+  let match;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [, key, quoted, plain, bareQuoted, bare] = match;
+    if (key) args[key] = quoted ?? plain;
+    else positional.push(bareQuoted ?? bare);
+  }
+
+  const unfilled = (prompt.arguments ?? []).filter((a) => !(a.name in args));
+  if (unfilled.length > 0 && positional.length > 0) {
+    unfilled.forEach((argument, i) => {
+      if (i < positional.length) {
+        // The last argument takes whatever is left over
+        args[argument.name] = i === unfilled.length - 1 ? positional.slice(i).join(" ") : positional[i];
+      }
+    });
+  }
+
+  return args;
+}
+
+async function collectArguments(
+  prompt: MCPPrompt,
+  args: Record<string, string>
+): Promise<Record<string, string> | null> {
+  for (const argument of prompt.arguments ?? []) {
+    if (!argument.required || args[argument.name]) continue;
+
+    const value = await vscode.window.showInputBox({
+      title: `/${prompt.name}`,
+      prompt: argument.description || argument.name,
+      placeHolder: argument.name,
+      ignoreFocusOut: true,
+    });
+    if (value === undefined) return null;
+    args[argument.name] = value;
+  }
+  return args;
+}
+
+/**
+ * Flatten the prompt's messages into one chat message; embedded resources
+ * become attachments
+ */
+function renderPrompt(server: string, result: MCPPromptResult): string {
+  const multiRole = result.messages.some((m) => m.role !== "user");
+  const parts: string[] = [];
+
+  for (const message of result.messages) {
+    const content = message.content;
+    let text: string;
+
+    if (content.type === "text") {
+      text = content.text;
+    } else if (content.type === "resource") {
+      getContextTracker().attach({
+        title: content.resource.uri,
+        source: `mcp:${server}`,
+        content: formatContents(content.resource),
+      });
+      continue;
+    } else {
+      text = `[image: ${content.mimeType}]`;
+    }
+
+    parts.push(multiRole ? `${message.role === "user" ? "User" : "Assistant"}: ${text}` : text);
+  }
+
+  return parts.join("\n\n");
+}
+
+function formatContents(contents: MCPResourceContents): string {
+  if (contents.text !== undefined) {
+    return contents.text.length > MAX_ATTACHMENT_CHARS
+      ? contents.text.slice(0, MAX_ATTACHMENT_CHARS) + "\n... (truncated)"
+      : contents.text;
+  }
+  return `[binary ${contents.mimeType || "data"} at ${contents.uri}, ${contents.blob?.length ?? 0} base64 chars]`;
+}
+
+function describePrompt(prompt: MCPPrompt): string | undefined {
+  const args = (prompt.arguments ?? []).map((a) => (a.required ? a.name : `${a.name}?`));
+  const signature = args.length ? ` (${args.join(", ")})` : "";
+  return prompt.description ? prompt.description + signature : signature.trim() || undefined;
+}
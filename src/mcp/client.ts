@@ -1,34 +1,60 @@
 /**
  * MCP Client - Connects to MCP tool servers
- * Supports stdio, SSE, and WebSocket transports
+ * Supports stdio, legacy SSE, Streamable HTTP, and WebSocket transports
  */
 
 import { spawn, ChildProcess } from "child_process";
 import { EventEmitter } from "events";
+import WebSocket from "ws";
 import type {
   MCPServerConfig,
+  MCPSettings,
   MCPMessage,
   MCPTool,
   MCPResource,
+  MCPResourceContents,
+  MCPPrompt,
+  MCPPromptResult,
   MCPCapabilities,
   MCPToolResult,
 } from "./types";
 
+/** Answers a request the server sends us; throw to reply with an error */
+export type MCPRequestHandler = (params: unknown) => Promise<unknown>;
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const MAX_RECONNECT_DELAY = 30000;
+
 export class MCPClient extends EventEmitter {
   private config: MCPServerConfig;
+  private settings: MCPSettings;
   private process: ChildProcess | null = null;
+  private socket: WebSocket | null = null;
+  private abort: AbortController | null = null;
   private messageId = 0;
   private pendingRequests: Map<
     number | string,
     { resolve: (value: unknown) => void; reject: (error: Error) => void }
   > = new Map();
   private capabilities: MCPCapabilities | null = null;
+  private requestHandlers: Map<string, MCPRequestHandler> = new Map();
   private buffer = "";
   private connected = false;
+  private closing = false;
+  private reconnecting = false;
+
+  // Legacy SSE: where the server told us to POST messages
+  private postEndpoint: string | null = null;
+  // Streamable HTTP: session assigned by the server on initialize
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private resuming: Promise<void> | null = null;
 
-  constructor(config: MCPServerConfig) {
+  constructor(config: MCPServerConfig, settings: MCPSettings = {}) {
     super();
     this.config = config;
+    this.settings = settings;
   }
 
   get name(): string {
@@ -39,9 +65,26 @@ export class MCPClient extends EventEmitter {
     return this.connected;
   }
 
+  private get timeout(): number {
+    return this.config.timeout ?? this.settings.timeout ?? DEFAULT_TIMEOUT;
+  }
+
   async connect(): Promise<void> {
     if (this.connected) return;
+    this.closing = false;
+
+    await this.openTransport();
 
+    // Initialize the connection
+    try {
+      await this.initialize();
+    } catch (error) {
+      await this.closeTransport();
+      throw error;
+    }
+  }
+
+  private async openTransport(): Promise<void> {
     switch (this.config.transport) {
       case "stdio":
         await this.connectStdio();
@@ -49,15 +92,15 @@ export class MCPClient extends EventEmitter {
       case "sse":
         await this.connectSSE();
         break;
+      case "http":
+        await this.connectStreamableHttp();
+        break;
       case "websocket":
         await this.connectWebSocket();
         break;
       default:
         throw new Error(`Unknown transport: ${this.config.transport}`);
     }
-
-    // Initialize the connection
-    await this.initialize();
   }
 
   private async connectStdio(): Promise<void> {
@@ -75,7 +118,7 @@ export class MCPClient extends EventEmitter {
     });
 
     this.process.stderr?.on("data", (data: Buffer) => {
-      console.error(`[MCP ${this.config.name}] stderr:`, data.toString());
+      this.emit("stderr", data.toString());
     });
 
     this.process.on("error", (error) => {
@@ -85,57 +128,241 @@ export class MCPClient extends EventEmitter {
 
     this.process.on("close", (code) => {
       this.connected = false;
+      this.rejectPending(new Error(`MCP server ${this.config.name} exited`));
       this.emit("close", code);
     });
 
     this.connected = true;
   }
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // LEGACY SSE - GET an event stream, POST messages to the endpoint it names
+  // ─────────────────────────────────────────────────────────────────────────
+
   private async connectSSE(): Promise<void> {
-    if (!this.config.url) {
-      throw new Error("URL required for SSE transport");
-    }
+    const url = this.requireUrl("SSE");
+    this.abort = new AbortController();
 
-    // SSE implementation
-    const response = await fetch(this.config.url, {
-      headers: { Accept: "text/event-stream" },
+    const response = await this.fetchWithTimeout(url, {
+      headers: { ...this.config.headers, Accept: "text/event-stream" },
+      signal: this.abort.signal,
     });
 
     if (!response.ok || !response.body) {
-      throw new Error(`Failed to connect to SSE: ${response.status}`);
+      throw new Error(`Failed to connect to SSE: ${response.status} ${response.statusText}`);
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
+    // The first event tells us where to POST; nothing can be sent before it
+    const endpoint = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`SSE server ${this.config.name} sent no endpoint event`)),
+        this.timeout
+      );
+
+      readEventStream(response.body!, (event, data) => {
+        if (event === "endpoint") {
+          clearTimeout(timer);
+          // Messages carry the configured headers, so they may only go back to the server's own origin
+          let target: URL | null = null;
+          try {
+            target = new URL(data.trim(), url);
+          } catch {
+            // Reported below
+          }
+          if (target && target.origin === new URL(url).origin) {
+            resolve(target.toString());
+          } else {
+            reject(new Error(`SSE server ${this.config.name} named an endpoint outside ${new URL(url).origin}: ${data.trim()}`));
+            this.abort?.abort();
+          }
+        } else if (event === "message") {
+          this.handleJson(data);
+        }
+      })
+        .then(() => {
+          clearTimeout(timer);
+          reject(new Error("SSE stream ended before the endpoint event"));
+          this.handleTransportClosed();
+        })
+        .catch((error) => {
+          clearTimeout(timer);
+          reject(error);
+          this.handleTransportClosed(error);
+        });
+    });
 
-    const readStream = async () => {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        this.handleData(decoder.decode(value));
-      }
-      this.connected = false;
-      this.emit("close", 0);
-    };
+    this.postEndpoint = await endpoint;
+    this.connected = true;
+  }
 
-    readStream().catch((error) => {
-      this.emit("error", error);
-      this.connected = false;
+  private async postSSE(message: MCPMessage): Promise<void> {
+    if (!this.postEndpoint) {
+      throw new Error("Not connected");
+    }
+
+    const response = await this.fetchWithTimeout(this.postEndpoint, {
+      method: "POST",
+      headers: { ...this.config.headers, "Content-Type": "application/json" },
+      body: JSON.stringify(message),
     });
 
+    if (!response.ok) {
+      throw new Error(`MCP server ${this.config.name} rejected message: ${response.status} ${response.statusText}`);
+    }
+    // Replies arrive on the event stream
+    await response.body?.cancel();
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // STREAMABLE HTTP - every message is a POST; replies come back as JSON or
+  // as an event stream, and the server may keep a session for us
+  // ─────────────────────────────────────────────────────────────────────────
+
+  private async connectStreamableHttp(): Promise<void> {
+    this.requireUrl("HTTP");
+    this.abort = new AbortController();
+    this.sessionId = null;
+    // No long-lived connection until initialize hands us a session
     this.connected = true;
   }
 
-  private async connectWebSocket(): Promise<void> {
-    if (!this.config.url) {
-      throw new Error("URL required for WebSocket transport");
+  private async postStreamableHttp(message: MCPMessage, retried = false): Promise<void> {
+    const url = this.requireUrl("HTTP");
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    };
+    if (this.sessionId) headers["Mcp-Session-Id"] = this.sessionId;
+    if (this.protocolVersion) headers["MCP-Protocol-Version"] = this.protocolVersion;
+
+    const response = await this.fetchWithTimeout(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(message),
+      signal: this.abort?.signal,
+    });
+
+    const session = response.headers.get("mcp-session-id");
+    if (session) this.sessionId = session;
+
+    // The server forgot our session: start a new one and resend once
+    if (response.status === 404 && headers["Mcp-Session-Id"] && message.method !== "initialize" && !retried) {
+      await response.body?.cancel();
+      await this.resumeSession(headers["Mcp-Session-Id"]);
+      return this.postStreamableHttp(message, true);
     }
 
-    // Note: In VS Code extension, we'd use a WebSocket polyfill
-    // For now, this is a placeholder
-    throw new Error("WebSocket transport not yet implemented in VS Code extension");
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`MCP server ${this.config.name} rejected message: ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (contentType.includes("text/event-stream") && response.body) {
+      // Long-running calls stream progress and the result; don't block the sender on it
+      readEventStream(response.body, (event, data) => {
+        if (event === "message") this.handleJson(data);
+      }).catch((error) => this.failRequest(message, error));
+    } else if (contentType.includes("application/json")) {
+      this.handleJson(await response.text());
+    } else {
+      // 202 Accepted for notifications and responses
+      await response.body?.cancel();
+    }
   }
 
+  /**
+   * Replace an expired session; concurrent requests share one initialize
+   */
+  private async resumeSession(expired: string): Promise<void> {
+    if (!this.resuming) {
+      if (this.sessionId !== expired) return;
+      this.sessionId = null;
+      this.resuming = this.initialize()
+        .then(() => {
+          this.emit("reconnected");
+        })
+        .finally(() => {
+          this.resuming = null;
+        });
+    }
+    await this.resuming;
+  }
+
+  /**
+   * Optional GET stream for messages the server sends unprompted. Servers
+   * that don't offer one answer 405, which is fine.
+   */
+  private openServerStream(): void {
+    if (this.config.transport !== "http" || !this.sessionId) return;
+
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      Accept: "text/event-stream",
+      "Mcp-Session-Id": this.sessionId,
+    };
+    if (this.protocolVersion) headers["MCP-Protocol-Version"] = this.protocolVersion;
+
+    fetch(this.requireUrl("HTTP"), { headers, signal: this.abort?.signal })
+      .then(async (response) => {
+        if (!response.ok || !response.body) {
+          await response.body?.cancel();
+          return;
+        }
+        await readEventStream(response.body, (event, data) => {
+          if (event === "message") this.handleJson(data);
+        });
+        // The server may close this stream whenever it likes; reopen it
+        if (!this.closing && this.connected) this.openServerStream();
+      })
+      .catch((error) => {
+        if (!this.closing) this.emit("log", `Server stream failed: ${describeError(error)}`);
+      });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // WEBSOCKET
+  // ─────────────────────────────────────────────────────────────────────────
+
+  private async connectWebSocket(): Promise<void> {
+    const url = this.requireUrl("WebSocket");
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url, "mcp", {
+        headers: this.config.headers,
+        handshakeTimeout: this.timeout,
+      });
+      let opened = false;
+
+      socket.on("open", () => {
+        opened = true;
+        this.socket = socket;
+        this.connected = true;
+        resolve();
+      });
+
+      socket.on("message", (data) => {
+        this.handleJson(data.toString());
+      });
+
+      socket.on("error", (error) => {
+        if (!opened) reject(error);
+        else this.emit("error", error);
+      });
+
+      socket.on("close", () => {
+        if (this.socket === socket) this.socket = null;
+        if (opened) this.handleTransportClosed();
+        else reject(new Error(`WebSocket to ${this.config.name} closed during handshake`));
+      });
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // MESSAGES
+  // ─────────────────────────────────────────────────────────────────────────
+
   private handleData(data: string): void {
     this.buffer += data;
 
@@ -145,13 +372,24 @@ export class MCPClient extends EventEmitter {
 
     for (const line of lines) {
       if (!line.trim()) continue;
+      this.handleJson(line);
+    }
+  }
 
-      try {
-        const message: MCPMessage = JSON.parse(line);
-        this.handleMessage(message);
-      } catch (error) {
-        console.error(`[MCP ${this.config.name}] Invalid JSON:`, line);
-      }
+  /**
+   * Parse one JSON-RPC payload; Streamable HTTP may batch several in an array
+   */
+  private handleJson(json: string): void {
+    let parsed: MCPMessage | MCPMessage[];
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      this.emit("log", `Invalid JSON: ${json}`);
+      return;
+    }
+
+    for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+      this.handleMessage(message);
     }
   }
 
@@ -170,12 +408,65 @@ export class MCPClient extends EventEmitter {
       }
     }
 
+    // Requests from server (sampling, roots, ping)
+    if (message.method && message.id !== undefined) {
+      void this.handleServerRequest(message.id, message.method, message.params);
+      return;
+    }
+
     // Handle notifications from server
     if (message.method) {
       this.emit("notification", message.method, message.params);
     }
   }
 
+  private async handleServerRequest(id: number | string, method: string, params: unknown): Promise<void> {
+    const handler = this.requestHandlers.get(method) ?? (method === "ping" ? async () => ({}) : undefined);
+    let reply: MCPMessage;
+
+    if (!handler) {
+      reply = { jsonrpc: "2.0", id, error: { code: -32601, message: `Method not found: ${method}` } };
+    } else {
+      try {
+        reply = { jsonrpc: "2.0", id, result: await handler(params) };
+      } catch (error) {
+        reply = {
+          jsonrpc: "2.0",
+          id,
+          error: { code: -1, message: error instanceof Error ? error.message : String(error) },
+        };
+      }
+    }
+
+    await this.send(reply).catch((error) => {
+      this.emit("log", `Failed to answer ${method}: ${describeError(error)}`);
+    });
+  }
+
+  /**
+   * Register the answer to a server-initiated request such as roots/list
+   */
+  onRequest(method: string, handler: MCPRequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  private async send(message: MCPMessage): Promise<void> {
+    switch (this.config.transport) {
+      case "stdio":
+        if (!this.process?.stdin) throw new Error("Not connected");
+        this.process.stdin.write(JSON.stringify(message) + "\n");
+        return;
+      case "sse":
+        return this.postSSE(message);
+      case "http":
+        return this.postStreamableHttp(message);
+      case "websocket":
+        if (!this.socket || this.socket.readyState !== WebSocket.OPEN) throw new Error("Not connected");
+        this.socket.send(JSON.stringify(message));
+        return;
+    }
+  }
+
   private async sendRequest(method: string, params?: unknown): Promise<unknown> {
     const id = ++this.messageId;
     const message: MCPMessage = {
@@ -186,29 +477,51 @@ export class MCPClient extends EventEmitter {
     };
 
     return new Promise((resolve, reject) => {
-      this.pendingRequests.set(id, { resolve, reject });
-
-      const json = JSON.stringify(message) + "\n";
-
-      if (this.config.transport === "stdio" && this.process?.stdin) {
-        this.process.stdin.write(json);
-      } else {
-        reject(new Error("Not connected"));
-      }
-
-      // Timeout after 30 seconds
-      setTimeout(() => {
+      const timer = setTimeout(() => {
         if (this.pendingRequests.has(id)) {
           this.pendingRequests.delete(id);
-          reject(new Error("Request timed out"));
+          reject(new Error(`Request ${method} timed out after ${this.timeout}ms`));
         }
-      }, 30000);
+      }, this.timeout);
+
+      this.pendingRequests.set(id, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      this.send(message).catch((error) => this.failRequest(message, error));
     });
   }
 
+  private async sendNotification(method: string, params?: unknown): Promise<void> {
+    await this.send({ jsonrpc: "2.0", method, params });
+  }
+
+  private failRequest(message: MCPMessage, error: unknown): void {
+    if (message.id === undefined) return;
+    const pending = this.pendingRequests.get(message.id);
+    if (pending) {
+      this.pendingRequests.delete(message.id);
+      pending.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
   private async initialize(): Promise<void> {
     const result = (await this.sendRequest("initialize", {
-      protocolVersion: "2024-11-05",
+      protocolVersion: this.config.transport === "http" ? "2025-03-26" : "2024-11-05",
       capabilities: {
         roots: { listChanged: true },
         sampling: {},
@@ -217,12 +530,138 @@ export class MCPClient extends EventEmitter {
         name: "mythatron-code",
         version: "1.0.0",
       },
-    })) as { capabilities: MCPCapabilities };
+    })) as { capabilities: MCPCapabilities; protocolVersion?: string };
 
     this.capabilities = result.capabilities;
+    this.protocolVersion = result.protocolVersion ?? null;
 
     // Send initialized notification
-    await this.sendRequest("notifications/initialized", {});
+    await this.sendNotification("notifications/initialized", {});
+    this.openServerStream();
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // RECONNECTION
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * A remote stream dropped without us asking. Retry with backoff before
+   * giving up and reporting the server as closed.
+   */
+  private handleTransportClosed(error?: Error): void {
+    if (this.closing || this.reconnecting) return;
+
+    const wasConnected = this.connected;
+    this.connected = false;
+    this.postEndpoint = null;
+    this.rejectPending(error ?? new Error(`Connection to MCP server ${this.config.name} lost`));
+
+    // Still handshaking: connect() reports the failure itself
+    if (!wasConnected) return;
+
+    void this.reconnect();
+  }
+
+  private async reconnect(): Promise<void> {
+    const attempts = this.settings.retryAttempts ?? DEFAULT_RETRY_ATTEMPTS;
+    this.reconnecting = true;
+
+    try {
+      for (let attempt = 1; attempt <= attempts; attempt++) {
+        await delay(Math.min(1000 * 2 ** (attempt - 1), MAX_RECONNECT_DELAY));
+        if (this.closing) return;
+
+        this.emit("reconnecting", attempt);
+        try {
+          await this.closeTransport();
+          await this.openTransport();
+          await this.initialize();
+          this.emit("reconnected");
+          return;
+        } catch (error) {
+          this.emit("log", `Reconnect attempt ${attempt} failed: ${describeError(error)}`);
+          this.connected = false;
+        }
+      }
+
+      await this.closeTransport();
+      this.emit("close", 1);
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
+  private async closeTransport(): Promise<void> {
+    // Streamable HTTP sessions are ended explicitly
+    if (this.config.transport === "http" && this.sessionId) {
+      const headers: Record<string, string> = { ...this.config.headers, "Mcp-Session-Id": this.sessionId };
+      await this.fetchWithTimeout(this.requireUrl("HTTP"), { method: "DELETE", headers })
+        .then((response) => response.body?.cancel())
+        .catch(() => {
+          // Best effort; the session will expire on its own
+        });
+    }
+    this.sessionId = null;
+    this.protocolVersion = null;
+    this.postEndpoint = null;
+
+    this.abort?.abort();
+    this.abort = null;
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+
+    this.connected = false;
+  }
+
+  private requireUrl(transport: string): string {
+    if (!this.config.url) {
+      throw new Error(`URL required for ${transport} transport`);
+    }
+    return this.config.url;
+  }
+
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const timeout = AbortSignal.timeout(this.timeout);
+    // Only the connect/handshake is bounded; bodies may stream for longer
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    timeout.addEventListener("abort", onAbort);
+    init.signal?.addEventListener("abort", onAbort);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } finally {
+      timeout.removeEventListener("abort", onAbort);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // PUBLIC API
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Round-trip a ping; resolves with the latency in ms
+   */
+  async ping(): Promise<number> {
+    if (!this.connected) {
+      throw new Error("Not connected");
+    }
+
+    const start = Date.now();
+    await this.sendRequest("ping", {});
+    return Date.now() - start;
+  }
+
+  get pid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  getCapabilities(): MCPCapabilities | null {
+    return this.capabilities;
   }
 
   async listTools(): Promise<MCPTool[]> {
@@ -263,25 +702,108 @@ export class MCPClient extends EventEmitter {
     return result;
   }
 
-  async readResource(uri: string): Promise<{ contents: Array<{ uri: string; text?: string; blob?: string }> }> {
+  async readResource(uri: string): Promise<{ contents: MCPResourceContents[] }> {
     if (!this.connected) {
       throw new Error("Not connected");
     }
 
     const result = (await this.sendRequest("resources/read", { uri })) as {
-      contents: Array<{ uri: string; text?: string; blob?: string }>;
+      contents: MCPResourceContents[];
     };
 
     return result;
   }
 
+  async listPrompts(): Promise<MCPPrompt[]> {
+    if (!this.connected) {
+      throw new Error("Not connected");
+    }
+
+    const result = (await this.sendRequest("prompts/list", {})) as {
+      prompts: MCPPrompt[];
+    };
+    return result.prompts || [];
+  }
+
+  async getPrompt(name: string, arguments_: Record<string, string> = {}): Promise<MCPPromptResult> {
+    if (!this.connected) {
+      throw new Error("Not connected");
+    }
+
+    return (await this.sendRequest("prompts/get", {
+      name,
+      arguments: arguments_,
+    })) as MCPPromptResult;
+  }
+
+  /**
+   * Tell the server the workspace folders changed; it will ask for roots again
+   */
+  async notifyRootsChanged(): Promise<void> {
+    if (!this.connected) return;
+    await this.sendNotification("notifications/roots/list_changed", {});
+  }
+
   async disconnect(): Promise<void> {
+    this.closing = true;
     if (this.process) {
       this.process.kill();
       this.process = null;
     }
-    this.connected = false;
-    this.pendingRequests.clear();
+    await this.closeTransport();
+    this.rejectPending(new Error(`Disconnected from MCP server ${this.config.name}`));
   }
 }
 
+/**
+ * Read a text/event-stream body, calling onEvent for each complete event
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+
+  const dispatch = () => {
+    if (data.length > 0) onEvent(event, data.join("\n"));
+    event = "message";
+    data = [];
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line === "") {
+        dispatch();
+      } else if (line.startsWith(":")) {
+        // Comment / keep-alive
+      } else {
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "event") event = value;
+        else if (field === "data") data.push(value);
+      }
+    }
+  }
+
+  dispatch();
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -5,6 +5,10 @@
 export * from "./types";
 export * from "./client";
 export * from "./manager";
+export * from "./sampling";
+export * from "./chat";
+export * from "./tree";
+export * from "./server";
 
 import { getMCPManager } from "./manager";
 
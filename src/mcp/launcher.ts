@@ -0,0 +1,60 @@
+/**
+ * MCP Launcher - stdio bridge to the MCP server of a running MythaTron window
+ *
+ * Usage: node dist/mcp/launcher.js [workspace]
+ *
+ * Finds .mythatron/mcp-server.json in the workspace (or the nearest parent
+ * of the current directory) and pipes stdin/stdout to the socket it names.
+ * Runs outside VS Code, so it uses Node built-ins only.
+ */
+
+import * as net from "net";
+import * as fs from "fs";
+import * as path from "path";
+
+const INFO_FILE = path.join(".mythatron", "mcp-server.json");
+
+function findInfoFile(start: string): string | null {
+  let dir = path.resolve(start);
+  for (;;) {
+    const candidate = path.join(dir, INFO_FILE);
+    if (fs.existsSync(candidate)) return candidate;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function fail(message: string): never {
+  process.stderr.write(`mythatron-mcp: ${message}\n`);
+  process.exit(1);
+}
+
+function main(): void {
+  const workspace = process.argv[2] ?? process.cwd();
+  const infoFile = findInfoFile(workspace);
+  if (!infoFile) {
+    fail(`no MythaTron MCP server found for ${workspace}. Open it in VS Code with "mythaTron.exposeMCPServer" enabled.`);
+  }
+
+  let socketPath: string;
+  try {
+    socketPath = JSON.parse(fs.readFileSync(infoFile, "utf8")).socket;
+  } catch (error) {
+    fail(`can't read ${infoFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const socket = net.connect(socketPath);
+  socket.on("connect", () => {
+    process.stdin.pipe(socket);
+    socket.pipe(process.stdout);
+  });
+  socket.on("error", (error) => {
+    fail(`can't reach MythaTron at ${socketPath} (${error.message}). Is the VS Code window still open?`);
+  });
+  socket.on("close", () => process.exit(0));
+  process.stdin.on("end", () => socket.end());
+}
+
+main();
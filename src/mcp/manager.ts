@@ -7,13 +7,36 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import { MCPClient } from "./client";
+import { handleSamplingRequest } from "./sampling";
 import type {
   MCPServerConfig,
   MCPProjectConfig,
   MCPTool,
   MCPToolResult,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContents,
+  MCPRoot,
+  MCPSamplingRequest,
+  MCPApprovalPolicy,
+  MCPServerState,
+  MCPServerStatus,
   MCP_PRESETS,
 } from "./types";
+import type { ToolDefinition } from "../providers/types";
+
+// Provider tool names allow only these characters, up to 64 of them
+const TOOL_NAME_MAX = 64;
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_HEALTH_CHECK_INTERVAL = 30000;
+const MAX_RESTART_DELAY = 30000;
+// A server that ran this long before dying gets a fresh set of restarts
+const STABLE_UPTIME = 60000;
+// Missed pings in a row before a server counts as hung
+const MAX_MISSED_PINGS = 2;
+const MAX_RECENT_ERRORS = 20;
 
 export class MCPManager {
   private clients: Map<string, MCPClient> = new Map();
@@ -21,6 +44,23 @@ export class MCPManager {
   private configPath: string;
   private config: MCPProjectConfig | null = null;
   private toolsCache: Map<string, MCPTool[]> = new Map();
+  private serverConfigs: Map<string, MCPServerConfig> = new Map();
+  private promptsCache: Map<string, MCPPrompt[]> = new Map();
+  private resourcesCache: Map<string, MCPResource[]> = new Map();
+  private disposables: vscode.Disposable[] = [];
+
+  // Supervision
+  private states: Map<string, MCPServerState> = new Map();
+  private restartAttempts: Map<string, number> = new Map();
+  private restartTimers: Map<string, NodeJS.Timeout> = new Map();
+  private connecting: Map<string, MCPClient> = new Map(); // still handshaking
+  private missedPings: Map<string, number> = new Map();
+  private healthTimer: NodeJS.Timeout | null = null;
+  private logChannels: Map<string, vscode.OutputChannel> = new Map();
+
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  /** Fires with the server name when its status, tools, prompts or resources change */
+  readonly onDidChange = this._onDidChange.event;
 
   constructor(workspaceRoot?: string) {
     this.workspaceRoot =
@@ -64,19 +104,37 @@ export class MCPManager {
   async initialize(): Promise<void> {
     await this.loadConfig();
 
+    if (this.disposables.length === 0) {
+      this.disposables.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+          for (const client of this.clients.values()) {
+            client.notifyRootsChanged().catch(() => {
+              // Server went away; its close handler cleans up
+            });
+          }
+        })
+      );
+    }
+
     if (!this.config) {
       return;
     }
 
     for (const serverConfig of this.config.servers) {
-      if (serverConfig.enabled === false) continue;
+      this.serverConfigs.set(serverConfig.name, serverConfig);
+      if (serverConfig.enabled === false) {
+        this.setStatus(serverConfig.name, "stopped");
+        continue;
+      }
 
       try {
         await this.connectServer(serverConfig);
-      } catch (error) {
-        console.error(`Failed to connect to MCP server ${serverConfig.name}:`, error);
+      } catch {
+        // Recorded in the server's log; a restart is already scheduled
       }
     }
+
+    this.startHealthChecks();
   }
 
   /**
@@ -84,46 +142,355 @@ export class MCPManager {
    */
   async connectServer(config: MCPServerConfig): Promise<MCPClient> {
     // Disconnect existing client if any
-    if (this.clients.has(config.name)) {
+    if (this.clients.has(config.name) || this.connecting.has(config.name)) {
       await this.disconnectServer(config.name);
     }
 
-    const client = new MCPClient(config);
+    const client = new MCPClient(config, this.config?.settings);
+    this.serverConfigs.set(config.name, config);
+    this.cancelRestart(config.name);
+    if (this.getState(config.name).status !== "restarting") {
+      this.setStatus(config.name, "starting");
+    }
+    this.log(config.name, `Starting (${config.transport}${config.command ? `: ${config.command} ${(config.args || []).join(" ")}` : config.url ? ` ${config.url}` : ""})`);
+
+    client.onRequest("roots/list", async () => ({ roots: this.getRoots() }));
+    client.onRequest("sampling/createMessage", (params) =>
+      handleSamplingRequest(config.name, params as MCPSamplingRequest)
+    );
+
+    client.on("notification", (method: string) => {
+      switch (method) {
+        case "notifications/tools/list_changed":
+          void this.refreshServer(config.name, client, "tools");
+          break;
+        case "notifications/prompts/list_changed":
+          void this.refreshServer(config.name, client, "prompts");
+          break;
+        case "notifications/resources/list_changed":
+          void this.refreshServer(config.name, client, "resources");
+          break;
+      }
+    });
+
+    client.on("stderr", (text: string) => this.log(config.name, text.trimEnd()));
+    client.on("log", (message: string) => this.log(config.name, message));
+
+    client.on("error", (error: Error) => {
+      this.recordError(config.name, error.message);
+    });
+
+    client.on("reconnecting", (attempt: number) => {
+      this.log(config.name, `Connection lost, reconnecting (attempt ${attempt})`);
+      this.setStatus(config.name, "restarting");
+    });
 
-    client.on("error", (error) => {
-      console.error(`[MCP ${config.name}] Error:`, error);
-      vscode.window.showErrorMessage(`MCP server ${config.name} error: ${error.message}`);
+    client.on("reconnected", () => {
+      this.log(config.name, "Reconnected");
+      this.setStatus(config.name, "running");
+      // The server may have restarted with a different tool set
+      void this.refreshServer(config.name, client);
     });
 
     client.on("close", (code) => {
-      console.log(`[MCP ${config.name}] Closed with code ${code}`);
+      // Stopped or replaced on purpose
+      if (this.clients.get(config.name) !== client) return;
+
       this.clients.delete(config.name);
-      this.toolsCache.delete(config.name);
+      this.forgetServer(config.name);
+
+      if (config.transport === "stdio") {
+        this.recordError(config.name, `Process exited with code ${code}`);
+        this.scheduleRestart(config);
+      } else {
+        // The client already retried the connection
+        this.recordError(config.name, "Connection lost and could not be re-established");
+        this.markFailed(config.name);
+      }
     });
 
-    await client.connect();
-    this.clients.set(config.name, client);
-
-    // Cache tools
+    this.connecting.set(config.name, client);
     try {
-      const tools = await client.listTools();
-      this.toolsCache.set(config.name, tools);
-    } catch {
-      // Some servers don't support tools
+      await client.connect();
+      if (this.connecting.get(config.name) !== client) {
+        throw new Error(`MCP server ${config.name} was stopped while starting`);
+      }
+    } catch (error) {
+      await client.disconnect();
+      // Stopped or replaced while starting: nothing to restart
+      if (this.connecting.get(config.name) !== client) throw error;
+
+      this.connecting.delete(config.name);
+      this.recordError(config.name, `Failed to start: ${error instanceof Error ? error.message : String(error)}`);
+      this.scheduleRestart(config);
+      throw error;
     }
 
+    this.connecting.delete(config.name);
+    this.clients.set(config.name, client);
+    this.missedPings.delete(config.name);
+    const state = this.getState(config.name);
+    state.startedAt = Date.now();
+    this.log(config.name, `Running${client.pid ? ` (pid ${client.pid})` : ""}`);
+    this.setStatus(config.name, "running");
+
+    await this.refreshServer(config.name, client);
+
     return client;
   }
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // SUPERVISION
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Start a configured server by name, with a fresh set of restart attempts
+   */
+  async startServer(name: string): Promise<void> {
+    const config = this.serverConfigs.get(name) ?? this.config?.servers.find((s) => s.name === name);
+    if (!config) {
+      throw new Error(`Unknown MCP server: ${name}`);
+    }
+
+    this.restartAttempts.delete(name);
+    await this.connectServer(config);
+    this.startHealthChecks();
+  }
+
+  /**
+   * Stop a server and keep it stopped
+   */
+  async stopServer(name: string): Promise<void> {
+    this.cancelRestart(name);
+    await this.disconnectServer(name);
+    this.log(name, "Stopped");
+    this.setStatus(name, "stopped");
+  }
+
+  async restartServer(name: string): Promise<void> {
+    await this.stopServer(name);
+    await this.startServer(name);
+  }
+
+  /**
+   * Every configured or connected server with its supervision state
+   */
+  getServerStates(): MCPServerState[] {
+    for (const config of this.config?.servers ?? []) {
+      this.serverConfigs.set(config.name, this.serverConfigs.get(config.name) ?? config);
+    }
+    return Array.from(this.serverConfigs.keys(), (name) => {
+      const state = this.getState(name);
+      state.toolCount = this.toolsCache.get(name)?.length ?? 0;
+      return { ...state, errors: [...state.errors] };
+    });
+  }
+
+  getServerTools(name: string): MCPTool[] {
+    return this.toolsCache.get(name) ?? [];
+  }
+
+  showLogs(name: string): void {
+    this.getLogChannel(name).show(true);
+  }
+
+  private scheduleRestart(config: MCPServerConfig): void {
+    const name = config.name;
+    const state = this.getState(name);
+    if (state.startedAt && Date.now() - state.startedAt > STABLE_UPTIME) {
+      this.restartAttempts.delete(name);
+    }
+    state.startedAt = undefined;
+
+    const attempt = (this.restartAttempts.get(name) ?? 0) + 1;
+    const maxAttempts = this.config?.settings?.retryAttempts ?? DEFAULT_RETRY_ATTEMPTS;
+    if (attempt > maxAttempts) {
+      this.markFailed(name);
+      return;
+    }
+
+    this.restartAttempts.set(name, attempt);
+    state.restarts++;
+    const delay = Math.min(1000 * 2 ** (attempt - 1), MAX_RESTART_DELAY);
+    this.log(name, `Restarting in ${delay / 1000}s (attempt ${attempt}/${maxAttempts})`);
+    this.setStatus(name, "restarting");
+
+    this.cancelRestart(name);
+    this.restartTimers.set(
+      name,
+      setTimeout(() => {
+        this.restartTimers.delete(name);
+        this.connectServer(config).catch(() => {
+          // Recorded; connectServer schedules the next attempt
+        });
+      }, delay)
+    );
+  }
+
+  private cancelRestart(name: string): void {
+    const timer = this.restartTimers.get(name);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(name);
+    }
+  }
+
+  private markFailed(name: string): void {
+    this.setStatus(name, "failed");
+    const lastError = this.getState(name).errors[0]?.message ?? "unknown error";
+    this.log(name, "Giving up; use Start or Restart once the problem is fixed");
+
+    vscode.window
+      .showErrorMessage(`MCP server "${name}" stopped working: ${lastError}`, "Show Logs", "Restart")
+      .then((choice) => {
+        if (choice === "Show Logs") this.showLogs(name);
+        if (choice === "Restart") {
+          this.startServer(name).catch(() => {
+            // Recorded in the server's log
+          });
+        }
+      });
+  }
+
+  /**
+   * Ping running servers; one that misses several pings in a row is hung
+   * and gets restarted
+   */
+  private startHealthChecks(): void {
+    const interval = this.config?.settings?.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL;
+    if (this.healthTimer || interval <= 0) return;
+
+    this.healthTimer = setInterval(() => void this.checkHealth(), interval);
+  }
+
+  private async checkHealth(): Promise<void> {
+    for (const [name, client] of this.clients) {
+      if (this.getState(name).status !== "running") continue;
+
+      try {
+        this.getState(name).pingMs = await client.ping();
+        this.missedPings.delete(name);
+      } catch (error) {
+        // Stopped or replaced while the ping was in flight
+        if (this.clients.get(name) !== client) continue;
+
+        const missed = (this.missedPings.get(name) ?? 0) + 1;
+        this.missedPings.set(name, missed);
+        this.recordError(name, `Health check failed: ${error instanceof Error ? error.message : String(error)}`);
+
+        if (missed >= MAX_MISSED_PINGS) {
+          this.log(name, `No answer to ${missed} pings; restarting`);
+          const config = this.serverConfigs.get(name)!;
+          await this.disconnectServer(name);
+          this.scheduleRestart(config);
+        }
+      }
+    }
+  }
+
+  private getState(name: string): MCPServerState {
+    let state = this.states.get(name);
+    if (!state) {
+      state = {
+        name,
+        transport: this.serverConfigs.get(name)?.transport ?? "stdio",
+        status: "stopped",
+        restarts: 0,
+        toolCount: 0,
+        errors: [],
+      };
+      this.states.set(name, state);
+    }
+    return state;
+  }
+
+  private setStatus(name: string, status: MCPServerStatus): void {
+    const state = this.getState(name);
+    if (state.status === status) return;
+    state.status = status;
+    this._onDidChange.fire(name);
+  }
+
+  private recordError(name: string, message: string): void {
+    const state = this.getState(name);
+    state.errors.unshift({ time: Date.now(), message });
+    state.errors.length = Math.min(state.errors.length, MAX_RECENT_ERRORS);
+    this.log(name, `ERROR ${message}`);
+    this._onDidChange.fire(name);
+  }
+
+  private log(name: string, message: string): void {
+    this.getLogChannel(name).appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+  }
+
+  private getLogChannel(name: string): vscode.OutputChannel {
+    let channel = this.logChannels.get(name);
+    if (!channel) {
+      channel = vscode.window.createOutputChannel(`MCP: ${name}`);
+      this.logChannels.set(name, channel);
+    }
+    return channel;
+  }
+
+  /**
+   * Re-fetch what a server offers. Servers only list what they declared in
+   * their capabilities; a failed list just leaves that part empty.
+   */
+  private async refreshServer(
+    name: string,
+    client: MCPClient,
+    only?: "tools" | "prompts" | "resources"
+  ): Promise<void> {
+    const capabilities = client.getCapabilities() ?? {};
+
+    if (!only || only === "tools") {
+      // Some servers don't declare tools but answer anyway
+      this.toolsCache.set(name, await client.listTools().catch(() => []));
+    }
+    if ((!only || only === "prompts") && capabilities.prompts) {
+      this.promptsCache.set(name, await client.listPrompts().catch(() => []));
+    }
+    if ((!only || only === "resources") && capabilities.resources) {
+      this.resourcesCache.set(name, await client.listResources().catch(() => []));
+    }
+
+    this._onDidChange.fire(name);
+  }
+
+  private forgetServer(name: string): void {
+    this.toolsCache.delete(name);
+    this.promptsCache.delete(name);
+    this.resourcesCache.delete(name);
+    this._onDidChange.fire(name);
+  }
+
+  /**
+   * Workspace folders, offered to servers as the roots they may work in
+   */
+  private getRoots(): MCPRoot[] {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders?.length) {
+      return [{ uri: vscode.Uri.file(this.workspaceRoot).toString(), name: path.basename(this.workspaceRoot) }];
+    }
+    return folders.map((folder) => ({ uri: folder.uri.toString(), name: folder.name }));
+  }
+
   /**
    * Disconnect from a specific server
    */
   async disconnectServer(name: string): Promise<void> {
+    const pending = this.connecting.get(name);
+    if (pending) {
+      this.connecting.delete(name);
+      await pending.disconnect();
+    }
+
     const client = this.clients.get(name);
     if (client) {
-      await client.disconnect();
+      // Out of the map first so its close event isn't taken for a crash
       this.clients.delete(name);
-      this.toolsCache.delete(name);
+      await client.disconnect();
+      this.forgetServer(name);
     }
   }
 
@@ -136,19 +503,41 @@ export class MCPManager {
     }
   }
 
+  dispose(): void {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this.disposables = [];
+
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    for (const name of [...this.restartTimers.keys()]) {
+      this.cancelRestart(name);
+    }
+    void this.disconnectAll();
+
+    for (const channel of this.logChannels.values()) {
+      channel.dispose();
+    }
+    this.logChannels.clear();
+  }
+
   /**
-   * Get all available tools from all connected servers
+   * Get all available tools from all connected servers, leaving out denied ones
    */
   getAllTools(): Array<{ server: string; tool: MCPTool }> {
     const tools: Array<{ server: string; tool: MCPTool }> = [];
 
     for (const [serverName, serverTools] of this.toolsCache) {
       for (const tool of serverTools) {
+        if (this.getApproval(serverName, tool.name) === "deny") continue;
         tools.push({
           server: serverName,
           tool: {
             ...tool,
-            name: `mcp_${serverName}_${tool.name}`, // Namespaced tool name
+            name: toToolName(serverName, tool.name), // Namespaced tool name
           },
         });
       }
@@ -157,6 +546,52 @@ export class MCPManager {
     return tools;
   }
 
+  /**
+   * Get all prompts from all connected servers
+   */
+  getAllPrompts(): Array<{ server: string; prompt: MCPPrompt }> {
+    const prompts: Array<{ server: string; prompt: MCPPrompt }> = [];
+    for (const [server, serverPrompts] of this.promptsCache) {
+      for (const prompt of serverPrompts) {
+        prompts.push({ server, prompt });
+      }
+    }
+    return prompts;
+  }
+
+  /**
+   * Get all resources from all connected servers
+   */
+  getAllResources(): Array<{ server: string; resource: MCPResource }> {
+    const resources: Array<{ server: string; resource: MCPResource }> = [];
+    for (const [server, serverResources] of this.resourcesCache) {
+      for (const resource of serverResources) {
+        resources.push({ server, resource });
+      }
+    }
+    return resources;
+  }
+
+  async getPrompt(
+    serverName: string,
+    promptName: string,
+    arguments_: Record<string, string> = {}
+  ): Promise<MCPPromptResult> {
+    const client = this.clients.get(serverName);
+    if (!client) {
+      throw new Error(`MCP server ${serverName} not connected`);
+    }
+    return client.getPrompt(promptName, arguments_);
+  }
+
+  async readResource(serverName: string, uri: string): Promise<MCPResourceContents[]> {
+    const client = this.clients.get(serverName);
+    if (!client) {
+      throw new Error(`MCP server ${serverName} not connected`);
+    }
+    return (await client.readResource(uri)).contents || [];
+  }
+
   /**
    * Call a tool on a specific server
    */
@@ -169,32 +604,141 @@ export class MCPManager {
     if (!client) {
       throw new Error(`MCP server ${serverName} not connected`);
     }
+    const { name, approval } = this.resolveCall(serverName, toolName);
+    if (approval === "deny") {
+      throw new Error(`${name} is disabled in .mythatron/mcp.json`);
+    }
 
     return client.callTool(toolName, arguments_);
   }
 
   /**
-   * Parse a namespaced tool name (mcp_server_tool) and call it
+   * Connected MCP tools as agent tools, named server__tool with the
+   * server's own input schema. Denied tools are left out.
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    const definitions: ToolDefinition[] = [];
+
+    for (const [server, serverTools] of this.toolsCache) {
+      for (const tool of serverTools) {
+        if (this.getApproval(server, tool.name) === "deny") continue;
+        definitions.push({
+          name: toToolName(server, tool.name),
+          description: `[${server}] ${tool.description || tool.annotations?.title || tool.name}`,
+          input_schema: {
+            ...tool.inputSchema,
+            type: "object",
+            properties: tool.inputSchema.properties ?? {},
+            required: tool.inputSchema.required ?? [],
+          },
+        });
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Find the server and tool behind a namespaced tool name
+   */
+  resolveTool(fullName: string): { server: string; tool: MCPTool } | undefined {
+    for (const [server, serverTools] of this.toolsCache) {
+      const tool = serverTools.find((t) => toToolName(server, t.name) === fullName);
+      if (tool) return { server, tool };
+    }
+    return undefined;
+  }
+
+  /**
+   * Call a tool by its namespaced name (server__tool)
    */
   async callNamespacedTool(
     fullName: string,
     arguments_: Record<string, unknown>
   ): Promise<MCPToolResult> {
-    // Parse: mcp_servername_toolname
-    const match = fullName.match(/^mcp_([^_]+)_(.+)$/);
-    if (!match) {
-      throw new Error(`Invalid MCP tool name: ${fullName}`);
+    const resolved = this.resolveTool(fullName);
+    if (!resolved) {
+      throw new Error(`Unknown MCP tool: ${fullName}`);
     }
 
-    const [, serverName, toolName] = match;
-    return this.callTool(serverName, toolName, arguments_);
+    return this.callTool(resolved.server, resolved.tool.name, arguments_);
   }
 
   /**
    * Check if a tool name is an MCP tool
    */
   isMCPTool(name: string): boolean {
-    return name.startsWith("mcp_");
+    return this.resolveTool(name) !== undefined;
+  }
+
+  /**
+   * Approval policy for a namespaced tool, or undefined if it isn't one
+   */
+  getToolApproval(fullName: string): MCPApprovalPolicy | undefined {
+    const resolved = this.resolveTool(fullName);
+    return resolved && this.getApproval(resolved.server, resolved.tool.name);
+  }
+
+  /**
+   * Namespaced name and approval policy for a tool called by server and tool
+   * name (mcp_call), whether or not the server has listed it
+   */
+  resolveCall(server: string, toolName: string): { name: string; approval: MCPApprovalPolicy } {
+    return { name: toToolName(server, toolName), approval: this.getApproval(server, toolName) };
+  }
+
+  // Annotations come from the server, so a readOnlyHint can't waive approval
+  private getApproval(server: string, toolName: string): MCPApprovalPolicy {
+    const config = this.serverConfigs.get(server);
+    return config?.toolApproval?.[toolName] ?? config?.approval ?? "session";
+  }
+
+  /**
+   * Render a tool result for the model. Images, audio and binary resources
+   * are saved under .mythatron/mcp/ so they can be opened.
+   */
+  formatToolResult(server: string, result: MCPToolResult): string {
+    const parts: string[] = [];
+
+    for (const item of result.content ?? []) {
+      switch (item.type) {
+        case "text":
+          parts.push(item.text ?? "");
+          break;
+        case "image":
+        case "audio":
+          parts.push(`[${item.type} ${item.mimeType ?? ""} saved to ${this.saveBinary(server, item.data ?? "", item.mimeType)}]`);
+          break;
+        case "resource": {
+          const resource = item.resource;
+          if (!resource) break;
+          const body =
+            resource.text ?? `[binary saved to ${this.saveBinary(server, resource.blob ?? "", resource.mimeType)}]`;
+          parts.push(`<resource uri="${resource.uri}"${resource.mimeType ? ` mimeType="${resource.mimeType}"` : ""}>\n${body}\n</resource>`);
+          break;
+        }
+        case "resource_link":
+          parts.push(`[resource ${item.name ?? ""} <${item.uri}>]`);
+          break;
+      }
+    }
+
+    if (parts.length === 0 && result.structuredContent !== undefined) {
+      parts.push(JSON.stringify(result.structuredContent, null, 2));
+    }
+
+    const text = parts.join("\n") || "(no output)";
+    return result.isError ? `MCP tool error: ${text}` : text;
+  }
+
+  private saveBinary(server: string, base64: string, mimeType?: string): string {
+    const ext = (mimeType?.split("/")[1] ?? "bin").replace(/[^a-z0-9]/gi, "") || "bin";
+    const dir = path.join(this.workspaceRoot, ".mythatron", "mcp", server.replace(/[^\w-]/g, "_"));
+    fs.mkdirSync(dir, { recursive: true });
+
+    const file = path.join(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${ext}`);
+    fs.writeFileSync(file, Buffer.from(base64, "base64"));
+    return path.relative(this.workspaceRoot, file);
   }
 
   /**
@@ -247,7 +791,11 @@ export class MCPManager {
    * Remove a server from config
    */
   async removeServer(name: string): Promise<void> {
+    this.cancelRestart(name);
     await this.disconnectServer(name);
+    this.serverConfigs.delete(name);
+    this.states.delete(name);
+    this._onDidChange.fire(name);
 
     if (this.config) {
       this.config.servers = this.config.servers.filter((s) => s.name !== name);
@@ -284,6 +832,14 @@ export class MCPManager {
   }
 }
 
+/**
+ * server__tool, restricted to what provider tool names allow
+ */
+function toToolName(server: string, tool: string): string {
+  const clean = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return `${clean(server)}__${clean(tool)}`.slice(0, TOOL_NAME_MAX);
+}
+
 // Singleton instance
 let mcpManager: MCPManager | null = null;
 
@@ -0,0 +1,111 @@
+/**
+ * MCP Sampling - Lets MCP servers borrow our model
+ * Each sampling/createMessage request is shown to the user, routed through
+ * ProviderManager like any other request and logged to the cost tracker
+ * under the server's name.
+ */
+
+import * as vscode from "vscode";
+import { getProviderManager } from "../providers";
+import { getCostTracker } from "../optimizations/cost-tracker";
+import type { ContentBlock, ImageBlock, Message, TaskComplexity } from "../providers/types";
+import type { MCPSamplingRequest, MCPSamplingResult } from "./types";
+
+// Servers the user allowed to sample for the rest of the session
+const trustedServers = new Set<string>();
+
+/**
+ * Answer a sampling/createMessage request from an MCP server
+ */
+export async function handleSamplingRequest(
+  server: string,
+  request: MCPSamplingRequest
+): Promise<MCPSamplingResult> {
+  if (!(await approveSampling(server, request))) {
+    throw new Error("User rejected sampling request");
+  }
+
+  const messages: Message[] = request.messages.map((m) => ({
+    role: m.role,
+    content: toContent(m.content),
+  }));
+  if (request.systemPrompt) {
+    messages.unshift({ role: "system", content: request.systemPrompt });
+  }
+
+  const start = Date.now();
+  const response = await getProviderManager().complete(
+    {
+      messages,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+    },
+    { forceComplexity: preferredComplexity(request.modelPreferences) }
+  );
+
+  if (response.usage) {
+    getCostTracker().logRequest({
+      provider: response.provider,
+      model: response.model,
+      query: `MCP sampling for ${server}`,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
+      latencyMs: Date.now() - start,
+      cached: response.model.endsWith("(cached)"),
+      category: `mcp-sampling:${server}`,
+    });
+  }
+
+  let text = response.content;
+  let stopReason: MCPSamplingResult["stopReason"] = response.stopReason === "max_tokens" ? "maxTokens" : "endTurn";
+  for (const stop of request.stopSequences ?? []) {
+    const index = text.indexOf(stop);
+    if (index !== -1) {
+      text = text.slice(0, index);
+      stopReason = "stopSequence";
+    }
+  }
+
+  return {
+    role: "assistant",
+    content: { type: "text", text },
+    model: response.model,
+    stopReason,
+  };
+}
+
+async function approveSampling(server: string, request: MCPSamplingRequest): Promise<boolean> {
+  if (trustedServers.has(server)) return true;
+
+  const last = request.messages[request.messages.length - 1];
+  const preview = last?.content.type === "text" ? last.content.text.slice(0, 300) : "(image)";
+  const choice = await vscode.window.showInformationMessage(
+    `MCP server "${server}" wants to use your model (${request.messages.length} message(s), up to ${request.maxTokens} tokens).`,
+    { modal: true, detail: preview },
+    "Allow",
+    "Always Allow for This Session"
+  );
+
+  if (choice === "Always Allow for This Session") {
+    trustedServers.add(server);
+    return true;
+  }
+  return choice === "Allow";
+}
+
+function toContent(content: MCPSamplingRequest["messages"][number]["content"]): string | ContentBlock[] {
+  if (content.type === "text") return content.text;
+  return [{ type: "image", mediaType: content.mimeType as ImageBlock["mediaType"], data: content.data }];
+}
+
+/**
+ * Map the server's cost/intelligence priorities onto our routing tiers
+ */
+function preferredComplexity(preferences: MCPSamplingRequest["modelPreferences"]): TaskComplexity | undefined {
+  if (!preferences) return undefined;
+  const { costPriority = 0, speedPriority = 0, intelligencePriority = 0 } = preferences;
+
+  if (intelligencePriority >= 0.7 && intelligencePriority >= costPriority) return "complex";
+  if (Math.max(costPriority, speedPriority) >= 0.7) return "simple";
+  return undefined;
+}
@@ -0,0 +1,335 @@
+/**
+ * MCP Tool Server - Offers MythaTron's own tools to other MCP clients
+ *
+ * Listens on a local socket (a named pipe on Windows) speaking
+ * newline-delimited JSON-RPC, the same framing as stdio. Clients that only
+ * speak stdio run the launcher (dist/mcp/launcher.js), which finds the
+ * socket through .mythatron/mcp-server.json. Only the tools listed in
+ * mythaTron.exposedMCPTools are offered, and every call goes through the
+ * agent's confirmation policy. On Unix the socket is readable by the current
+ * user only; Windows named pipes get Node's default security, which lets
+ * other local users connect, so enable this only on single-user machines.
+ */
+
+import * as vscode from "vscode";
+import * as net from "net";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as crypto from "crypto";
+import { tools } from "../tools/definitions";
+import { getMythaTron } from "../engine/mythatron";
+
+export const MCP_SERVER_INFO_FILE = "mcp-server.json";
+
+// Newest first; a client asking for anything else gets the newest
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface ServerConnection {
+  socket: net.Socket;
+  client: string;
+}
+
+export class MCPToolServer {
+  private server: net.Server | null = null;
+  private connections: Set<ServerConnection> = new Set();
+  private disposables: vscode.Disposable[] = [];
+  private output: vscode.OutputChannel | null = null;
+  private socketPath: string | null = null;
+  private workspaceRoot: string | null = null;
+
+  async initialize(workspaceRoot: string): Promise<void> {
+    this.workspaceRoot = workspaceRoot;
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("mythaTron.exposeMCPServer")) {
+          void (this.isEnabled() ? this.startOrWarn() : this.stop());
+        } else if (e.affectsConfiguration("mythaTron.exposedMCPTools")) {
+          this.writeInfoFile();
+          this.notifyAll("notifications/tools/list_changed");
+        }
+      })
+    );
+
+    if (this.isEnabled()) {
+      await this.startOrWarn();
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  getSocketPath(): string | null {
+    return this.socketPath;
+  }
+
+  async start(): Promise<void> {
+    if (this.server || !this.workspaceRoot) return;
+
+    const socketPath = getSocketPath(this.workspaceRoot);
+    if (await isListening(socketPath)) {
+      throw new Error("Another window is already serving this workspace's tools over MCP");
+    }
+    if (process.platform !== "win32" && fs.existsSync(socketPath)) {
+      // Left behind by a window that didn't shut down cleanly
+      fs.unlinkSync(socketPath);
+    }
+
+    const server = net.createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    if (process.platform !== "win32") {
+      fs.chmodSync(socketPath, 0o600);
+    }
+
+    this.server = server;
+    this.socketPath = socketPath;
+    this.writeInfoFile();
+    this.log(`Listening on ${socketPath} with ${this.getExposedTools().length} tools`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    for (const connection of this.connections) {
+      connection.socket.destroy();
+    }
+    this.connections.clear();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    if (this.workspaceRoot) {
+      fs.rmSync(path.join(this.workspaceRoot, ".mythatron", MCP_SERVER_INFO_FILE), { force: true });
+    }
+    this.socketPath = null;
+    this.log("Stopped");
+  }
+
+  /**
+   * Client config that launches the stdio bridge for this workspace, in the
+   * mcpServers shape most MCP clients read
+   */
+  getClientConfig(extensionPath: string): Record<string, unknown> {
+    return {
+      mcpServers: {
+        mythatron: {
+          command: "node",
+          args: [path.join(extensionPath, "dist", "mcp", "launcher.js"), this.workspaceRoot ?? "."],
+        },
+      },
+    };
+  }
+
+  getExposedTools(): typeof tools {
+    const names = vscode.workspace.getConfiguration("mythaTron").get<string[]>("exposedMCPTools", []);
+    return tools.filter((t) => names.includes(t.name));
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this.disposables = [];
+    void this.stop();
+    this.output?.dispose();
+  }
+
+  private async startOrWarn(): Promise<void> {
+    try {
+      await this.start();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`Failed to start: ${message}`);
+      vscode.window.showWarningMessage(`MythaTron MCP server not started: ${message}`);
+    }
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace.getConfiguration("mythaTron").get("exposeMCPServer", false);
+  }
+
+  private accept(socket: net.Socket): void {
+    const connection: ServerConnection = { socket, client: "unknown client" };
+    this.connections.add(connection);
+    socket.setEncoding("utf8");
+
+    let buffer = "";
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) void this.handleLine(connection, line);
+      }
+    });
+
+    socket.on("close", () => {
+      this.connections.delete(connection);
+      this.log(`${connection.client} disconnected`);
+    });
+    socket.on("error", (error) => this.log(`${connection.client}: ${error.message}`));
+  }
+
+  private async handleLine(connection: ServerConnection, line: string): Promise<void> {
+    let parsed: JsonRpcMessage | JsonRpcMessage[];
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      this.send(connection, { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+      return;
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    const responses = (await Promise.all(messages.map((m) => this.handleMessage(connection, m)))).filter(
+      (r): r is object => r !== null
+    );
+    if (responses.length > 0) {
+      this.send(connection, Array.isArray(parsed) ? responses : responses[0]);
+    }
+  }
+
+  /**
+   * Answer one request; notifications and responses get no reply
+   */
+  private async handleMessage(connection: ServerConnection, message: JsonRpcMessage): Promise<object | null> {
+    if (message.id === undefined || message.id === null || !message.method) {
+      return null;
+    }
+
+    const reply = (result: unknown) => ({ jsonrpc: "2.0", id: message.id, result });
+    const fail = (code: number, text: string) => ({ jsonrpc: "2.0", id: message.id, error: { code, message: text } });
+    const params = message.params ?? {};
+
+    switch (message.method) {
+      case "initialize": {
+        const clientInfo = params.clientInfo as { name?: string; version?: string } | undefined;
+        connection.client = clientInfo?.name ? `${clientInfo.name} ${clientInfo.version ?? ""}`.trim() : "unknown client";
+        this.log(`${connection.client} connected`);
+        const requested = params.protocolVersion as string;
+        return reply({
+          protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: true } },
+          serverInfo: { name: "mythatron-code", version: "1.0.0" },
+        });
+      }
+
+      case "ping":
+        return reply({});
+
+      case "tools/list":
+        return reply({
+          tools: this.getExposedTools().map((t) => ({
+            name: t.name,
+            description: t.description,
+            inputSchema: t.input_schema,
+          })),
+        });
+
+      case "tools/call": {
+        const name = params.name as string;
+        if (!this.getExposedTools().some((t) => t.name === name)) {
+          return fail(-32602, `Unknown tool: ${name}`);
+        }
+
+        this.log(`${connection.client} called ${name}`);
+        try {
+          const { content, isError } = await getMythaTron().runTool({
+            id: `mcp_${crypto.randomUUID()}`,
+            name,
+            input: (params.arguments as Record<string, unknown>) ?? {},
+          });
+          return reply({ content: [{ type: "text", text: content }], isError });
+        } catch (error) {
+          const text = error instanceof Error ? error.message : String(error);
+          this.log(`${name} failed: ${text}`);
+          return reply({ content: [{ type: "text", text }], isError: true });
+        }
+      }
+
+      default:
+        return fail(-32601, `Method not found: ${message.method}`);
+    }
+  }
+
+  private send(connection: ServerConnection, message: object): void {
+    if (!connection.socket.destroyed) {
+      connection.socket.write(JSON.stringify(message) + "\n");
+    }
+  }
+
+  private notifyAll(method: string): void {
+    for (const connection of this.connections) {
+      this.send(connection, { jsonrpc: "2.0", method });
+    }
+  }
+
+  private writeInfoFile(): void {
+    if (!this.workspaceRoot || !this.socketPath) return;
+
+    const dir = path.join(this.workspaceRoot, ".mythatron");
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, MCP_SERVER_INFO_FILE),
+      JSON.stringify(
+        { socket: this.socketPath, pid: process.pid, tools: this.getExposedTools().map((t) => t.name) },
+        null,
+        2
+      )
+    );
+  }
+
+  private log(message: string): void {
+    if (!this.output) {
+      this.output = vscode.window.createOutputChannel("MythaTron MCP Server");
+    }
+    this.output.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+  }
+}
+
+/**
+ * One socket per workspace, outside it so the path stays short enough for
+ * Unix domain sockets
+ */
+function getSocketPath(workspaceRoot: string): string {
+  const id = crypto.createHash("sha256").update(workspaceRoot).digest("hex").slice(0, 12);
+  return process.platform === "win32"
+    ? `\\\\.\\pipe\\mythatron-mcp-${id}`
+    : path.join(os.tmpdir(), `mythatron-mcp-${id}.sock`);
+}
+
+function isListening(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = net.connect(socketPath);
+    probe.once("connect", () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once("error", () => resolve(false));
+  });
+}
+
+// Singleton instance
+let mcpToolServer: MCPToolServer | null = null;
+
+export function getMCPToolServer(): MCPToolServer {
+  if (!mcpToolServer) {
+    mcpToolServer = new MCPToolServer();
+  }
+  return mcpToolServer;
+}
@@ -0,0 +1,92 @@
+/**
+ * MCP Servers view - Health dashboard for the configured servers
+ *
+ * One item per server with its status and tool count; expanding it lists
+ * the tools and the most recent errors. Refreshes whenever the manager
+ * reports a change.
+ */
+
+import * as vscode from "vscode";
+import { getMCPManager } from "./manager";
+import type { MCPServerState, MCPServerStatus } from "./types";
+
+const MAX_ERRORS_SHOWN = 5;
+
+const STATUS_ICONS: Record<MCPServerStatus, vscode.ThemeIcon> = {
+  running: new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed")),
+  starting: new vscode.ThemeIcon("sync~spin"),
+  restarting: new vscode.ThemeIcon("sync~spin"),
+  stopped: new vscode.ThemeIcon("circle-slash"),
+  failed: new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed")),
+};
+
+export class MCPServerItem extends vscode.TreeItem {
+  constructor(readonly state: MCPServerState) {
+    super(state.name, vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.iconPath = STATUS_ICONS[state.status];
+    this.description = state.status === "running" ? `${state.toolCount} tools` : state.status;
+    this.contextValue = `mcpServer.${state.status}`;
+
+    const lines = [`**${state.name}** (${state.transport}) - ${state.status}`];
+    if (state.restarts > 0) lines.push(`Restarts: ${state.restarts}`);
+    if (state.pingMs !== undefined) lines.push(`Last ping: ${state.pingMs}ms`);
+    if (state.errors[0]) lines.push(`Last error: ${state.errors[0].message}`);
+    this.tooltip = new vscode.MarkdownString(lines.join("  \n"));
+  }
+}
+
+type Node = MCPServerItem | vscode.TreeItem;
+
+export class MCPServerTreeProvider implements vscode.TreeDataProvider<Node>, vscode.Disposable {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly listener = getMCPManager().onDidChange(() => this.refresh());
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: Node): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: Node): Node[] {
+    if (!element) {
+      return getMCPManager()
+        .getServerStates()
+        .map((state) => new MCPServerItem(state));
+    }
+    if (!(element instanceof MCPServerItem)) return [];
+
+    const { state } = element;
+    const children: vscode.TreeItem[] = getMCPManager()
+      .getServerTools(state.name)
+      .map((tool) => {
+        const item = new vscode.TreeItem(tool.annotations?.title || tool.name);
+        item.description = tool.annotations?.title ? tool.name : undefined;
+        item.tooltip = tool.description;
+        item.iconPath = new vscode.ThemeIcon("tools");
+        return item;
+      });
+
+    for (const error of state.errors.slice(0, MAX_ERRORS_SHOWN)) {
+      const item = new vscode.TreeItem(error.message);
+      item.description = new Date(error.time).toLocaleTimeString();
+      item.tooltip = error.message;
+      item.iconPath = new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"));
+      children.push(item);
+    }
+
+    if (children.length === 0) {
+      children.push(new vscode.TreeItem(state.status === "running" ? "No tools" : "Not running"));
+    }
+    return children;
+  }
+
+  dispose(): void {
+    this.listener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
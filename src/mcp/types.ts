@@ -7,8 +7,11 @@ export interface MCPServerConfig {
   /** Unique identifier for this server */
   name: string;
   
-  /** Transport type */
-  transport: "stdio" | "sse" | "websocket";
+  /**
+   * Transport type. "sse" is the legacy HTTP+SSE transport (GET stream plus
+   * a POST endpoint), "http" is Streamable HTTP with session IDs.
+   */
+  transport: "stdio" | "sse" | "http" | "websocket";
   
   /** Command to start the server (for stdio) */
   command?: string;
@@ -19,9 +22,21 @@ export interface MCPServerConfig {
   /** Environment variables */
   env?: Record<string, string>;
   
-  /** URL for SSE/WebSocket transports */
+  /** URL for SSE/HTTP/WebSocket transports */
   url?: string;
   
+  /** Extra headers for remote transports, e.g. Authorization */
+  headers?: Record<string, string>;
+  
+  /** Request timeout in ms, overrides settings.timeout */
+  timeout?: number;
+  
+  /** Approval for this server's tools (default: auto for read-only tools, session otherwise) */
+  approval?: MCPApprovalPolicy;
+  
+  /** Per-tool approval, keyed by the server's own tool name */
+  toolApproval?: Record<string, MCPApprovalPolicy>;
+  
   /** Whether this server is enabled */
   enabled?: boolean;
   
@@ -29,13 +44,28 @@ export interface MCPServerConfig {
   description?: string;
 }
 
+/**
+ * How a call to an MCP tool is approved:
+ * - auto: run without asking
+ * - ask: ask before every call
+ * - session: ask once, then allow for the rest of the session
+ * - deny: never offer or run it
+ */
+export type MCPApprovalPolicy = "auto" | "ask" | "session" | "deny";
+
 export interface MCPTool {
   name: string;
   description?: string;
   inputSchema: {
     type: "object";
-    properties: Record<string, unknown>;
+    properties?: Record<string, unknown>;
     required?: string[];
+    [keyword: string]: unknown; // $defs, additionalProperties, ...
+  };
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
   };
 }
 
@@ -63,18 +93,75 @@ export interface MCPToolCall {
 
 export interface MCPToolResult {
   content: Array<{
-    type: "text" | "image" | "resource";
+    type: "text" | "image" | "audio" | "resource" | "resource_link";
     text?: string;
     data?: string;
     mimeType?: string;
+    resource?: MCPResourceContents;
+    uri?: string;
+    name?: string;
   }>;
+  structuredContent?: unknown;
   isError?: boolean;
 }
 
+export interface MCPPromptMessage {
+  role: "user" | "assistant";
+  content:
+    | { type: "text"; text: string }
+    | { type: "image"; data: string; mimeType: string }
+    | { type: "resource"; resource: MCPResourceContents };
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/** What a server told us it supports in its initialize result */
 export interface MCPCapabilities {
-  tools?: MCPTool[];
-  resources?: MCPResource[];
-  prompts?: MCPPrompt[];
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, unknown>;
+}
+
+/** Params of a server's sampling/createMessage request */
+export interface MCPSamplingRequest {
+  messages: Array<{
+    role: "user" | "assistant";
+    content: { type: "text"; text: string } | { type: "image"; data: string; mimeType: string };
+  }>;
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+  includeContext?: "none" | "thisServer" | "allServers";
+  modelPreferences?: {
+    hints?: Array<{ name?: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+}
+
+export interface MCPSamplingResult {
+  role: "assistant";
+  content: { type: "text"; text: string };
+  model: string;
+  stopReason?: "endTurn" | "stopSequence" | "maxTokens";
+}
+
+export interface MCPRoot {
+  uri: string;
+  name?: string;
 }
 
 export interface MCPMessage {
@@ -90,14 +177,34 @@ export interface MCPMessage {
   };
 }
 
+export interface MCPSettings {
+  /** Request timeout in ms (default 30000) */
+  timeout?: number;
+  /** Reconnection attempts after a remote transport drops, and restarts after a crash (default 3) */
+  retryAttempts?: number;
+  /** How often running servers are pinged, in ms; 0 disables (default 30000) */
+  healthCheckInterval?: number;
+}
+
+export type MCPServerStatus = "starting" | "running" | "restarting" | "stopped" | "failed";
+
+/** What the supervisor knows about a server, for the MCP Servers view */
+export interface MCPServerState {
+  name: string;
+  transport: MCPServerConfig["transport"];
+  status: MCPServerStatus;
+  restarts: number;
+  toolCount: number;
+  startedAt?: number;
+  pingMs?: number;
+  errors: Array<{ time: number; message: string }>;
+}
+
 // Project-level MCP configuration
 export interface MCPProjectConfig {
   servers: MCPServerConfig[];
   // Global settings
-  settings?: {
-    timeout?: number;
-    retryAttempts?: number;
-  };
+  settings?: MCPSettings;
 }
 
 // Common MCP server presets
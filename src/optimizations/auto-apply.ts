@@ -9,10 +9,15 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
+import { getRegressionTracker } from "../preflight/regressions";
+import { getCheckpointManager } from "../tools/checkpoints";
+import { getTerminalManager } from "../terminal/manager";
 
 interface FileSnapshot {
   path: string;
   content: string;
+  existed: boolean;
+  newContent: string;
   timestamp: number;
   checksum: string;
 }
@@ -103,8 +108,10 @@ export class AutoApply {
 
     // Capture current content for rollback
     let currentContent = "";
+    let existed = false;
     try {
       currentContent = fs.readFileSync(absolutePath, "utf-8");
+      existed = true;
     } catch {
       // New file
     }
@@ -125,6 +132,8 @@ export class AutoApply {
     this.currentTransaction.files.push({
       path: absolutePath,
       content: currentContent,
+      existed,
+      newContent,
       timestamp: Date.now(),
       checksum: this.calculateChecksum(currentContent),
     });
@@ -270,20 +279,51 @@ export class AutoApply {
       }
     }
 
+    // The terminal policy and its audit log are the user's to change
+    const policy = getTerminalManager().getPolicy();
+    const protectedFiles = transaction.files.filter((f) => policy.isProtectedPath(f.path));
+    if (protectedFiles.length > 0) {
+      this.currentTransaction = null;
+      return {
+        success: false,
+        autoApplied: false,
+        message: `Changes not applied: ${protectedFiles.map((f) => f.path).join(", ")} can only be changed by the user`,
+        changes: [],
+      };
+    }
+
     // Save rollback data
     await this.saveRollbackData(transaction);
 
+    // Checkpoint the pre-images so the change shows up in the checkpoint list like any agent write
+    const checkpoints = getCheckpointManager();
+    checkpoints.startNext(`Before ${transaction.description}`);
+    for (const file of transaction.files) {
+      checkpoints.capture(file.path);
+    }
+
     // Apply changes
     try {
       for (const file of transaction.files) {
-        // The new content needs to be applied
-        // Note: In real implementation, you'd store the new content too
-        changes.push({ file: file.path, action: "applied" });
+        fs.mkdirSync(path.dirname(file.path), { recursive: true });
+        fs.writeFileSync(file.path, file.newContent, "utf-8");
+        changes.push({ file: file.path, action: file.existed ? "modified" : "created" });
       }
 
       transaction.applied = true;
       transaction.autoApplied = shouldAutoApply;
 
+      // New errors in these files can be traced back to this transaction
+      getRegressionTracker().recordTransaction(
+        transaction.id,
+        transaction.description,
+        transaction.files.map((f) => ({
+          file: f.path,
+          before: f.existed ? f.content : null,
+          after: f.newContent,
+        }))
+      );
+
       // Add to history
       this.changeHistory.push(transaction);
       if (this.changeHistory.length > this.MAX_HISTORY) {
@@ -352,12 +392,17 @@ export class AutoApply {
 
     try {
       for (const file of transaction.files) {
-        // Restore original content
-        fs.writeFileSync(file.path, file.content, "utf-8");
+        // Restore original content; files the transaction created are removed
+        if (file.existed) {
+          fs.writeFileSync(file.path, file.content, "utf-8");
+        } else if (fs.existsSync(file.path)) {
+          fs.unlinkSync(file.path);
+        }
         filesRestored.push(file.path);
       }
 
       transaction.rolledBack = true;
+      getRegressionTracker().markReverted(transaction.id);
 
       // Refresh VS Code
       for (const file of transaction.files) {
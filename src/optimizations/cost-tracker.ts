@@ -63,6 +63,8 @@ export class CostTracker {
     "gpt-4o-mini": { input: 0.15, output: 0.6 },
     "gpt-4-turbo": { input: 10.0, output: 30.0 },
     "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+    "text-embedding-3-small": { input: 0.02, output: 0 },
+    "text-embedding-3-large": { input: 0.13, output: 0 },
     // Groq (heavily discounted)
     "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
     "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
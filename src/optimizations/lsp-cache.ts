@@ -78,6 +78,12 @@ export class LSPCache {
 
   private fileWatcher: vscode.FileSystemWatcher;
   private documentChangeDisposable: vscode.Disposable;
+  private invalidateEmitter = new vscode.EventEmitter<string>();
+
+  /**
+   * Fires with the file path whenever a file's caches are invalidated
+   */
+  readonly onDidInvalidateFile = this.invalidateEmitter.event;
 
   // TTLs (milliseconds)
   private readonly TTL = {
@@ -363,6 +369,8 @@ export class LSPCache {
 
     // Also invalidate files that reference this file
     this.invalidateDependents(filePath);
+
+    this.invalidateEmitter.fire(filePath);
   }
 
   /**
@@ -458,6 +466,7 @@ export class LSPCache {
   dispose(): void {
     this.fileWatcher.dispose();
     this.documentChangeDisposable.dispose();
+    this.invalidateEmitter.dispose();
     this.clearAll();
   }
 }
@@ -0,0 +1,534 @@
+/**
+ * Built-in Validators
+ *
+ * Incremental tsc, eslint, ruff (or py_compile without it), cargo check,
+ * go vet, and JSON/YAML syntax plus schema validation. Each one only runs in
+ * workspaces that use its tool, and parses the tool's output into ranged
+ * diagnostics.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { exec } from "child_process";
+import { ValidationDiagnostic, ValidationSeverity, Validator, matchesGlob } from "./validators";
+import {
+  DocNode,
+  DocProblem,
+  JsonSchema,
+  parseJsonTree,
+  parseYamlTree,
+  toPlain,
+  validateAgainstSchema,
+} from "./schema-validation";
+
+const MAX_BUFFER = 20 * 1024 * 1024;
+
+// ============================================
+// TYPESCRIPT
+// ============================================
+
+const typescriptValidator: Validator = {
+  id: "typescript",
+  name: "tsc",
+  patterns: ["**/*.ts", "**/*.tsx", "**/*.mts", "**/*.cts", "**/*.js", "**/*.jsx", "tsconfig*.json"],
+  scope: "project",
+  debounceMs: 500,
+  isAvailable: (workspacePath) => fs.existsSync(path.join(workspacePath, "tsconfig.json")),
+
+  async run({ workspacePath, signal }) {
+    // The build info keeps re-checks fast without touching the project's own output
+    const buildInfo = path.join(".mythatron", "validation", "tsc.tsbuildinfo");
+    fs.mkdirSync(path.join(workspacePath, path.dirname(buildInfo)), { recursive: true });
+
+    const { stdout, stderr } = await runCommand(
+      `npx --no-install tsc --noEmit --incremental --tsBuildInfoFile ${quote(buildInfo)} --pretty false`,
+      workspacePath,
+      signal,
+      120000
+    );
+    return parseTscOutput(stdout + stderr, workspacePath);
+  },
+};
+
+export function parseTscOutput(output: string, workspacePath: string): ValidationDiagnostic[] {
+  const diagnostics: ValidationDiagnostic[] = [];
+  let last: ValidationDiagnostic | null = null;
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(/^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/);
+    if (match) {
+      last = {
+        file: path.resolve(workspacePath, match[1]),
+        line: parseInt(match[2]),
+        column: parseInt(match[3]),
+        message: match[6],
+        code: match[5],
+        severity: match[4] === "error" ? "error" : match[4] === "warning" ? "warning" : "info",
+      };
+      diagnostics.push(last);
+    } else if (last && /^\s+\S/.test(line)) {
+      // Elaboration of the previous error ("Type 'x' is not assignable...")
+      last.message += "\n" + line.trim();
+    } else {
+      last = null;
+    }
+  }
+
+  return diagnostics;
+}
+
+// ============================================
+// ESLINT
+// ============================================
+
+const ESLINT_CONFIGS = [
+  "eslint.config.js",
+  "eslint.config.mjs",
+  "eslint.config.cjs",
+  "eslint.config.ts",
+  ".eslintrc",
+  ".eslintrc.js",
+  ".eslintrc.cjs",
+  ".eslintrc.json",
+  ".eslintrc.yml",
+  ".eslintrc.yaml",
+];
+
+const eslintValidator: Validator = {
+  id: "eslint",
+  name: "eslint",
+  patterns: ["**/*.ts", "**/*.tsx", "**/*.mts", "**/*.cts", "**/*.js", "**/*.jsx", "**/*.mjs", "**/*.cjs"],
+  scope: "file",
+  debounceMs: 300,
+  isAvailable: (workspacePath) =>
+    ESLINT_CONFIGS.some((file) => fs.existsSync(path.join(workspacePath, file))) ||
+    !!readPackageJson(workspacePath)?.eslintConfig,
+
+  async run({ workspacePath, files, signal }) {
+    if (files.length === 0) return [];
+
+    const args = files.map((file) => quote(path.relative(workspacePath, file))).join(" ");
+    const { stdout } = await runCommand(
+      `npx --no-install eslint --format json ${args}`,
+      workspacePath,
+      signal,
+      60000
+    );
+    return parseEslintOutput(stdout);
+  },
+};
+
+export function parseEslintOutput(output: string): ValidationDiagnostic[] {
+  let results: Array<{
+    filePath: string;
+    messages: Array<{
+      ruleId: string | null;
+      severity: number;
+      message: string;
+      line?: number;
+      column?: number;
+      endLine?: number;
+      endColumn?: number;
+    }>;
+  }>;
+  try {
+    results = JSON.parse(output.slice(output.indexOf("[")));
+  } catch {
+    return []; // eslint failed before linting (bad config, missing plugin)
+  }
+
+  return results.flatMap((result) =>
+    result.messages
+      // "File ignored" notices have no position
+      .filter((message) => message.line !== undefined)
+      .map((message) => ({
+        file: result.filePath,
+        line: message.line!,
+        column: message.column ?? 1,
+        endLine: message.endLine,
+        endColumn: message.endColumn,
+        message: message.message,
+        code: message.ruleId ?? undefined,
+        severity: (message.severity === 2 ? "error" : "warning") as ValidationSeverity,
+      }))
+  );
+}
+
+// ============================================
+// PYTHON
+// ============================================
+
+let ruffAvailable: Promise<boolean> | undefined;
+
+const pythonValidator: Validator = {
+  id: "python",
+  name: "python",
+  patterns: ["**/*.py", "**/*.pyi"],
+  scope: "file",
+  debounceMs: 300,
+
+  async run({ workspacePath, files, signal }) {
+    if (files.length === 0) return [];
+
+    // Shared by every run, so it gets its own signal: one run being cancelled
+    // mustn't leave "no ruff" cached for the rest of the session
+    ruffAvailable ??= runCommand("ruff --version", workspacePath, new AbortController().signal, 10000).then(
+      (result) => result.exitCode === 0,
+      () => false
+    );
+
+    if (await ruffAvailable) {
+      const args = files.map((file) => quote(path.relative(workspacePath, file))).join(" ");
+      const { stdout } = await runCommand(
+        `ruff check --output-format json --no-fix --exit-zero ${args}`,
+        workspacePath,
+        signal,
+        60000
+      );
+      return parseRuffOutput(stdout, workspacePath);
+    }
+
+    // Without ruff, at least catch syntax errors
+    const python = process.platform === "win32" ? "python" : "python3";
+    const diagnostics: ValidationDiagnostic[] = [];
+    for (const file of files) {
+      const { stderr } = await runCommand(`${python} -m py_compile ${quote(file)}`, workspacePath, signal, 30000);
+      diagnostics.push(...parsePyCompileOutput(stderr, file));
+    }
+    return diagnostics;
+  },
+};
+
+export function parseRuffOutput(output: string, workspacePath: string): ValidationDiagnostic[] {
+  let results: Array<{
+    filename: string;
+    code: string | null;
+    message: string;
+    location: { row: number; column: number };
+    end_location?: { row: number; column: number };
+  }>;
+  try {
+    results = JSON.parse(output);
+  } catch {
+    return [];
+  }
+
+  return results.map((result) => ({
+    file: path.resolve(workspacePath, result.filename),
+    line: result.location.row,
+    column: result.location.column,
+    endLine: result.end_location?.row,
+    endColumn: result.end_location?.column,
+    message: result.message,
+    code: result.code ?? undefined,
+    // Syntax errors and undefined names break at runtime; the rest is lint
+    severity: !result.code || /^(E9|F82)/.test(result.code) ? "error" : "warning",
+  }));
+}
+
+export function parsePyCompileOutput(output: string, file: string): ValidationDiagnostic[] {
+  // Python 3.10+: "  File "x.py", line 3" / source / caret / "SyntaxError: message"
+  const traceback = output.match(/File "(.+?)", line (\d+)\n(?:(.*)\n)?(?:(\s*)\^+.*\n)?(\w+(?:Error|Exception)): (.+)/);
+  if (traceback) {
+    const source = traceback[3] ?? "";
+    const caret = traceback[4] !== undefined ? traceback[4].length - (source.length - source.trimStart().length) + 1 : 1;
+    return [{
+      file,
+      line: parseInt(traceback[2]),
+      column: Math.max(1, caret),
+      message: `${traceback[5]}: ${traceback[6].trim()}`,
+      severity: "error",
+    }];
+  }
+
+  // Older style, also used for indentation errors: "Sorry: IndentationError: message (x.py, line 2)"
+  const sorry = output.match(/(\w+Error): (.+) \((.+?), line (\d+)\)/);
+  if (sorry) {
+    return [{ file, line: parseInt(sorry[4]), column: 1, message: `${sorry[1]}: ${sorry[2]}`, severity: "error" }];
+  }
+
+  return [];
+}
+
+// ============================================
+// RUST
+// ============================================
+
+const cargoValidator: Validator = {
+  id: "cargo",
+  name: "cargo check",
+  patterns: ["**/*.rs", "**/Cargo.toml"],
+  scope: "project",
+  debounceMs: 1000,
+  isAvailable: (workspacePath) => fs.existsSync(path.join(workspacePath, "Cargo.toml")),
+
+  async run({ workspacePath, signal }) {
+    const { stdout } = await runCommand("cargo check --message-format json --quiet", workspacePath, signal, 300000);
+    return parseCargoOutput(stdout, workspacePath);
+  },
+};
+
+export function parseCargoOutput(output: string, workspacePath: string): ValidationDiagnostic[] {
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    if (!line.startsWith("{")) continue;
+
+    let entry: {
+      reason?: string;
+      message?: {
+        level: string;
+        message: string;
+        code?: { code: string } | null;
+        spans: Array<{
+          file_name: string;
+          line_start: number;
+          column_start: number;
+          line_end: number;
+          column_end: number;
+          is_primary: boolean;
+          label?: string | null;
+        }>;
+      };
+    };
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const message = entry.message;
+    if (entry.reason !== "compiler-message" || !message) continue;
+    if (message.level !== "error" && message.level !== "warning") continue;
+
+    // Summaries like "aborting due to 2 previous errors" have no span
+    const span = message.spans.find((s) => s.is_primary);
+    if (!span) continue;
+
+    diagnostics.push({
+      file: path.resolve(workspacePath, span.file_name),
+      line: span.line_start,
+      column: span.column_start,
+      endLine: span.line_end,
+      endColumn: span.column_end,
+      message: span.label ? `${message.message}: ${span.label}` : message.message,
+      code: message.code?.code,
+      severity: message.level,
+    });
+  }
+
+  return diagnostics;
+}
+
+// ============================================
+// GO
+// ============================================
+
+const goValidator: Validator = {
+  id: "go",
+  name: "go vet",
+  patterns: ["**/*.go", "**/go.mod"],
+  scope: "project",
+  debounceMs: 800,
+  isAvailable: (workspacePath) => fs.existsSync(path.join(workspacePath, "go.mod")),
+
+  async run({ workspacePath, signal }) {
+    const { stdout, stderr } = await runCommand("go vet ./...", workspacePath, signal, 180000);
+    return parseGoVetOutput(stdout + stderr, workspacePath);
+  },
+};
+
+export function parseGoVetOutput(output: string, workspacePath: string): ValidationDiagnostic[] {
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    // "vet: " marks errors that stopped type checking; the rest are vet's findings
+    const match = line.match(/^(vet: )?(.+?\.go):(\d+):(?:(\d+):)?\s*(.+)$/);
+    if (!match) continue;
+
+    diagnostics.push({
+      file: path.resolve(workspacePath, match[2]),
+      line: parseInt(match[3]),
+      column: match[4] ? parseInt(match[4]) : 1,
+      message: match[5],
+      severity: match[1] ? "error" : "warning",
+    });
+  }
+
+  return diagnostics;
+}
+
+// ============================================
+// JSON / YAML
+// ============================================
+
+// JSON files that editors and tools read with comments allowed
+const JSONC_FILES = ["**/*.jsonc", "tsconfig*.json", "jsconfig*.json", ".vscode/**", "devcontainer.json", ".eslintrc.json"];
+
+const schemaCache: Map<string, { mtimeMs: number; schema: JsonSchema }> = new Map();
+
+const schemaValidator: Validator = {
+  id: "schema",
+  name: "schema",
+  patterns: ["**/*.json", "**/*.jsonc", "**/*.yaml", "**/*.yml"],
+  scope: "file",
+  debounceMs: 100,
+
+  async run({ workspacePath, files, signal }) {
+    const diagnostics: ValidationDiagnostic[] = [];
+    for (const file of files) {
+      if (signal.aborted) break;
+      const text = await fs.promises.readFile(file, "utf-8").catch(() => null);
+      if (text !== null) diagnostics.push(...validateDocument(file, text, workspacePath));
+    }
+    return diagnostics;
+  },
+};
+
+/**
+ * Syntax problems (errors) and schema problems (warnings) for a JSON or YAML file
+ */
+export function validateDocument(file: string, text: string, workspacePath: string): ValidationDiagnostic[] {
+  const relativePath = path.relative(workspacePath, file);
+  const isYaml = /\.ya?ml$/i.test(file);
+
+  let documents: DocNode[];
+  let syntax: DocProblem[];
+  if (isYaml) {
+    ({ documents, problems: syntax } = parseYamlTree(text));
+  } else {
+    const jsonc = JSONC_FILES.some((pattern) => matchesGlob(pattern, relativePath));
+    const { root, problems } = parseJsonTree(text, jsonc);
+    documents = root ? [root] : [];
+    syntax = problems;
+  }
+
+  const diagnostics = syntax.map((problem) => toDiagnostic(file, text, problem, "error"));
+  if (syntax.length > 0 || documents.length === 0) return diagnostics;
+
+  const schemaPath = findSchemaPath(file, text, relativePath, documents[0], workspacePath);
+  if (!schemaPath) return diagnostics;
+
+  let schema: JsonSchema;
+  try {
+    schema = loadSchema(schemaPath);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return [toDiagnostic(file, text, { offset: 0, length: 1, message: `Could not load schema ${schemaPath}: ${reason}` }, "warning")];
+  }
+
+  for (const document of documents) {
+    for (const problem of validateAgainstSchema(document, schema)) {
+      diagnostics.push(toDiagnostic(file, text, problem, "warning"));
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Schema from mythaTron.validationSchemas, else the document's own local $schema
+ * (or yaml-language-server modeline). Remote schemas aren't fetched.
+ */
+function findSchemaPath(
+  file: string,
+  text: string,
+  relativePath: string,
+  root: DocNode,
+  workspacePath: string
+): string | null {
+  const configured = vscode.workspace.getConfiguration("mythaTron").get<Record<string, string>>("validationSchemas", {});
+  for (const [pattern, schema] of Object.entries(configured)) {
+    if (matchesGlob(pattern, relativePath)) return path.resolve(workspacePath, schema);
+  }
+
+  const declared = /\.ya?ml$/i.test(file)
+    ? text.match(/^#\s*yaml-language-server:\s*\$schema=(\S+)/m)?.[1]
+    : (toPlain(root) as { $schema?: unknown } | null)?.$schema;
+
+  if (typeof declared !== "string" || /^[a-z][\w+.-]*:\/\//i.test(declared)) return null;
+  return path.resolve(path.dirname(file), declared);
+}
+
+function loadSchema(schemaPath: string): JsonSchema {
+  const { mtimeMs } = fs.statSync(schemaPath);
+  const cached = schemaCache.get(schemaPath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.schema;
+
+  const text = fs.readFileSync(schemaPath, "utf-8");
+  const schema = /\.ya?ml$/i.test(schemaPath)
+    ? (parseYamlTree(text).documents.map(toPlain)[0] as JsonSchema)
+    : (JSON.parse(text) as JsonSchema);
+  if (!schema || typeof schema !== "object") throw new Error("not a schema object");
+
+  schemaCache.set(schemaPath, { mtimeMs, schema });
+  return schema;
+}
+
+function toDiagnostic(file: string, text: string, problem: DocProblem, severity: ValidationSeverity): ValidationDiagnostic {
+  const start = positionAt(text, problem.offset);
+  const end = positionAt(text, problem.offset + Math.max(1, problem.length));
+  return {
+    file,
+    line: start.line,
+    column: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+    message: problem.message,
+    severity,
+  };
+}
+
+function positionAt(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, Math.min(offset, text.length));
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return { line: before.split("\n").length, column: offset - lineStart + 1 };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+export const BUILTIN_VALIDATORS: Validator[] = [
+  typescriptValidator,
+  eslintValidator,
+  pythonValidator,
+  cargoValidator,
+  goValidator,
+  schemaValidator,
+];
+
+/**
+ * Run a tool, keeping its output whatever the exit code; linters exit non-zero
+ * when they find problems. Throws only when the run is aborted.
+ */
+function runCommand(
+  command: string,
+  cwd: string,
+  signal: AbortSignal,
+  timeout: number
+): Promise<{ exitCode: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    exec(command, { cwd, signal, timeout, maxBuffer: MAX_BUFFER }, (error, stdout, stderr) => {
+      if (error?.name === "AbortError") {
+        reject(error);
+        return;
+      }
+      const code = (error as { code?: number | string } | null)?.code;
+      resolve({ exitCode: error ? (typeof code === "number" ? code : null) : 0, stdout, stderr });
+    });
+  });
+}
+
+function quote(arg: string): string {
+  if (process.platform === "win32") return `"${arg.replace(/"/g, '\\"')}"`;
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+function readPackageJson(workspacePath: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(workspacePath, "package.json"), "utf-8"));
+  } catch {
+    return null;
+  }
+}
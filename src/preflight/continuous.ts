@@ -5,7 +5,7 @@
  * 
  * This system:
  * 1. Validates after EVERY file save
- * 2. Catches TypeScript errors immediately
+ * 2. Runs the validators for the saved file (tsc, eslint, ruff, cargo, go vet, schemas)
  * 3. Warns about breaking changes before they compound
  * 4. Runs "human tests" at key checkpoints
  */
@@ -14,6 +14,10 @@ import * as vscode from "vscode";
 import * as path from "path";
 import { exec } from "child_process";
 import { promisify } from "util";
+import { PreflightResult, onDidRunPreflight, runPreflightChecks } from "./index";
+import { getPreflightConfigPath } from "./project-checks";
+import { ValidationDiagnostic, Validator, getRegisteredValidators, validatorMatches } from "./validators";
+import { BUILTIN_VALIDATORS } from "./builtin-validators";
 
 const execAsync = promisify(exec);
 
@@ -21,13 +25,30 @@ interface ValidationState {
   lastCheck: Date;
   errors: Map<string, string[]>;
   warnings: Map<string, string[]>;
+  // Latest results of each preflight check that isn't passing
+  preflight: Map<string, PreflightResult[]>;
   score: number;
 }
 
+interface ValidatorRunState {
+  timer: NodeJS.Timeout | null;
+  pending: Set<string>; // saved files waiting for the debounce
+  controller: AbortController | null;
+  inFlight: string[]; // files of the current run, re-queued if it's superseded
+  diagnostics: Map<string, ValidationDiagnostic[]>; // by file, what this validator last reported
+}
+
+export interface ValidatorUpdate {
+  validatorId: string;
+  startedAt: number; // the run saw every file write before this
+  diagnostics: ValidationDiagnostic[]; // everything the validator currently reports
+}
+
 let state: ValidationState = {
   lastCheck: new Date(),
   errors: new Map(),
   warnings: new Map(),
+  preflight: new Map(),
   score: 100,
 };
 
@@ -35,6 +56,18 @@ let statusBarItem: vscode.StatusBarItem;
 let diagnosticCollection: vscode.DiagnosticCollection;
 let debounceTimer: NodeJS.Timeout | null = null;
 
+const validatorStates: Map<string, ValidatorRunState> = new Map();
+const publishedFiles: Set<string> = new Set();
+let runningValidators = 0;
+let idleWaiters: Array<() => void> = [];
+
+const updateEmitter = new vscode.EventEmitter<ValidatorUpdate>();
+
+/**
+ * Fires after each validator run with its full set of diagnostics (regression tracking)
+ */
+export const onDidUpdateValidation = updateEmitter.event;
+
 /**
  * Initialize continuous validation
  */
@@ -78,13 +111,52 @@ export function initContinuousValidation(context: vscode.ExtensionContext): void
     })
   );
 
+  // Disabling a validator drops what it reported
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("mythaTron.disabledValidators")) {
+        dropInactiveValidators();
+      }
+    })
+  );
+
+  // Preflight results (from any run) feed the status bar
+  context.subscriptions.push(
+    onDidRunPreflight((report) => {
+      for (const id of report.checks) state.preflight.delete(id);
+      for (const result of report.results) {
+        // TypeScript errors are already counted one by one
+        if (result.status === "pass" || result.checkId === "typescript") continue;
+        const id = result.checkId ?? result.category;
+        state.preflight.set(id, [...(state.preflight.get(id) ?? []), result]);
+      }
+      updateStatusBar();
+    })
+  );
+
   // Initial check
   const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
   if (workspacePath) {
-    runBackgroundTypeCheck(workspacePath);
+    runProjectValidators(workspacePath);
+    runProjectChecks(workspacePath);
+
+    // Re-run the project's checks when it edits them
+    const configWatcher = vscode.workspace.createFileSystemWatcher(getPreflightConfigPath(workspacePath));
+    const rerun = () => runProjectChecks(workspacePath);
+    configWatcher.onDidCreate(rerun);
+    configWatcher.onDidChange(rerun);
+    configWatcher.onDidDelete(rerun);
+    context.subscriptions.push(configWatcher);
   }
 
-  context.subscriptions.push(statusBarItem, diagnosticCollection);
+  context.subscriptions.push(statusBarItem, diagnosticCollection, updateEmitter, {
+    dispose: () => {
+      for (const run of validatorStates.values()) {
+        if (run.timer) clearTimeout(run.timer);
+        run.controller?.abort();
+      }
+    },
+  });
 }
 
 /**
@@ -94,12 +166,8 @@ async function onFileSave(document: vscode.TextDocument): Promise<void> {
   const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
   if (!workspacePath) return;
 
-  const ext = path.extname(document.fileName);
-
-  // TypeScript/JavaScript - run type check
-  if ([".ts", ".tsx", ".js", ".jsx"].includes(ext)) {
-    await runBackgroundTypeCheck(workspacePath);
-  }
+  // Every validator for the file, in parallel, each on its own debounce
+  validateFiles([document.fileName]);
 
   // Package.json changed - check dependencies
   if (document.fileName.endsWith("package.json")) {
@@ -109,6 +177,75 @@ async function onFileSave(document: vscode.TextDocument): Promise<void> {
   updateStatusBar();
 }
 
+/**
+ * Validate files changed without a save (agent writes): every matching
+ * validator is scheduled as if the files had been saved
+ */
+export function validateFiles(files: string[]): void {
+  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspacePath || !diagnosticCollection) return;
+
+  const validators = collectValidators();
+  for (const file of files) {
+    const relativePath = path.relative(workspacePath, file);
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) continue;
+
+    for (const validator of validators) {
+      if (validatorMatches(validator, relativePath)) {
+        scheduleValidator(validator, workspacePath, file);
+      }
+    }
+  }
+}
+
+/**
+ * Resolves once no validator is queued or running, or after timeoutMs
+ */
+export function waitForValidation(timeoutMs: number): Promise<void> {
+  if (isIdle()) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, timeoutMs);
+    function done() {
+      clearTimeout(timer);
+      idleWaiters = idleWaiters.filter((waiter) => waiter !== done);
+      resolve();
+    }
+    idleWaiters.push(done);
+  });
+}
+
+/**
+ * What the validators currently report, optionally only for the given files
+ */
+export function getValidationDiagnostics(files?: string[]): ValidationDiagnostic[] {
+  const wanted = files ? new Set(files.map((file) => path.resolve(file))) : null;
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  for (const run of validatorStates.values()) {
+    for (const [file, fileDiagnostics] of run.diagnostics) {
+      if (!wanted || wanted.has(path.resolve(file))) diagnostics.push(...fileDiagnostics);
+    }
+  }
+  return diagnostics;
+}
+
+function isIdle(): boolean {
+  if (runningValidators > 0) return false;
+  return Array.from(validatorStates.values()).every((run) => !run.timer);
+}
+
+/**
+ * Run the project's and registered preflight checks; the built-ins are too slow for the background
+ */
+async function runProjectChecks(workspacePath: string): Promise<void> {
+  try {
+    await runPreflightChecks(workspacePath, { includeBuiltins: false });
+  } catch {
+    // Reported on the next full preflight run
+  }
+}
+
 /**
  * Handle file change (debounced)
  */
@@ -118,114 +255,229 @@ async function onFileChange(document: vscode.TextDocument): Promise<void> {
 }
 
 /**
- * Run TypeScript check in background
+ * Built-in and registered validators, minus the disabled ones. A registered
+ * validator replaces the built-in with its id.
  */
-async function runBackgroundTypeCheck(workspacePath: string): Promise<void> {
-  try {
-    statusBarItem.text = "$(sync~spin) Checking...";
+function collectValidators(): Validator[] {
+  const disabled = new Set(
+    vscode.workspace.getConfiguration("mythaTron").get<string[]>("disabledValidators", [])
+  );
 
-    const { stderr } = await execAsync(
-      "npx tsc --noEmit --pretty false 2>&1 || true",
-      { cwd: workspacePath, timeout: 30000 }
-    );
+  const byId = new Map<string, Validator>();
+  for (const validator of [...BUILTIN_VALIDATORS, ...getRegisteredValidators()]) {
+    byId.set(validator.id, validator);
+  }
 
-    // Parse errors
-    const errors = parseTypeScriptErrors(stderr);
-    
-    // Update state
-    state.errors.clear();
-    state.lastCheck = new Date();
-
-    for (const error of errors) {
-      const existing = state.errors.get(error.file) || [];
-      existing.push(error.message);
-      state.errors.set(error.file, existing);
-    }
+  return Array.from(byId.values()).filter((validator) => !disabled.has(validator.id));
+}
+
+function getRunState(id: string): ValidatorRunState {
+  let run = validatorStates.get(id);
+  if (!run) {
+    run = { timer: null, pending: new Set(), controller: null, inFlight: [], diagnostics: new Map() };
+    validatorStates.set(id, run);
+  }
+  return run;
+}
 
-    // Update diagnostics
-    updateDiagnostics(errors);
+/**
+ * Queue a run once saves to the validator's files settle
+ */
+function scheduleValidator(validator: Validator, workspacePath: string, file?: string): void {
+  const run = getRunState(validator.id);
+  if (file) run.pending.add(file);
+
+  if (run.timer) clearTimeout(run.timer);
+  run.timer = setTimeout(() => {
+    runValidator(validator, workspacePath);
+  }, validator.debounceMs ?? 300);
+}
 
-    // Calculate score
-    const totalErrors = errors.length;
-    state.score = Math.max(0, 100 - totalErrors * 5);
+/**
+ * Run a validator on its pending files, cancelling a run already in progress
+ */
+async function runValidator(validator: Validator, workspacePath: string): Promise<void> {
+  const run = getRunState(validator.id);
+  if (run.timer) {
+    clearTimeout(run.timer);
+    run.timer = null;
+  }
 
-    updateStatusBar();
+  // A superseded run's files still need checking
+  const files = Array.from(new Set([...run.pending, ...(run.controller ? run.inFlight : [])]));
+  run.pending.clear();
+  run.controller?.abort();
 
-    // Show notification if errors increased significantly
-    if (totalErrors > 5) {
-      vscode.window.showWarningMessage(
-        `${totalErrors} TypeScript errors detected. Fix early to avoid debugging hell!`,
-        "Show Errors"
-      ).then((choice) => {
-        if (choice === "Show Errors") {
-          vscode.commands.executeCommand("workbench.actions.view.problems");
-        }
-      });
+  const controller = new AbortController();
+  run.controller = controller;
+  run.inFlight = files;
+  const startedAt = Date.now();
+
+  runningValidators++;
+  updateStatusBar();
+
+  try {
+    if (validator.isAvailable && !(await validator.isAvailable(workspacePath))) {
+      if (!controller.signal.aborted) applyResults(validator, [], []);
+      return;
     }
-  } catch {
-    // Type check failed to run, that's okay
+
+    const diagnostics = await validator.run({ workspacePath, files, signal: controller.signal });
+    if (controller.signal.aborted) return;
+
+    applyResults(validator, files, diagnostics);
+    updateEmitter.fire({
+      validatorId: validator.id,
+      startedAt,
+      diagnostics: Array.from(run.diagnostics.values()).flat(),
+    });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      // The tool failed to run, that's okay
+      console.error(`Validator ${validator.id} failed:`, error);
+    }
+  } finally {
+    if (run.controller === controller) {
+      run.controller = null;
+      run.inFlight = [];
+    }
+    runningValidators--;
     updateStatusBar();
+
+    if (isIdle()) {
+      for (const waiter of [...idleWaiters]) waiter();
+    }
   }
 }
 
-interface TSError {
-  file: string;
-  line: number;
-  column: number;
-  message: string;
-  code: string;
+/**
+ * Full run of the project-wide validators (initial check and forceValidation)
+ */
+async function runProjectValidators(workspacePath: string): Promise<void> {
+  const validators = collectValidators().filter((validator) => validator.scope === "project");
+  await Promise.all(validators.map((validator) => runValidator(validator, workspacePath)));
 }
 
-function parseTypeScriptErrors(output: string): TSError[] {
-  const errors: TSError[] = [];
-  const regex = /(.+)\((\d+),(\d+)\):\s+error\s+(TS\d+):\s+(.+)/g;
-
-  let match;
-  while ((match = regex.exec(output)) !== null) {
-    errors.push({
-      file: match[1],
-      line: parseInt(match[2]),
-      column: parseInt(match[3]),
-      code: match[4],
-      message: match[5],
-    });
+/**
+ * Replace what a validator reported: everything for a project-wide run, only
+ * the checked files for a per-file run
+ */
+function applyResults(validator: Validator, files: string[], diagnostics: ValidationDiagnostic[]): void {
+  const owned = getRunState(validator.id).diagnostics;
+
+  if (validator.scope === "project" || files.length === 0) {
+    owned.clear();
+  } else {
+    for (const file of files) owned.delete(file);
+  }
+
+  for (const diagnostic of diagnostics) {
+    owned.set(diagnostic.file, [...(owned.get(diagnostic.file) ?? []), diagnostic]);
   }
 
-  return errors;
+  publishDiagnostics();
 }
 
-function updateDiagnostics(errors: TSError[]): void {
-  diagnosticCollection.clear();
+function dropInactiveValidators(): void {
+  const active = new Set(collectValidators().map((validator) => validator.id));
+
+  for (const [id, run] of validatorStates) {
+    if (active.has(id)) continue;
+    if (run.timer) clearTimeout(run.timer);
+    run.controller?.abort();
+    validatorStates.delete(id);
+  }
+
+  publishDiagnostics();
+}
 
+/**
+ * Merge every validator's diagnostics into the collection and the validation state
+ */
+function publishDiagnostics(): void {
+  const validators = new Map(collectValidators().map((validator) => [validator.id, validator]));
   const byFile = new Map<string, vscode.Diagnostic[]>();
+  const previousErrors = countErrors();
 
-  for (const error of errors) {
-    const uri = vscode.Uri.file(error.file);
-    const diagnostics = byFile.get(error.file) || [];
+  state.errors.clear();
+  state.warnings.clear();
 
-    const range = new vscode.Range(
-      error.line - 1,
-      error.column - 1,
-      error.line - 1,
-      error.column + 20
-    );
+  for (const [id, run] of validatorStates) {
+    const source = validators.get(id)?.name ?? id;
 
-    const diagnostic = new vscode.Diagnostic(
-      range,
-      `${error.code}: ${error.message}`,
-      vscode.DiagnosticSeverity.Error
-    );
+    for (const [file, diagnostics] of run.diagnostics) {
+      const converted = byFile.get(file) ?? [];
+
+      for (const diagnostic of diagnostics) {
+        converted.push(toVsDiagnostic(diagnostic, source));
 
-    diagnostic.source = "MythaTron Code";
-    diagnostics.push(diagnostic);
-    byFile.set(error.file, diagnostics);
+        const bucket = diagnostic.severity === "error" ? state.errors : state.warnings;
+        bucket.set(file, [...(bucket.get(file) ?? []), diagnostic.message]);
+      }
+      byFile.set(file, converted);
+    }
+  }
+
+  for (const file of publishedFiles) {
+    if (!byFile.has(file)) diagnosticCollection.delete(vscode.Uri.file(file));
   }
+  publishedFiles.clear();
 
   for (const [file, diagnostics] of byFile) {
     diagnosticCollection.set(vscode.Uri.file(file), diagnostics);
+    publishedFiles.add(file);
+  }
+
+  // Calculate score
+  const totalErrors = countErrors();
+  state.lastCheck = new Date();
+  state.score = Math.max(0, 100 - totalErrors * 5);
+
+  updateStatusBar();
+
+  // Show notification when errors pile up
+  if (totalErrors > 5 && previousErrors <= 5) {
+    vscode.window.showWarningMessage(
+      `${totalErrors} errors detected. Fix early to avoid debugging hell!`,
+      "Show Errors"
+    ).then((choice) => {
+      if (choice === "Show Errors") {
+        vscode.commands.executeCommand("workbench.actions.view.problems");
+      }
+    });
   }
 }
 
+function toVsDiagnostic(diagnostic: ValidationDiagnostic, source: string): vscode.Diagnostic {
+  const start = new vscode.Position(Math.max(0, diagnostic.line - 1), Math.max(0, diagnostic.column - 1));
+  // Without an end, the empty range is drawn under the word at the start
+  const end = diagnostic.endLine !== undefined || diagnostic.endColumn !== undefined
+    ? new vscode.Position(
+        Math.max(0, (diagnostic.endLine ?? diagnostic.line) - 1),
+        Math.max(0, (diagnostic.endColumn ?? diagnostic.column) - 1)
+      )
+    : start;
+
+  const result = new vscode.Diagnostic(
+    new vscode.Range(start, end.isBefore(start) ? start : end),
+    diagnostic.message,
+    diagnostic.severity === "error"
+      ? vscode.DiagnosticSeverity.Error
+      : diagnostic.severity === "warning"
+        ? vscode.DiagnosticSeverity.Warning
+        : vscode.DiagnosticSeverity.Information
+  );
+  result.source = source;
+  if (diagnostic.code) result.code = diagnostic.code;
+  return result;
+}
+
+function countErrors(): number {
+  let count = 0;
+  for (const messages of state.errors.values()) count += messages.length;
+  return count;
+}
+
 /**
  * Quick check for current file
  */
@@ -290,9 +542,23 @@ async function checkDependencies(workspacePath: string): Promise<void> {
  * Update status bar
  */
 function updateStatusBar(): void {
-  const errorCount = Array.from(state.errors.values()).flat().length;
+  if (runningValidators > 0) {
+    statusBarItem.text = "$(sync~spin) Checking...";
+    return;
+  }
 
-  if (errorCount === 0) {
+  const preflight = Array.from(state.preflight.values()).flat();
+  const failing = preflight.filter((r) => r.status === "fail");
+  const errorCount = Array.from(state.errors.values()).flat().length + failing.length;
+  const details = preflight.length > 0
+    ? "\n\n" + preflight.map((r) => `${r.status === "fail" ? "✗" : "!"} ${r.category}: ${r.message}`).join("\n")
+    : "";
+
+  if (errorCount === 0 && preflight.length > 0) {
+    statusBarItem.text = `$(warning) ${preflight.length} warning${preflight.length > 1 ? "s" : ""}`;
+    statusBarItem.backgroundColor = undefined;
+    statusBarItem.tooltip = `Preflight warnings. Click to view.${details}`;
+  } else if (errorCount === 0) {
     statusBarItem.text = "$(check) Health: 100%";
     statusBarItem.backgroundColor = undefined;
     statusBarItem.tooltip = "All checks passing - you're good to go!";
@@ -301,13 +567,13 @@ function updateStatusBar(): void {
     statusBarItem.backgroundColor = new vscode.ThemeColor(
       "statusBarItem.warningBackground"
     );
-    statusBarItem.tooltip = `${errorCount} issue(s) detected. Click to view.`;
+    statusBarItem.tooltip = `${errorCount} issue(s) detected. Click to view.${details}`;
   } else {
     statusBarItem.text = `$(error) ${errorCount} errors`;
     statusBarItem.backgroundColor = new vscode.ThemeColor(
       "statusBarItem.errorBackground"
     );
-    statusBarItem.tooltip = `${errorCount} errors! Fix these before continuing.`;
+    statusBarItem.tooltip = `${errorCount} errors! Fix these before continuing.${details}`;
   }
 }
 
@@ -324,7 +590,7 @@ export function getValidationState(): ValidationState {
 export async function forceValidation(): Promise<void> {
   const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
   if (workspacePath) {
-    await runBackgroundTypeCheck(workspacePath);
+    await runProjectValidators(workspacePath);
   }
 }
 
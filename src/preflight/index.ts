@@ -16,6 +16,11 @@ import * as fs from "fs";
 import * as path from "path";
 import { exec } from "child_process";
 import { promisify } from "util";
+import { PreflightCheck, getRegisteredChecks } from "./registry";
+import { createProjectChecks, loadProjectPreflightConfig } from "./project-checks";
+
+export { PreflightCheck, registerPreflightCheck } from "./registry";
+export { Validator, ValidationDiagnostic, registerValidator } from "./validators";
 
 const execAsync = promisify(exec);
 
@@ -25,52 +30,108 @@ export interface PreflightResult {
   message: string;
   fix?: string;
   autoFixable?: boolean;
+  checkId?: string; // the check that produced it
 }
 
 export interface PreflightReport {
   timestamp: Date;
   workspace: string;
+  checks: string[]; // ids of the checks that ran
   results: PreflightResult[];
   score: number; // 0-100
   canProceed: boolean;
 }
 
+export interface PreflightOptions {
+  includeBuiltins?: boolean; // default true; false runs only registered and project checks
+}
+
+const BUILTIN_CHECKS: PreflightCheck[] = [
+  { id: "typescript", name: "TypeScript", run: checkTypeScript },
+  { id: "dependencies", name: "Dependencies", run: checkDependencies },
+  { id: "environment", name: "Environment", run: checkEnvironment },
+  { id: "git", name: "Git", run: checkGitStatus },
+  { id: "api-keys", name: "API Keys", run: checkAPIKeys },
+  { id: "lint", name: "Lint", run: checkLintErrors },
+];
+
+const reportEmitter = new vscode.EventEmitter<PreflightReport>();
+
+/**
+ * Fires after every preflight run (status bar, continuous validation)
+ */
+export const onDidRunPreflight = reportEmitter.event;
+
 /**
  * Run all preflight checks
  */
 export async function runPreflightChecks(
-  workspacePath: string
+  workspacePath: string,
+  options: PreflightOptions = {}
 ): Promise<PreflightReport> {
-  const results: PreflightResult[] = [];
+  const { checks, problems } = collectChecks(workspacePath, options);
+  const results: PreflightResult[] = [...problems];
 
   // Run all checks in parallel for speed
-  const checks = await Promise.all([
-    checkTypeScript(workspacePath),
-    checkDependencies(workspacePath),
-    checkEnvironment(workspacePath),
-    checkGitStatus(workspacePath),
-    checkAPIKeys(workspacePath),
-    checkLintErrors(workspacePath),
-  ]);
+  const checkResults = await Promise.all(checks.map((check) => runCheck(check, workspacePath)));
 
-  results.push(...checks.flat());
+  results.push(...checkResults.flat());
 
   // Calculate score
   const total = results.length;
   const passed = results.filter((r) => r.status === "pass").length;
   const warnings = results.filter((r) => r.status === "warn").length;
-  const score = Math.round(((passed + warnings * 0.5) / total) * 100);
+  const score = total > 0 ? Math.round(((passed + warnings * 0.5) / total) * 100) : 100;
 
   // Can proceed if no failures
   const canProceed = !results.some((r) => r.status === "fail");
 
-  return {
+  const report: PreflightReport = {
     timestamp: new Date(),
     workspace: workspacePath,
+    checks: checks.map((check) => check.id),
     results,
     score,
     canProceed,
   };
+
+  reportEmitter.fire(report);
+  return report;
+}
+
+/**
+ * Built-in, registered and project checks, minus those the project disables
+ */
+function collectChecks(
+  workspacePath: string,
+  options: PreflightOptions = {}
+): { checks: PreflightCheck[]; problems: PreflightResult[] } {
+  const { config, problems } = loadProjectPreflightConfig(workspacePath);
+  const disabled = new Set(config.disable ?? []);
+
+  const checks = [
+    ...(options.includeBuiltins === false ? [] : BUILTIN_CHECKS),
+    ...getRegisteredChecks(),
+    ...createProjectChecks(config),
+  ].filter((check) => !disabled.has(check.id));
+
+  return { checks, problems };
+}
+
+async function runCheck(check: PreflightCheck, workspacePath: string): Promise<PreflightResult[]> {
+  try {
+    const results = await check.run(workspacePath);
+    return results.map((result) => ({ ...result, checkId: check.id }));
+  } catch (error) {
+    return [
+      {
+        category: check.name,
+        status: "fail",
+        message: `Check failed to run: ${error instanceof Error ? error.message : error}`,
+        checkId: check.id,
+      },
+    ];
+  }
 }
 
 /**
@@ -413,11 +474,18 @@ export async function autoFixIssues(
   const fixed: string[] = [];
   const failed: string[] = [];
 
-  const fixable = results.filter((r) => r.autoFixable && r.fix);
+  const { checks } = collectChecks(workspacePath);
+  const fixers = new Map(checks.filter((check) => check.fix).map((check) => [check.id, check]));
+  const fixable = results.filter((r) => r.autoFixable && (r.fix || (r.checkId && fixers.has(r.checkId))));
 
   for (const issue of fixable) {
     try {
-      await execAsync(issue.fix!, { cwd: workspacePath, timeout: 60000 });
+      const check = issue.checkId ? fixers.get(issue.checkId) : undefined;
+      if (check) {
+        await check.fix!(workspacePath, issue);
+      } else {
+        await execAsync(issue.fix!, { cwd: workspacePath, timeout: 60000 });
+      }
       fixed.push(issue.category);
     } catch {
       failed.push(issue.category);
@@ -497,9 +565,9 @@ function generateReportHTML(report: PreflightReport): string {
     .map((r) => `
       <tr>
         <td>${statusIcon(r.status)}</td>
-        <td><strong>${r.category}</strong></td>
-        <td style="color: ${statusColor(r.status)}">${r.message}</td>
-        <td>${r.fix ? `<code>${r.fix}</code>` : "-"}</td>
+        <td><strong>${escapeHtml(r.category)}</strong></td>
+        <td style="color: ${statusColor(r.status)}">${escapeHtml(r.message)}</td>
+        <td>${r.fix ? `<code>${escapeHtml(r.fix)}</code>` : "-"}</td>
       </tr>
     `)
     .join("");
@@ -583,6 +651,10 @@ function generateReportHTML(report: PreflightReport): string {
 </html>`;
 }
 
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
 /**
  * Quick check - returns true if ready to proceed
  */
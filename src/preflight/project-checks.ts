@@ -0,0 +1,482 @@
+/**
+ * Project Preflight Checks
+ *
+ * The environment checks a project declares in .mythatron/preflight.json:
+ * shell commands with expected exit codes or output, required env vars,
+ * ports, docker-compose service health and pending migrations. They run with
+ * the built-in checks and can disable built-ins by id. The agent can't edit the
+ * file (see TerminalPolicy.isProtectedPath), since its commands run unprompted.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import { exec } from "child_process";
+import { promisify } from "util";
+import type { PreflightResult } from "./index";
+import type { PreflightCheck } from "./registry";
+
+const execAsync = promisify(exec);
+
+interface BaseCheckConfig {
+  name: string;
+  severity?: "fail" | "warn"; // status when the check does not pass (default "fail")
+  fix?: string; // shell command that fixes the problem
+  autoFix?: boolean; // let Auto-fix run `fix` (default true when `fix` is set)
+}
+
+export interface CommandCheckConfig extends BaseCheckConfig {
+  type: "command";
+  command: string;
+  cwd?: string; // relative to the workspace root
+  expectExitCode?: number; // default 0
+  expectOutput?: string; // regex stdout/stderr must match
+  rejectOutput?: string; // regex stdout/stderr must not match
+  timeout?: number; // ms, default 30000
+}
+
+export interface EnvCheckConfig extends BaseCheckConfig {
+  type: "env";
+  vars: string[];
+  envFiles?: string[]; // also read these, relative to the workspace root (default [".env"])
+}
+
+export interface PortCheckConfig extends BaseCheckConfig {
+  type: "port";
+  port: number;
+  host?: string; // default "localhost"
+  expect?: "free" | "listening"; // default "free"
+}
+
+export interface ComposeCheckConfig extends BaseCheckConfig {
+  type: "docker-compose";
+  file?: string; // default: the first of docker-compose.yml, compose.yml, ...
+  services?: string[]; // default: every service in the project
+}
+
+export interface MigrationCheckConfig extends BaseCheckConfig {
+  type: "migrations";
+  tool: "prisma" | "knex" | "sequelize" | "django" | "rails" | "alembic" | "custom";
+  command?: string; // overrides the tool's status command (required for "custom")
+  pendingPattern?: string; // regex in the status output that means migrations are pending
+  upToDatePattern?: string; // regex that means there are none
+  cwd?: string;
+}
+
+export type ProjectCheckConfig =
+  | CommandCheckConfig
+  | EnvCheckConfig
+  | PortCheckConfig
+  | ComposeCheckConfig
+  | MigrationCheckConfig;
+
+export interface ProjectPreflightConfig {
+  checks?: ProjectCheckConfig[];
+  disable?: string[]; // ids of built-in or registered checks to skip
+}
+
+const CONFIG_FILE = path.join(".mythatron", "preflight.json");
+
+const COMPOSE_FILES = ["docker-compose.yml", "docker-compose.yaml", "compose.yml", "compose.yaml"];
+
+const MIGRATION_TOOLS: Record<
+  Exclude<MigrationCheckConfig["tool"], "custom">,
+  { command: string; pendingPattern?: string; upToDatePattern?: string; fix: string }
+> = {
+  prisma: {
+    command: "npx prisma migrate status",
+    pendingPattern: "not yet been applied",
+    upToDatePattern: "up to date",
+    fix: "npx prisma migrate deploy",
+  },
+  knex: { command: "npx knex migrate:status", pendingPattern: "Found \\d+ Pending", fix: "npx knex migrate:latest" },
+  sequelize: { command: "npx sequelize-cli db:migrate:status", pendingPattern: "^down\\s", fix: "npx sequelize-cli db:migrate" },
+  django: { command: "python manage.py showmigrations --plan", pendingPattern: "^\\[ \\]", fix: "python manage.py migrate" },
+  rails: { command: "bin/rails db:migrate:status", pendingPattern: "^\\s*down\\s", fix: "bin/rails db:migrate" },
+  alembic: { command: "alembic current", upToDatePattern: "\\(head\\)", fix: "alembic upgrade head" },
+};
+
+const CONFIG_TEMPLATE: ProjectPreflightConfig = {
+  disable: [],
+  checks: [
+    { type: "command", name: "Node version", command: "node --version", expectOutput: "^v(18|20|22)\\." },
+    { type: "env", name: "Required env vars", vars: ["DATABASE_URL"] },
+    { type: "port", name: "Dev server port", port: 3000, expect: "free" },
+    { type: "docker-compose", name: "Docker services", services: ["db"] },
+    { type: "migrations", name: "Database migrations", tool: "prisma" },
+  ],
+};
+
+export function getPreflightConfigPath(workspacePath: string): string {
+  return path.join(workspacePath, CONFIG_FILE);
+}
+
+/**
+ * Read .mythatron/preflight.json. Problems with the file come back as failed
+ * results so they show up in the report instead of silently dropping checks.
+ */
+export function loadProjectPreflightConfig(workspacePath: string): {
+  config: ProjectPreflightConfig;
+  problems: PreflightResult[];
+} {
+  const configPath = getPreflightConfigPath(workspacePath);
+  if (!fs.existsSync(configPath)) return { config: {}, problems: [] };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    return {
+      config: {},
+      problems: [configProblem(`Invalid JSON: ${error instanceof Error ? error.message : error}`)],
+    };
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { config: {}, problems: [configProblem("Expected an object with a \"checks\" array")] };
+  }
+
+  const parsed = raw as { checks?: unknown; disable?: unknown };
+  const problems: PreflightResult[] = [];
+  const checks: ProjectCheckConfig[] = [];
+
+  const entries = Array.isArray(parsed.checks) ? parsed.checks : [];
+  if (parsed.checks !== undefined && !Array.isArray(parsed.checks)) {
+    problems.push(configProblem("\"checks\" must be an array"));
+  }
+
+  entries.forEach((entry, index) => {
+    const problem = validateCheck(entry);
+    if (problem) {
+      problems.push(configProblem(`Check ${index + 1} ignored: ${problem}`));
+    } else {
+      checks.push(entry as ProjectCheckConfig);
+    }
+  });
+
+  const disable = Array.isArray(parsed.disable)
+    ? parsed.disable.filter((id): id is string => typeof id === "string")
+    : [];
+
+  return { config: { checks, disable }, problems };
+}
+
+/**
+ * Write a starter config if none exists
+ */
+export function ensurePreflightConfigFile(workspacePath: string): string {
+  const configPath = getPreflightConfigPath(workspacePath);
+  if (!fs.existsSync(configPath)) {
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify(CONFIG_TEMPLATE, null, 2));
+  }
+  return configPath;
+}
+
+/**
+ * Turn config entries into checks
+ */
+export function createProjectChecks(config: ProjectPreflightConfig): PreflightCheck[] {
+  return (config.checks ?? []).map((entry) => ({
+    id: `project:${entry.name}`,
+    name: entry.name,
+    run: (workspacePath: string) => runProjectCheck(entry, workspacePath),
+  }));
+}
+
+async function runProjectCheck(check: ProjectCheckConfig, workspacePath: string): Promise<PreflightResult[]> {
+  // Command-running checks come from the repository, so only run them in trusted workspaces
+  if (!vscode.workspace.isTrusted && ["command", "docker-compose", "migrations"].includes(check.type)) {
+    return [{ category: check.name, status: "warn", message: "Skipped: workspace is not trusted" }];
+  }
+
+  switch (check.type) {
+    case "command":
+      return [await runCommandCheck(check, workspacePath)];
+    case "env":
+      return [runEnvCheck(check, workspacePath)];
+    case "port":
+      return [await runPortCheck(check)];
+    case "docker-compose":
+      return [await runComposeCheck(check, workspacePath)];
+    case "migrations":
+      return [await runMigrationCheck(check, workspacePath)];
+  }
+}
+
+// ============================================
+// CHECK TYPES
+// ============================================
+
+async function runCommandCheck(check: CommandCheckConfig, workspacePath: string): Promise<PreflightResult> {
+  const timeout = check.timeout ?? 30000;
+  const run = await runShell(check.command, resolveCwd(workspacePath, check.cwd), timeout);
+  const expectedCode = check.expectExitCode ?? 0;
+
+  if (run.timedOut) {
+    return outcome(check, false, `\`${check.command}\` timed out after ${Math.round(timeout / 1000)}s`);
+  }
+  if (run.exitCode !== expectedCode) {
+    return outcome(
+      check,
+      false,
+      `\`${check.command}\` exited with ${run.exitCode ?? "a signal"} (expected ${expectedCode})${excerpt(run.output)}`
+    );
+  }
+  if (check.expectOutput && !new RegExp(check.expectOutput, "m").test(run.output)) {
+    return outcome(check, false, `Output did not match /${check.expectOutput}/${excerpt(run.output)}`);
+  }
+  if (check.rejectOutput && new RegExp(check.rejectOutput, "m").test(run.output)) {
+    return outcome(check, false, `Output matched /${check.rejectOutput}/${excerpt(run.output)}`);
+  }
+
+  return outcome(check, true, `\`${check.command}\` passed`);
+}
+
+function runEnvCheck(check: EnvCheckConfig, workspacePath: string): PreflightResult {
+  const fromFiles = new Map<string, string>();
+  for (const file of check.envFiles ?? [".env"]) {
+    const filePath = path.join(workspacePath, file);
+    if (!fs.existsSync(filePath)) continue;
+
+    for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+      const match = line.match(/^\s*(?:export\s+)?([\w.]+)\s*=\s*(.*?)\s*$/);
+      if (match && !fromFiles.has(match[1])) fromFiles.set(match[1], match[2].replace(/^["']|["']$/g, ""));
+    }
+  }
+
+  const missing = check.vars.filter((name) => !process.env[name] && !fromFiles.get(name));
+  return missing.length > 0
+    ? outcome(check, false, `Not set: ${missing.join(", ")}`)
+    : outcome(check, true, `${check.vars.length} variable${check.vars.length === 1 ? "" : "s"} set`);
+}
+
+async function runPortCheck(check: PortCheckConfig): Promise<PreflightResult> {
+  const host = check.host ?? "localhost";
+  const listening = await probePort(check.port, host);
+
+  if ((check.expect ?? "free") === "free") {
+    return listening
+      ? outcome(check, false, `Port ${check.port} is already in use`)
+      : outcome(check, true, `Port ${check.port} is free`);
+  }
+
+  return listening
+    ? outcome(check, true, `${host}:${check.port} is accepting connections`)
+    : outcome(check, false, `Nothing is listening on ${host}:${check.port}`);
+}
+
+async function runComposeCheck(check: ComposeCheckConfig, workspacePath: string): Promise<PreflightResult> {
+  const file = check.file ?? COMPOSE_FILES.find((f) => fs.existsSync(path.join(workspacePath, f)));
+  if (!file || !fs.existsSync(path.join(workspacePath, file))) {
+    return outcome(check, false, `Compose file not found${check.file ? `: ${check.file}` : ""}`);
+  }
+
+  const fileArg = `-f ${JSON.stringify(file)}`;
+  const withFix = { ...check, fix: check.fix ?? `docker compose ${fileArg} up -d ${(check.services ?? []).join(" ")}`.trim() };
+
+  // Compose v2 plugin first, then the standalone v1 binary
+  let run = await runShell(`docker compose ${fileArg} ps -a --format json`, workspacePath, 30000);
+  if (run.exitCode !== 0) {
+    run = await runShell(`docker-compose ${fileArg} ps -a --format json`, workspacePath, 30000);
+  }
+  if (run.exitCode !== 0) {
+    return outcome(withFix, false, `Could not query docker compose${excerpt(run.output)}`);
+  }
+
+  const containers = parseComposePs(run.output);
+  const services = check.services ?? [...new Set(containers.map((c) => c.Service))];
+  if (services.length === 0) {
+    return outcome(withFix, false, "No services are running");
+  }
+
+  const down: string[] = [];
+  const unhealthy: string[] = [];
+  const starting: string[] = [];
+
+  for (const service of services) {
+    const container = containers.find((c) => c.Service === service);
+    if (!container || container.State !== "running") down.push(service);
+    else if (container.Health === "unhealthy") unhealthy.push(service);
+    else if (container.Health === "starting") starting.push(service);
+  }
+
+  if (down.length > 0 || unhealthy.length > 0) {
+    const parts = [
+      down.length > 0 ? `not running: ${down.join(", ")}` : "",
+      unhealthy.length > 0 ? `unhealthy: ${unhealthy.join(", ")}` : "",
+    ].filter(Boolean);
+    return outcome(withFix, false, `Services ${parts.join("; ")}`);
+  }
+
+  if (starting.length > 0) {
+    return { category: check.name, status: "warn", message: `Still starting: ${starting.join(", ")}` };
+  }
+
+  return outcome(withFix, true, `${services.join(", ")} running`);
+}
+
+async function runMigrationCheck(check: MigrationCheckConfig, workspacePath: string): Promise<PreflightResult> {
+  const preset = check.tool === "custom" ? undefined : MIGRATION_TOOLS[check.tool];
+  const command = check.command ?? preset!.command;
+  const pendingPattern = check.pendingPattern ?? preset?.pendingPattern;
+  const upToDatePattern = check.upToDatePattern ?? preset?.upToDatePattern;
+  const withFix = { ...check, fix: check.fix ?? preset?.fix };
+
+  const run = await runShell(command, resolveCwd(workspacePath, check.cwd), 60000);
+
+  if (pendingPattern) {
+    const pending = run.output.split("\n").filter((line) => new RegExp(pendingPattern).test(line));
+    if (pending.length > 0) {
+      return outcome(withFix, false, `Pending migrations: ${truncate(pending[0].trim())}`);
+    }
+  }
+
+  if (upToDatePattern ? new RegExp(upToDatePattern, "m").test(run.output) : run.exitCode === 0 && !run.timedOut) {
+    return outcome(withFix, true, "Migrations up to date");
+  }
+
+  if (upToDatePattern && run.exitCode === 0) {
+    return outcome(withFix, false, `Migrations not at the latest version${excerpt(run.output)}`);
+  }
+
+  // Usually the database is unreachable; that's for another check to report
+  return {
+    category: check.name,
+    status: "warn",
+    message: `Could not determine migration status with \`${command}\`${excerpt(run.output)}`,
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function validateCheck(entry: unknown): string | null {
+  if (!entry || typeof entry !== "object") return "not an object";
+  const check = entry as Record<string, unknown>;
+
+  if (typeof check.name !== "string" || !check.name) return "missing \"name\"";
+  if (check.severity !== undefined && check.severity !== "fail" && check.severity !== "warn") {
+    return `${check.name}: "severity" must be "fail" or "warn"`;
+  }
+
+  const patterns = ["expectOutput", "rejectOutput", "pendingPattern", "upToDatePattern"];
+  for (const key of patterns) {
+    if (check[key] === undefined) continue;
+    try {
+      new RegExp(check[key] as string);
+    } catch {
+      return `${check.name}: "${key}" is not a valid regex`;
+    }
+  }
+
+  switch (check.type) {
+    case "command":
+      return typeof check.command === "string" ? null : `${check.name}: "command" is required`;
+    case "env":
+      return Array.isArray(check.vars) && check.vars.every((v) => typeof v === "string")
+        ? null
+        : `${check.name}: "vars" must be an array of names`;
+    case "port":
+      return Number.isInteger(check.port) ? null : `${check.name}: "port" must be a number`;
+    case "docker-compose":
+      return null;
+    case "migrations":
+      if (check.tool === "custom") {
+        return typeof check.command === "string" && (check.pendingPattern || check.upToDatePattern)
+          ? null
+          : `${check.name}: custom migrations need "command" and "pendingPattern" or "upToDatePattern"`;
+      }
+      return typeof check.tool === "string" && check.tool in MIGRATION_TOOLS
+        ? null
+        : `${check.name}: "tool" must be one of ${[...Object.keys(MIGRATION_TOOLS), "custom"].join(", ")}`;
+    default:
+      return `${check.name}: unknown type ${JSON.stringify(check.type)}`;
+  }
+}
+
+function outcome(check: BaseCheckConfig, passed: boolean, message: string): PreflightResult {
+  if (passed) {
+    return { category: check.name, status: "pass", message };
+  }
+  return {
+    category: check.name,
+    status: check.severity ?? "fail",
+    message,
+    fix: check.fix,
+    // Fix commands come from the repository too
+    autoFixable: !!check.fix && check.autoFix !== false && vscode.workspace.isTrusted,
+  };
+}
+
+function configProblem(message: string): PreflightResult {
+  return {
+    category: "Preflight config",
+    status: "fail",
+    message: `${CONFIG_FILE}: ${message}`,
+  };
+}
+
+async function runShell(
+  command: string,
+  cwd: string,
+  timeout: number
+): Promise<{ exitCode: number | null; output: string; timedOut: boolean }> {
+  try {
+    const { stdout, stderr } = await execAsync(command, { cwd, timeout, maxBuffer: 10 * 1024 * 1024 });
+    return { exitCode: 0, output: stdout + stderr, timedOut: false };
+  } catch (error) {
+    const failure = error as { code?: number | string; killed?: boolean; stdout?: string; stderr?: string };
+    return {
+      exitCode: typeof failure.code === "number" ? failure.code : null,
+      output: (failure.stdout ?? "") + (failure.stderr ?? ""),
+      timedOut: !!failure.killed,
+    };
+  }
+}
+
+function probePort(port: number, host: string, timeoutMs = 1000): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host });
+    const done = (listening: boolean) => {
+      socket.destroy();
+      resolve(listening);
+    };
+    socket.setTimeout(timeoutMs, () => done(false));
+    socket.once("connect", () => done(true));
+    socket.once("error", () => done(false));
+  });
+}
+
+/**
+ * `ps --format json` prints an array (older Compose v2) or one object per line
+ */
+function parseComposePs(output: string): Array<{ Service: string; State: string; Health?: string }> {
+  const trimmed = output.trim();
+  if (!trimmed) return [];
+
+  try {
+    if (trimmed.startsWith("[")) return JSON.parse(trimmed);
+    return trimmed
+      .split("\n")
+      .filter((line) => line.trim().startsWith("{"))
+      .map((line) => JSON.parse(line));
+  } catch {
+    return [];
+  }
+}
+
+function resolveCwd(workspacePath: string, cwd?: string): string {
+  return cwd ? path.resolve(workspacePath, cwd) : workspacePath;
+}
+
+function excerpt(output: string): string {
+  const line = output.split("\n").map((l) => l.trim()).find(Boolean);
+  return line ? `: ${truncate(line)}` : "";
+}
+
+function truncate(text: string, max = 120): string {
+  return text.length > max ? text.slice(0, max - 3) + "..." : text;
+}
@@ -0,0 +1,38 @@
+/**
+ * Preflight Check Registry
+ *
+ * Checks that runPreflightChecks runs: the built-in ones, checks other
+ * modules or extensions register, and the project's own from
+ * .mythatron/preflight.json (see project-checks.ts).
+ */
+
+import * as vscode from "vscode";
+import type { PreflightResult } from "./index";
+
+export interface PreflightCheck {
+  id: string; // unique; project checks can disable built-ins by id
+  name: string; // default category for its results
+  run(workspacePath: string): Promise<PreflightResult[]>;
+  // Custom auto-fix; without one, a result's `fix` runs as a shell command
+  fix?(workspacePath: string, result: PreflightResult): Promise<void>;
+}
+
+const registeredChecks: Map<string, PreflightCheck> = new Map();
+
+/**
+ * Add a check to every preflight run. Registering an id again replaces the
+ * earlier check; disposing removes it.
+ */
+export function registerPreflightCheck(check: PreflightCheck): vscode.Disposable {
+  registeredChecks.set(check.id, check);
+
+  return new vscode.Disposable(() => {
+    if (registeredChecks.get(check.id) === check) {
+      registeredChecks.delete(check.id);
+    }
+  });
+}
+
+export function getRegisteredChecks(): PreflightCheck[] {
+  return Array.from(registeredChecks.values());
+}
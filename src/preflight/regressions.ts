@@ -0,0 +1,595 @@
+/**
+ * Error Regression Tracking
+ *
+ * Ties new errors to the agent edit that introduced them. The tool executor
+ * records each file's content before an agent write; every tool call (and
+ * every committed auto-apply transaction) becomes one edit. When a validator
+ * reports an error it didn't report on its previous run, the error is
+ * attributed to one of the edits made since that run, by the strongest
+ * evidence available:
+ *
+ * 1. line   - the edit wrote the line the error is on
+ * 2. file   - the edit changed the error's file
+ * 3. symbol - the edit changed a line naming a symbol the message quotes
+ * 4. recent - otherwise, the latest edit before the error appeared
+ *
+ * Attributions go back to the model with the next tool results, and the
+ * problems view offers a quick fix that reverts the edit.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { ValidationDiagnostic } from "./validators";
+import { ValidatorUpdate, onDidUpdateValidation, validateFiles, waitForValidation } from "./continuous";
+import { applyHunks, createUnifiedDiff, diffLines, parsePatch, splitLines } from "../tools/diff";
+import { getCheckpointManager } from "../tools/checkpoints";
+
+const MAX_EDITS = 100;
+const MAX_TRACKED_BYTES = 2 * 1024 * 1024;
+const FEEDBACK_WAIT_MS = 15000;
+const MAX_FEEDBACK_ERRORS = 20;
+
+// Quoted words in messages that name types, not something an edit touched
+const NON_SYMBOLS = new Set(["string", "number", "boolean", "any", "unknown", "void", "never", "null", "undefined", "object"]);
+
+export type AttributionEvidence = "line" | "file" | "symbol" | "recent";
+
+interface FileChange {
+  before: string | null; // null: the file didn't exist
+  after: string | null;
+}
+
+export interface AgentEdit {
+  id: string;
+  kind: "tool" | "transaction";
+  label: string; // e.g. "edit_file src/a.ts"
+  toolCallId?: string;
+  startedAt: number;
+  finishedAt: number;
+  files: Map<string, FileChange>; // absolute path -> change
+  reverted: boolean;
+}
+
+export interface Regression {
+  validatorId: string;
+  diagnostic: ValidationDiagnostic; // kept at its current position
+  editId: string;
+  evidence: AttributionEvidence;
+  reported: boolean; // sent to the model
+}
+
+export class RegressionTracker {
+  private edits: AgentEdit[] = [];
+  // The edit of the tool call whose async context is running; tool calls overlap
+  private current = new AsyncLocalStorage<AgentEdit>();
+  private regressions: Regression[] = [];
+  private baselines: Map<string, Map<string, number>> = new Map(); // validator -> error fingerprint counts
+  private lastRunStart: Map<string, number> = new Map();
+  private changeSummaries: WeakMap<FileChange, { added: Set<string>; changedText: string }> = new WeakMap();
+  private nextId = 1;
+
+  constructor(private readonly workspaceRoot: string) {}
+
+  /**
+   * Run one tool call as an edit: everything it writes is attributed to it
+   */
+  async attribute<T>(label: string, toolCallId: string | undefined, run: () => Promise<T>): Promise<T> {
+    const edit = this.begin("tool", label, toolCallId);
+    try {
+      return await this.current.run(edit, run);
+    } finally {
+      this.end(edit);
+    }
+  }
+
+  /**
+   * Note a file's content before an agent changes it. Writes outside a tool
+   * call get an edit of their own.
+   */
+  recordWrite(filePath: string): void {
+    const file = path.resolve(filePath);
+    let edit = this.current.getStore();
+    if (!edit) {
+      const implicit = this.begin("tool", `write ${this.relative(file)}`);
+      setTimeout(() => this.end(implicit), 0);
+      edit = implicit;
+    }
+    if (edit.files.has(file)) return;
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(file);
+    } catch {
+      edit.files.set(file, { before: null, after: null });
+      return;
+    }
+
+    if (stats.isDirectory()) {
+      for (const entry of fs.readdirSync(file)) this.recordWrite(path.join(file, entry));
+      return;
+    }
+    if (stats.size > MAX_TRACKED_BYTES) return;
+
+    edit.files.set(file, { before: readText(file), after: null });
+  }
+
+  /**
+   * Record a committed auto-apply transaction as one edit
+   */
+  recordTransaction(
+    id: string,
+    description: string,
+    changes: Array<{ file: string; before: string | null; after: string | null }>
+  ): void {
+    const now = Date.now();
+    const edit: AgentEdit = {
+      id,
+      kind: "transaction",
+      label: description,
+      startedAt: now,
+      finishedAt: now,
+      files: new Map(
+        changes
+          .filter((change) => change.before !== change.after)
+          .map((change) => [path.resolve(change.file), { before: change.before, after: change.after }])
+      ),
+      reverted: false,
+    };
+    if (edit.files.size === 0) return;
+
+    this.push(edit);
+    validateFiles(Array.from(edit.files.keys()));
+  }
+
+  /**
+   * An edit was undone elsewhere (auto-apply rollback); its errors go with it
+   */
+  markReverted(editId: string): void {
+    const edit = this.edits.find((e) => e.id === editId);
+    if (!edit) return;
+
+    edit.reverted = true;
+    this.regressions = this.regressions.filter((r) => r.editId !== editId);
+  }
+
+  getEdit(editId: string): AgentEdit | undefined {
+    return this.edits.find((e) => e.id === editId);
+  }
+
+  /**
+   * Errors introduced by agent edits that are still there
+   */
+  getRegressions(): Regression[] {
+    return [...this.regressions];
+  }
+
+  /**
+   * The regression behind a diagnostic shown in the editor, if any
+   */
+  findRegression(file: string, line: number, message: string): Regression | undefined {
+    const resolved = path.resolve(file);
+    return this.regressions.find(
+      (r) => r.diagnostic.file === resolved && r.diagnostic.line === line && r.diagnostic.message === message
+    );
+  }
+
+  /**
+   * Compare a validator's errors with its previous run and attribute the new ones
+   */
+  handleValidation(update: ValidatorUpdate): void {
+    const errors = update.diagnostics
+      .filter((d) => d.severity === "error")
+      .map((d) => ({ ...d, file: path.resolve(d.file) }));
+
+    const counts = new Map<string, number>();
+    for (const error of errors) counts.set(fingerprint(error), (counts.get(fingerprint(error)) ?? 0) + 1);
+
+    const previous = this.baselines.get(update.validatorId);
+    const since = this.lastRunStart.get(update.validatorId) ?? 0;
+    this.baselines.set(update.validatorId, counts);
+    this.lastRunStart.set(update.validatorId, update.startedAt);
+
+    this.refresh(update.validatorId, errors);
+
+    // Only edits this run saw and the previous run didn't can have caused its new errors
+    const candidates = this.edits
+      .filter((e) => !e.reverted && e.finishedAt > since && e.startedAt <= update.startedAt)
+      .reverse();
+    if (candidates.length === 0) return;
+
+    const seen = new Map<string, number>();
+    const lines = new Map<string, string[] | null>();
+
+    for (const error of errors) {
+      const key = fingerprint(error);
+      const occurrence = (seen.get(key) ?? 0) + 1;
+      seen.set(key, occurrence);
+      if (occurrence <= (previous?.get(key) ?? 0)) continue;
+
+      const { edit, evidence } = this.attributeError(error, candidates, lines);
+      // Without a previous run to compare with, only errors on lines the edit wrote are surely new
+      if (!previous && evidence !== "line") continue;
+
+      this.regressions.push({
+        validatorId: update.validatorId,
+        diagnostic: error,
+        editId: edit.id,
+        evidence,
+        reported: false,
+      });
+    }
+  }
+
+  /**
+   * Once the given tool calls' edits are validated, describe the new errors
+   * they introduced that the model hasn't been told about yet. null when there
+   * are none.
+   */
+  async collectFeedback(toolCallIds: string[]): Promise<string | null> {
+    const ids = new Set(toolCallIds);
+    const editIds = new Set(
+      this.edits.filter((e) => e.toolCallId !== undefined && ids.has(e.toolCallId)).map((e) => e.id)
+    );
+    if (editIds.size === 0) return null;
+
+    await waitForValidation(FEEDBACK_WAIT_MS);
+
+    const unreported = this.regressions.filter((r) => !r.reported && editIds.has(r.editId));
+    if (unreported.length === 0) return null;
+
+    const byEdit = new Map<string, Regression[]>();
+    for (const regression of unreported) {
+      regression.reported = true;
+      byEdit.set(regression.editId, [...(byEdit.get(regression.editId) ?? []), regression]);
+    }
+
+    const sections: string[] = [];
+    let listed = 0;
+    for (const [editId, regressions] of byEdit) {
+      const edit = this.getEdit(editId)!;
+      const call = edit.toolCallId ? ` (tool call ${edit.toolCallId})` : edit.kind === "transaction" ? " (auto-apply)" : "";
+      const lines = [`${edit.label}${call} introduced ${regressions.length} error${regressions.length === 1 ? "" : "s"}:`];
+
+      for (const regression of regressions) {
+        if (listed++ >= MAX_FEEDBACK_ERRORS) break;
+        const d = regression.diagnostic;
+        const code = d.code ? ` ${d.code}` : "";
+        lines.push(`- ${this.relative(d.file)}:${d.line}:${d.column}${code} ${d.message.split("\n")[0]} [${describeEvidence(regression.evidence)}]`);
+      }
+      sections.push(lines.join("\n"));
+    }
+
+    const more = unreported.length - Math.min(listed, MAX_FEEDBACK_ERRORS);
+    return (
+      "<new_errors>\n" +
+      "Validation after your edits found new errors:\n\n" +
+      sections.join("\n\n") +
+      (more > 0 ? `\n\n...and ${more} more` : "") +
+      "\n\nFix these before moving on, or revert the edit that caused them.\n" +
+      "</new_errors>"
+    );
+  }
+
+  /**
+   * Undo one edit. Files nothing else has touched since go back to their
+   * pre-image; otherwise only the edit's own hunks are reversed. The revert is
+   * checkpointed so it can be undone.
+   */
+  revert(editId: string): { reverted: string[]; conflicts: string[] } {
+    const edit = this.getEdit(editId);
+    if (!edit) throw new Error(`Edit not found: ${editId}`);
+
+    const reverted: string[] = [];
+    const conflicts: string[] = [];
+    const checkpoints = getCheckpointManager();
+    checkpoints.startNext(`Before reverting ${edit.label}`);
+
+    for (const [file, change] of edit.files) {
+      const current = readText(file);
+      let target: string | null | undefined;
+
+      if (current === change.after) {
+        target = change.before;
+      } else if (current === change.before) {
+        reverted.push(this.relative(file)); // already undone
+        continue;
+      } else if (current !== null && change.before !== null && change.after !== null) {
+        // Later writes changed the file too: reverse only this edit's hunks
+        const [patch] = parsePatch(createUnifiedDiff(this.relative(file), this.relative(file), change.after, change.before));
+        const result = patch ? applyHunks(current, patch.hunks) : null;
+        if (result?.ok) target = result.content;
+      }
+
+      if (target === undefined) {
+        conflicts.push(this.relative(file));
+        continue;
+      }
+
+      checkpoints.capture(file);
+      if (target === null) {
+        fs.rmSync(file, { force: true });
+      } else {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, target, "utf-8");
+      }
+      reverted.push(this.relative(file));
+    }
+
+    if (conflicts.length === 0) this.markReverted(editId);
+    validateFiles(Array.from(edit.files.keys()));
+
+    return { reverted, conflicts };
+  }
+
+  private begin(kind: AgentEdit["kind"], label: string, toolCallId?: string): AgentEdit {
+    const edit: AgentEdit = {
+      id: `edit-${this.nextId++}`,
+      kind,
+      label,
+      toolCallId,
+      startedAt: Date.now(),
+      finishedAt: 0,
+      files: new Map(),
+      reverted: false,
+    };
+    return edit;
+  }
+
+  private end(edit: AgentEdit): void {
+    for (const [file, change] of edit.files) {
+      change.after = readText(file);
+      if (change.after === change.before) edit.files.delete(file);
+    }
+    if (edit.files.size === 0) return;
+
+    edit.finishedAt = Date.now();
+    this.push(edit);
+
+    // Agent writes don't fire save events
+    validateFiles(Array.from(edit.files.keys()));
+  }
+
+  private push(edit: AgentEdit): void {
+    this.edits.push(edit);
+    if (this.edits.length > MAX_EDITS) {
+      const dropped = this.edits.shift()!;
+      this.regressions = this.regressions.filter((r) => r.editId !== dropped.id);
+    }
+  }
+
+  /**
+   * Drop regressions whose errors are gone; move the rest to where their errors are now
+   */
+  private refresh(validatorId: string, errors: ValidationDiagnostic[]): void {
+    const current = new Map<string, ValidationDiagnostic[]>();
+    for (const error of errors) {
+      const key = fingerprint(error);
+      current.set(key, [...(current.get(key) ?? []), error]);
+    }
+
+    const tracked = new Map<string, Regression[]>();
+    for (const regression of this.regressions) {
+      if (regression.validatorId !== validatorId) continue;
+      const key = fingerprint(regression.diagnostic);
+      tracked.set(key, [...(tracked.get(key) ?? []), regression]);
+    }
+
+    const fixed = new Set<Regression>();
+    for (const [key, regressions] of tracked) {
+      const remaining = current.get(key) ?? [];
+      // The newest occurrences are the ones the edits added
+      const kept = regressions.slice(0, remaining.length);
+      for (const regression of regressions.slice(remaining.length)) fixed.add(regression);
+      kept.forEach((regression, i) => {
+        regression.diagnostic = remaining[remaining.length - kept.length + i];
+      });
+    }
+
+    if (fixed.size > 0) this.regressions = this.regressions.filter((r) => !fixed.has(r));
+  }
+
+  private attributeError(
+    error: ValidationDiagnostic,
+    candidates: AgentEdit[],
+    lines: Map<string, string[] | null>
+  ): { edit: AgentEdit; evidence: AttributionEvidence } {
+    if (!lines.has(error.file)) {
+      const text = readText(error.file);
+      lines.set(error.file, text === null ? null : text.split(/\r?\n/));
+    }
+    const lineText = lines.get(error.file)?.[error.line - 1]?.trim();
+
+    if (lineText) {
+      for (const edit of candidates) {
+        const change = edit.files.get(error.file);
+        if (change && this.summarize(change).added.has(lineText)) return { edit, evidence: "line" };
+      }
+    }
+
+    const inFile = candidates.find((edit) => edit.files.has(error.file));
+    if (inFile) return { edit: inFile, evidence: "file" };
+
+    const symbols = quotedSymbols(error.message);
+    if (symbols.length > 0) {
+      for (const edit of candidates) {
+        for (const change of edit.files.values()) {
+          const { changedText } = this.summarize(change);
+          if (symbols.some((symbol) => new RegExp(`(^|[^\\w$])${escapeRegExp(symbol)}($|[^\\w$])`, "m").test(changedText))) {
+            return { edit, evidence: "symbol" };
+          }
+        }
+      }
+    }
+
+    return { edit: candidates[0], evidence: "recent" };
+  }
+
+  private summarize(change: FileChange): { added: Set<string>; changedText: string } {
+    let summary = this.changeSummaries.get(change);
+    if (!summary) {
+      const ops = diffLines(splitLines(change.before ?? ""), splitLines(change.after ?? ""));
+      const changed = ops.filter((op) => op.type !== "equal");
+      summary = {
+        added: new Set(changed.filter((op) => op.type === "insert").map((op) => op.line.trim()).filter(Boolean)),
+        changedText: changed.map((op) => op.line).join(""),
+      };
+      this.changeSummaries.set(change, summary);
+    }
+    return summary;
+  }
+
+  private relative(file: string): string {
+    const relative = path.relative(this.workspaceRoot, file);
+    return relative.startsWith("..") || path.isAbsolute(relative) ? file : relative;
+  }
+}
+
+/**
+ * Short label for a tool call: its name and the paths it writes
+ */
+export function describeToolCall(name: string, input: Record<string, unknown>): string {
+  const targets = [input.path, input.old_path, input.destination]
+    .concat(Array.isArray(input.edits) ? input.edits.map((edit: { path?: unknown }) => edit.path) : [])
+    .filter((target): target is string => typeof target === "string");
+
+  const unique = Array.from(new Set(targets));
+  if (unique.length === 0) return name;
+  return `${name} ${unique.slice(0, 3).join(", ")}${unique.length > 3 ? ` +${unique.length - 3}` : ""}`;
+}
+
+// Line numbers shift as files change; the same error keeps its file, code and message
+function fingerprint(diagnostic: ValidationDiagnostic): string {
+  return `${diagnostic.file}\0${diagnostic.code ?? ""}\0${diagnostic.message}`;
+}
+
+function quotedSymbols(message: string): string[] {
+  const symbols = new Set<string>();
+  for (const match of message.matchAll(/['"`‘“]([^'"`’”\s]+)['"`’”]/g)) {
+    for (const part of match[1].split(/[^\w$]+/)) {
+      if (/^[A-Za-z_$][\w$]+$/.test(part) && !NON_SYMBOLS.has(part)) symbols.add(part);
+    }
+  }
+  return Array.from(symbols);
+}
+
+function describeEvidence(evidence: AttributionEvidence): string {
+  switch (evidence) {
+    case "line": return "on a line this edit wrote";
+    case "file": return "in a file this edit changed";
+    case "symbol": return "names a symbol this edit changed";
+    case "recent": return "appeared right after this edit";
+  }
+}
+
+function readText(file: string): string | null {
+  try {
+    return fs.readFileSync(file, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// ============================================
+// PROBLEMS VIEW
+// ============================================
+
+/**
+ * Track validation results and offer "revert the edit that broke this" on attributed errors
+ */
+export function initRegressionTracking(context: vscode.ExtensionContext): void {
+  const tracker = getRegressionTracker();
+
+  context.subscriptions.push(
+    onDidUpdateValidation((update) => tracker.handleValidation(update)),
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: "file" },
+      new RevertEditActionProvider(),
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    ),
+    vscode.commands.registerCommand("mythaTron.revertBreakingEdit", (editId?: string) => revertBreakingEdit(editId))
+  );
+}
+
+class RevertEditActionProvider implements vscode.CodeActionProvider {
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const tracker = getRegressionTracker();
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      const regression = tracker.findRegression(document.uri.fsPath, diagnostic.range.start.line + 1, diagnostic.message);
+      const edit = regression && tracker.getEdit(regression.editId);
+      if (!edit) continue;
+
+      const action = new vscode.CodeAction(`Revert "${edit.label}" (introduced this error)`, vscode.CodeActionKind.QuickFix);
+      action.command = {
+        command: "mythaTron.revertBreakingEdit",
+        title: action.title,
+        arguments: [edit.id],
+      };
+      action.diagnostics = [diagnostic];
+      actions.push(action);
+    }
+
+    return actions;
+  }
+}
+
+async function revertBreakingEdit(editId?: string): Promise<void> {
+  const tracker = getRegressionTracker();
+
+  if (!editId) {
+    const byEdit = new Map<string, Regression[]>();
+    for (const regression of tracker.getRegressions()) {
+      byEdit.set(regression.editId, [...(byEdit.get(regression.editId) ?? []), regression]);
+    }
+    if (byEdit.size === 0) {
+      vscode.window.showInformationMessage("No errors have been traced to agent edits");
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      Array.from(byEdit, ([id, regressions]) => ({
+        label: tracker.getEdit(id)!.label,
+        description: `${regressions.length} new error${regressions.length === 1 ? "" : "s"}`,
+        detail: regressions[0].diagnostic.message.split("\n")[0],
+        id,
+      })).reverse(),
+      { placeHolder: "Revert the edit that introduced errors" }
+    );
+    if (!picked) return;
+    editId = picked.id;
+  }
+
+  const edit = tracker.getEdit(editId);
+  if (!edit) return;
+
+  const { reverted, conflicts } = tracker.revert(editId);
+  if (conflicts.length > 0) {
+    vscode.window.showWarningMessage(
+      `Reverted ${reverted.length} file(s) of "${edit.label}". ` +
+        `Could not revert ${conflicts.join(", ")}: later changes conflict with the edit. Use MythaTron: Show Checkpoints to restore them.`
+    );
+  } else {
+    vscode.window.showInformationMessage(`Reverted "${edit.label}" (${reverted.join(", ")})`);
+  }
+}
+
+// Singleton
+let tracker: RegressionTracker | null = null;
+
+export function getRegressionTracker(): RegressionTracker {
+  if (!tracker) {
+    tracker = new RegressionTracker(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd());
+  }
+  return tracker;
+}
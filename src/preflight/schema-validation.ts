@@ -0,0 +1,632 @@
+/**
+ * Schema Validation - JSON and YAML documents checked against JSON Schema
+ *
+ * Small position-aware parsers (JSON with optional comments, and the block
+ * and flow YAML that config files use) build a node tree, so both syntax and
+ * schema problems point at the exact value. The schema support covers the
+ * keywords config schemas lean on: type, enum, const, required, properties,
+ * patternProperties, additionalProperties, items, min/max bounds, pattern,
+ * anyOf/oneOf/allOf and local $ref.
+ */
+
+export interface DocNode {
+  kind: "object" | "array" | "string" | "number" | "boolean" | "null";
+  value?: string | number | boolean | null;
+  offset: number;
+  length: number;
+  properties?: Array<{ key: string; keyNode: DocNode; value: DocNode }>;
+  items?: DocNode[];
+}
+
+export interface DocProblem {
+  offset: number;
+  length: number;
+  message: string;
+}
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  patternProperties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema | JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+// ============================================
+// JSON
+// ============================================
+
+/**
+ * Parse JSON into a node tree. With allowComments, also accepts the comments
+ * and trailing commas of JSONC files (tsconfig.json, .vscode/*.json).
+ */
+export function parseJsonTree(text: string, allowComments = false): { root?: DocNode; problems: DocProblem[] } {
+  const problems: DocProblem[] = [];
+  let pos = 0;
+
+  const fail = (message: string, length = 1): never => {
+    problems.push({ offset: Math.min(pos, text.length), length, message });
+    throw new SyntaxError(message);
+  };
+
+  const skip = (): void => {
+    while (pos < text.length) {
+      const c = text[pos];
+      if (c === " " || c === "\t" || c === "\n" || c === "\r" || c === "\uFEFF") {
+        pos++;
+      } else if (c === "/" && text[pos + 1] === "/") {
+        if (!allowComments) fail("Comments are not allowed in JSON", 2);
+        while (pos < text.length && text[pos] !== "\n") pos++;
+      } else if (c === "/" && text[pos + 1] === "*") {
+        if (!allowComments) fail("Comments are not allowed in JSON", 2);
+        const end = text.indexOf("*/", pos + 2);
+        if (end < 0) fail("Unterminated comment", 2);
+        pos = end + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const parseString = (): DocNode => {
+    const start = pos++;
+    let value = "";
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === "\n") fail("Unterminated string");
+      if (text[pos] === "\\") {
+        const escape = text[pos + 1];
+        const simple: Record<string, string> = { '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+        if (escape === "u" && /^[0-9a-fA-F]{4}$/.test(text.slice(pos + 2, pos + 6))) {
+          value += String.fromCharCode(parseInt(text.slice(pos + 2, pos + 6), 16));
+          pos += 6;
+        } else if (escape in simple) {
+          value += simple[escape];
+          pos += 2;
+        } else {
+          fail("Invalid escape sequence", 2);
+        }
+      } else {
+        value += text[pos++];
+      }
+    }
+    if (pos >= text.length) {
+      pos = start;
+      fail("Unterminated string");
+    }
+    pos++;
+    return { kind: "string", value, offset: start, length: pos - start };
+  };
+
+  const parseValue = (): DocNode => {
+    skip();
+    const start = pos;
+    const c = text[pos];
+
+    if (c === "{") {
+      pos++;
+      const properties: NonNullable<DocNode["properties"]> = [];
+      skip();
+      while (text[pos] !== "}") {
+        if (pos >= text.length) fail("Expected '}'");
+        if (text[pos] !== '"') fail("Expected a property name in double quotes");
+        const keyNode = parseString();
+        if (properties.some((p) => p.key === keyNode.value)) {
+          problems.push({ offset: keyNode.offset, length: keyNode.length, message: `Duplicate key "${keyNode.value}"` });
+        }
+        skip();
+        if (text[pos] !== ":") fail("Expected ':'");
+        pos++;
+        properties.push({ key: keyNode.value as string, keyNode, value: parseValue() });
+        skip();
+        if (text[pos] === ",") {
+          pos++;
+          skip();
+          if (text[pos] === "}" && !allowComments) fail("Trailing comma");
+        } else if (text[pos] !== "}") {
+          fail("Expected ',' or '}'");
+        }
+      }
+      pos++;
+      return { kind: "object", offset: start, length: pos - start, properties };
+    }
+
+    if (c === "[") {
+      pos++;
+      const items: DocNode[] = [];
+      skip();
+      while (text[pos] !== "]") {
+        if (pos >= text.length) fail("Expected ']'");
+        items.push(parseValue());
+        skip();
+        if (text[pos] === ",") {
+          pos++;
+          skip();
+          if (text[pos] === "]" && !allowComments) fail("Trailing comma");
+        } else if (text[pos] !== "]") {
+          fail("Expected ',' or ']'");
+        }
+      }
+      pos++;
+      return { kind: "array", offset: start, length: pos - start, items };
+    }
+
+    if (c === '"') return parseString();
+
+    const literal = text.slice(pos).match(/^(-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?|true|false|null)/);
+    if (!literal) fail(pos >= text.length ? "Unexpected end of file" : `Unexpected character '${c}'`);
+    pos += literal![0].length;
+    return scalarNode(literal![0], start, true);
+  };
+
+  try {
+    const root = parseValue();
+    skip();
+    if (pos < text.length) fail("Unexpected content after the end of the document");
+    return { root, problems };
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    return { problems };
+  }
+}
+
+// ============================================
+// YAML
+// ============================================
+
+interface YamlLine {
+  indent: number;
+  offset: number; // of the first content character
+  text: string; // content without indentation and trailing comment
+  raw: string;
+  lineStart: number;
+}
+
+/**
+ * Parse the common YAML subset: block mappings and sequences, plain and quoted
+ * scalars, single-line flow collections, block scalars (| and >), comments and
+ * multiple documents. Anchors, aliases and tags are accepted but not resolved.
+ */
+export function parseYamlTree(text: string): { documents: DocNode[]; problems: DocProblem[] } {
+  const problems: DocProblem[] = [];
+  const documents: DocNode[] = [];
+
+  let current: YamlLine[] = [];
+  let offset = 0;
+  const flush = () => {
+    if (current.length > 0) {
+      try {
+        const parser = new YamlBlockParser(current, problems);
+        documents.push(parser.parseDocument());
+      } catch (error) {
+        if (!(error instanceof SyntaxError)) throw error;
+      }
+    }
+    current = [];
+  };
+
+  for (const raw of text.split("\n")) {
+    const lineStart = offset;
+    offset += raw.length + 1;
+    const line = raw.replace(/\r$/, "");
+
+    if (/^(---|\.\.\.)(\s|$)/.test(line)) {
+      flush();
+      continue;
+    }
+    if (/^%/.test(line)) continue; // directives
+
+    const tab = line.match(/^ *\t/);
+    if (tab && line.trim()) {
+      problems.push({ offset: lineStart + tab[0].length - 1, length: 1, message: "Tabs are not allowed in YAML indentation" });
+      continue;
+    }
+
+    const content = stripYamlComment(line);
+    if (!content.trim()) continue;
+
+    const indent = content.match(/^ */)![0].length;
+    current.push({ indent, offset: lineStart + indent, text: content.trim(), raw: line, lineStart });
+  }
+  flush();
+
+  return { documents, problems };
+}
+
+class YamlBlockParser {
+  private index = 0;
+
+  constructor(private lines: YamlLine[], private problems: DocProblem[]) {}
+
+  parseDocument(): DocNode {
+    const node = this.parseBlock(this.lines[0].indent);
+    if (this.index < this.lines.length) {
+      this.fail(this.lines[this.index], "Unexpected indentation");
+    }
+    return node;
+  }
+
+  private parseBlock(indent: number): DocNode {
+    const line = this.lines[this.index];
+    if (line.text.startsWith("- ") || line.text === "-") return this.parseSequence(indent);
+    if (splitMappingKey(line.text)) return this.parseMapping(indent);
+
+    // A lone scalar, possibly continued on more-indented lines
+    this.index++;
+    let textValue = line.text;
+    while (this.index < this.lines.length && this.lines[this.index].indent > indent) {
+      textValue += " " + this.lines[this.index++].text;
+    }
+    return this.parseInline(textValue, line.offset, line);
+  }
+
+  private parseMapping(indent: number): DocNode {
+    const start = this.lines[this.index].offset;
+    const properties: NonNullable<DocNode["properties"]> = [];
+    let end = start;
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) this.fail(line, "Unexpected indentation");
+
+      const entry = splitMappingKey(line.text);
+      if (!entry) {
+        if (line.text.startsWith("- ")) this.fail(line, "A sequence item cannot appear in a mapping at this indentation");
+        this.fail(line, "Expected a 'key: value' mapping entry");
+      }
+
+      const key = unquote(entry!.key);
+      const keyNode: DocNode = { kind: "string", value: key, offset: line.offset, length: entry!.key.length };
+      if (properties.some((p) => p.key === key)) {
+        this.problems.push({ offset: keyNode.offset, length: keyNode.length, message: `Duplicate key "${key}"` });
+      }
+
+      this.index++;
+      const value = this.parseValueAfter(entry!.rest, line.offset + line.text.length - entry!.rest.length, indent, line);
+      properties.push({ key, keyNode, value });
+      end = value.offset + value.length;
+    }
+
+    return { kind: "object", offset: start, length: end - start, properties };
+  }
+
+  private parseSequence(indent: number): DocNode {
+    const start = this.lines[this.index].offset;
+    const items: DocNode[] = [];
+    let end = start;
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) this.fail(line, "Unexpected indentation");
+      if (!(line.text.startsWith("- ") || line.text === "-")) break;
+
+      const rest = line.text.slice(1).trimStart();
+      const restOffset = line.offset + line.text.length - rest.length;
+
+      let item: DocNode;
+      if (rest && (splitMappingKey(rest) || rest.startsWith("- "))) {
+        // "- key: value" starts a mapping (or nested sequence) indented at the item's content
+        this.lines[this.index] = { ...line, indent: restOffset - line.lineStart, offset: restOffset, text: rest };
+        item = this.parseBlock(restOffset - line.lineStart);
+      } else {
+        this.index++;
+        item = this.parseValueAfter(rest, restOffset, indent, line);
+      }
+
+      items.push(item);
+      end = item.offset + item.length;
+    }
+
+    return { kind: "array", offset: start, length: end - start, items };
+  }
+
+  /**
+   * The value of a mapping entry or sequence item: inline, a block scalar, or a nested block
+   */
+  private parseValueAfter(rest: string, restOffset: number, parentIndent: number, line: YamlLine): DocNode {
+    const value = rest.replace(/^(&\S+|!\S*)\s*/, "").replace(/^(&\S+|!\S*)\s*/, "");
+    const valueOffset = restOffset + rest.length - value.length;
+
+    if (/^[|>][+-]?\d*$/.test(value)) return this.parseBlockScalar(value, valueOffset, parentIndent);
+
+    if (value) {
+      // Plain scalars may continue on more-indented lines
+      let textValue = value;
+      if (!/^["'[{]/.test(value)) {
+        while (this.index < this.lines.length && this.lines[this.index].indent > parentIndent && !splitMappingKey(this.lines[this.index].text)) {
+          textValue += " " + this.lines[this.index++].text;
+        }
+      }
+      return this.parseInline(textValue, valueOffset, line);
+    }
+
+    const next = this.lines[this.index];
+    if (next && (next.indent > parentIndent || (next.indent === parentIndent && next.text.startsWith("- ") && splitMappingKey(line.text)))) {
+      return this.parseBlock(next.indent);
+    }
+    return { kind: "null", value: null, offset: restOffset, length: 0 };
+  }
+
+  private parseBlockScalar(header: string, offset: number, parentIndent: number): DocNode {
+    let end = offset + header.length;
+    const parts: string[] = [];
+
+    // Block scalar lines keep their text (comments are content), so use the raw lines
+    while (this.index < this.lines.length && this.lines[this.index].indent > parentIndent) {
+      const line = this.lines[this.index++];
+      parts.push(line.raw.trim());
+      end = line.lineStart + line.raw.length;
+    }
+
+    const value = header.startsWith("|") ? parts.join("\n") : parts.join(" ");
+    return { kind: "string", value, offset, length: Math.max(end - offset, header.length) };
+  }
+
+  private parseInline(value: string, offset: number, line: YamlLine): DocNode {
+    if (value.startsWith("[") || value.startsWith("{")) {
+      // Flow collections are close enough to JSON once plain scalars are quoted
+      const { root, problems } = parseJsonTree(flowToJson(value), true);
+      if (!root) {
+        this.problems.push({ offset, length: value.length, message: `Invalid flow collection: ${problems[0]?.message ?? "syntax error"}` });
+        return { kind: "null", value: null, offset, length: value.length };
+      }
+      return shiftNode(root, offset, value.length);
+    }
+
+    if (value.startsWith('"') || value.startsWith("'")) {
+      const quote = value[0];
+      if (value.length < 2 || !value.endsWith(quote)) {
+        this.fail(line, "Unterminated quoted string");
+      }
+      const inner = value.slice(1, -1);
+      const text = quote === '"' ? inner.replace(/\\n/g, "\n").replace(/\\t/g, "\t").replace(/\\(["\\])/g, "$1") : inner.replace(/''/g, "'");
+      return { kind: "string", value: text, offset, length: value.length };
+    }
+
+    if (value.startsWith("*")) {
+      // Aliases aren't resolved; treat as unknown
+      return { kind: "null", value: null, offset, length: value.length };
+    }
+
+    return scalarNode(value, offset, false);
+  }
+
+  private fail(line: YamlLine, message: string): never {
+    this.problems.push({ offset: line.offset, length: Math.max(1, line.text.length), message });
+    throw new SyntaxError(message);
+  }
+}
+
+/**
+ * "key: value" -> { key, rest }. Keys may be quoted; colons inside quotes or URLs don't count.
+ */
+function splitMappingKey(text: string): { key: string; rest: string } | null {
+  const quoted = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(\s+|$)/);
+  if (quoted) return { key: quoted[1], rest: text.slice(quoted[0].length).trim() };
+  if (/^[[{"'|>*&!-]/.test(text) && !/^-\S/.test(text)) return null;
+
+  const match = text.match(/^([^#]*?)\s*:(\s+|$)/);
+  if (!match || !match[1]) return null;
+  return { key: match[1], rest: text.slice(match[0].length).trim() };
+}
+
+function stripYamlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i).trimEnd();
+    }
+  }
+  return line.trimEnd();
+}
+
+function unquote(key: string): string {
+  if (key.startsWith('"') && key.endsWith('"')) return key.slice(1, -1);
+  if (key.startsWith("'") && key.endsWith("'")) return key.slice(1, -1).replace(/''/g, "'");
+  return key;
+}
+
+/**
+ * Quote the plain scalars in a YAML flow collection so the JSON parser accepts it
+ */
+function flowToJson(flow: string): string {
+  return flow
+    .replace(/'((?:[^']|'')*)'/g, (_, s: string) => JSON.stringify(s.replace(/''/g, "'")))
+    .replace(/([[{,:]\s*)([^\s"[\]{},:][^,\]}:]*?)(?=\s*[,\]}:])/g, (match, before: string, word: string) => {
+      const trimmed = word.trim();
+      if (/^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)$/.test(trimmed)) return before + trimmed;
+      return before + JSON.stringify(trimmed);
+    });
+}
+
+/**
+ * Flow collections are parsed from a rewritten string; pin their nodes to the original span
+ */
+function shiftNode(node: DocNode, offset: number, length: number): DocNode {
+  const shifted: DocNode = { ...node, offset, length };
+  if (node.properties) {
+    shifted.properties = node.properties.map((p) => ({
+      key: p.key,
+      keyNode: { ...p.keyNode, offset, length },
+      value: shiftNode(p.value, offset, length),
+    }));
+  }
+  if (node.items) shifted.items = node.items.map((item) => shiftNode(item, offset, length));
+  return shifted;
+}
+
+function scalarNode(text: string, offset: number, strict: boolean): DocNode {
+  const length = text.length;
+  if (text === "true" || (!strict && /^(True|TRUE)$/.test(text))) return { kind: "boolean", value: true, offset, length };
+  if (text === "false" || (!strict && /^(False|FALSE)$/.test(text))) return { kind: "boolean", value: false, offset, length };
+  if (text === "null" || (!strict && /^(~|Null|NULL)$/.test(text))) return { kind: "null", value: null, offset, length };
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(text) || (!strict && /^[-+]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(text))) {
+    return { kind: "number", value: Number(text), offset, length };
+  }
+  return { kind: "string", value: text, offset, length };
+}
+
+// ============================================
+// SCHEMA
+// ============================================
+
+/**
+ * Problems with a document against a schema, pinned to the offending nodes
+ */
+export function validateAgainstSchema(root: DocNode, schema: JsonSchema): DocProblem[] {
+  const problems: DocProblem[] = [];
+  validateNode(root, schema, schema, problems);
+  return problems;
+}
+
+function validateNode(node: DocNode, schema: JsonSchema, rootSchema: JsonSchema, problems: DocProblem[]): void {
+  const report = (message: string, at: DocNode = node) => problems.push({ offset: at.offset, length: Math.max(1, at.length), message });
+
+  if (schema.$ref) {
+    const target = resolveRef(schema.$ref, rootSchema);
+    if (target) validateNode(node, target, rootSchema, problems);
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = node.kind === "number" && Number.isInteger(node.value) ? ["number", "integer"] : [node.kind];
+    if (!types.some((t) => actual.includes(t))) {
+      report(`Incorrect type. Expected ${types.join(" or ")}, got ${node.kind}`);
+      return;
+    }
+  }
+
+  const plain = toPlain(node);
+  if (schema.enum && !schema.enum.some((option) => deepEqual(option, plain))) {
+    report(`Value is not accepted. Valid values: ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, plain)) {
+    report(`Value must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (node.kind === "string" && typeof node.value === "string") {
+    if (schema.minLength !== undefined && node.value.length < schema.minLength) report(`String is shorter than ${schema.minLength}`);
+    if (schema.maxLength !== undefined && node.value.length > schema.maxLength) report(`String is longer than ${schema.maxLength}`);
+    if (schema.pattern && !safeRegExp(schema.pattern)?.test(node.value)) report(`String does not match the pattern ${schema.pattern}`);
+  }
+
+  if (node.kind === "number" && typeof node.value === "number") {
+    if (schema.minimum !== undefined && node.value < schema.minimum) report(`Value is below the minimum of ${schema.minimum}`);
+    if (schema.maximum !== undefined && node.value > schema.maximum) report(`Value is above the maximum of ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && node.value <= schema.exclusiveMinimum) report(`Value must be greater than ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && node.value >= schema.exclusiveMaximum) report(`Value must be less than ${schema.exclusiveMaximum}`);
+  }
+
+  if (node.kind === "object" && node.properties) {
+    for (const required of schema.required ?? []) {
+      if (!node.properties.some((p) => p.key === required)) report(`Missing property "${required}"`, { ...node, length: 1 });
+    }
+
+    for (const property of node.properties) {
+      let matched = false;
+      const propertySchema = schema.properties?.[property.key];
+      if (propertySchema) {
+        matched = true;
+        validateNode(property.value, propertySchema, rootSchema, problems);
+      }
+      for (const [pattern, patternSchema] of Object.entries(schema.patternProperties ?? {})) {
+        if (safeRegExp(pattern)?.test(property.key)) {
+          matched = true;
+          validateNode(property.value, patternSchema, rootSchema, problems);
+        }
+      }
+      if (!matched && schema.additionalProperties === false) {
+        report(`Property "${property.key}" is not allowed`, property.keyNode);
+      } else if (!matched && typeof schema.additionalProperties === "object") {
+        validateNode(property.value, schema.additionalProperties, rootSchema, problems);
+      }
+    }
+  }
+
+  if (node.kind === "array" && node.items) {
+    if (schema.minItems !== undefined && node.items.length < schema.minItems) report(`Array has fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && node.items.length > schema.maxItems) report(`Array has more than ${schema.maxItems} items`);
+    if (schema.uniqueItems) {
+      const seen = node.items.map((item) => JSON.stringify(toPlain(item)));
+      node.items.forEach((item, i) => {
+        if (seen.indexOf(seen[i]) !== i) report("Array has duplicate items", item);
+      });
+    }
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((itemSchema, i) => node.items![i] && validateNode(node.items![i], itemSchema, rootSchema, problems));
+    } else if (schema.items) {
+      for (const item of node.items) validateNode(item, schema.items, rootSchema, problems);
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) validateNode(node, sub, rootSchema, problems);
+
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives) {
+    const matching = alternatives.filter((sub) => {
+      const subProblems: DocProblem[] = [];
+      validateNode(node, sub, rootSchema, subProblems);
+      return subProblems.length === 0;
+    }).length;
+
+    if (matching === 0) report("Value does not match any of the allowed schemas");
+    else if (schema.oneOf && matching > 1) report("Value matches more than one of the allowed schemas");
+  }
+}
+
+function resolveRef(ref: string, rootSchema: JsonSchema): JsonSchema | undefined {
+  if (!ref.startsWith("#")) return undefined; // remote refs aren't fetched
+  let target: unknown = rootSchema;
+  for (const part of ref.slice(1).split("/").filter(Boolean)) {
+    target = (target as Record<string, unknown> | undefined)?.[decodeURIComponent(part.replace(/~1/g, "/").replace(/~0/g, "~"))];
+  }
+  return target as JsonSchema | undefined;
+}
+
+/**
+ * Node tree to plain values, for enum/const comparison and $schema lookups
+ */
+export function toPlain(node: DocNode): unknown {
+  if (node.kind === "object") return Object.fromEntries((node.properties ?? []).map((p) => [p.key, toPlain(p.value)]));
+  if (node.kind === "array") return (node.items ?? []).map(toPlain);
+  return node.value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, "u");
+  } catch {
+    return null;
+  }
+}
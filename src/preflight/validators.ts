@@ -0,0 +1,81 @@
+/**
+ * Validator Registry
+ *
+ * Validators that continuous validation runs when matching files are saved:
+ * the built-ins (see builtin-validators.ts) and any other module or extension
+ * registers. Each validator declares the files it cares about as workspace
+ * globs and reports diagnostics with ranges.
+ */
+
+import * as vscode from "vscode";
+import { globToRegExp } from "../terminal/policy";
+
+export type ValidationSeverity = "error" | "warning" | "info";
+
+export interface ValidationDiagnostic {
+  file: string; // absolute path
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine?: number;
+  endColumn?: number; // exclusive; defaults to the end of the word at line:column
+  message: string;
+  code?: string;
+  severity: ValidationSeverity;
+}
+
+export interface ValidatorRun {
+  workspacePath: string;
+  // Saved files that triggered the run (absolute); empty for a full run
+  files: string[];
+  signal: AbortSignal;
+}
+
+export interface Validator {
+  id: string; // unique; mythaTron.disabledValidators disables by id
+  name: string; // diagnostic source
+  patterns: string[]; // workspace-relative globs, e.g. "**/*.py"
+  // "project" results replace all of the validator's diagnostics; "file" results only the checked files'
+  scope: "project" | "file";
+  debounceMs?: number;
+  isAvailable?(workspacePath: string): boolean | Promise<boolean>;
+  run(run: ValidatorRun): Promise<ValidationDiagnostic[]>;
+}
+
+const registeredValidators: Map<string, Validator> = new Map();
+const patternCache: Map<string, RegExp> = new Map();
+
+/**
+ * Run a validator on saves of matching files. Registering an id again
+ * replaces the earlier validator (built-ins included); disposing removes it.
+ */
+export function registerValidator(validator: Validator): vscode.Disposable {
+  registeredValidators.set(validator.id, validator);
+
+  return new vscode.Disposable(() => {
+    if (registeredValidators.get(validator.id) === validator) {
+      registeredValidators.delete(validator.id);
+    }
+  });
+}
+
+export function getRegisteredValidators(): Validator[] {
+  return Array.from(registeredValidators.values());
+}
+
+/**
+ * Whether a workspace-relative path matches one of the validator's globs.
+ * A glob without a slash matches the file name in any directory.
+ */
+export function validatorMatches(validator: Validator, relativePath: string): boolean {
+  return validator.patterns.some((pattern) => matchesGlob(pattern, relativePath));
+}
+
+export function matchesGlob(pattern: string, relativePath: string): boolean {
+  const normalized = relativePath.replace(/\\/g, "/");
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = globToRegExp(pattern);
+    patternCache.set(pattern, regex);
+  }
+  return regex.test(pattern.includes("/") ? normalized : normalized.slice(normalized.lastIndexOf("/") + 1));
+}
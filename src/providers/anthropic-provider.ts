@@ -12,7 +12,9 @@ import type {
   StreamChunk,
   ToolDefinition,
   MODEL_PRICING,
+  Message,
 } from "./types";
+import { getContentBlocks, getMessageText } from "./types";
 
 export class AnthropicProvider implements LLMProvider {
   readonly type = "anthropic" as const;
@@ -26,7 +28,8 @@ export class AnthropicProvider implements LLMProvider {
     }
     
     this.model = config.model;
-    this.client = new Anthropic({ apiKey: config.apiKey });
+    // Retries are handled by ProviderManager so fallbacks see every failure
+    this.client = new Anthropic({ apiKey: config.apiKey, maxRetries: 0 });
     
     // Get pricing or default to Sonnet pricing
     const { MODEL_PRICING } = require("./types");
@@ -54,24 +57,70 @@ export class AnthropicProvider implements LLMProvider {
     );
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    const messages = request.messages
-      .filter((m) => m.role !== "system")
-      .map((m) => ({
-        role: m.role as "user" | "assistant",
-        content: m.content,
-      }));
+  /**
+   * Map unified messages to Anthropic content blocks
+   */
+  private convertMessages(messages: Message[]): {
+    system?: string;
+    messages: Anthropic.MessageParam[];
+  } {
+    const systemMessage = messages.find((m) => m.role === "system");
+    const converted: Anthropic.MessageParam[] = [];
+
+    for (const message of messages) {
+      if (message.role === "system") continue;
+
+      if (typeof message.content === "string" && !message.toolCalls?.length) {
+        converted.push({ role: message.role, content: message.content });
+        continue;
+      }
 
-    const systemMessage = request.messages.find((m) => m.role === "system");
+      const content = getContentBlocks(message).map(
+        (block): Exclude<Anthropic.MessageParam["content"], string>[number] => {
+          switch (block.type) {
+            case "text":
+              return { type: "text", text: block.text };
+            case "tool_use":
+              return { type: "tool_use", id: block.id, name: block.name, input: block.input };
+            case "tool_result":
+              return {
+                type: "tool_result",
+                tool_use_id: block.toolUseId,
+                content: block.content,
+                is_error: block.isError,
+              };
+            case "image":
+              return {
+                type: "image",
+                source: { type: "base64", media_type: block.mediaType, data: block.data },
+              };
+          }
+        }
+      );
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: request.maxTokens || 8192,
-      temperature: request.temperature ?? 0,
-      system: systemMessage?.content,
-      messages,
-      tools: request.tools as Anthropic.Tool[],
-    });
+      converted.push({ role: message.role, content });
+    }
+
+    return {
+      system: systemMessage ? getMessageText(systemMessage.content) : undefined,
+      messages: converted,
+    };
+  }
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+    const { system, messages } = this.convertMessages(request.messages);
+
+    const response = await this.client.messages.create(
+      {
+        model: this.model,
+        max_tokens: request.maxTokens || 8192,
+        temperature: request.temperature ?? 0,
+        system,
+        messages,
+        tools: request.tools as Anthropic.Tool[],
+      },
+      { signal }
+    );
 
     // Extract content
     let content = "";
@@ -111,25 +160,22 @@ export class AnthropicProvider implements LLMProvider {
 
   async stream(
     request: CompletionRequest,
-    onChunk: (chunk: StreamChunk) => void
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
   ): Promise<CompletionResponse> {
-    const messages = request.messages
-      .filter((m) => m.role !== "system")
-      .map((m) => ({
-        role: m.role as "user" | "assistant",
-        content: m.content,
-      }));
+    const { system, messages } = this.convertMessages(request.messages);
 
-    const systemMessage = request.messages.find((m) => m.role === "system");
-
-    const stream = this.client.messages.stream({
-      model: this.model,
-      max_tokens: request.maxTokens || 8192,
-      temperature: request.temperature ?? 0,
-      system: systemMessage?.content,
-      messages,
-      tools: request.tools as Anthropic.Tool[],
-    });
+    const stream = this.client.messages.stream(
+      {
+        model: this.model,
+        max_tokens: request.maxTokens || 8192,
+        temperature: request.temperature ?? 0,
+        system,
+        messages,
+        tools: request.tools as Anthropic.Tool[],
+      },
+      { signal }
+    );
 
     let content = "";
     const toolCalls: { id: string; name: string; input: Record<string, unknown> }[] = [];
@@ -12,6 +12,8 @@ import type {
   StreamChunk,
   ToolCall,
 } from "./types";
+import { toOpenAIMessages } from "./openai-format";
+import { ProviderError } from "./resilience";
 
 export class GroqProvider implements LLMProvider {
   readonly type = "groq" as const;
@@ -51,7 +53,7 @@ export class GroqProvider implements LLMProvider {
     );
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
     const tools = request.tools?.map((tool) => ({
       type: "function" as const,
       function: {
@@ -63,13 +65,14 @@ export class GroqProvider implements LLMProvider {
 
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: "POST",
+      signal,
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify({
         model: this.model,
-        messages: request.messages,
+        messages: toOpenAIMessages(request.messages),
         max_tokens: request.maxTokens || 8192,
         temperature: request.temperature ?? 0,
         tools: tools && tools.length > 0 ? tools : undefined,
@@ -77,8 +80,7 @@ export class GroqProvider implements LLMProvider {
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Groq API error: ${error}`);
+      throw await ProviderError.fromResponse(response, "Groq API error");
     }
 
     const data = await response.json() as {
@@ -120,7 +122,8 @@ export class GroqProvider implements LLMProvider {
 
   async stream(
     request: CompletionRequest,
-    onChunk: (chunk: StreamChunk) => void
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
   ): Promise<CompletionResponse> {
     const tools = request.tools?.map((tool) => ({
       type: "function" as const,
@@ -133,13 +136,14 @@ export class GroqProvider implements LLMProvider {
 
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: "POST",
+      signal,
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify({
         model: this.model,
-        messages: request.messages,
+        messages: toOpenAIMessages(request.messages),
         max_tokens: request.maxTokens || 8192,
         temperature: request.temperature ?? 0,
         tools: tools && tools.length > 0 ? tools : undefined,
@@ -148,8 +152,7 @@ export class GroqProvider implements LLMProvider {
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Groq API error: ${error}`);
+      throw await ProviderError.fromResponse(response, "Groq API error");
     }
 
     const reader = response.body?.getReader();
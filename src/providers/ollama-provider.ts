@@ -12,12 +12,29 @@ import type {
   StreamChunk,
   ToolCall,
 } from "./types";
+import { getContentBlocks, getMessageText } from "./types";
+import { ProviderError, parseRetryAfter } from "./resilience";
+
+interface OllamaMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  images?: string[];
+  tool_calls?: { function: { name: string; arguments: Record<string, unknown> } }[];
+  tool_name?: string;
+}
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> | string };
+}
 
 export class OllamaProvider implements LLMProvider {
   readonly type = "ollama" as const;
   readonly model: string;
   private baseUrl: string;
 
+  // Flipped off the first time the model rejects the tools parameter
+  private nativeTools = true;
+
   constructor(config: ProviderConfig) {
     this.model = config.model;
     this.baseUrl = config.baseUrl || "http://localhost:11434";
@@ -46,6 +63,19 @@ export class OllamaProvider implements LLMProvider {
     return 0;
   }
 
+  private convertTools(tools?: CompletionRequest["tools"]) {
+    if (!tools || tools.length === 0) return undefined;
+
+    return tools.map((tool) => ({
+      type: "function" as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema,
+      },
+    }));
+  }
+
   private convertToolsToPrompt(tools?: CompletionRequest["tools"]): string {
     if (!tools || tools.length === 0) return "";
 
@@ -73,6 +103,135 @@ ${toolDescriptions.join("\n\n")}
 After receiving a tool result, continue your response. Only use tools when necessary.`;
   }
 
+  /**
+   * Map unified messages to /api/chat messages. With native tools, calls and
+   * results use tool_calls / role "tool"; otherwise they are replayed in the
+   * same JSON format the tool prompt asks the model to emit.
+   */
+  private convertMessages(request: CompletionRequest, native: boolean): OllamaMessage[] {
+    const toolPrompt = native ? "" : this.convertToolsToPrompt(request.tools);
+    const toolNames = new Map<string, string>();
+    const converted: OllamaMessage[] = [];
+
+    for (const message of request.messages) {
+      if (message.role === "system") {
+        converted.push({ role: "system", content: getMessageText(message.content) + toolPrompt });
+        continue;
+      }
+
+      if (typeof message.content === "string" && !message.toolCalls?.length) {
+        converted.push({ role: message.role, content: message.content });
+        continue;
+      }
+
+      const text: string[] = [];
+      const images: string[] = [];
+      const toolCalls: NonNullable<OllamaMessage["tool_calls"]> = [];
+
+      for (const block of getContentBlocks(message)) {
+        switch (block.type) {
+          case "text":
+            text.push(block.text);
+            break;
+          case "image":
+            images.push(block.data);
+            break;
+          case "tool_use":
+            toolNames.set(block.id, block.name);
+            if (native) {
+              toolCalls.push({ function: { name: block.name, arguments: block.input } });
+            } else {
+              text.push("```json\n" + JSON.stringify({ tool: block.name, input: block.input }) + "\n```");
+            }
+            break;
+          case "tool_result": {
+            const name = toolNames.get(block.toolUseId) || "tool";
+            const content = block.isError ? `Error: ${block.content}` : block.content;
+            if (native) {
+              converted.push({ role: "tool", content, tool_name: name });
+            } else {
+              text.push(`Result of ${name}:\n${content}`);
+            }
+            break;
+          }
+        }
+      }
+
+      if (text.length > 0 || images.length > 0 || toolCalls.length > 0) {
+        converted.push({
+          role: message.role,
+          content: text.join("\n\n"),
+          images: images.length > 0 ? images : undefined,
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        });
+      }
+    }
+
+    return converted;
+  }
+
+  /**
+   * POST /api/chat, falling back to prompt-based tools for models
+   * that don't support native tool calling
+   */
+  private async chat(request: CompletionRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const native = this.nativeTools && !!request.tools?.length;
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: "POST",
+      signal,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.model,
+        messages: this.convertMessages(request, native),
+        tools: native ? this.convertTools(request.tools) : undefined,
+        stream,
+        options: {
+          temperature: request.temperature ?? 0,
+          num_predict: request.maxTokens || 8192,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      if (native && error.includes("does not support tools")) {
+        this.nativeTools = false;
+        return this.chat(request, stream, signal);
+      }
+      throw new ProviderError(
+        `Ollama error: ${error}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    return response;
+  }
+
+  private convertToolCalls(calls?: OllamaToolCall[]): ToolCall[] {
+    return (calls || []).map((call) => {
+      const toolCall: ToolCall = {
+        id: `ollama-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        name: call.function.name,
+        input: {},
+      };
+      const args = call.function.arguments;
+
+      if (typeof args !== "string") {
+        toolCall.input = args || {};
+        return toolCall;
+      }
+      try {
+        toolCall.input = JSON.parse(args || "{}");
+      } catch (error) {
+        // Small models often emit broken JSON; let the model see why and retry
+        toolCall.error = `Invalid JSON arguments for ${call.function.name}: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      return toolCall;
+    });
+  }
+
   private parseToolCalls(content: string): { cleanContent: string; toolCalls: ToolCall[] } {
     const toolCalls: ToolCall[] = [];
     let cleanContent = content;
@@ -102,47 +261,22 @@ After receiving a tool result, continue your response. Only use tools when neces
     return { cleanContent: cleanContent.trim(), toolCalls };
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    // Build messages with tool instructions
-    const toolPrompt = this.convertToolsToPrompt(request.tools);
-    const messages = request.messages.map((m) => {
-      if (m.role === "system" && toolPrompt) {
-        return { ...m, content: m.content + toolPrompt };
-      }
-      return m;
-    });
-
-    const response = await fetch(`${this.baseUrl}/api/chat`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: this.model,
-        messages,
-        stream: false,
-        options: {
-          temperature: request.temperature ?? 0,
-          num_predict: request.maxTokens || 8192,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Ollama error: ${error}`);
-    }
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+    const response = await this.chat(request, false, signal);
 
     const data = await response.json() as {
-      message?: { content: string };
+      message?: { content: string; tool_calls?: OllamaToolCall[] };
       prompt_eval_count?: number;
       eval_count?: number;
     };
     const rawContent = data.message?.content || "";
 
-    // Parse any tool calls from the response
-    const { cleanContent, toolCalls } = this.parseToolCalls(rawContent);
+    // Native tool calls, or any JSON tool calls the model wrote inline
+    const parsed = this.parseToolCalls(rawContent);
+    const toolCalls = [...this.convertToolCalls(data.message?.tool_calls), ...parsed.toolCalls];
 
     return {
-      content: cleanContent,
+      content: parsed.cleanContent,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       usage: {
         inputTokens: data.prompt_eval_count || 0,
@@ -156,35 +290,10 @@ After receiving a tool result, continue your response. Only use tools when neces
 
   async stream(
     request: CompletionRequest,
-    onChunk: (chunk: StreamChunk) => void
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
   ): Promise<CompletionResponse> {
-    // Build messages with tool instructions
-    const toolPrompt = this.convertToolsToPrompt(request.tools);
-    const messages = request.messages.map((m) => {
-      if (m.role === "system" && toolPrompt) {
-        return { ...m, content: m.content + toolPrompt };
-      }
-      return m;
-    });
-
-    const response = await fetch(`${this.baseUrl}/api/chat`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: this.model,
-        messages,
-        stream: true,
-        options: {
-          temperature: request.temperature ?? 0,
-          num_predict: request.maxTokens || 8192,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Ollama error: ${error}`);
-    }
+    const response = await this.chat(request, true, signal);
 
     const reader = response.body?.getReader();
     if (!reader) throw new Error("No response body");
@@ -193,6 +302,7 @@ After receiving a tool result, continue your response. Only use tools when neces
     let content = "";
     let inputTokens = 0;
     let outputTokens = 0;
+    const nativeToolCalls: ToolCall[] = [];
 
     while (true) {
       const { done, value } = await reader.read();
@@ -210,6 +320,10 @@ After receiving a tool result, continue your response. Only use tools when neces
             onChunk({ type: "text", text: parsed.message.content });
           }
 
+          if (parsed.message?.tool_calls) {
+            nativeToolCalls.push(...this.convertToolCalls(parsed.message.tool_calls));
+          }
+
           if (parsed.done) {
             inputTokens = parsed.prompt_eval_count || 0;
             outputTokens = parsed.eval_count || 0;
@@ -221,7 +335,8 @@ After receiving a tool result, continue your response. Only use tools when neces
     }
 
     // Parse any tool calls from the complete response
-    const { cleanContent, toolCalls } = this.parseToolCalls(content);
+    const parsed = this.parseToolCalls(content);
+    const toolCalls = [...nativeToolCalls, ...parsed.toolCalls];
 
     // Emit tool calls if found
     for (const toolCall of toolCalls) {
@@ -231,7 +346,7 @@ After receiving a tool result, continue your response. Only use tools when neces
     onChunk({ type: "done" });
 
     return {
-      content: cleanContent,
+      content: parsed.cleanContent,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       usage: { inputTokens, outputTokens },
       stopReason: toolCalls.length > 0 ? "tool_use" : "end_turn",
@@ -240,4 +355,3 @@ After receiving a tool result, continue your response. Only use tools when neces
     };
   }
 }
-
@@ -0,0 +1,98 @@
+/**
+ * OpenAI Message Format - Shared by OpenAI and Groq (OpenAI-compatible APIs)
+ * Maps unified content blocks to chat-completions messages
+ */
+
+import type { Message } from "./types";
+import { getContentBlocks } from "./types";
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export type OpenAIMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | OpenAIContentPart[] }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: {
+        id: string;
+        type: "function";
+        function: { name: string; arguments: string };
+      }[];
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+/**
+ * Convert unified messages. Tool results become role "tool" messages
+ * (one per call id), sent before any text in the same turn.
+ */
+export function toOpenAIMessages(messages: Message[]): OpenAIMessage[] {
+  const converted: OpenAIMessage[] = [];
+
+  for (const message of messages) {
+    if (typeof message.content === "string" && !message.toolCalls?.length) {
+      converted.push({ role: message.role, content: message.content } as OpenAIMessage);
+      continue;
+    }
+
+    const blocks = getContentBlocks(message);
+    const text = blocks
+      .filter((b) => b.type === "text")
+      .map((b) => (b.type === "text" ? b.text : ""))
+      .join("\n");
+
+    if (message.role === "system") {
+      converted.push({ role: "system", content: text });
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      const toolCalls = blocks.flatMap((b) =>
+        b.type === "tool_use"
+          ? [{
+              id: b.id,
+              type: "function" as const,
+              function: { name: b.name, arguments: JSON.stringify(b.input) },
+            }]
+          : []
+      );
+
+      converted.push({
+        role: "assistant",
+        content: text || null,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+      });
+      continue;
+    }
+
+    // User turn: tool results first, then whatever the user said
+    const parts: OpenAIContentPart[] = [];
+    for (const block of blocks) {
+      if (block.type === "tool_result") {
+        converted.push({
+          role: "tool",
+          tool_call_id: block.toolUseId,
+          content: block.isError ? `Error: ${block.content}` : block.content,
+        });
+      } else if (block.type === "text") {
+        parts.push({ type: "text", text: block.text });
+      } else if (block.type === "image") {
+        parts.push({
+          type: "image_url",
+          image_url: { url: `data:${block.mediaType};base64,${block.data}` },
+        });
+      }
+    }
+
+    if (parts.length > 0) {
+      converted.push({
+        role: "user",
+        content: parts.every((p) => p.type === "text") ? text : parts,
+      });
+    }
+  }
+
+  return converted;
+}
@@ -11,16 +11,8 @@ import type {
   StreamChunk,
   ToolCall,
 } from "./types";
-
-interface OpenAIMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-  tool_calls?: {
-    id: string;
-    type: "function";
-    function: { name: string; arguments: string };
-  }[];
-}
+import { toOpenAIMessages } from "./openai-format";
+import { ProviderError } from "./resilience";
 
 interface OpenAITool {
   type: "function";
@@ -85,16 +77,17 @@ export class OpenAIProvider implements LLMProvider {
     }));
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: "POST",
+      signal,
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify({
         model: this.model,
-        messages: request.messages,
+        messages: toOpenAIMessages(request.messages),
         max_tokens: request.maxTokens || 8192,
         temperature: request.temperature ?? 0,
         tools: this.convertTools(request.tools),
@@ -102,8 +95,7 @@ export class OpenAIProvider implements LLMProvider {
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${error}`);
+      throw await ProviderError.fromResponse(response, "OpenAI API error");
     }
 
     const data = await response.json() as {
@@ -146,17 +138,19 @@ export class OpenAIProvider implements LLMProvider {
 
   async stream(
     request: CompletionRequest,
-    onChunk: (chunk: StreamChunk) => void
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
   ): Promise<CompletionResponse> {
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: "POST",
+      signal,
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify({
         model: this.model,
-        messages: request.messages,
+        messages: toOpenAIMessages(request.messages),
         max_tokens: request.maxTokens || 8192,
         temperature: request.temperature ?? 0,
         tools: this.convertTools(request.tools),
@@ -166,8 +160,7 @@ export class OpenAIProvider implements LLMProvider {
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${error}`);
+      throw await ProviderError.fromResponse(response, "OpenAI API error");
     }
 
     const reader = response.body?.getReader();
@@ -18,12 +18,28 @@ import { OpenAIProvider } from "./openai-provider";
 import { GroqProvider } from "./groq-provider";
 import { OllamaProvider } from "./ollama-provider";
 import { TaskClassifier } from "./task-classifier";
+import { getMessageText } from "./types";
+import {
+  CircuitBreaker,
+  CircuitSnapshot,
+  RetryOptions,
+  DEFAULT_RETRY_OPTIONS,
+  withRetry,
+  withTimeout,
+  withIdleTimeout,
+  isProviderFailure,
+} from "./resilience";
 
 interface CacheEntry {
   response: CompletionResponse;
   timestamp: number;
 }
 
+interface RoutingOptions {
+  forceProvider?: ProviderType;
+  forceComplexity?: TaskComplexity;
+}
+
 interface CostTracking {
   provider: ProviderType;
   model: string;
@@ -39,12 +55,20 @@ export class ProviderManager {
   private cache: Map<string, CacheEntry> = new Map();
   private costHistory: CostTracking[] = [];
   private totalCost = 0;
+  private circuits: Map<string, CircuitBreaker> = new Map();
+  private healthStatusItem: vscode.StatusBarItem;
+  private outputChannel: vscode.OutputChannel | null = null;
   
   // Callbacks
   private onCostUpdate?: (cost: { total: number; session: CostTracking[] }) => void;
 
   constructor() {
     this.classifier = new TaskClassifier();
+    this.healthStatusItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Right,
+      97
+    );
+    this.healthStatusItem.command = "mythaTron.resetProviderCircuits";
     this.initializeProviders();
   }
 
@@ -117,6 +141,10 @@ export class ProviderManager {
     }
 
     this.providers.set(name, provider);
+    this.circuits.set(
+      name,
+      new CircuitBreaker(config.type, () => this.updateHealthStatus())
+    );
   }
 
   async getAvailableProviders(): Promise<string[]> {
@@ -217,11 +245,7 @@ export class ProviderManager {
 
   async complete(
     request: CompletionRequest,
-    options: {
-      forceProvider?: ProviderType;
-      forceComplexity?: TaskComplexity;
-      useCache?: boolean;
-    } = {}
+    options: RoutingOptions & { useCache?: boolean } = {}
   ): Promise<CompletionResponse> {
     // Check cache first
     if (options.useCache !== false) {
@@ -231,43 +255,12 @@ export class ProviderManager {
       }
     }
 
-    // Determine which provider to use
-    let provider: LLMProvider;
-
-    if (options.forceProvider) {
-      provider = this.providers.get(options.forceProvider)!;
-      if (!provider) {
-        throw new Error(`Provider ${options.forceProvider} not configured`);
-      }
-    } else {
-      // Use classifier to determine best provider
-      const lastUserMessage =
-        request.messages.filter((m) => m.role === "user").pop()?.content || "";
-      
-      const classification = options.forceComplexity
-        ? {
-            ...this.classifier.classify(lastUserMessage),
-            ...this.classifier.forceComplexity(options.forceComplexity),
-          }
-        : this.classifier.classify(lastUserMessage, {
-            codeLength: lastUserMessage.length,
-            conversationLength: request.messages.length,
-            hasToolUse: request.tools && request.tools.length > 0,
-          });
-
-      provider = this.providers.get(classification.suggestedProvider)!;
-
-      // Fallback if suggested provider not available
-      if (!provider || !(await provider.isAvailable())) {
-        provider = this.providers.get("anthropic")!;
-      }
-    }
-
-    if (!provider) {
-      throw new Error("No providers available");
-    }
+    const timeoutMs = this.getResilienceConfig().timeoutMs;
 
-    const response = await provider.complete(request);
+    const { provider, response } = await this.runWithFallback(
+      this.resolveChain(request, options),
+      (provider) => withTimeout((signal) => provider.complete(request, signal), timeoutMs, provider.type)
+    );
     
     // Track cost
     this.trackCost(provider, response);
@@ -281,51 +274,213 @@ export class ProviderManager {
   async stream(
     request: CompletionRequest,
     onChunk: (chunk: StreamChunk) => void,
-    options: {
-      forceProvider?: ProviderType;
-      forceComplexity?: TaskComplexity;
-    } = {}
+    options: RoutingOptions = {}
   ): Promise<CompletionResponse> {
-    // Determine which provider to use
-    let provider: LLMProvider;
+    // Once text has reached the caller a retry would duplicate it, so only
+    // failures before the first chunk are retried or failed over
+    let emitted = false;
+    const timeoutMs = this.getResilienceConfig().timeoutMs;
+
+    const { provider, response } = await this.runWithFallback(
+      this.resolveChain(request, options),
+      (provider) =>
+        withIdleTimeout(
+          (signal, progress) =>
+            provider.stream(
+              request,
+              (chunk) => {
+                progress();
+                emitted = true;
+                onChunk(chunk);
+              },
+              signal
+            ),
+          timeoutMs,
+          provider.type
+        ),
+      () => !emitted
+    );
+    
+    // Track cost
+    this.trackCost(provider, response);
 
+    return response;
+  }
+
+  /**
+   * Ordered provider names to try: the classifier's pick, then the tier's fallback chain
+   */
+  private resolveChain(request: CompletionRequest, options: RoutingOptions): string[] {
     if (options.forceProvider) {
-      provider = this.providers.get(options.forceProvider)!;
-      if (!provider) {
+      if (!this.providers.has(options.forceProvider)) {
         throw new Error(`Provider ${options.forceProvider} not configured`);
       }
+      return [options.forceProvider];
+    }
+
+    // Use classifier to determine best provider
+    const lastUserMessage = getMessageText(
+      request.messages.filter((m) => m.role === "user").pop()?.content || ""
+    );
+
+    let complexity: TaskComplexity;
+    let suggested: string;
+
+    if (options.forceComplexity) {
+      complexity = options.forceComplexity;
+      suggested = this.classifier.forceComplexity(options.forceComplexity).provider;
     } else {
-      const lastUserMessage =
-        request.messages.filter((m) => m.role === "user").pop()?.content || "";
-      
-      const classification = options.forceComplexity
-        ? {
-            ...this.classifier.classify(lastUserMessage),
-            ...this.classifier.forceComplexity(options.forceComplexity),
-          }
-        : this.classifier.classify(lastUserMessage, {
-            codeLength: lastUserMessage.length,
-            conversationLength: request.messages.length,
-            hasToolUse: request.tools && request.tools.length > 0,
-          });
-
-      provider = this.providers.get(classification.suggestedProvider)!;
-
-      if (!provider || !(await provider.isAvailable())) {
-        provider = this.providers.get("anthropic")!;
-      }
+      const classification = this.classifier.classify(lastUserMessage, {
+        codeLength: lastUserMessage.length,
+        conversationLength: request.messages.length,
+        hasToolUse: request.tools && request.tools.length > 0,
+      });
+      complexity = classification.complexity;
+      suggested = classification.suggestedProvider;
     }
 
-    if (!provider) {
+    const chain = [suggested, ...this.getFallbackChain(complexity)];
+    const available = [...new Set(chain)].filter((name) => this.providers.has(name));
+
+    if (available.length === 0) {
       throw new Error("No providers available");
     }
 
-    const response = await provider.stream(request, onChunk);
-    
-    // Track cost
-    this.trackCost(provider, response);
+    return available;
+  }
 
-    return response;
+  /**
+   * Configured chain for a tier (mythaTron.fallbackChains), else the classifier default
+   */
+  getFallbackChain(complexity: TaskComplexity): string[] {
+    const configured = vscode.workspace
+      .getConfiguration("mythaTron")
+      .get<Partial<Record<TaskComplexity, string[]>>>("fallbackChains");
+
+    const chain = configured?.[complexity];
+    return chain && chain.length > 0 ? chain : this.classifier.getFallbackChain(complexity);
+  }
+
+  /**
+   * Try each provider in order with retries, skipping any whose circuit is open
+   */
+  private async runWithFallback<T>(
+    chain: string[],
+    operation: (provider: LLMProvider) => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<{ provider: LLMProvider; response: T }> {
+    const { retry } = this.getResilienceConfig();
+    const errors: string[] = [];
+
+    for (const name of chain) {
+      const provider = this.providers.get(name)!;
+      const circuit = this.circuits.get(name)!;
+
+      if (!circuit.canRequest()) {
+        errors.push(`${name}: circuit open`);
+        continue;
+      }
+
+      try {
+        const response = await withRetry(
+          () => operation(provider),
+          retry,
+          (error, attempt, delayMs) => {
+            this.log(
+              `${name} failed (${error instanceof Error ? error.message : error}), ` +
+                `retry ${attempt}/${retry.maxRetries} in ${delayMs}ms`
+            );
+          },
+          canRetry
+        );
+
+        circuit.recordSuccess();
+        return { provider, response };
+      } catch (error) {
+        if (isProviderFailure(error)) {
+          circuit.recordFailure(error);
+        } else {
+          circuit.release();
+        }
+        errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+
+        // Partial stream already delivered - can't switch providers mid-answer
+        if (!canRetry()) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`All providers failed:\n${errors.join("\n")}`);
+  }
+
+  private log(message: string): void {
+    if (!this.outputChannel) {
+      this.outputChannel = vscode.window.createOutputChannel("MythaTron Code Providers");
+    }
+    this.outputChannel.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+  }
+
+  private getResilienceConfig(): { retry: RetryOptions; timeoutMs: number } {
+    const config = vscode.workspace.getConfiguration("mythaTron");
+    return {
+      retry: {
+        ...DEFAULT_RETRY_OPTIONS,
+        maxRetries: config.get<number>("maxRetries") ?? DEFAULT_RETRY_OPTIONS.maxRetries,
+      },
+      timeoutMs: config.get<number>("requestTimeout") ?? 120000,
+    };
+  }
+
+  getCircuitStates(): CircuitSnapshot[] {
+    return [...this.circuits.values()].map((c) => c.snapshot());
+  }
+
+  resetCircuits(): void {
+    for (const circuit of this.circuits.values()) {
+      circuit.reset();
+    }
+  }
+
+  /**
+   * Status bar shows only while some provider is failing
+   */
+  private updateHealthStatus(): void {
+    const states = this.getCircuitStates();
+    const unhealthy = states.filter((s) => s.state !== "closed" || s.failures > 0);
+
+    if (unhealthy.length === 0) {
+      this.healthStatusItem.hide();
+      return;
+    }
+
+    const open = unhealthy.filter((s) => s.state === "open");
+    this.healthStatusItem.text =
+      open.length > 0
+        ? `$(debug-disconnect) ${open.map((s) => s.provider).join(", ")}`
+        : `$(warning) ${unhealthy.map((s) => s.provider).join(", ")}`;
+    this.healthStatusItem.backgroundColor =
+      open.length > 0 ? new vscode.ThemeColor("statusBarItem.warningBackground") : undefined;
+    this.healthStatusItem.tooltip = [
+      "Provider health (click to reset)",
+      ...states.map((s) => {
+        const retry = s.retryAt ? `, retry in ${Math.max(0, Math.ceil((s.retryAt - Date.now()) / 1000))}s` : "";
+        const error = s.lastError ? ` - ${s.lastError.slice(0, 80)}` : "";
+        return `${s.provider}: ${s.state} (${s.failures} failures${retry})${error}`;
+      }),
+    ].join("\n");
+    this.healthStatusItem.show();
+  }
+
+  /**
+   * What a response cost, at the pricing of the provider that answered it
+   */
+  estimateCost(response: CompletionResponse): number {
+    if (!response.usage) return 0;
+
+    const providers = Array.from(this.providers.values()).filter((p) => p.type === response.provider);
+    const provider = providers.find((p) => p.model === response.model) ?? providers[0];
+    return provider ? provider.estimateCost(response.usage.inputTokens, response.usage.outputTokens) : 0;
   }
 
   getCostSummary(): {
@@ -396,6 +551,8 @@ export class ProviderManager {
 
   async reinitialize(): Promise<void> {
     this.providers.clear();
+    this.circuits.clear();
+    this.updateHealthStatus();
     await this.initializeProviders();
   }
 }
@@ -0,0 +1,329 @@
+/**
+ * Provider Resilience - Retries, backoff and circuit breaking for LLM calls
+ * Keeps agent loops alive through rate limits, 5xx errors and timeouts
+ */
+
+import type { ProviderType } from "./types";
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+// Never wait longer than this for a retry-after, even if the server asks
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * HTTP-level failure from a provider, carrying what the retry logic needs
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+    readonly retryable = isRetryableStatus(status)
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+
+  /**
+   * Build from a failed fetch response (reads the body for the message)
+   */
+  static async fromResponse(response: Response, prefix: string): Promise<ProviderError> {
+    const body = await response.text().catch(() => "");
+    return new ProviderError(
+      `${prefix}: ${body || response.statusText}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+
+  static timeout(provider: string, ms: number): ProviderError {
+    return new ProviderError(`${provider} request timed out after ${ms}ms`, undefined, undefined, true);
+  }
+
+  static stalled(provider: string, ms: number): ProviderError {
+    return new ProviderError(`${provider} stream stalled: nothing received for ${ms}ms`, undefined, undefined, true);
+  }
+}
+
+function isRetryableStatus(status?: number): boolean {
+  if (status === undefined) return false;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a retry-after header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Decide whether an error is worth retrying on the same provider.
+ * Understands ProviderError, SDK errors (status + headers) and network failures.
+ */
+export function classifyError(error: unknown): { retryable: boolean; retryAfterMs?: number } {
+  if (error instanceof ProviderError) {
+    return { retryable: error.retryable, retryAfterMs: error.retryAfterMs };
+  }
+
+  const err = error as {
+    status?: number;
+    headers?: Record<string, string> | Headers;
+    name?: string;
+    code?: string;
+    cause?: { code?: string };
+  };
+
+  if (typeof err?.status === "number") {
+    const header =
+      err.headers instanceof Headers
+        ? err.headers.get("retry-after")
+        : err.headers?.["retry-after"];
+    return { retryable: isRetryableStatus(err.status), retryAfterMs: parseRetryAfter(header) };
+  }
+
+  // Nothing listening (e.g. Ollama not running) - move on to the next provider
+  if (isUnreachable(error)) {
+    return { retryable: false };
+  }
+  const code = err?.cause?.code || err?.code;
+
+  // fetch network failures, resets and SDK connection/timeout errors
+  if (
+    error instanceof TypeError ||
+    code === "ECONNRESET" ||
+    code === "ETIMEDOUT" ||
+    err?.name === "AbortError" ||
+    err?.name === "APIConnectionError" ||
+    err?.name === "APIConnectionTimeoutError"
+  ) {
+    return { retryable: true };
+  }
+
+  return { retryable: false };
+}
+
+/**
+ * Whether an error says the provider itself is in trouble (5xx, 429, network
+ * failures, nothing listening). Bad requests and auth errors are the caller's
+ * problem and mustn't open its circuit.
+ */
+export function isProviderFailure(error: unknown): boolean {
+  return classifyError(error).retryable || isUnreachable(error);
+}
+
+function isUnreachable(error: unknown): boolean {
+  const err = error as { code?: string; cause?: { code?: string } } | undefined;
+  const code = err?.cause?.code || err?.code;
+  return code === "ECONNREFUSED" || code === "ENOTFOUND";
+}
+
+/**
+ * Exponential backoff with full jitter, overridden by retry-after when given
+ */
+export function getRetryDelay(attempt: number, options: RetryOptions, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run an operation, retrying transient failures
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void,
+  canRetry: () => boolean = () => true
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const { retryable, retryAfterMs } = classifyError(error);
+      if (!retryable || attempt >= options.maxRetries || !canRetry()) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, options, retryAfterMs);
+      onRetry?.(error, attempt + 1, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Reject if the operation takes longer than ms, aborting the request it made
+ */
+export function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  provider: string
+): Promise<T> {
+  const controller = new AbortController();
+  if (ms <= 0) return operation(controller.signal);
+
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Reject first so the caller sees the timeout, not the abort it causes
+      reject(ProviderError.timeout(provider, ms));
+      controller.abort();
+    }, ms);
+  });
+
+  return Promise.race([operation(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Like withTimeout, but the clock restarts whenever the operation reports
+ * progress: a stream may run long, but shouldn't go quiet
+ */
+export function withIdleTimeout<T>(
+  operation: (signal: AbortSignal, progress: () => void) => Promise<T>,
+  ms: number,
+  provider: string
+): Promise<T> {
+  const controller = new AbortController();
+  if (ms <= 0) return operation(controller.signal, () => {});
+
+  let timer: NodeJS.Timeout | undefined;
+  let fail: (error: Error) => void = () => {};
+  const timeout = new Promise<never>((_, reject) => {
+    fail = reject;
+  });
+  const progress = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      fail(ProviderError.stalled(provider, ms));
+      controller.abort();
+    }, ms);
+  };
+
+  progress();
+  return Promise.race([operation(controller.signal, progress), timeout]).finally(() => clearTimeout(timer));
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitSnapshot {
+  provider: ProviderType;
+  state: CircuitState;
+  failures: number;
+  lastError?: string;
+  retryAt?: number;
+}
+
+/**
+ * Per-provider circuit breaker.
+ * Opens after repeated failures, then lets a single probe through once the cooldown passes.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastError?: string;
+
+  constructor(
+    readonly provider: ProviderType,
+    private readonly onStateChange: () => void,
+    private readonly failureThreshold = 3,
+    private readonly cooldownMs = 30000
+  ) {}
+
+  /**
+   * Whether a request may be sent now (moves open -> half-open after cooldown)
+   */
+  canRequest(): boolean {
+    if (this.state === "closed") return true;
+
+    if (this.state === "open") {
+      if (Date.now() - this.openedAt < this.cooldownMs) return false;
+      this.setState("half-open");
+    }
+
+    // Half-open: one probe at a time
+    if (this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    const recovered = this.failures > 0;
+    this.failures = 0;
+    this.probeInFlight = false;
+    this.lastError = undefined;
+
+    if (this.state !== "closed") {
+      this.setState("closed");
+    } else if (recovered) {
+      this.onStateChange();
+    }
+  }
+
+  recordFailure(error: unknown): void {
+    this.failures++;
+    this.probeInFlight = false;
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === "half-open" || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.setState("open");
+    } else {
+      this.onStateChange();
+    }
+  }
+
+  /**
+   * The request failed for its own reasons (bad request, auth): free a
+   * half-open probe slot without judging the provider
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  reset(): void {
+    this.failures = 0;
+    this.probeInFlight = false;
+    this.lastError = undefined;
+    this.setState("closed");
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      provider: this.provider,
+      state: this.state,
+      failures: this.failures,
+      lastError: this.lastError,
+      retryAt: this.state === "open" ? this.openedAt + this.cooldownMs : undefined,
+    };
+  }
+
+  private setState(state: CircuitState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.onStateChange();
+  }
+}
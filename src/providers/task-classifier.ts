@@ -301,6 +301,19 @@ export class TaskClassifier {
     return parts.join(" | ");
   }
 
+  // Default provider order for a tier: primary, fallback, premium, then Anthropic
+  getFallbackChain(complexity: TaskComplexity): Array<"ollama" | "groq" | "openai" | "anthropic"> {
+    const recommendations = MODEL_RECOMMENDATIONS[complexity];
+    return [
+      ...new Set([
+        recommendations.primary.provider,
+        recommendations.fallback.provider,
+        recommendations.premium.provider,
+        "anthropic" as const,
+      ]),
+    ];
+  }
+
   // Force a specific complexity level (user override)
   forceComplexity(complexity: TaskComplexity): {
     provider: "ollama" | "groq" | "openai" | "anthropic";
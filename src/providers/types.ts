@@ -5,10 +5,41 @@
 
 export interface Message {
   role: "system" | "user" | "assistant";
-  content: string;
+  content: string | ContentBlock[];
   toolCalls?: ToolCall[];
 }
 
+/**
+ * Structured message content. Providers map these to their native
+ * wire format so tool calls and results stay paired by id.
+ */
+export type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock | ImageBlock;
+
+export interface TextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface ToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultBlock {
+  type: "tool_result";
+  toolUseId: string;
+  content: string;
+  isError?: boolean;
+}
+
+export interface ImageBlock {
+  type: "image";
+  mediaType: "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+  data: string; // base64
+}
+
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
@@ -28,6 +59,7 @@ export interface ToolCall {
   id: string;
   name: string;
   input: Record<string, unknown>;
+  error?: string; // arguments the provider couldn't parse; answered with this instead of running
 }
 
 export interface StreamChunk {
@@ -71,11 +103,12 @@ export interface LLMProvider {
   readonly type: ProviderType;
   readonly model: string;
   
-  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse>;
   
   stream(
     request: CompletionRequest,
-    onChunk: (chunk: StreamChunk) => void
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
   ): Promise<CompletionResponse>;
   
   isAvailable(): Promise<boolean>;
@@ -83,6 +116,42 @@ export interface LLMProvider {
   estimateCost(inputTokens: number, outputTokens: number): number;
 }
 
+/**
+ * Plain-text view of message content (tool calls and images are dropped)
+ */
+export function getMessageText(content: Message["content"]): string {
+  if (typeof content === "string") return content;
+
+  return content
+    .map((block) => {
+      if (block.type === "text") return block.text;
+      if (block.type === "tool_result") return block.content;
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Content as blocks, folding legacy `toolCalls` into tool_use blocks
+ */
+export function getContentBlocks(message: Message): ContentBlock[] {
+  const blocks: ContentBlock[] =
+    typeof message.content === "string"
+      ? message.content
+        ? [{ type: "text", text: message.content }]
+        : []
+      : [...message.content];
+
+  for (const call of message.toolCalls || []) {
+    if (!blocks.some((b) => b.type === "tool_use" && b.id === call.id)) {
+      blocks.push({ type: "tool_use", id: call.id, name: call.name, input: call.input });
+    }
+  }
+
+  return blocks;
+}
+
 // Model pricing per million tokens (input/output)
 export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
   // Anthropic
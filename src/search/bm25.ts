@@ -0,0 +1,143 @@
+/**
+ * BM25 Keyword Index - Lexical half of hybrid code search
+ * Tokenizes identifiers (camelCase, snake_case) so "retryUpload" matches "retry upload"
+ */
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can",
+  "was", "our", "out", "has", "have", "how", "where", "what", "when", "which",
+  "who", "why", "this", "that", "with", "from", "into", "does", "do", "we",
+  "is", "in", "of", "to", "a", "an", "it", "on", "or", "be", "by", "as",
+]);
+
+/**
+ * Split text into lowercase search terms, breaking up code identifiers
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text.match(/[A-Za-z][A-Za-z0-9]*|[0-9]+/g) || [];
+
+  for (const word of words) {
+    // fooBarBaz / HTTPServer -> foo bar baz / http server
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .toLowerCase()
+      .split(" ");
+
+    for (const part of parts) {
+      if (part.length < 2 || STOP_WORDS.has(part)) continue;
+      tokens.push(stem(part));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Very light suffix stripping so "retries", "retried" and "retrying" share a term
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.endsWith("ied")) return word.slice(0, -3) + "y";
+  if (word.endsWith("ing") && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith("ed") && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith("es") && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+export class BM25Index {
+  // term -> (document id -> term frequency)
+  private postings: Map<string, Map<string, number>> = new Map();
+  private documentLengths: Map<string, number> = new Map();
+  private documentTerms: Map<string, string[]> = new Map();
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1 = 1.2,
+    private readonly b = 0.75
+  ) {}
+
+  add(id: string, text: string): void {
+    if (this.documentLengths.has(id)) {
+      this.remove(id);
+    }
+
+    const terms = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+
+    for (const [term, tf] of termFrequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, tf);
+    }
+
+    this.documentLengths.set(id, terms.length);
+    this.documentTerms.set(id, [...termFrequencies.keys()]);
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.documentLengths.get(id) || 0;
+    this.documentLengths.delete(id);
+    this.documentTerms.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documentLengths.clear();
+    this.documentTerms.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Score every document containing at least one query term
+   */
+  search(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const queryTerms = [...new Set(tokenize(query))];
+    const docCount = this.documentLengths.size;
+    if (docCount === 0 || queryTerms.length === 0) return scores;
+
+    const avgLength = this.totalLength / docCount || 1;
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const df = posting.size;
+      const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+
+      for (const [id, tf] of posting) {
+        const length = this.documentLengths.get(id) || 0;
+        const norm = tf + this.k1 * (1 - this.b + (this.b * length) / avgLength);
+        scores.set(id, (scores.get(id) || 0) + idf * ((tf * (this.k1 + 1)) / norm));
+      }
+    }
+
+    return scores;
+  }
+
+  get size(): number {
+    return this.documentLengths.size;
+  }
+}
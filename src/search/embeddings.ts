@@ -0,0 +1,262 @@
+/**
+ * Embedders - Turn code chunks into vectors for semantic search
+ * Ollama (local, free) -> OpenAI -> offline hashing fallback
+ */
+
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { tokenize } from "./bm25";
+import { getCostTracker } from "../optimizations/cost-tracker";
+
+export type EmbedderType = "ollama" | "openai" | "hashing";
+
+export interface Embedder {
+  readonly type: EmbedderType;
+  readonly model: string;
+
+  /** Stable identifier - vectors from different ids are not comparable */
+  readonly id: string;
+
+  embed(texts: string[]): Promise<number[][]>;
+
+  isAvailable(): Promise<boolean>;
+}
+
+export interface EmbedderConfig {
+  provider?: EmbedderType | "auto";
+  model?: string;
+  ollamaUrl?: string;
+  openaiApiKey?: string;
+  openaiBaseUrl?: string;
+}
+
+// Max characters sent per chunk - embedding models cap input length
+const MAX_EMBED_CHARS = 6000;
+
+/**
+ * Ollama embeddings - local and free
+ */
+export class OllamaEmbedder implements Embedder {
+  readonly type = "ollama" as const;
+  readonly model: string;
+  readonly id: string;
+  private baseUrl: string;
+
+  constructor(model = "nomic-embed-text", baseUrl = "http://localhost:11434") {
+    this.model = model;
+    this.baseUrl = baseUrl;
+    this.id = `ollama:${model}`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`);
+      if (!response.ok) return false;
+
+      const data = (await response.json()) as { models?: Array<{ name: string }> };
+      return (data.models || []).some(
+        (m) => m.name === this.model || m.name.startsWith(`${this.model}:`)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    // /api/embeddings takes one prompt per request
+    for (const text of texts) {
+      const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: this.model,
+          prompt: text.slice(0, MAX_EMBED_CHARS),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Ollama embeddings error: ${error}`);
+      }
+
+      const data = (await response.json()) as { embedding?: number[] };
+      if (!data.embedding) {
+        throw new Error("Ollama embeddings error: empty embedding");
+      }
+      vectors.push(data.embedding);
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * OpenAI embeddings - also works with OpenAI-compatible endpoints
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly type = "openai" as const;
+  readonly model: string;
+  readonly id: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  private readonly BATCH_SIZE = 64;
+
+  constructor(apiKey: string, model = "text-embedding-3-small", baseUrl = "https://api.openai.com/v1") {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl;
+    this.id = `openai:${model}`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.apiKey.length > 0;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.BATCH_SIZE) {
+      const batch = texts.slice(i, i + this.BATCH_SIZE).map((t) => t.slice(0, MAX_EMBED_CHARS));
+      const start = Date.now();
+
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({ model: this.model, input: batch }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`OpenAI embeddings error: ${error}`);
+      }
+
+      const data = (await response.json()) as {
+        data: Array<{ index: number; embedding: number[] }>;
+        usage?: { prompt_tokens: number };
+      };
+
+      const ordered = [...data.data].sort((a, b) => a.index - b.index);
+      vectors.push(...ordered.map((d) => d.embedding));
+
+      // Embeddings are cheap but not free - keep them visible in the cost dashboard
+      getCostTracker().logRequest({
+        provider: "openai",
+        model: this.model,
+        query: `embed ${batch.length} chunks`,
+        inputTokens: data.usage?.prompt_tokens || 0,
+        outputTokens: 0,
+        latencyMs: Date.now() - start,
+        category: "embedding",
+      });
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * Offline fallback - feature hashing over identifier-aware tokens.
+ * No network, no model, still better than raw substring matching
+ * because camelCase/snake_case names and stemmed words share dimensions.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly type = "hashing" as const;
+  readonly model: string;
+  readonly id: string;
+
+  constructor(private readonly dimensions = 512) {
+    this.model = `hashing-${dimensions}`;
+    this.id = `hashing:${dimensions}`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text.slice(0, MAX_EMBED_CHARS * 2));
+
+    const counts = new Map<string, number>();
+    for (let i = 0; i < tokens.length; i++) {
+      counts.set(tokens[i], (counts.get(tokens[i]) || 0) + 1);
+      // Bigrams keep a little word-order signal
+      if (i + 1 < tokens.length) {
+        const bigram = `${tokens[i]}_${tokens[i + 1]}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 0.5);
+      }
+    }
+
+    for (const [token, count] of counts) {
+      const hash = crypto.createHash("md5").update(token).digest();
+      const index = hash.readUInt32LE(0) % this.dimensions;
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[index] += sign * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Scale a vector to unit length so dot product == cosine similarity
+ */
+function normalize(vector: number[]): number[] {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  return vector.map((v) => v / norm);
+}
+
+/**
+ * Read embedder settings from VS Code configuration
+ */
+export function getEmbedderConfig(): EmbedderConfig {
+  const config = vscode.workspace.getConfiguration("mythaTron");
+  return {
+    provider: config.get<EmbedderType | "auto">("embeddingProvider") || "auto",
+    model: config.get<string>("embeddingModel") || undefined,
+    ollamaUrl: config.get<string>("ollamaUrl") || undefined,
+    openaiApiKey: config.get<string>("openaiApiKey") || process.env.OPENAI_API_KEY,
+  };
+}
+
+/**
+ * Pick an embedder. "auto" stays local: Ollama, then hashing. Code only goes
+ * to OpenAI when the user picks "openai".
+ */
+export async function createEmbedder(config: EmbedderConfig = getEmbedderConfig()): Promise<Embedder> {
+  const provider = config.provider || "auto";
+
+  if (provider === "hashing") {
+    return new HashingEmbedder();
+  }
+
+  if (provider === "ollama" || provider === "auto") {
+    const ollama = new OllamaEmbedder(config.model || "nomic-embed-text", config.ollamaUrl);
+    if (provider === "ollama" || (await ollama.isAvailable())) {
+      return ollama;
+    }
+  }
+
+  if (provider === "openai" && config.openaiApiKey) {
+    return new OpenAIEmbedder(
+      config.openaiApiKey,
+      config.model || "text-embedding-3-small",
+      config.openaiBaseUrl
+    );
+  }
+
+  return new HashingEmbedder();
+}
@@ -0,0 +1,304 @@
+/**
+ * Incremental Indexing - Change detection and file watching for workspace indexes
+ * Tracks per-file mtime/size/content hash so only changed files get reprocessed
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+
+export interface FileState {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+export interface ChangeSet {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+export interface IndexChangeBatch {
+  changed: string[]; // absolute paths created or modified
+  deleted: string[]; // absolute paths (files or directories) removed
+}
+
+interface ManifestFile<T> {
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  meta: Record<string, string>;
+  files: Record<string, FileState & T>;
+}
+
+// Bump when the manifest layout changes - older manifests are discarded
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Versioned record of what was indexed, keyed by workspace-relative path.
+ * T carries per-index extras (chunk counts, line counts, ...).
+ */
+export class IndexManifest<T extends object = object> {
+  private files: Map<string, FileState & T> = new Map();
+  private meta: Record<string, string> = {};
+  private createdAt = Date.now();
+  private dirty = false;
+
+  constructor(private readonly manifestPath: string) {}
+
+  /**
+   * Load from disk. Returns false (and starts empty) when the file is missing,
+   * from another manifest version, or built with different meta (e.g. chunker version).
+   */
+  load(expectedMeta: Record<string, string> = {}): boolean {
+    this.files.clear();
+    this.meta = { ...expectedMeta };
+    this.createdAt = Date.now();
+    this.dirty = true;
+
+    try {
+      if (!fs.existsSync(this.manifestPath)) return false;
+
+      const data = JSON.parse(fs.readFileSync(this.manifestPath, "utf-8")) as ManifestFile<T>;
+      if (data.version !== MANIFEST_VERSION) return false;
+
+      for (const [key, value] of Object.entries(expectedMeta)) {
+        if (data.meta?.[key] !== value) return false;
+      }
+
+      this.meta = { ...data.meta, ...expectedMeta };
+      this.createdAt = data.createdAt;
+      this.files = new Map(Object.entries(data.files));
+      this.dirty = false;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  save(): void {
+    if (!this.dirty) return;
+
+    const data: ManifestFile<T> = {
+      version: MANIFEST_VERSION,
+      createdAt: this.createdAt,
+      updatedAt: Date.now(),
+      meta: this.meta,
+      files: Object.fromEntries(this.files),
+    };
+
+    fs.mkdirSync(path.dirname(this.manifestPath), { recursive: true });
+    fs.writeFileSync(this.manifestPath, JSON.stringify(data));
+    this.dirty = false;
+  }
+
+  get(relativePath: string): (FileState & T) | undefined {
+    return this.files.get(relativePath);
+  }
+
+  has(relativePath: string): boolean {
+    return this.files.has(relativePath);
+  }
+
+  entries(): IterableIterator<[string, FileState & T]> {
+    return this.files.entries();
+  }
+
+  paths(): string[] {
+    return [...this.files.keys()];
+  }
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  /**
+   * Record a file after it has been (re)processed
+   */
+  record(relativePath: string, content: string | Buffer, stats: fs.Stats, extra: T): void {
+    this.files.set(relativePath, {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      hash: IndexManifest.hash(content),
+      ...extra,
+    });
+    this.dirty = true;
+  }
+
+  delete(relativePath: string): boolean {
+    const deleted = this.files.delete(relativePath);
+    if (deleted) this.dirty = true;
+    return deleted;
+  }
+
+  /**
+   * Remove a path and everything beneath it (directory deletes arrive as one event)
+   */
+  deleteTree(relativePath: string): string[] {
+    const prefix = relativePath + path.sep;
+    const removed: string[] = [];
+
+    for (const key of this.files.keys()) {
+      if (key === relativePath || key.startsWith(prefix)) {
+        removed.push(key);
+      }
+    }
+    for (const key of removed) {
+      this.files.delete(key);
+    }
+
+    if (removed.length > 0) this.dirty = true;
+    return removed;
+  }
+
+  /**
+   * Compare the files currently on disk with the manifest.
+   * Content is only hashed when mtime or size moved, so a clean rescan is stat-only.
+   */
+  detectChanges(workspaceRoot: string, relativePaths: string[]): ChangeSet {
+    const result: ChangeSet = { added: [], changed: [], removed: [], unchanged: 0 };
+    const seen = new Set<string>();
+
+    for (const relativePath of relativePaths) {
+      seen.add(relativePath);
+
+      switch (this.checkFile(workspaceRoot, relativePath)) {
+        case "added":
+          result.added.push(relativePath);
+          break;
+        case "changed":
+          result.changed.push(relativePath);
+          break;
+        case "missing":
+          if (this.files.has(relativePath)) result.removed.push(relativePath);
+          break;
+        default:
+          result.unchanged++;
+      }
+    }
+
+    for (const relativePath of this.files.keys()) {
+      if (!seen.has(relativePath)) {
+        result.removed.push(relativePath);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Classify a single file against its manifest entry
+   */
+  checkFile(workspaceRoot: string, relativePath: string): "added" | "changed" | "unchanged" | "missing" {
+    const fullPath = path.join(workspaceRoot, relativePath);
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(fullPath);
+    } catch {
+      return "missing";
+    }
+
+    const previous = this.files.get(relativePath);
+    if (!previous) return "added";
+
+    if (stats.mtimeMs === previous.mtimeMs && stats.size === previous.size) {
+      return "unchanged";
+    }
+
+    // Touched but maybe not edited (git checkout, formatter no-op)
+    try {
+      if (IndexManifest.hash(fs.readFileSync(fullPath)) === previous.hash) {
+        this.files.set(relativePath, { ...previous, mtimeMs: stats.mtimeMs, size: stats.size });
+        this.dirty = true;
+        return "unchanged";
+      }
+    } catch {
+      // Unreadable - treat as changed and let the indexer decide
+    }
+
+    return "changed";
+  }
+
+  static hash(content: string | Buffer): string {
+    return crypto.createHash("sha1").update(content).digest("hex");
+  }
+}
+
+/**
+ * Debounced workspace file watcher that batches create/change/delete events
+ */
+export class IndexWatcher implements vscode.Disposable {
+  private watcher: vscode.FileSystemWatcher;
+  private emitter = new vscode.EventEmitter<IndexChangeBatch>();
+  private pendingChanged = new Set<string>();
+  private pendingDeleted = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private disposables: vscode.Disposable[] = [];
+
+  readonly onDidChange = this.emitter.event;
+
+  constructor(
+    private readonly workspaceRoot: string,
+    private readonly options: { ignoreDirs: Set<string>; debounceMs?: number }
+  ) {
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(workspaceRoot, "**/*")
+    );
+
+    this.disposables.push(
+      this.watcher,
+      this.emitter,
+      this.watcher.onDidCreate((uri) => this.queue(uri.fsPath, false)),
+      this.watcher.onDidChange((uri) => this.queue(uri.fsPath, false)),
+      this.watcher.onDidDelete((uri) => this.queue(uri.fsPath, true))
+    );
+  }
+
+  private queue(filePath: string, deleted: boolean): void {
+    if (this.isIgnored(filePath)) return;
+
+    if (deleted) {
+      this.pendingChanged.delete(filePath);
+      this.pendingDeleted.add(filePath);
+    } else {
+      this.pendingDeleted.delete(filePath);
+      this.pendingChanged.add(filePath);
+    }
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.options.debounceMs ?? 1000);
+  }
+
+  private flush(): void {
+    this.timer = null;
+    if (this.pendingChanged.size === 0 && this.pendingDeleted.size === 0) return;
+
+    const batch: IndexChangeBatch = {
+      changed: [...this.pendingChanged],
+      deleted: [...this.pendingDeleted],
+    };
+    this.pendingChanged.clear();
+    this.pendingDeleted.clear();
+
+    this.emitter.fire(batch);
+  }
+
+  private isIgnored(filePath: string): boolean {
+    const relativePath = path.relative(this.workspaceRoot, filePath);
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) return true;
+
+    return relativePath
+      .split(path.sep)
+      .some((segment) => this.options.ignoreDirs.has(segment) || segment.startsWith("."));
+  }
+
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer);
+    for (const d of this.disposables) d.dispose();
+    this.disposables = [];
+  }
+}
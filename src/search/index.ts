@@ -3,5 +3,9 @@
  */
 
 export * from "./semantic";
+export * from "./embeddings";
+export * from "./vector-store";
+export * from "./bm25";
+export * from "./incremental";
 export * from "./web";
 
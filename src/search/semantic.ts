@@ -1,11 +1,16 @@
 /**
  * Semantic Code Search - Uses embeddings for meaning-based search
- * Falls back to keyword search when embeddings unavailable
+ * Hybrid ranking: embedding cosine similarity + BM25 keyword scoring
  */
 
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
+import * as crypto from "crypto";
+import { BM25Index } from "./bm25";
+import { Embedder, HashingEmbedder, createEmbedder } from "./embeddings";
+import { VectorStore } from "./vector-store";
+import { IndexManifest, IndexWatcher, IndexChangeBatch } from "./incremental";
 
 export interface SearchResult {
   file: string;
@@ -25,13 +30,36 @@ export interface CodeChunk {
   endLine: number;
   language: string;
   signature?: string; // Function/class signature
+  hash: string; // Content hash - key into the vector store
 }
 
+interface ChunkShardFile {
+  version: string;
+  files: Record<string, CodeChunk[]>;
+}
+
+// Bump when chunking changes so every file is re-chunked on the next build
+const CHUNKER_VERSION = "1";
+const CHUNK_SHARD_COUNT = 32;
+
 export class SemanticSearch {
   private workspaceRoot: string;
-  private chunks: CodeChunk[] = [];
+  private fileChunks: Map<string, CodeChunk[]> = new Map();
+  private loaded = false;
   private indexed = false;
-  private indexPath: string;
+  private indexDir: string;
+  private manifest: IndexManifest<{ chunks: number }>;
+  private vectorStore: VectorStore;
+  private keywordIndex = new BM25Index();
+  private embedder: Embedder | null = null;
+  private dirtyShards: Set<number> = new Set();
+  private updateQueue: Promise<void> = Promise.resolve();
+
+  // Share of the hybrid score given to embedding similarity (rest is BM25)
+  private readonly VECTOR_WEIGHT = 0.65;
+  private readonly MIN_SCORE = 0.05;
+  private readonly EMBED_BATCH_SIZE = 32;
+  private readonly MAX_FILE_SIZE = 500 * 1024;
 
   // File extensions to index
   private readonly CODE_EXTENSIONS = new Set([
@@ -59,30 +87,250 @@ export class SemanticSearch {
       vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ||
       process.cwd();
     
-    this.indexPath = path.join(this.workspaceRoot, ".mythatron", "search-index.json");
+    this.indexDir = path.join(this.workspaceRoot, ".mythatron", "index");
+    this.manifest = new IndexManifest(path.join(this.indexDir, "manifest.json"));
+    this.vectorStore = new VectorStore(this.indexDir);
   }
 
   /**
-   * Index the codebase into searchable chunks
+   * Index the codebase into searchable chunks.
+   * Only files whose content changed since the last build are re-chunked and re-embedded.
    */
   async buildIndex(onProgress?: (message: string) => void): Promise<void> {
-    this.chunks = [];
-    onProgress?.("Scanning files...");
+    return this.enqueue(async () => {
+      if (!this.loaded) {
+        this.loadIndex();
+      }
 
-    await this.scanDirectory(this.workspaceRoot, onProgress);
-    
-    onProgress?.(`Indexed ${this.chunks.length} code chunks`);
-    this.indexed = true;
+      onProgress?.("Scanning files...");
+      const files: string[] = [];
+      this.collectFiles(this.workspaceRoot, files);
+
+      const changes = this.manifest.detectChanges(this.workspaceRoot, files);
+      onProgress?.(
+        `${changes.added.length} new, ${changes.changed.length} changed, ` +
+          `${changes.removed.length} removed, ${changes.unchanged} unchanged`
+      );
+
+      for (const relativePath of changes.removed) {
+        this.removeFile(relativePath);
+      }
+
+      const toIndex = [...changes.added, ...changes.changed];
+      toIndex.forEach((relativePath, i) => {
+        this.indexFile(relativePath);
+        if (i > 0 && i % 100 === 0) {
+          onProgress?.(`Chunked ${i}/${toIndex.length} files...`);
+        }
+      });
+
+      await this.embedChunks(onProgress);
+
+      onProgress?.(`Indexed ${this.getStats().chunks} code chunks`);
+      this.indexed = true;
 
-    // Save index to disk
-    this.saveIndex();
+      // Save index to disk
+      this.saveIndex();
+    });
   }
 
-  private async scanDirectory(
-    dir: string,
-    onProgress?: (message: string) => void,
-    depth = 0
+  /**
+   * Apply a batch of file-system events without rescanning the workspace
+   */
+  async applyChanges(batch: IndexChangeBatch): Promise<void> {
+    // Nothing built yet - the first full index happens on demand
+    if (!this.indexed) return;
+
+    return this.enqueue(async () => {
+      for (const filePath of batch.deleted) {
+        const relativePath = path.relative(this.workspaceRoot, filePath);
+        this.removeFile(relativePath);
+        for (const child of this.manifest.deleteTree(relativePath)) {
+          this.removeFile(child);
+        }
+      }
+
+      for (const filePath of batch.changed) {
+        if (!this.isIndexable(filePath)) continue;
+
+        const relativePath = path.relative(this.workspaceRoot, filePath);
+        const status = this.manifest.checkFile(this.workspaceRoot, relativePath);
+
+        if (status === "missing") {
+          this.removeFile(relativePath);
+        } else if (status !== "unchanged") {
+          this.indexFile(relativePath);
+        }
+      }
+
+      await this.embedChunks();
+      this.saveIndex();
+    });
+  }
+
+  /**
+   * Keep the index current as files change on disk
+   */
+  watch(): vscode.Disposable {
+    const watcher = new IndexWatcher(this.workspaceRoot, { ignoreDirs: this.IGNORE_DIRS });
+    watcher.onDidChange((batch) => {
+      this.applyChanges(batch).catch(() => {
+        // Next full build will pick the change up
+      });
+    });
+    return watcher;
+  }
+
+  /**
+   * Whether a previous build left an index on disk
+   */
+  hasPersistedIndex(): boolean {
+    return fs.existsSync(path.join(this.indexDir, "manifest.json"));
+  }
+
+  // Index updates must not interleave - builds and watcher batches run one at a time
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.updateQueue.then(task);
+    this.updateQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Re-chunk one file, replacing whatever was indexed for it before
+   */
+  private indexFile(relativePath: string): void {
+    const fullPath = path.join(this.workspaceRoot, relativePath);
+    this.removeFile(relativePath);
+
+    try {
+      const stats = fs.statSync(fullPath);
+      if (stats.size > this.MAX_FILE_SIZE) return;
+
+      const content = fs.readFileSync(fullPath, "utf-8");
+      const ext = path.extname(fullPath).toLowerCase();
+      const chunks = this.chunkFile(fullPath, relativePath, content, ext);
+
+      this.fileChunks.set(relativePath, chunks);
+      for (const chunk of chunks) {
+        this.keywordIndex.add(this.getChunkId(chunk), this.getChunkText(chunk));
+      }
+
+      this.manifest.record(relativePath, content, stats, { chunks: chunks.length });
+      this.dirtyShards.add(this.getShard(relativePath));
+    } catch {
+      // Skip files we can't read
+    }
+  }
+
+  private removeFile(relativePath: string): void {
+    const chunks = this.fileChunks.get(relativePath);
+    if (chunks) {
+      for (const chunk of chunks) {
+        this.keywordIndex.remove(this.getChunkId(chunk));
+      }
+      this.fileChunks.delete(relativePath);
+      this.dirtyShards.add(this.getShard(relativePath));
+    }
+    this.manifest.delete(relativePath);
+  }
+
+  private *allChunks(): IterableIterator<CodeChunk> {
+    for (const chunks of this.fileChunks.values()) {
+      yield* chunks;
+    }
+  }
+
+  /**
+   * Embed every chunk that doesn't already have a vector.
+   * Falls back to the offline hashing embedder if the configured one fails.
+   */
+  private async embedChunks(onProgress?: (message: string) => void): Promise<void> {
+    const embedder = await this.getEmbedder();
+
+    try {
+      await this.embedMissing(embedder, onProgress);
+    } catch (error) {
+      if (embedder.type === "hashing") throw error;
+
+      onProgress?.(`Embeddings unavailable (${error instanceof Error ? error.message : String(error)}), using offline index`);
+      this.embedder = new HashingEmbedder();
+      this.vectorStore.load(this.embedder.id);
+      await this.embedMissing(this.embedder, onProgress);
+    }
+
+    const hashes = new Set<string>();
+    for (const chunk of this.allChunks()) {
+      hashes.add(chunk.hash);
+    }
+    this.vectorStore.retain(hashes);
+    this.vectorStore.save();
+  }
+
+  private async embedMissing(
+    embedder: Embedder,
+    onProgress?: (message: string) => void
   ): Promise<void> {
+    const missing = [...this.allChunks()].filter((c) => !this.vectorStore.has(c.hash));
+    if (missing.length === 0) return;
+
+    onProgress?.(`Embedding ${missing.length} chunks with ${embedder.model}...`);
+
+    for (let i = 0; i < missing.length; i += this.EMBED_BATCH_SIZE) {
+      const batch = missing.slice(i, i + this.EMBED_BATCH_SIZE);
+      const vectors = await embedder.embed(batch.map((c) => this.getChunkText(c)));
+
+      batch.forEach((chunk, j) => this.vectorStore.set(chunk.hash, vectors[j]));
+
+      if (i > 0 && i % (this.EMBED_BATCH_SIZE * 10) === 0) {
+        onProgress?.(`Embedded ${i}/${missing.length} chunks...`);
+      }
+    }
+  }
+
+  private async getEmbedder(): Promise<Embedder> {
+    if (!this.embedder) {
+      this.embedder = await createEmbedder();
+      this.vectorStore.load(this.embedder.id);
+    }
+    return this.embedder;
+  }
+
+  /**
+   * Text used for both embedding and keyword scoring
+   */
+  private getChunkText(chunk: CodeChunk): string {
+    return [chunk.relativePath, chunk.signature || "", chunk.content].join("\n");
+  }
+
+  private getChunkId(chunk: CodeChunk): string {
+    return `${chunk.relativePath}:${chunk.startLine}`;
+  }
+
+  private hashChunk(relativePath: string, content: string): string {
+    return crypto
+      .createHash("sha1")
+      .update(relativePath)
+      .update("\0")
+      .update(content)
+      .digest("hex")
+      .slice(0, 16);
+  }
+
+  private rebuildKeywordIndex(): void {
+    this.keywordIndex.clear();
+    for (const chunk of this.allChunks()) {
+      this.keywordIndex.add(this.getChunkId(chunk), this.getChunkText(chunk));
+    }
+  }
+
+  private isIndexable(filePath: string): boolean {
+    return this.CODE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Collect indexable files (workspace-relative)
+   */
+  private collectFiles(dir: string, files: string[], depth = 0): void {
     if (depth > 10) return;
 
     let entries: fs.Dirent[];
@@ -94,32 +342,24 @@ export class SemanticSearch {
 
     for (const entry of entries) {
       const fullPath = path.join(dir, entry.name);
-      const relativePath = path.relative(this.workspaceRoot, fullPath);
 
       if (entry.isDirectory()) {
         if (this.IGNORE_DIRS.has(entry.name) || entry.name.startsWith(".")) {
           continue;
         }
-        await this.scanDirectory(fullPath, onProgress, depth + 1);
+        this.collectFiles(fullPath, files, depth + 1);
         continue;
       }
 
-      const ext = path.extname(entry.name).toLowerCase();
-      if (!this.CODE_EXTENSIONS.has(ext)) continue;
+      if (!this.isIndexable(entry.name)) continue;
 
       try {
         const stat = fs.statSync(fullPath);
-        if (stat.size > 500 * 1024) continue; // Skip files > 500KB
-
-        const content = fs.readFileSync(fullPath, "utf-8");
-        const chunks = this.chunkFile(fullPath, relativePath, content, ext);
-        this.chunks.push(...chunks);
+        if (stat.size > this.MAX_FILE_SIZE) continue; // Skip files > 500KB
 
-        if (this.chunks.length % 100 === 0) {
-          onProgress?.(`Processed ${this.chunks.length} chunks...`);
-        }
+        files.push(path.relative(this.workspaceRoot, fullPath));
       } catch {
-        // Skip files we can't read
+        // Skip files we can't stat
       }
     }
   }
@@ -150,6 +390,7 @@ export class SemanticSearch {
           endLine: chunk.endLine,
           language,
           signature: chunk.signature,
+          hash: this.hashChunk(relativePath, chunk.content),
         });
       }
     } else {
@@ -161,13 +402,15 @@ export class SemanticSearch {
         const chunkLines = lines.slice(i, i + chunkSize);
         if (chunkLines.length < 5) continue;
 
+        const chunkContent = chunkLines.join("\n");
         chunks.push({
           file: filePath,
           relativePath,
-          content: chunkLines.join("\n"),
+          content: chunkContent,
           startLine: i + 1,
           endLine: Math.min(i + chunkSize, lines.length),
           language,
+          hash: this.hashChunk(relativePath, chunkContent),
         });
       }
     }
@@ -273,76 +516,62 @@ export class SemanticSearch {
   }
 
   /**
-   * Search the codebase
+   * Search the codebase - hybrid of embedding similarity and BM25
    */
   async search(query: string, maxResults = 20): Promise<SearchResult[]> {
-    // Load index if not loaded
+    // Load the persisted index and catch up on edits made since it was saved
     if (!this.indexed) {
-      this.loadIndex();
-    }
-
-    if (this.chunks.length === 0) {
       await this.buildIndex();
     }
 
-    const results: SearchResult[] = [];
-    const queryLower = query.toLowerCase();
-    const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 2);
-
-    // Score each chunk
-    for (const chunk of this.chunks) {
-      let score = 0;
-      const contentLower = chunk.content.toLowerCase();
-      const fileNameLower = path.basename(chunk.relativePath).toLowerCase();
-      const signatureLower = chunk.signature?.toLowerCase() || "";
-
-      // Exact phrase match
-      if (contentLower.includes(queryLower)) {
-        score += 100;
-      }
-
-      // Signature match
-      if (signatureLower.includes(queryLower)) {
-        score += 80;
-      }
-
-      // Filename match
-      if (fileNameLower.includes(queryLower)) {
-        score += 60;
+    // Vector side - a failing embedder degrades to keyword-only ranking
+    let queryVector: Float32Array | null = null;
+    try {
+      const embedder = await this.getEmbedder();
+      if (this.vectorStore.size === 0) {
+        // Through the update queue so it can't interleave with an indexing pass
+        await this.enqueue(async () => {
+          if (this.vectorStore.size === 0) await this.embedChunks();
+        });
       }
+      const [vector] = await embedder.embed([query]);
+      queryVector = VectorStore.prepareQuery(vector);
+    } catch {
+      queryVector = null;
+    }
 
-      // Word matches
-      for (const word of queryWords) {
-        if (signatureLower.includes(word)) score += 20;
-        if (fileNameLower.includes(word)) score += 15;
-        
-        // Count occurrences in content
-        const regex = new RegExp(word, "gi");
-        const matches = contentLower.match(regex);
-        if (matches) {
-          score += Math.min(matches.length * 5, 30);
-        }
-      }
+    // Keyword side
+    const keywordScores = this.keywordIndex.search(query);
+    let maxKeywordScore = 0;
+    for (const score of keywordScores.values()) {
+      if (score > maxKeywordScore) maxKeywordScore = score;
+    }
 
-      // Boost for common code patterns
-      if (query.includes("function") && chunk.signature?.includes("function")) {
-        score += 20;
-      }
-      if (query.includes("class") && chunk.signature?.includes("class")) {
-        score += 20;
-      }
+    const vectorWeight = queryVector ? this.VECTOR_WEIGHT : 0;
+    const results: SearchResult[] = [];
 
-      if (score > 0) {
-        results.push({
-          file: chunk.file,
-          relativePath: chunk.relativePath,
-          content: chunk.content,
-          score,
-          startLine: chunk.startLine,
-          endLine: chunk.endLine,
-          matchType: "keyword",
-        });
-      }
+    for (const chunk of this.allChunks()) {
+      const vectorScore = queryVector
+        ? Math.max(0, this.vectorStore.similarity(chunk.hash, queryVector))
+        : 0;
+      const keywordScore = maxKeywordScore > 0
+        ? (keywordScores.get(this.getChunkId(chunk)) || 0) / maxKeywordScore
+        : 0;
+
+      const score = vectorWeight * vectorScore + (1 - vectorWeight) * keywordScore;
+      if (score < this.MIN_SCORE) continue;
+
+      results.push({
+        file: chunk.file,
+        relativePath: chunk.relativePath,
+        content: chunk.content,
+        score,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        matchType: vectorWeight * vectorScore >= (1 - vectorWeight) * keywordScore
+          ? "semantic"
+          : "keyword",
+      });
     }
 
     // Sort by score and return top results
@@ -352,37 +581,90 @@ export class SemanticSearch {
   }
 
   /**
-   * Save index to disk
+   * Save changed chunk shards, the manifest and vectors to disk
    */
   private saveIndex(): void {
-    const configDir = path.dirname(this.indexPath);
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
+    if (this.dirtyShards.size > 0) {
+      const shards = new Map<number, Record<string, CodeChunk[]>>();
+      for (const shard of this.dirtyShards) {
+        shards.set(shard, {});
+      }
+
+      for (const [relativePath, chunks] of this.fileChunks) {
+        const bucket = shards.get(this.getShard(relativePath));
+        if (bucket) bucket[relativePath] = chunks;
+      }
+
+      fs.mkdirSync(this.indexDir, { recursive: true });
+      for (const [shard, files] of shards) {
+        const data: ChunkShardFile = { version: CHUNKER_VERSION, files };
+        fs.writeFileSync(this.getShardPath(shard), JSON.stringify(data));
+      }
+      this.dirtyShards.clear();
     }
 
-    fs.writeFileSync(
-      this.indexPath,
-      JSON.stringify({ chunks: this.chunks, timestamp: Date.now() })
-    );
+    this.manifest.save();
+    this.vectorStore.save();
   }
 
   /**
    * Load index from disk
    */
   private loadIndex(): void {
-    try {
-      if (fs.existsSync(this.indexPath)) {
-        const data = JSON.parse(fs.readFileSync(this.indexPath, "utf-8"));
-        
-        // Check if index is fresh (less than 1 hour old)
-        if (Date.now() - data.timestamp < 60 * 60 * 1000) {
-          this.chunks = data.chunks;
-          this.indexed = true;
+    this.loaded = true;
+    this.fileChunks.clear();
+    this.removeLegacyIndex();
+
+    if (this.manifest.load({ chunker: CHUNKER_VERSION })) {
+      for (let shard = 0; shard < CHUNK_SHARD_COUNT; shard++) {
+        try {
+          const shardPath = this.getShardPath(shard);
+          if (!fs.existsSync(shardPath)) continue;
+
+          const data = JSON.parse(fs.readFileSync(shardPath, "utf-8")) as ChunkShardFile;
+          if (data.version !== CHUNKER_VERSION) continue;
+
+          for (const [relativePath, chunks] of Object.entries(data.files)) {
+            if (this.manifest.has(relativePath)) {
+              this.fileChunks.set(relativePath, chunks);
+            }
+          }
+        } catch {
+          // Ignore load errors - affected files are re-chunked below
+        }
+      }
+
+      // Manifest entries whose shard was lost get re-chunked on this build
+      for (const relativePath of this.manifest.paths()) {
+        if (!this.fileChunks.has(relativePath)) {
+          this.manifest.delete(relativePath);
         }
       }
-    } catch {
-      // Ignore load errors
     }
+
+    this.rebuildKeywordIndex();
+  }
+
+  /**
+   * The single-file index format rewrote everything on each build - drop it
+   */
+  private removeLegacyIndex(): void {
+    for (const file of ["search-index.json", "vector-index.json"]) {
+      try {
+        fs.rmSync(path.join(this.workspaceRoot, ".mythatron", file), { force: true });
+      } catch {
+        // Best effort cleanup
+      }
+    }
+  }
+
+  private getShard(relativePath: string): number {
+    const hash = crypto.createHash("md5").update(relativePath).digest();
+    return hash.readUInt16LE(0) % CHUNK_SHARD_COUNT;
+  }
+
+  private getShardPath(shard: number): string {
+    return path.join(this.indexDir, `chunks-${shard.toString().padStart(2, "0")}.json`);
   }
 
   private getLanguage(ext: string): string {
@@ -409,11 +691,16 @@ export class SemanticSearch {
   /**
    * Get index stats
    */
-  getStats(): { chunks: number; files: number } {
-    const files = new Set(this.chunks.map((c) => c.file));
+  getStats(): { chunks: number; files: number; vectors: number; embedder: string } {
+    let chunks = 0;
+    for (const fileChunks of this.fileChunks.values()) {
+      chunks += fileChunks.length;
+    }
     return {
-      chunks: this.chunks.length,
-      files: files.size,
+      chunks,
+      files: this.fileChunks.size,
+      vectors: this.vectorStore.size,
+      embedder: this.embedder?.id || "none",
     };
   }
 }
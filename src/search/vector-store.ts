@@ -0,0 +1,177 @@
+/**
+ * Vector Store - On-disk embedding index under .mythatron/
+ * Vectors are keyed by chunk content hash so unchanged code is never re-embedded.
+ * Stored in shards so an edit only rewrites the shard it touched.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+interface VectorShardFile {
+  version: number;
+  embedder: string;
+  dimensions: number;
+  vectors: Record<string, string>; // content hash -> base64 Float32Array
+}
+
+const INDEX_VERSION = 2;
+const SHARD_COUNT = 16;
+
+export class VectorStore {
+  private vectors: Map<string, Float32Array> = new Map();
+  private embedderId: string | null = null;
+  private dimensions = 0;
+  private dirtyShards: Set<number> = new Set();
+
+  constructor(private readonly indexDir: string) {}
+
+  /**
+   * Load vectors from disk. Shards produced by a different embedder are discarded.
+   */
+  load(embedderId: string): void {
+    this.vectors.clear();
+    this.dirtyShards.clear();
+    this.embedderId = embedderId;
+    this.dimensions = 0;
+
+    for (let shard = 0; shard < SHARD_COUNT; shard++) {
+      const shardPath = this.getShardPath(shard);
+
+      try {
+        if (!fs.existsSync(shardPath)) continue;
+
+        const data = JSON.parse(fs.readFileSync(shardPath, "utf-8")) as VectorShardFile;
+        if (data.version !== INDEX_VERSION || data.embedder !== embedderId) {
+          this.dirtyShards.add(shard);
+          continue;
+        }
+
+        this.dimensions = data.dimensions;
+        for (const [key, encoded] of Object.entries(data.vectors)) {
+          const buffer = Buffer.from(encoded, "base64");
+          this.vectors.set(
+            key,
+            new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4)
+          );
+        }
+      } catch {
+        // Corrupt shard - rebuild it
+        this.dirtyShards.add(shard);
+      }
+    }
+  }
+
+  /**
+   * Write only the shards that changed since the last save
+   */
+  save(): void {
+    if (this.dirtyShards.size === 0 || !this.embedderId) return;
+
+    const shards = new Map<number, Record<string, string>>();
+    for (const shard of this.dirtyShards) {
+      shards.set(shard, {});
+    }
+
+    for (const [key, vector] of this.vectors) {
+      const bucket = shards.get(this.getShard(key));
+      if (bucket) {
+        bucket[key] = Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString("base64");
+      }
+    }
+
+    fs.mkdirSync(this.indexDir, { recursive: true });
+
+    for (const [shard, vectors] of shards) {
+      const data: VectorShardFile = {
+        version: INDEX_VERSION,
+        embedder: this.embedderId,
+        dimensions: this.dimensions,
+        vectors,
+      };
+      fs.writeFileSync(this.getShardPath(shard), JSON.stringify(data));
+    }
+
+    this.dirtyShards.clear();
+  }
+
+  has(key: string): boolean {
+    return this.vectors.has(key);
+  }
+
+  get(key: string): Float32Array | undefined {
+    return this.vectors.get(key);
+  }
+
+  /**
+   * Store a vector, normalized so similarity is a plain dot product
+   */
+  set(key: string, vector: number[]): void {
+    let norm = 0;
+    for (const v of vector) norm += v * v;
+    norm = Math.sqrt(norm) || 1;
+
+    this.vectors.set(key, Float32Array.from(vector, (v) => v / norm));
+    this.dimensions = vector.length;
+    this.dirtyShards.add(this.getShard(key));
+  }
+
+  delete(key: string): void {
+    if (this.vectors.delete(key)) {
+      this.dirtyShards.add(this.getShard(key));
+    }
+  }
+
+  /**
+   * Drop vectors whose chunks no longer exist
+   */
+  retain(keys: Set<string>): void {
+    for (const key of this.vectors.keys()) {
+      if (!keys.has(key)) {
+        this.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Cosine similarity between a query and a stored vector
+   */
+  similarity(key: string, query: Float32Array): number {
+    const vector = this.vectors.get(key);
+    if (!vector || vector.length !== query.length) return 0;
+
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dot += vector[i] * query[i];
+    }
+    return dot;
+  }
+
+  /**
+   * Normalize a query vector to match stored vectors
+   */
+  static prepareQuery(vector: number[]): Float32Array {
+    let norm = 0;
+    for (const v of vector) norm += v * v;
+    norm = Math.sqrt(norm) || 1;
+    return Float32Array.from(vector, (v) => v / norm);
+  }
+
+  clear(): void {
+    this.vectors.clear();
+    for (let shard = 0; shard < SHARD_COUNT; shard++) {
+      this.dirtyShards.add(shard);
+    }
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  private getShard(key: string): number {
+    return (parseInt(key.slice(0, 2), 16) || 0) % SHARD_COUNT;
+  }
+
+  private getShardPath(shard: number): string {
+    return path.join(this.indexDir, `vectors-${shard.toString(16)}.json`);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Terminal Capture - Records output of commands run in VS Code's own terminals
+ * Uses the shell integration API (VS Code 1.93+); terminals without shell
+ * integration can't be read and are reported as such.
+ */
+
+import * as vscode from "vscode";
+import { OutputBuffer, cleanTerminalOutput } from "./output";
+
+export interface CapturedTerminal {
+  id: string;
+  name: string;
+  terminal: vscode.Terminal;
+  buffer: OutputBuffer;
+  shellIntegration: boolean;
+}
+
+export class TerminalCapture implements vscode.Disposable {
+  private buffers = new Map<vscode.Terminal, OutputBuffer>();
+  private ids = new WeakMap<vscode.Terminal, string>();
+  private counter = 0;
+  private disposables: vscode.Disposable[] = [];
+  private started = false;
+
+  /**
+   * Start listening (no-op on hosts without the shell integration API)
+   */
+  start(): void {
+    if (this.started || typeof vscode.window.onDidStartTerminalShellExecution !== "function") return;
+    this.started = true;
+
+    this.disposables.push(
+      vscode.window.onDidStartTerminalShellExecution((event) => {
+        this.capture(event).catch((error) => console.error("Terminal capture failed:", error));
+      }),
+      vscode.window.onDidCloseTerminal((terminal) => {
+        const buffer = this.buffers.get(terminal);
+        buffer?.close();
+        buffer?.dispose();
+        this.buffers.delete(terminal);
+      })
+    );
+  }
+
+  /**
+   * All open terminals, with their captured output so far
+   */
+  list(): CapturedTerminal[] {
+    return vscode.window.terminals.map((terminal) => this.describe(terminal));
+  }
+
+  /**
+   * Terminal by id ("terminal-2") or name; the active terminal when omitted
+   */
+  find(idOrName?: string): CapturedTerminal | undefined {
+    if (!idOrName) {
+      const active = vscode.window.activeTerminal;
+      return active ? this.describe(active) : undefined;
+    }
+
+    return this.list().find((t) => t.id === idOrName || t.name === idOrName);
+  }
+
+  private describe(terminal: vscode.Terminal): CapturedTerminal {
+    return {
+      id: this.getId(terminal),
+      name: terminal.name,
+      terminal,
+      buffer: this.getBuffer(terminal),
+      shellIntegration: !!terminal.shellIntegration,
+    };
+  }
+
+  private async capture(event: vscode.TerminalShellExecutionStartEvent): Promise<void> {
+    const buffer = this.getBuffer(event.terminal);
+    buffer.append(`$ ${event.execution.commandLine.value}\n`);
+
+    for await (const data of event.execution.read()) {
+      buffer.append(cleanTerminalOutput(data));
+    }
+  }
+
+  private getBuffer(terminal: vscode.Terminal): OutputBuffer {
+    let buffer = this.buffers.get(terminal);
+    if (!buffer) {
+      buffer = new OutputBuffer();
+      this.buffers.set(terminal, buffer);
+    }
+    return buffer;
+  }
+
+  private getId(terminal: vscode.Terminal): string {
+    let id = this.ids.get(terminal);
+    if (!id) {
+      id = `terminal-${++this.counter}`;
+      this.ids.set(terminal, id);
+    }
+    return id;
+  }
+
+  dispose(): void {
+    for (const buffer of this.buffers.values()) buffer.dispose();
+    this.buffers.clear();
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+    this.started = false;
+  }
+}
+
+// Singleton
+let terminalCapture: TerminalCapture | null = null;
+
+export function getTerminalCapture(): TerminalCapture {
+  if (!terminalCapture) {
+    terminalCapture = new TerminalCapture();
+  }
+  return terminalCapture;
+}
@@ -3,10 +3,16 @@
  */
 
 export * from "./manager";
+export * from "./policy";
+export * from "./shell-parser";
+export * from "./output";
+export * from "./capture";
 
 import { getTerminalManager } from "./manager";
+import { getTerminalCapture } from "./capture";
 
 export async function initTerminalManager(): Promise<void> {
   getTerminalManager();
+  getTerminalCapture().start();
 }
 
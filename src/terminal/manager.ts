@@ -1,17 +1,20 @@
 /**
  * Terminal Manager - Advanced terminal with permissions, background jobs, monitoring
  * Mirrors Cursor's terminal capabilities
+ * Every command goes through the TerminalPolicy before it runs.
  */
 
 import * as vscode from "vscode";
-import { spawn, ChildProcess, exec } from "child_process";
+import { spawn, spawnSync, ChildProcess, exec, execFile } from "child_process";
 import { promisify } from "util";
 import * as path from "path";
 import * as fs from "fs";
+import { TerminalPolicy, TerminalPermission, PolicyDecision, LaunchSpec, SandboxKind } from "./policy";
+import { quoteShellArg } from "./shell-parser";
+import { OutputBuffer, cleanTerminalOutput } from "./output";
 
 const execAsync = promisify(exec);
-
-export type TerminalPermission = "network" | "git_write" | "all";
+const execFileAsync = promisify(execFile);
 
 export interface TerminalJob {
   id: string;
@@ -26,6 +29,8 @@ export interface TerminalJob {
   error: string;
   status: "running" | "completed" | "failed" | "killed";
   permissions: TerminalPermission[];
+  sandbox?: SandboxKind;
+  pty?: boolean;
 }
 
 export interface TerminalOptions {
@@ -34,14 +39,33 @@ export interface TerminalOptions {
   isBackground?: boolean;
   permissions?: TerminalPermission[];
   env?: Record<string, string>;
+  pty?: boolean; // background only: run under a pseudo-terminal for tools that need a TTY
+}
+
+export interface TerminalOutputEvent {
+  jobId: string;
+  stream: "stdout" | "stderr";
+  data: string;
 }
 
+// What a PTY-backed job sees as its terminal
+const PTY_ENV = { TERM: "xterm-256color", COLUMNS: "120", LINES: "40", SHELL: "/bin/sh" };
+
 export class TerminalManager {
   private workspaceRoot: string;
   private jobs: Map<string, TerminalJob> = new Map();
   private processes: Map<string, ChildProcess> = new Map();
+  private transcripts: Map<string, OutputBuffer> = new Map(); // stdout + stderr in arrival order
+  private inputs: Map<string, string[]> = new Map(); // stdin each job accepted, for checking what follows
   private terminalsDir: string;
   private jobCounter = 0;
+  private policy: TerminalPolicy;
+  private ptyAvailable: boolean | undefined;
+  private outputEmitter = new vscode.EventEmitter<TerminalOutputEvent>();
+  private exitEmitter = new vscode.EventEmitter<TerminalJob>();
+
+  readonly onDidOutput = this.outputEmitter.event;
+  readonly onDidExit = this.exitEmitter.event;
 
   constructor(workspaceRoot?: string) {
     this.workspaceRoot =
@@ -52,6 +76,7 @@ export class TerminalManager {
     // Create terminals tracking directory
     this.terminalsDir = path.join(this.workspaceRoot, ".mythatron", "terminals");
     this.ensureTerminalsDir();
+    this.policy = new TerminalPolicy(this.workspaceRoot);
   }
 
   private ensureTerminalsDir(): void {
@@ -60,63 +85,15 @@ export class TerminalManager {
     }
   }
 
-  /**
-   * Check if a command requires specific permissions
-   */
-  private analyzeCommandPermissions(command: string): TerminalPermission[] {
-    const required: TerminalPermission[] = [];
-    const cmd = command.toLowerCase();
-
-    // Network permissions
-    if (
-      cmd.includes("curl") ||
-      cmd.includes("wget") ||
-      cmd.includes("npm install") ||
-      cmd.includes("npm i ") ||
-      cmd.includes("yarn add") ||
-      cmd.includes("pnpm add") ||
-      cmd.includes("pip install") ||
-      cmd.includes("fetch") ||
-      cmd.includes("http://") ||
-      cmd.includes("https://")
-    ) {
-      required.push("network");
-    }
-
-    // Git write permissions
-    if (
-      cmd.includes("git commit") ||
-      cmd.includes("git push") ||
-      cmd.includes("git checkout") ||
-      cmd.includes("git merge") ||
-      cmd.includes("git rebase") ||
-      cmd.includes("git reset") ||
-      cmd.includes("git stash")
-    ) {
-      required.push("git_write");
-    }
-
-    return required;
+  getPolicy(): TerminalPolicy {
+    return this.policy;
   }
 
   /**
-   * Check if command has required permissions
+   * What a command would need, without running it
    */
-  private checkPermissions(
-    command: string,
-    grantedPermissions: TerminalPermission[]
-  ): { allowed: boolean; missing: TerminalPermission[] } {
-    if (grantedPermissions.includes("all")) {
-      return { allowed: true, missing: [] };
-    }
-
-    const required = this.analyzeCommandPermissions(command);
-    const missing = required.filter((p) => !grantedPermissions.includes(p));
-
-    return {
-      allowed: missing.length === 0,
-      missing,
-    };
+  checkCommand(command: string, options: TerminalOptions = {}): PolicyDecision {
+    return this.policy.evaluate(command, options.cwd || this.workspaceRoot, options.permissions || []);
   }
 
   /**
@@ -131,8 +108,20 @@ export class TerminalManager {
     const permissions = options.permissions || [];
 
     // Check permissions
-    const permCheck = this.checkPermissions(command, permissions);
-    if (!permCheck.allowed) {
+    const decision = this.policy.evaluate(command, cwd, permissions);
+    this.policy.audit({
+      event: "decision",
+      jobId,
+      command,
+      cwd,
+      allowed: decision.allowed,
+      required: decision.required,
+      granted: permissions,
+      denials: decision.denials,
+      sandbox: decision.sandbox,
+    });
+
+    if (!decision.allowed) {
       const job: TerminalJob = {
         id: jobId,
         command,
@@ -141,7 +130,7 @@ export class TerminalManager {
         endTime: new Date(),
         isBackground: false,
         output: "",
-        error: `Permission denied. Command requires: ${permCheck.missing.join(", ")}`,
+        error: this.formatDenial(decision),
         status: "failed",
         permissions,
       };
@@ -158,34 +147,59 @@ export class TerminalManager {
       error: "",
       status: "running",
       permissions,
+      sandbox: decision.sandbox ?? undefined,
     };
 
     this.jobs.set(jobId, job);
+    this.transcripts.set(jobId, new OutputBuffer());
     this.writeTerminalFile(job);
 
+    const launch = this.policy.wrap(command, cwd, decision, permissions);
+
     if (options.isBackground) {
       // Run in background
-      this.runBackground(job, options);
+      this.runBackground(job, options, launch);
       return job;
     } else {
       // Run and wait for completion
-      return this.runForeground(job, options);
+      return this.runForeground(job, options, launch);
     }
   }
 
+  private formatDenial(decision: PolicyDecision): string {
+    const lines: string[] = [];
+
+    if (decision.denials.length > 0) {
+      lines.push("Blocked by terminal policy:", ...decision.denials.map((d) => `  - ${d}`));
+    }
+
+    if (decision.missing.length > 0) {
+      lines.push(`Permission denied. Command requires: ${decision.missing.join(", ")}`);
+      for (const finding of decision.findings.filter((f) => decision.missing.includes(f.permission))) {
+        lines.push(`  - ${finding.permission}: ${finding.command} (${finding.reason})`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
   private async runForeground(
     job: TerminalJob,
-    options: TerminalOptions
+    options: TerminalOptions,
+    launch: LaunchSpec | null
   ): Promise<TerminalJob> {
     const timeout = options.timeout || 60000;
+    const execOptions = {
+      cwd: job.cwd,
+      timeout,
+      maxBuffer: 10 * 1024 * 1024,
+      env: this.policy.buildEnv(options.env),
+    };
 
     try {
-      const { stdout, stderr } = await execAsync(job.command, {
-        cwd: job.cwd,
-        timeout,
-        maxBuffer: 10 * 1024 * 1024,
-        env: { ...process.env, ...options.env },
-      });
+      const { stdout, stderr } = launch
+        ? await execFileAsync(launch.file, launch.args, execOptions)
+        : await execAsync(job.command, execOptions);
 
       job.output = stdout;
       job.error = stderr;
@@ -200,38 +214,72 @@ export class TerminalManager {
 
     job.endTime = new Date();
     this.writeTerminalFile(job);
+    this.auditExit(job);
+
+    const transcript = this.transcripts.get(job.id);
+    transcript?.append(job.output);
+    transcript?.append(job.error);
+    transcript?.close();
     return job;
   }
 
-  private runBackground(job: TerminalJob, options: TerminalOptions): void {
-    const [cmd, ...args] = job.command.split(" ");
+  private runBackground(job: TerminalJob, options: TerminalOptions, launch: LaunchSpec | null): void {
+    job.pty = options.pty === true && this.isPtyAvailable();
+
+    // Plain jobs go through the shell so quoting, pipes, && and VAR=x work
+    let file = job.command;
+    let args: string[] = [];
+    let shell = !launch;
+    if (job.pty) {
+      const inner = launch ? [launch.file, ...launch.args].map(quoteShellArg).join(" ") : job.command;
+      [file, ...args] = this.ptyArgv(inner);
+      shell = false;
+    } else if (launch) {
+      file = launch.file;
+      args = launch.args;
+    }
 
-    const proc = spawn(cmd, args, {
+    const proc = spawn(file, args, {
       cwd: job.cwd,
-      env: { ...process.env, ...options.env },
-      detached: true,
-      stdio: ["ignore", "pipe", "pipe"],
+      env: this.policy.buildEnv({ ...(job.pty ? PTY_ENV : {}), ...options.env }),
+      shell,
+      detached: process.platform !== "win32",
+      stdio: ["pipe", "pipe", "pipe"],
+      windowsHide: true,
     });
 
     job.pid = proc.pid;
     this.processes.set(job.id, proc);
 
-    proc.stdout?.on("data", (data: Buffer) => {
-      job.output += data.toString();
+    const onData = (stream: "stdout" | "stderr") => (data: Buffer) => {
+      const text = job.pty ? cleanTerminalOutput(data.toString()) : data.toString();
+      if (stream === "stdout") {
+        job.output += text;
+      } else {
+        job.error += text;
+      }
       this.writeTerminalFile(job);
-    });
+      this.transcripts.get(job.id)?.append(text);
+      this.outputEmitter.fire({ jobId: job.id, stream, data: text });
+    };
 
-    proc.stderr?.on("data", (data: Buffer) => {
-      job.error += data.toString();
-      this.writeTerminalFile(job);
-    });
+    proc.stdout?.on("data", onData("stdout"));
+    proc.stderr?.on("data", onData("stderr"));
+    // A job that exits while we write to it shouldn't take the extension down
+    proc.stdin?.on("error", () => undefined);
 
     proc.on("close", (code) => {
-      job.exitCode = code ?? undefined;
-      job.endTime = new Date();
-      job.status = code === 0 ? "completed" : "failed";
+      if (job.status === "running") {
+        job.exitCode = code ?? undefined;
+        job.status = code === 0 ? "completed" : "failed";
+      }
+      job.endTime = job.endTime || new Date();
       this.processes.delete(job.id);
+      this.inputs.delete(job.id);
       this.writeTerminalFile(job);
+      this.auditExit(job);
+      this.transcripts.get(job.id)?.close();
+      this.exitEmitter.fire(job);
     });
 
     proc.on("error", (error) => {
@@ -239,13 +287,102 @@ export class TerminalManager {
       job.status = "failed";
       job.endTime = new Date();
       this.processes.delete(job.id);
+      this.inputs.delete(job.id);
       this.writeTerminalFile(job);
+      this.auditExit(job);
+      this.transcripts.get(job.id)?.close();
+      this.exitEmitter.fire(job);
     });
 
     // Unref to allow parent to exit
     proc.unref();
   }
 
+  /**
+   * Whether `script` can give jobs a pseudo-terminal (probed once)
+   */
+  isPtyAvailable(): boolean {
+    if (this.ptyAvailable === undefined) {
+      const probe =
+        process.platform === "linux"
+          ? ["-q", "-e", "-c", "true", "/dev/null"]
+          : ["-q", "/dev/null", "true"];
+      try {
+        this.ptyAvailable =
+          process.platform !== "win32" &&
+          spawnSync("script", probe, { timeout: 3000, stdio: "ignore" }).status === 0;
+      } catch {
+        this.ptyAvailable = false;
+      }
+    }
+    return this.ptyAvailable;
+  }
+
+  private ptyArgv(command: string): string[] {
+    // util-linux: -c runs through $SHELL, -e keeps the exit code, -f flushes every write
+    if (process.platform === "linux") {
+      return ["script", "-q", "-f", "-e", "-c", command, "/dev/null"];
+    }
+    return ["script", "-q", "/dev/null", "/bin/sh", "-c", command];
+  }
+
+  /**
+   * Write to a background job's stdin, if the terminal policy allows it
+   * (a shell job runs what it reads, so its input is checked like a command)
+   */
+  writeInput(jobId: string, data: string): { written: boolean; reason?: string } {
+    const proc = this.processes.get(jobId);
+    const job = this.jobs.get(jobId);
+    if (!job || !proc?.stdin || proc.stdin.destroyed) {
+      return { written: false, reason: `Job ${jobId} is not accepting input` };
+    }
+
+    const history = this.inputs.get(jobId) || [];
+    const decision = this.policy.evaluateInput(job.command, data, job.cwd, job.permissions, history);
+    if (!decision.allowed) {
+      this.policy.audit({
+        event: "decision",
+        jobId,
+        command: `stdin: ${data.trimEnd()}`,
+        allowed: false,
+        required: decision.required,
+        granted: job.permissions,
+        denials: decision.denials,
+      });
+      return { written: false, reason: this.formatDenial(decision) };
+    }
+
+    this.inputs.set(jobId, [...history, data]);
+    // A terminal sends Enter as \r; the PTY's line discipline turns it into \n
+    proc.stdin.write(job.pty ? data.replace(/\r?\n/g, "\r") : data);
+    return { written: true };
+  }
+
+  /**
+   * Close a background job's stdin (EOF for tools reading until end of input)
+   */
+  closeInput(jobId: string): boolean {
+    const proc = this.processes.get(jobId);
+    if (!proc?.stdin || proc.stdin.destroyed) return false;
+
+    const job = this.jobs.get(jobId);
+    if (job?.pty) {
+      proc.stdin.write("\x04"); // Ctrl-D
+    } else {
+      proc.stdin.end();
+    }
+    return true;
+  }
+
+  /**
+   * Stream a job's output as it arrives
+   */
+  subscribe(jobId: string, listener: (event: TerminalOutputEvent) => void): vscode.Disposable {
+    return this.onDidOutput((event) => {
+      if (event.jobId === jobId) listener(event);
+    });
+  }
+
   /**
    * Kill a background job
    */
@@ -253,20 +390,40 @@ export class TerminalManager {
     const proc = this.processes.get(jobId);
     const job = this.jobs.get(jobId);
 
+    if (job?.status === "running") {
+      job.status = "killed";
+      job.endTime = new Date();
+    }
+
     if (proc) {
-      proc.kill("SIGTERM");
+      // Jobs run in their own process group; take the whole shell pipeline down
+      try {
+        if (process.platform !== "win32" && proc.pid) {
+          process.kill(-proc.pid, "SIGTERM");
+        } else {
+          proc.kill("SIGTERM");
+        }
+      } catch {
+        proc.kill("SIGTERM");
+      }
       this.processes.delete(jobId);
     }
 
     if (job) {
-      job.status = "killed";
-      job.endTime = new Date();
       this.writeTerminalFile(job);
+      this.policy.audit({ event: "killed", jobId, command: job.command, status: job.status });
     }
 
     return !!proc || !!job;
   }
 
+  /**
+   * Combined stdout/stderr of a job, for tail/grep/wait reads
+   */
+  getOutputBuffer(jobId: string): OutputBuffer | undefined {
+    return this.transcripts.get(jobId);
+  }
+
   /**
    * Get job status
    */
@@ -290,6 +447,16 @@ export class TerminalManager {
       .slice(0, count);
   }
 
+  private auditExit(job: TerminalJob): void {
+    this.policy.audit({
+      event: "exit",
+      jobId: job.id,
+      command: job.command,
+      exitCode: job.exitCode,
+      status: job.status,
+    });
+  }
+
   /**
    * Write terminal state to file (for monitoring)
    */
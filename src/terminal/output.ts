@@ -0,0 +1,174 @@
+/**
+ * Terminal Output - Bounded, byte-addressed output buffers
+ * Backs read_terminal_output for agent jobs and VS Code terminals:
+ * tail, grep, read-since-offset and wait-for-pattern.
+ */
+
+import * as vscode from "vscode";
+
+// Keep this much of each transcript; older output is dropped but offsets stay absolute
+const MAX_BUFFER_BYTES = 2 * 1024 * 1024;
+
+export interface OutputReadOptions {
+  lines?: number; // tail: last N lines
+  grep?: string; // regex, keep matching lines only
+  sinceOffset?: number; // only output after this byte offset
+  waitFor?: string; // regex to wait for before reading
+  timeoutMs?: number;
+}
+
+export interface OutputReadResult {
+  text: string;
+  startOffset: number; // offset the text was read from
+  nextOffset: number; // pass as sinceOffset to read only newer output
+  dropped: boolean; // sinceOffset pointed at output no longer retained
+  matched?: boolean; // waitFor result
+  closed: boolean; // source has finished
+}
+
+export class OutputBuffer implements vscode.Disposable {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private startOffset = 0;
+  private closedFlag = false;
+  private emitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChange = this.emitter.event;
+
+  /**
+   * Byte offset of the first retained byte
+   */
+  get start(): number {
+    return this.startOffset;
+  }
+
+  /**
+   * Byte offset just past the last byte written
+   */
+  get end(): number {
+    return this.startOffset + this.size;
+  }
+
+  get closed(): boolean {
+    return this.closedFlag;
+  }
+
+  append(text: string): void {
+    if (!text) return;
+
+    const chunk = Buffer.from(text, "utf-8");
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+
+    while (this.size > MAX_BUFFER_BYTES && this.chunks.length > 1) {
+      const dropped = this.chunks.shift()!;
+      this.size -= dropped.length;
+      this.startOffset += dropped.length;
+    }
+
+    this.emitter.fire();
+  }
+
+  /**
+   * No more output will arrive (job exited, terminal closed)
+   */
+  close(): void {
+    if (this.closedFlag) return;
+    this.closedFlag = true;
+    this.emitter.fire();
+  }
+
+  /**
+   * Output from a byte offset (clamped to what is retained) to the end
+   */
+  read(fromOffset = this.startOffset): string {
+    const from = Math.min(Math.max(fromOffset, this.startOffset), this.end);
+    return Buffer.concat(this.chunks).subarray(from - this.startOffset).toString("utf-8");
+  }
+
+  /**
+   * Resolve true once a line matching the pattern has been written after fromOffset,
+   * false on timeout or if the source closes first
+   */
+  waitFor(pattern: RegExp, timeoutMs: number, fromOffset = this.startOffset): Promise<boolean> {
+    // Only rescan from the last incomplete line on each append
+    let scanFrom = fromOffset;
+    const check = (): boolean => {
+      const text = this.read(scanFrom);
+      if (text.split("\n").some((line) => pattern.test(line))) return true;
+      const lastNewline = text.lastIndexOf("\n");
+      if (lastNewline >= 0) {
+        scanFrom = Math.max(scanFrom, this.startOffset) + Buffer.byteLength(text.slice(0, lastNewline + 1));
+      }
+      return false;
+    };
+
+    if (check()) return Promise.resolve(true);
+    if (this.closedFlag) return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+      const finish = (matched: boolean) => {
+        clearTimeout(timer);
+        subscription.dispose();
+        resolve(matched);
+      };
+      const timer = setTimeout(() => finish(false), timeoutMs);
+      const subscription = this.onDidChange(() => {
+        if (check()) {
+          finish(true);
+        } else if (this.closedFlag) {
+          finish(false);
+        }
+      });
+    });
+  }
+
+  dispose(): void {
+    this.emitter.dispose();
+  }
+}
+
+/**
+ * Read from a buffer with the tail/grep/since/wait options (throws on an invalid regex)
+ */
+export async function readOutput(
+  buffer: OutputBuffer,
+  options: OutputReadOptions = {}
+): Promise<OutputReadResult> {
+  const grep = options.grep ? new RegExp(options.grep) : null;
+  const waitFor = options.waitFor ? new RegExp(options.waitFor) : null;
+  const sinceOffset = options.sinceOffset ?? buffer.start;
+
+  let matched: boolean | undefined;
+  if (waitFor) {
+    matched = await buffer.waitFor(waitFor, options.timeoutMs ?? 30000, sinceOffset);
+  }
+
+  const startOffset = Math.max(sinceOffset, buffer.start);
+  const nextOffset = buffer.end;
+  let lines = buffer.read(startOffset).split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  if (grep) lines = lines.filter((line) => grep.test(line));
+  if (options.lines !== undefined && options.lines > 0) lines = lines.slice(-options.lines);
+
+  return {
+    text: lines.join("\n"),
+    startOffset,
+    nextOffset,
+    dropped: sinceOffset < buffer.start,
+    matched,
+    closed: buffer.closed,
+  };
+}
+
+/**
+ * Strip the escape sequences and CRLFs terminals add so stored output stays readable
+ */
+export function cleanTerminalOutput(text: string): string {
+  return text
+    .replace(/\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g, "")
+    .replace(/\x1b\[[0-9;?]*[ -\/]*[@-~]/g, "")
+    .replace(/\x1b[()][0-9A-Za-z]|\x1b[=>]/g, "")
+    .replace(/\r\n/g, "\n");
+}
@@ -0,0 +1,777 @@
+/**
+ * Terminal Policy - Decides what agent shell commands may do
+ * Classifies every command a line would run (network, git writes, destructive
+ * filesystem changes, package installs), applies the project's allow/deny rules
+ * from .mythatron/terminal-policy.json, picks a sandbox and keeps an audit log.
+ * The policy file, audit log, MCP and preflight config and checkpoints are off
+ * limits to the agent itself.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { parseCommandLine, SimpleCommand, SHELLS } from "./shell-parser";
+
+export type TerminalPermission =
+  | "network"
+  | "git_write"
+  | "filesystem_destructive"
+  | "package_install"
+  | "code_execution"
+  | "all";
+
+export interface PolicyRule {
+  command?: string; // glob per word against the command, e.g. "git push", "npm run *"
+  args?: string; // regex tested against the joined arguments
+  path?: string; // glob tested against any path the command touches
+  env?: string; // glob tested against env vars the command sets or reads
+  reason?: string;
+}
+
+export type SandboxMode = "off" | "auto" | "required";
+
+export interface TerminalPolicyConfig {
+  allow?: PolicyRule[]; // matching commands need no permissions
+  deny?: PolicyRule[]; // matching commands are refused, even with "all"
+  aliases?: Record<string, string>; // shell aliases the agent's commands may use
+  scrubEnv?: string[]; // env var globs removed from every command's environment
+  sandbox?: SandboxMode;
+  sandboxWritable?: string[]; // extra paths writable inside the sandbox
+}
+
+export interface PolicyFinding {
+  command: string;
+  permission: Exclude<TerminalPermission, "all">;
+  reason: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  required: TerminalPermission[];
+  missing: TerminalPermission[];
+  findings: PolicyFinding[];
+  denials: string[];
+  sandbox: SandboxKind | null;
+}
+
+export type SandboxKind = "bwrap" | "unshare";
+
+interface CommandPaths {
+  all: string[]; // everything the command mentions
+  operands: string[];
+  writes: string[]; // redirect targets and files the command writes or removes
+}
+
+export interface LaunchSpec {
+  file: string;
+  args: string[];
+}
+
+export interface AuditEntry {
+  event: "decision" | "exit" | "killed";
+  jobId: string;
+  command: string;
+  cwd?: string;
+  allowed?: boolean;
+  required?: TerminalPermission[];
+  granted?: TerminalPermission[];
+  denials?: string[];
+  sandbox?: SandboxKind | null;
+  exitCode?: number;
+  status?: string;
+}
+
+const NETWORK_COMMANDS = new Set([
+  "curl", "wget", "ssh", "scp", "sftp", "rsync", "nc", "ncat", "netcat", "telnet",
+  "ftp", "http", "https", "xh", "aria2c", "socat",
+]);
+
+const GIT_NETWORK = new Set(["clone", "fetch", "pull", "push", "ls-remote", "submodule"]);
+const GIT_WRITE = new Set([
+  "commit", "push", "checkout", "switch", "merge", "rebase", "reset", "stash",
+  "cherry-pick", "revert", "am", "restore", "clean", "rm", "mv", "tag", "branch",
+]);
+// git global options that take a value
+const GIT_VALUE_OPTIONS = new Set(["-C", "-c", "--git-dir", "--work-tree", "--namespace"]);
+
+// Package managers and the subcommands that install (anything else is harmless)
+const PACKAGE_INSTALL: Record<string, Set<string> | "always"> = {
+  npm: new Set(["install", "i", "in", "ins", "add", "ci", "update", "up", "upgrade", "install-test", "it"]),
+  yarn: new Set(["", "add", "install", "upgrade", "up", "dlx"]),
+  pnpm: new Set(["add", "install", "i", "update", "up", "dlx"]),
+  bun: new Set(["add", "install", "i", "update", "x"]),
+  bunx: "always",
+  pip: new Set(["install", "download"]),
+  pip3: new Set(["install", "download"]),
+  pipx: new Set(["install", "run"]),
+  uv: new Set(["add", "sync", "tool"]),
+  poetry: new Set(["add", "install", "update"]),
+  conda: new Set(["install", "create", "update"]),
+  cargo: new Set(["install", "add", "update"]),
+  go: new Set(["install", "get"]),
+  gem: new Set(["install", "update"]),
+  bundle: new Set(["install", "update", "add"]),
+  composer: new Set(["install", "require", "update"]),
+  brew: new Set(["install", "upgrade", "reinstall"]),
+  apt: new Set(["install", "upgrade", "update"]),
+  "apt-get": new Set(["install", "upgrade", "update", "dist-upgrade"]),
+  yum: new Set(["install", "update", "upgrade"]),
+  dnf: new Set(["install", "update", "upgrade"]),
+  apk: new Set(["add", "upgrade"]),
+  pacman: new Set(["-S", "-Sy", "-Syu", "-U"]),
+};
+
+// Interpreters whose REPL runs code the policy can't analyze (several can also shell out)
+const INTERPRETERS = new Set([
+  "python", "python2", "python3", "node", "deno", "bun", "ruby", "irb", "perl", "php", "lua",
+  "R", "ghci", "pwsh", "powershell", "psql", "mysql", "sqlite3", "redis-cli", "mongo", "mongosh",
+]);
+
+// Options that hand an interpreter code inline - its `sh -c`, but in a language the policy can't read
+const INLINE_CODE: Record<string, RegExp> = {
+  python: /^-(?![mWX])[a-zA-Z]*c/,
+  python2: /^-(?![mWX])[a-zA-Z]*c/,
+  python3: /^-(?![mWX])[a-zA-Z]*c/,
+  node: /^-[a-zA-Z]*[ep]$|^--(eval|print)(=|$)/,
+  bun: /^-[a-zA-Z]*e$|^--(eval|print)(=|$)/,
+  deno: /^eval$/,
+  perl: /^-(?![MmIx])[a-zA-Z0-9]*[eE]/,
+  ruby: /^-(?![Ir])[a-zA-Z0-9]*e/,
+  php: /^-[rBRE]$|^--(run|process-begin|process-code|process-end)(=|$)/,
+  lua: /^-e/,
+  R: /^-e$|^--expr/,
+  Rscript: /^-e$/,
+  pwsh: /^-(c|command|e|ec|encodedcommand)$/i,
+  powershell: /^-(c|command|e|ec|encodedcommand)$/i,
+  psql: /^-c|^--command(=|$)/,
+  mysql: /^-e|^--execute(=|$)/,
+};
+
+const ALWAYS_DESTRUCTIVE = new Set(["shred", "mkfs", "wipefs", "fdisk", "parted", "dd", "truncate"]);
+// Commands whose non-option arguments are written or removed
+const WRITE_TARGET_COMMANDS = new Set(["rm", "rmdir", "mv", "cp", "tee", "ln", "install", "chmod", "chown", "touch", "mkdir"]);
+
+const POLICY_TEMPLATE: TerminalPolicyConfig = {
+  allow: [
+    { command: "npm run *", reason: "Project scripts" },
+    { command: "npm test" },
+  ],
+  deny: [
+    { command: "git push", args: "--force|-f\\b", reason: "No force pushes" },
+    { path: ".env*", reason: "Secrets stay out of agent commands" },
+    { env: "AWS_SECRET_*" },
+  ],
+  aliases: {},
+  scrubEnv: ["*_TOKEN", "*_SECRET", "*_API_KEY"],
+  sandbox: "off",
+  sandboxWritable: [],
+};
+
+export class TerminalPolicy {
+  private readonly policyPath: string;
+  private readonly auditPath: string;
+  private readonly protectedFiles: string[]; // only the user may change these
+  private readonly protectedDirs: string[]; // off limits along with everything inside
+  private config: TerminalPolicyConfig = {};
+  private loadedMtime = -1;
+  private sandboxKind: SandboxKind | null | undefined;
+
+  constructor(private readonly workspaceRoot: string) {
+    const dir = path.join(workspaceRoot, ".mythatron");
+    this.policyPath = path.join(dir, "terminal-policy.json");
+    this.auditPath = path.join(dir, "terminal-audit.jsonl");
+    // mcp.json decides which servers start and which tools need approval;
+    // preflight.json holds commands that run unprompted
+    this.protectedFiles = [
+      this.policyPath,
+      this.auditPath,
+      path.join(dir, "mcp.json"),
+      path.join(dir, "preflight.json"),
+    ];
+    this.protectedDirs = [path.join(dir, "checkpoints")];
+  }
+
+  getPolicyPath(): string {
+    return this.policyPath;
+  }
+
+  getAuditPath(): string {
+    return this.auditPath;
+  }
+
+  /**
+   * Current rules (re-read whenever the file changes)
+   */
+  getConfig(): TerminalPolicyConfig {
+    let mtime = 0;
+    try {
+      mtime = fs.statSync(this.policyPath).mtimeMs;
+    } catch {
+      this.config = {};
+      this.loadedMtime = 0;
+      return this.config;
+    }
+
+    if (mtime !== this.loadedMtime) {
+      try {
+        this.config = JSON.parse(fs.readFileSync(this.policyPath, "utf-8"));
+      } catch (error) {
+        console.error("Invalid terminal policy, using defaults:", error);
+        this.config = {};
+      }
+      this.loadedMtime = mtime;
+    }
+
+    return this.config;
+  }
+
+  /**
+   * Whether changing target would change the policy, audit log, MCP or
+   * preflight config or checkpoints (itself, a directory holding them,
+   * something inside them, or a symlink to them)
+   */
+  isProtectedPath(target: string): boolean {
+    const candidates = [path.resolve(target)];
+    try {
+      candidates.push(fs.realpathSync(target));
+    } catch {
+      // Doesn't exist yet
+    }
+    return candidates.some(
+      (c) =>
+        [...this.protectedFiles, ...this.protectedDirs].some((file) => isWithin(c, file)) ||
+        this.protectedDirs.some((dir) => isWithin(dir, c))
+    );
+  }
+
+  /**
+   * Write a starter policy file if none exists
+   */
+  ensurePolicyFile(): string {
+    if (!fs.existsSync(this.policyPath)) {
+      fs.mkdirSync(path.dirname(this.policyPath), { recursive: true });
+      fs.writeFileSync(this.policyPath, JSON.stringify(POLICY_TEMPLATE, null, 2));
+    }
+    return this.policyPath;
+  }
+
+  /**
+   * Work out what a command line needs and whether the granted permissions cover it
+   */
+  evaluate(command: string, cwd: string, granted: TerminalPermission[]): PolicyDecision {
+    const config = this.getConfig();
+    const parsed = parseCommandLine(command, config.aliases);
+    const findings: PolicyFinding[] = [];
+    const denials: string[] = [];
+
+    // Refuse what we can't fully analyze rather than guess
+    for (const error of parsed.errors) {
+      denials.push(`Could not analyze command (${error})`);
+    }
+
+    // Every directory a cd/pushd may have moved to; paths resolve against all of them
+    const cwds = new Set([path.resolve(cwd)]);
+    let lostCwd: string | null = null;
+
+    for (const cmd of parsed.commands) {
+      const label = describe(cmd);
+      if (lostCwd) {
+        denials.push(`${label}: runs after "${lostCwd}", whose directory can't be worked out`);
+        continue;
+      }
+      const paths = this.collectPaths(cmd, [...cwds]);
+
+      const moved = changesDirectory(cmd) ? resolveDirectoryChange(cmd, [...cwds], command) : [];
+      if (moved === null) lostCwd = label;
+      else moved.forEach((dir) => cwds.add(dir));
+
+      if (cmd.dynamic) {
+        denials.push(`${label}: the command name is computed when it runs, so it can't be checked`);
+      }
+
+      const tampered = this.findPolicyTarget(cmd, paths);
+      if (tampered) {
+        denials.push(`${label}: ${path.basename(tampered)} can only be changed by the user`);
+      }
+
+      for (const rule of config.deny || []) {
+        if (this.matchesRule(rule, cmd, paths, parsed.variables)) {
+          denials.push(`${label}: denied by policy${rule.reason ? ` (${rule.reason})` : ""}`);
+        }
+      }
+
+      const protectedTarget = this.findProtectedTarget(cmd, paths);
+      if (protectedTarget) {
+        denials.push(`${label}: refusing to remove ${protectedTarget}`);
+      }
+
+      if ((config.allow || []).some((rule) => this.matchesRule(rule, cmd, paths, parsed.variables))) {
+        continue;
+      }
+
+      findings.push(...this.classify(cmd, label, paths));
+    }
+
+    const required = [...new Set(findings.map((f) => f.permission))];
+    const missing = granted.includes("all") ? [] : required.filter((p) => !granted.includes(p));
+
+    const sandboxMode = config.sandbox || "off";
+    const sandbox = sandboxMode === "off" ? null : this.detectSandbox();
+    if (sandboxMode === "required" && !sandbox) {
+      denials.push("Policy requires a sandbox but neither bubblewrap nor unshare is usable");
+    }
+
+    return {
+      allowed: denials.length === 0 && missing.length === 0,
+      required,
+      missing,
+      findings,
+      denials,
+      sandbox,
+    };
+  }
+
+  /**
+   * Whether text may go to a running job's stdin. A shell reading stdin runs
+   * it as a script, so it is evaluated after the input the job already
+   * accepted (`history`, which may have changed directory); an interpreter's
+   * REPL runs code that can't be analyzed, so it gets nothing.
+   */
+  evaluateInput(
+    jobCommand: string,
+    text: string,
+    cwd: string,
+    granted: TerminalPermission[],
+    history: string[] = []
+  ): PolicyDecision {
+    const readers = parseCommandLine(jobCommand, this.getConfig().aliases).commands;
+    const decision: PolicyDecision = { allowed: true, required: [], missing: [], findings: [], denials: [], sandbox: null };
+
+    const repl = readers.find((cmd) => INTERPRETERS.has(cmd.name) && readsStdin(cmd));
+    if (repl) {
+      decision.allowed = false;
+      decision.denials.push(`${repl.name} would run the input as code, which the policy can't check`);
+      return decision;
+    }
+    if (!readers.some((cmd) => SHELLS.has(cmd.name) && readsStdin(cmd))) {
+      return decision;
+    }
+
+    const script = [...history, text].join("\n");
+    return { ...this.evaluate(script, cwd, granted), sandbox: null };
+  }
+
+  /**
+   * Argv that runs the command inside the sandbox (network only when granted)
+   */
+  wrap(command: string, cwd: string, decision: PolicyDecision, granted: TerminalPermission[]): LaunchSpec | null {
+    if (!decision.sandbox) return null;
+
+    const allowNetwork =
+      granted.includes("all") || (granted.includes("network") && decision.required.includes("network"));
+
+    if (decision.sandbox === "unshare") {
+      // unshare can only cut the network; the filesystem stays as-is
+      return {
+        file: "unshare",
+        args: [
+          "--user", "--map-root-user",
+          ...(allowNetwork ? [] : ["--net"]),
+          "--", "/bin/sh", "-c", command,
+        ],
+      };
+    }
+
+    const writable = [this.workspaceRoot, ...(this.getConfig().sandboxWritable || [])]
+      .map((p) => path.resolve(this.workspaceRoot, expandHome(p)))
+      .filter((p) => fs.existsSync(p));
+
+    return {
+      file: "bwrap",
+      args: [
+        "--ro-bind", "/", "/",
+        "--dev", "/dev",
+        "--proc", "/proc",
+        "--tmpfs", "/tmp",
+        ...writable.flatMap((p) => ["--bind", p, p]),
+        ...[...this.protectedFiles, ...this.protectedDirs].filter((p) => fs.existsSync(p)).flatMap((p) => ["--ro-bind", p, p]),
+        ...(allowNetwork ? [] : ["--unshare-net"]),
+        "--die-with-parent",
+        "--chdir", cwd,
+        "/bin/sh", "-c", command,
+      ],
+    };
+  }
+
+  /**
+   * Child environment with scrubbed variables removed
+   */
+  buildEnv(extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = { ...process.env, ...extra };
+    const patterns = (this.getConfig().scrubEnv || []).map((g) => globToRegExp(g));
+
+    for (const key of Object.keys(env)) {
+      if (patterns.some((re) => re.test(key))) delete env[key];
+    }
+
+    return env;
+  }
+
+  /**
+   * Append to .mythatron/terminal-audit.jsonl
+   */
+  audit(entry: AuditEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.auditPath), { recursive: true });
+      fs.appendFileSync(this.auditPath, JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n");
+    } catch {
+      // Auditing must never break command execution
+    }
+  }
+
+  // ============================================
+  // CLASSIFICATION
+  // ============================================
+
+  private classify(cmd: SimpleCommand, label: string, paths: CommandPaths): PolicyFinding[] {
+    const findings: PolicyFinding[] = [];
+    const add = (permission: PolicyFinding["permission"], reason: string) =>
+      findings.push({ command: label, permission, reason });
+    const { name, args } = cmd;
+
+    if (NETWORK_COMMANDS.has(name)) add("network", `${name} makes network requests`);
+    if (args.some((a) => /\b(https?|ftp|ssh|git):\/\/|^git@/.test(a))) add("network", "URL argument");
+
+    if (name === "git") {
+      const sub = gitSubcommand(args);
+      const subArgs = args.slice(args.indexOf(sub) + 1);
+      if (GIT_NETWORK.has(sub)) add("network", `git ${sub} talks to a remote`);
+      if (GIT_WRITE.has(sub) && !(sub === "branch" && !subArgs.some((a) => /^-[dDmM]$|^--(delete|move)/.test(a)))) {
+        add("git_write", `git ${sub} changes the repository`);
+      }
+      if (sub === "clean" && subArgs.some((a) => /^-[a-zA-Z]*f/.test(a))) {
+        add("filesystem_destructive", "git clean -f deletes untracked files");
+      }
+      if (sub === "reset" && subArgs.includes("--hard")) {
+        add("filesystem_destructive", "git reset --hard discards changes");
+      }
+    }
+
+    const install = PACKAGE_INSTALL[name];
+    if (install) {
+      const sub = args.find((a) => !a.startsWith("-") || name === "pacman") ?? "";
+      if (install === "always" || install.has(sub)) {
+        add("package_install", `${name} ${sub}`.trim() + " installs packages");
+        add("network", "package installs download from a registry");
+      }
+    }
+    // python -m pip install, uv pip install
+    const pip = args.indexOf("pip");
+    if (["python", "python3", "uv"].includes(name) && pip >= 0 && args[pip + 1] === "install") {
+      add("package_install", "pip install installs packages");
+      add("network", "package installs download from a registry");
+    }
+    if ((name === "npx" || name === "pnpx") && args.some((a) => a === "-y" || a === "--yes")) {
+      add("package_install", `${name} --yes installs packages on demand`);
+    }
+
+    if (ALWAYS_DESTRUCTIVE.has(name) || name.startsWith("mkfs.")) {
+      add("filesystem_destructive", `${name} overwrites data`);
+    }
+    if (name === "rm" && args.some((a) => /^-[a-zA-Z]*[rRf]|^--(recursive|force)$/.test(a))) {
+      add("filesystem_destructive", "recursive/forced delete");
+    }
+    if ((name === "chmod" || name === "chown" || name === "chgrp") && args.some((a) => /^-[a-zA-Z]*R|^--recursive$/.test(a))) {
+      add("filesystem_destructive", `recursive ${name}`);
+    }
+    if (name === "find" && args.includes("-delete")) {
+      add("filesystem_destructive", "find -delete");
+    }
+
+    const inline = INLINE_CODE[name] && args.find((a) => INLINE_CODE[name].test(a));
+    if (inline) {
+      add("code_execution", `${name} ${inline} runs inline code the policy can't analyze`);
+    }
+    if ((SHELLS.has(name) || INTERPRETERS.has(name)) && !inline && runsUnseenInput(cmd)) {
+      add("code_execution", `${name} runs whatever it is fed on stdin, which the policy can't check`);
+    }
+
+    const outside = paths.writes.filter((p) => !this.isSafeWriteTarget(p));
+    if (outside.length > 0) {
+      add("filesystem_destructive", `writes outside the workspace: ${outside.join(", ")}`);
+    }
+
+    return findings;
+  }
+
+  private matchesRule(rule: PolicyRule, cmd: SimpleCommand, paths: CommandPaths, variables: string[]): boolean {
+    if (!rule.command && !rule.args && !rule.path && !rule.env) return false;
+
+    if (rule.command) {
+      const patterns = rule.command.trim().split(/\s+/).map((w) => globToRegExp(w));
+      const words = commandWords(cmd);
+      if (patterns.length > words.length) return false;
+      if (!patterns.every((re, i) => re.test(words[i]))) return false;
+    }
+
+    if (rule.args) {
+      try {
+        if (!new RegExp(rule.args).test(cmd.args.join(" "))) return false;
+      } catch {
+        return false;
+      }
+    }
+
+    if (rule.path) {
+      const re = globToRegExp(rule.path);
+      const matchBasename = !rule.path.includes("/");
+      const hit = paths.all.some((p) => {
+        const relative = path.relative(this.workspaceRoot, p).split(path.sep).join("/");
+        return re.test(p) || re.test(relative) || (matchBasename && re.test(path.basename(p)));
+      });
+      if (!hit) return false;
+    }
+
+    if (rule.env) {
+      const re = globToRegExp(rule.env);
+      const names = [...Object.keys(cmd.assignments), ...variables];
+      if (!names.some((n) => re.test(n))) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Absolute paths a command mentions: operands, --opt=value values and redirect targets.
+   * Relative paths resolve against every directory the line may be in by then.
+   */
+  private collectPaths(cmd: SimpleCommand, cwds: string[]): CommandPaths {
+    const resolve = (p: string) => [...new Set(cwds.map((cwd) => path.resolve(cwd, expandHome(p))))];
+    const operands: string[] = [];
+    const options: string[] = [];
+
+    for (const arg of cmd.args) {
+      if (!arg || /^[a-z]+:\/\//i.test(arg)) continue;
+      if (arg.startsWith("-")) {
+        const eq = arg.indexOf("=");
+        if (eq > 0) options.push(arg.slice(eq + 1));
+      } else if (cmd.name === "dd" && /^(if|of)=/.test(arg)) {
+        options.push(arg.slice(3));
+      } else {
+        operands.push(arg);
+      }
+    }
+
+    const writes = cmd.redirects
+      .filter((r) => /^(>|>>|&>|&>>|>\||<>)$/.test(r.op) && !r.target.startsWith("&"))
+      .map((r) => r.target);
+    const reads = cmd.redirects.filter((r) => /^(<|<<<)$/.test(r.op)).map((r) => r.target);
+
+    if (WRITE_TARGET_COMMANDS.has(cmd.name)) {
+      // cp/mv/ln/install only write their destination
+      writes.push(...(["cp", "mv", "ln", "install"].includes(cmd.name) ? operands.slice(-1) : operands));
+    }
+    const of = cmd.name === "dd" ? cmd.args.find((a) => a.startsWith("of=")) : undefined;
+    if (of) writes.push(of.slice(3));
+
+    return {
+      all: [...operands, ...options, ...writes, ...reads].flatMap(resolve),
+      operands: operands.flatMap(resolve),
+      writes: writes.flatMap(resolve),
+    };
+  }
+
+  private isSafeWriteTarget(target: string): boolean {
+    const roots = [
+      this.workspaceRoot,
+      os.tmpdir(),
+      "/tmp",
+      "/dev/null",
+      "/dev/stdout",
+      "/dev/stderr",
+      ...(this.getConfig().sandboxWritable || []).map((p) => path.resolve(this.workspaceRoot, expandHome(p))),
+    ];
+    return roots.some((root) => isWithin(root, target));
+  }
+
+  /**
+   * A protected file the command names (any mention - a hard link or
+   * interpreter could write through it), or a directory holding one that it
+   * writes, moves or removes
+   */
+  private findPolicyTarget(cmd: SimpleCommand, paths: CommandPaths): string | null {
+    const direct = paths.all.find((p) => this.isProtectedEntry(p) || this.isProtectedFile(p));
+    if (direct) return direct;
+
+    const changesOperands =
+      WRITE_TARGET_COMMANDS.has(cmd.name) || ALWAYS_DESTRUCTIVE.has(cmd.name) || (cmd.name === "find" && cmd.args.includes("-delete"));
+    const candidates = changesOperands ? [...paths.operands, ...paths.writes] : paths.writes;
+    return candidates.find((p) => this.isProtectedPath(p)) ?? null;
+  }
+
+  private isProtectedFile(target: string): boolean {
+    try {
+      return this.isProtectedEntry(fs.realpathSync(target));
+    } catch {
+      return false;
+    }
+  }
+
+  private isProtectedEntry(target: string): boolean {
+    return this.protectedFiles.includes(target) || this.protectedDirs.some((dir) => isWithin(dir, target));
+  }
+
+  /**
+   * Deleting the filesystem root, the home directory or the whole workspace is never allowed
+   */
+  private findProtectedTarget(cmd: SimpleCommand, paths: CommandPaths): string | null {
+    if (cmd.name !== "rm" && cmd.name !== "rmdir" && cmd.name !== "shred") return null;
+
+    const protectedPaths = [path.parse(this.workspaceRoot).root, os.homedir(), this.workspaceRoot];
+    const hit = paths.operands.find(
+      (p) =>
+        protectedPaths.includes(p) ||
+        (/[*?]/.test(path.basename(p)) && protectedPaths.includes(path.dirname(p)))
+    );
+    return hit ?? null;
+  }
+
+  /**
+   * First usable sandbox (probed once): bubblewrap, then unshare
+   */
+  private detectSandbox(): SandboxKind | null {
+    if (this.sandboxKind !== undefined) return this.sandboxKind;
+
+    const probe = (file: string, args: string[]) => {
+      try {
+        return spawnSync(file, args, { timeout: 3000, stdio: "ignore" }).status === 0;
+      } catch {
+        return false;
+      }
+    };
+
+    if (process.platform !== "linux") {
+      this.sandboxKind = null;
+    } else if (probe("bwrap", ["--ro-bind", "/", "/", "--unshare-net", "true"])) {
+      this.sandboxKind = "bwrap";
+    } else if (probe("unshare", ["--user", "--map-root-user", "--net", "true"])) {
+      this.sandboxKind = "unshare";
+    } else {
+      this.sandboxKind = null;
+    }
+
+    return this.sandboxKind;
+  }
+}
+
+/**
+ * "git push" for git/package managers (subcommand after global options), else name + operands
+ */
+function commandWords(cmd: SimpleCommand): string[] {
+  if (cmd.name === "git") {
+    const sub = gitSubcommand(cmd.args);
+    return ["git", ...cmd.args.slice(cmd.args.indexOf(sub)).filter((a) => !a.startsWith("-"))];
+  }
+  return [cmd.name, ...cmd.args.filter((a) => !a.startsWith("-"))];
+}
+
+/**
+ * A shell or interpreter with no script operand (or told to read stdin)
+ * takes its commands from stdin
+ */
+function readsStdin(cmd: SimpleCommand): boolean {
+  if (cmd.args.some((a) => a === "-" || a === "-s" || a === "-i")) return true;
+  return !cmd.args.some((a) => !a.startsWith("-"));
+}
+
+/**
+ * A shell or interpreter fed a script it never sees: from a pipe, a heredoc or
+ * here-string, or a file descriptor (/dev/stdin, <(...))
+ */
+function runsUnseenInput(cmd: SimpleCommand): boolean {
+  const fed = cmd.piped || cmd.redirects.some((r) => r.op === "<<" || r.op === "<<-" || r.op === "<<<");
+  if (fed && readsStdin(cmd)) return true;
+
+  const script = cmd.args.find((a) => !a.startsWith("-"));
+  return script !== undefined && /^(<\(|\/dev\/(stdin|fd\/)|\/proc\/self\/fd\/)/.test(script);
+}
+
+function changesDirectory(cmd: SimpleCommand): boolean {
+  return cmd.name === "cd" || cmd.name === "pushd" || cmd.name === "popd";
+}
+
+/**
+ * Directories a cd/pushd/popd may move to, or null if the target can't be
+ * worked out ($VARS, globs, `cd -`, or CDPATH lookups). popd and pushd +N
+ * only return to directories the line has already been in.
+ */
+function resolveDirectoryChange(cmd: SimpleCommand, cwds: string[], line: string): string[] | null {
+  if (cmd.name === "popd") return [];
+
+  const operands = skipDirOptions(cmd.args);
+  if (cmd.name === "pushd" && (operands.length === 0 || /^[+-]\d+$/.test(operands[0]))) return [];
+
+  const target = operands[0] ?? "~";
+  if (target === "-" || /[$`*?[]/.test(target) || /^~[^/]/.test(target)) return null;
+
+  const cdpath = process.env.CDPATH || /\bCDPATH=/.test(line);
+  if (cdpath && !/^(\/|~|\.\.?(\/|$))/.test(target)) return null;
+
+  return cwds.map((cwd) => path.resolve(cwd, expandHome(target)));
+}
+
+function skipDirOptions(args: string[]): string[] {
+  let i = 0;
+  while (i < args.length && /^-[LPe@n]+$/.test(args[i])) i++;
+  if (args[i] === "--") i++;
+  return args.slice(i);
+}
+
+function gitSubcommand(args: string[]): string {
+  for (let i = 0; i < args.length; i++) {
+    if (GIT_VALUE_OPTIONS.has(args[i])) {
+      i++;
+    } else if (!args[i].startsWith("-")) {
+      return args[i];
+    }
+  }
+  return "";
+}
+
+function describe(cmd: SimpleCommand): string {
+  const text = [cmd.name || "(redirect)", ...cmd.args].join(" ");
+  const short = text.length > 80 ? text.slice(0, 77) + "..." : text;
+  return cmd.wrappers.length > 0 ? `${short} [via ${cmd.wrappers.join(" > ")}]` : short;
+}
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Glob to anchored regex: ** spans directories, * and ? stay within one segment
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+      if (glob[i + 1] === "/") i++;
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,577 @@
+/**
+ * Shell Parser - Shell-aware breakdown of command lines for policy checks
+ * Handles quoting, pipelines, lists, subshells, command/process substitution,
+ * heredocs, `sh -c` / `eval` scripts, aliases and wrappers like sudo, env, xargs
+ * and busybox.
+ * It doesn't execute anything - it finds every command a line would run.
+ */
+
+import * as path from "path";
+
+export interface Redirect {
+  op: string;
+  target: string;
+}
+
+export interface SimpleCommand {
+  name: string; // executable basename after unwrapping
+  args: string[];
+  assignments: Record<string, string>; // FOO=bar prefixes and `env FOO=bar`
+  redirects: Redirect[];
+  wrappers: string[]; // how it was reached, e.g. ["sudo", "sh -c"]
+  dynamic: boolean; // the name comes from an expansion or glob, so what runs is unknown
+  piped: boolean; // comes after a pipe, so its stdin may be another command's output
+}
+
+export interface ParsedCommandLine {
+  commands: SimpleCommand[];
+  variables: string[]; // $VARS referenced anywhere
+  errors: string[];
+}
+
+type Token =
+  | { type: "word"; value: string; substitutions: string[] }
+  | { type: "op"; value: string };
+
+// Longest first so "&&" wins over "&"
+const OPERATORS = [
+  "<<<", "&>>", "<<-",
+  "&&", "||", "|&", ";;", "<<", ">>", "&>", ">&", "<&", ">|", "<>",
+  "|", ";", "&", "\n", "(", ")", "<", ">",
+];
+const CONTROL_OPS = new Set(["&&", "||", "|&", ";;", "|", ";", "&", "\n", "(", ")"]);
+const HEREDOC_OPS = new Set(["<<", "<<-"]);
+
+// Words that start a compound command rather than naming a program
+const RESERVED = new Set(["if", "then", "else", "elif", "fi", "do", "done", "while", "until", "!", "{", "}", "esac"]);
+// Compound commands whose words are data, not a command
+const SKIPPED = new Set(["for", "case", "select", "function"]);
+
+export const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "ash", "fish"]);
+// Multi-call binaries: `busybox rm -rf /` runs the rm applet
+const MULTICALL = new Set(["busybox", "toybox"]);
+
+// Wrappers that run their arguments as a command, with the options that take a value
+const WRAPPERS: Record<string, string[]> = {
+  sudo: ["-u", "-g", "-h", "-p", "-C", "-D", "-r", "-t", "-U"],
+  doas: ["-u", "-C"],
+  nohup: [],
+  exec: ["-a"],
+  command: [],
+  builtin: [],
+  time: ["-f", "-o"],
+  nice: ["-n"],
+  ionice: ["-c", "-n", "-p"],
+  stdbuf: ["-i", "-o", "-e"],
+  timeout: ["-s", "-k", "--signal", "--kill-after"],
+  xargs: ["-I", "-L", "-n", "-P", "-s", "-d", "-E", "-a", "--max-args", "--max-procs", "--delimiter", "--arg-file"],
+  setsid: [],
+  unbuffer: [],
+  caffeinate: ["-t", "-w"],
+  chronic: [],
+};
+
+const MAX_DEPTH = 8;
+
+interface ParseContext {
+  commands: SimpleCommand[];
+  variables: Set<string>;
+  errors: string[];
+  aliases: Map<string, string>;
+}
+
+/**
+ * Parse a command line into every simple command it would execute
+ */
+export function parseCommandLine(
+  input: string,
+  aliases: Record<string, string> = {}
+): ParsedCommandLine {
+  const ctx: ParseContext = {
+    commands: [],
+    variables: new Set(),
+    errors: [],
+    aliases: new Map(Object.entries(aliases)),
+  };
+
+  parseScript(input, ctx, [], 0, false);
+
+  return {
+    commands: ctx.commands,
+    variables: [...ctx.variables],
+    errors: ctx.errors,
+  };
+}
+
+/**
+ * `piped` marks every command as reading a pipe. Within a script, everything
+ * after the first pipe counts as piped too - subshells, braces and loops keep
+ * reading it, and tracking where they end isn't worth the risk of a miss.
+ */
+function parseScript(script: string, ctx: ParseContext, wrappers: string[], depth: number, piped: boolean): void {
+  if (depth > MAX_DEPTH) {
+    ctx.errors.push("Command nesting too deep to analyze");
+    return;
+  }
+
+  const tokens = tokenize(script, ctx);
+  let current: Token[] = [];
+
+  const flush = () => {
+    if (current.length > 0) buildCommand(current, ctx, wrappers, depth, piped);
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (token.type === "word") {
+      for (const sub of token.substitutions) {
+        parseScript(sub, ctx, [...wrappers, "$(...)"], depth + 1, piped);
+      }
+    }
+
+    if (token.type === "op" && CONTROL_OPS.has(token.value)) {
+      flush();
+      if (token.value === "|" || token.value === "|&") piped = true;
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+}
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+function tokenize(input: string, ctx: ParseContext): Token[] {
+  const tokens: Token[] = [];
+  const pendingHeredocs: Array<{ delimiter: string; stripTabs: boolean }> = [];
+  let heredocOp: string | null = null;
+  let word: string | null = null;
+  let subs: string[] = [];
+  let i = 0;
+
+  const append = (text: string) => {
+    word = (word ?? "") + text;
+  };
+
+  const flush = () => {
+    if (word === null) return;
+    if (heredocOp) {
+      pendingHeredocs.push({ delimiter: word, stripTabs: heredocOp === "<<-" });
+      heredocOp = null;
+    }
+    tokens.push({ type: "word", value: word, substitutions: subs });
+    word = null;
+    subs = [];
+  };
+
+  // $... expansion starting at input[i] === "$"; returns the next index
+  const readDollar = (): number => {
+    const next = input[i + 1];
+
+    if (next === "(" && input[i + 2] === "(") {
+      const end = findClosing(input, i + 2);
+      append(input.slice(i, end + 2));
+      return end + 2;
+    }
+
+    if (next === "(") {
+      const end = findClosing(input, i + 1);
+      if (end >= input.length) ctx.errors.push("Unterminated $(");
+      subs.push(input.slice(i + 2, end));
+      append(input.slice(i, end + 1));
+      return end + 1;
+    }
+
+    if (next === "{") {
+      const end = input.indexOf("}", i + 2);
+      const inner = input.slice(i + 2, end < 0 ? input.length : end);
+      const name = inner.match(/^[#!]?([A-Za-z_][A-Za-z0-9_]*)/);
+      if (name) ctx.variables.add(name[1]);
+      append(input.slice(i, end < 0 ? input.length : end + 1));
+      return end < 0 ? input.length : end + 1;
+    }
+
+    const name = input.slice(i + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (name) {
+      ctx.variables.add(name[0]);
+      append("$" + name[0]);
+      return i + 1 + name[0].length;
+    }
+
+    append("$");
+    return i + 1;
+  };
+
+  const readBacktick = (): number => {
+    let end = i + 1;
+    while (end < input.length && input[end] !== "`") {
+      end += input[end] === "\\" ? 2 : 1;
+    }
+    if (end >= input.length) ctx.errors.push("Unterminated backtick");
+    subs.push(input.slice(i + 1, end).replace(/\\([`$\\])/g, "$1"));
+    append(input.slice(i, end + 1));
+    return end + 1;
+  };
+
+  while (i < input.length) {
+    const c = input[i];
+
+    if (c === " " || c === "\t" || c === "\r") {
+      flush();
+      i++;
+      continue;
+    }
+
+    if (c === "\\") {
+      if (input[i + 1] !== "\n") append(input[i + 1] ?? "");
+      i += 2;
+      continue;
+    }
+
+    if (c === "#" && word === null) {
+      while (i < input.length && input[i] !== "\n") i++;
+      continue;
+    }
+
+    if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end < 0) {
+        ctx.errors.push("Unterminated single quote");
+        append(input.slice(i + 1));
+        i = input.length;
+      } else {
+        append(input.slice(i + 1, end));
+        i = end + 1;
+      }
+      continue;
+    }
+
+    if (c === "$" && input[i + 1] === "'") {
+      const end = findAnsiQuoteEnd(input, i + 2);
+      append(decodeAnsiC(input.slice(i + 2, end)));
+      i = end + 1;
+      continue;
+    }
+
+    if (c === '"') {
+      append("");
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && '$`"\\\n'.includes(input[i + 1])) {
+          if (input[i + 1] !== "\n") append(input[i + 1]);
+          i += 2;
+        } else if (input[i] === "$") {
+          i = readDollar();
+        } else if (input[i] === "`") {
+          i = readBacktick();
+        } else {
+          append(input[i]);
+          i++;
+        }
+      }
+      if (i >= input.length) ctx.errors.push("Unterminated double quote");
+      i++;
+      continue;
+    }
+
+    if (c === "$") {
+      i = readDollar();
+      continue;
+    }
+
+    if (c === "`") {
+      i = readBacktick();
+      continue;
+    }
+
+    // Process substitution <(...) / >(...)
+    if ((c === "<" || c === ">") && input[i + 1] === "(") {
+      const end = findClosing(input, i + 1);
+      subs.push(input.slice(i + 2, end));
+      append(input.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => input.startsWith(candidate, i));
+    if (op) {
+      // "2>" - the fd number belongs to the redirect, not the command
+      if (!CONTROL_OPS.has(op) && word !== null && /^\d+$/.test(word) && /\d/.test(input[i - 1])) {
+        word = null;
+        subs = [];
+      }
+      flush();
+      tokens.push({ type: "op", value: op });
+      i += op.length;
+
+      if (HEREDOC_OPS.has(op)) heredocOp = op;
+      if (op === "\n" && pendingHeredocs.length > 0) {
+        i = skipHeredocs(input, i, pendingHeredocs.splice(0));
+      }
+      continue;
+    }
+
+    append(c);
+    i++;
+  }
+
+  flush();
+  return tokens;
+}
+
+/**
+ * Index of the ")" matching the "(" at start, skipping quoted text
+ */
+function findClosing(input: string, start: number): number {
+  let depth = 0;
+  let i = start;
+
+  while (i < input.length) {
+    const c = input[i];
+    if (c === "\\") {
+      i += 2;
+      continue;
+    }
+    if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      i = end < 0 ? input.length : end + 1;
+      continue;
+    }
+    if (c === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') i += input[i] === "\\" ? 2 : 1;
+      i++;
+      continue;
+    }
+    if (c === "(") depth++;
+    if (c === ")" && --depth === 0) return i;
+    i++;
+  }
+
+  return input.length;
+}
+
+function findAnsiQuoteEnd(input: string, start: number): number {
+  let i = start;
+  while (i < input.length && input[i] !== "'") i += input[i] === "\\" ? 2 : 1;
+  return Math.min(i, input.length);
+}
+
+function decodeAnsiC(text: string): string {
+  const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", "'": "'", '"': '"', e: "\x1b", a: "\x07" };
+  return text.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g, (_, seq: string) => {
+    if (seq[0] === "x") return String.fromCharCode(parseInt(seq.slice(1), 16));
+    if (/^[0-7]+$/.test(seq)) return String.fromCharCode(parseInt(seq, 8));
+    return escapes[seq] ?? seq;
+  });
+}
+
+/**
+ * Skip heredoc bodies that start after a newline; returns the index after the last delimiter line
+ */
+function skipHeredocs(
+  input: string,
+  start: number,
+  heredocs: Array<{ delimiter: string; stripTabs: boolean }>
+): number {
+  let i = start;
+
+  for (const { delimiter, stripTabs } of heredocs) {
+    while (i < input.length) {
+      const lineEnd = input.indexOf("\n", i);
+      const end = lineEnd < 0 ? input.length : lineEnd;
+      let line = input.slice(i, end);
+      if (stripTabs) line = line.replace(/^\t+/, "");
+      i = end + 1;
+      if (line === delimiter) break;
+    }
+  }
+
+  return Math.min(i, input.length);
+}
+
+// ============================================
+// COMMAND BUILDING
+// ============================================
+
+function buildCommand(tokens: Token[], ctx: ParseContext, wrappers: string[], depth: number, piped: boolean): void {
+  const words: string[] = [];
+  const redirects: Redirect[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "op") {
+      const target = tokens[i + 1];
+      if (target?.type === "word") {
+        // A heredoc's target is its delimiter; it's kept so stdin readers can be spotted
+        redirects.push({ op: token.value, target: target.value });
+        i++;
+      }
+      continue;
+    }
+    words.push(token.value);
+  }
+
+  const assignments: Record<string, string> = {};
+  while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+    const assignment = words.shift()!;
+    const eq = assignment.indexOf("=");
+    assignments[assignment.slice(0, eq)] = assignment.slice(eq + 1);
+  }
+
+  while (words.length > 0 && RESERVED.has(words[0])) words.shift();
+  if (words.length === 0) {
+    if (redirects.length > 0 || Object.keys(assignments).length > 0) {
+      ctx.commands.push({ name: "", args: [], assignments, redirects, wrappers, dynamic: false, piped });
+    }
+    return;
+  }
+  if (SKIPPED.has(words[0])) return;
+
+  emitCommand(words, { assignments, redirects, wrappers, piped }, ctx, depth, new Set());
+}
+
+function emitCommand(
+  words: string[],
+  base: { assignments: Record<string, string>; redirects: Redirect[]; wrappers: string[]; piped: boolean },
+  ctx: ParseContext,
+  depth: number,
+  expandedAliases: Set<string>
+): void {
+  if (words.length === 0) return;
+
+  const name = path.basename(words[0]);
+  const args = words.slice(1);
+  // $c, $(echo rm), `printf rm` and /bin/r? only resolve when the shell runs them
+  const dynamic = /[$`*?[]/.test(words[0]);
+
+  // Aliases defined earlier on the line (or in the policy) expand once each
+  const alias = ctx.aliases.get(words[0]);
+  if (alias !== undefined && !expandedAliases.has(words[0])) {
+    expandedAliases.add(words[0]);
+    const expanded = tokenize(alias, ctx)
+      .filter((t): t is Extract<Token, { type: "word" }> => t.type === "word")
+      .map((t) => t.value);
+    emitCommand([...expanded, ...args], { ...base, wrappers: [...base.wrappers, `alias ${words[0]}`] }, ctx, depth, expandedAliases);
+    return;
+  }
+
+  if (name === "alias") {
+    for (const arg of args) {
+      const eq = arg.indexOf("=");
+      if (eq > 0) ctx.aliases.set(arg.slice(0, eq), arg.slice(eq + 1));
+    }
+  }
+
+  const nested = (script: string, via: string) =>
+    parseScript(script, ctx, [...base.wrappers, via], depth + 1, base.piped);
+
+  if (MULTICALL.has(name) && args.length > 0 && !args[0].startsWith("-")) {
+    emitCommand(args, { ...base, wrappers: [...base.wrappers, name] }, ctx, depth, expandedAliases);
+    return;
+  }
+
+  // sh -c "...", bash -lc "..."
+  if (SHELLS.has(name)) {
+    const flag = args.findIndex((a) => /^-[a-zA-Z]*c[a-zA-Z]*$/.test(a));
+    if (flag >= 0 && args[flag + 1] !== undefined) {
+      nested(args[flag + 1], `${name} -c`);
+      return;
+    }
+  }
+
+  if (name === "eval") {
+    nested(args.join(" "), "eval");
+    return;
+  }
+
+  // watch runs its arguments through sh -c
+  if (name === "watch") {
+    const rest = skipOptions(args, ["-n", "--interval", "-d", "--differences"]);
+    if (rest.length > 0) nested(rest.join(" "), "watch");
+    return;
+  }
+
+  if (name === "env") {
+    const assignments = { ...base.assignments };
+    let i = 0;
+    while (i < args.length) {
+      const arg = args[i];
+      if (arg === "-S" || arg === "--split-string") {
+        nested(args.slice(i + 1).join(" "), "env -S");
+        return;
+      }
+      if (arg === "-u" || arg === "-C" || arg === "--unset" || arg === "--chdir") {
+        i += 2;
+      } else if (arg.startsWith("-")) {
+        i++;
+      } else if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+        const eq = arg.indexOf("=");
+        assignments[arg.slice(0, eq)] = arg.slice(eq + 1);
+        i++;
+      } else {
+        break;
+      }
+    }
+    if (i < args.length) {
+      emitCommand(args.slice(i), { ...base, assignments, wrappers: [...base.wrappers, "env"] }, ctx, depth, expandedAliases);
+    } else {
+      ctx.commands.push({ name, args, ...base, dynamic });
+    }
+    return;
+  }
+
+  if (name in WRAPPERS) {
+    let rest = skipOptions(args, WRAPPERS[name]);
+    if (name === "timeout") rest = rest.slice(1); // duration
+    if (rest.length > 0) {
+      emitCommand(rest, { ...base, wrappers: [...base.wrappers, name] }, ctx, depth, expandedAliases);
+      return;
+    }
+  }
+
+  ctx.commands.push({ name, args, ...base, dynamic });
+
+  // find -exec / -execdir / -ok run a command per match
+  if (name === "find") {
+    for (let i = 0; i < args.length; i++) {
+      if (!["-exec", "-execdir", "-ok", "-okdir"].includes(args[i])) continue;
+      const end = args.findIndex((a, j) => j > i && (a === ";" || a === "+"));
+      const inner = args.slice(i + 1, end < 0 ? args.length : end);
+      emitCommand(
+        inner,
+        { assignments: {}, redirects: [], wrappers: [...base.wrappers, `find ${args[i]}`], piped: base.piped },
+        ctx,
+        depth,
+        expandedAliases
+      );
+      if (end < 0) break;
+      i = end;
+    }
+  }
+}
+
+/**
+ * Drop leading options (and the values of those that take one)
+ */
+function skipOptions(args: string[], withValue: string[]): string[] {
+  let i = 0;
+  while (i < args.length && args[i].startsWith("-") && args[i] !== "-") {
+    if (args[i] === "--") {
+      i++;
+      break;
+    }
+    i += withValue.includes(args[i]) ? 2 : 1;
+  }
+  return args.slice(i);
+}
+
+/**
+ * Quote one argument for a POSIX shell
+ */
+export function quoteShellArg(arg: string): string {
+  if (arg !== "" && /^[A-Za-z0-9_\/.,:=@%+-]+$/.test(arg)) return arg;
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
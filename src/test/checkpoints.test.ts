@@ -0,0 +1,116 @@
+/**
+ * Checkpoints: pre-images, restores, and what a restore must refuse
+ */
+
+import "./vscode";
+import { describe, test, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CheckpointManager } from "../tools/checkpoints";
+
+describe("CheckpointManager", () => {
+  let workspace: string;
+  let manager: CheckpointManager;
+  const file = (name: string) => path.join(workspace, name);
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-test-"));
+    manager = new CheckpointManager(workspace);
+  });
+
+  afterEach(() => fs.rmSync(workspace, { recursive: true, force: true }));
+
+  test("restores changed, deleted and created files", () => {
+    fs.writeFileSync(file("a.txt"), "before");
+    fs.writeFileSync(file("b.txt"), "keep me");
+    const checkpoint = manager.create("test");
+
+    manager.capture(file("a.txt"));
+    fs.writeFileSync(file("a.txt"), "after");
+    manager.capture(file("b.txt"));
+    fs.rmSync(file("b.txt"));
+    manager.capture(file("c.txt"));
+    fs.writeFileSync(file("c.txt"), "new");
+
+    assert.deepEqual(manager.changedFiles(checkpoint.id).sort(), ["a.txt", "b.txt", "c.txt"]);
+
+    const result = manager.restore(checkpoint.id);
+    assert.deepEqual(result.restored.sort(), ["a.txt", "b.txt"]);
+    assert.deepEqual(result.deleted, ["c.txt"]);
+    assert.equal(fs.readFileSync(file("a.txt"), "utf-8"), "before");
+    assert.equal(fs.readFileSync(file("b.txt"), "utf-8"), "keep me");
+    assert.equal(fs.existsSync(file("c.txt")), false);
+  });
+
+  test("keeps only the first pre-image per checkpoint", () => {
+    fs.writeFileSync(file("a.txt"), "one");
+    const checkpoint = manager.create("test");
+    manager.capture(file("a.txt"));
+    fs.writeFileSync(file("a.txt"), "two");
+    manager.capture(file("a.txt"));
+    fs.writeFileSync(file("a.txt"), "three");
+
+    assert.equal(manager.readFileAt(checkpoint.id, "a.txt")?.toString(), "one");
+    assert.match(manager.diff(checkpoint.id), /-one\n\\ No newline at end of file\n\+three/);
+  });
+
+  test("undoing a restore brings back the restored-over content", () => {
+    fs.writeFileSync(file("a.txt"), "before");
+    const checkpoint = manager.create("test");
+    manager.capture(file("a.txt"));
+    fs.writeFileSync(file("a.txt"), "after");
+
+    manager.restore(checkpoint.id);
+    const undo = manager.list().find((c) => c.name.startsWith("Before restoring"))!;
+    manager.restore(undo.id);
+    assert.equal(fs.readFileSync(file("a.txt"), "utf-8"), "after");
+  });
+
+  test("records files too large to keep instead of dropping them", () => {
+    fs.writeFileSync(file("big.bin"), Buffer.alloc(21 * 1024 * 1024));
+    const checkpoint = manager.create("test");
+
+    assert.deepEqual(manager.capture(file("big.bin")), ["big.bin"]);
+    fs.writeFileSync(file("big.bin"), "small now");
+
+    const result = manager.restore(checkpoint.id);
+    assert.deepEqual(result.tooLarge, ["big.bin"]);
+    assert.deepEqual(result.restored, []);
+    assert.equal(fs.readFileSync(file("big.bin"), "utf-8"), "small now");
+  });
+
+  test("refuses forged entries outside the workspace or rejected by the guard", () => {
+    fs.writeFileSync(file("a.txt"), "before");
+    const checkpoint = manager.create("test");
+    manager.capture(file("a.txt"));
+    fs.writeFileSync(file("a.txt"), "after");
+
+    const outside = path.join(os.tmpdir(), `checkpoint-outside-${process.pid}`);
+    const stored = path.join(workspace, ".mythatron", "checkpoints", `${checkpoint.id}.json`);
+    const saved = JSON.parse(fs.readFileSync(stored, "utf-8"));
+    const entry = saved.files["a.txt"];
+    Object.assign(saved.files, {
+      [outside]: entry,
+      "../escape.txt": entry,
+      ".mythatron/terminal-policy.json": entry,
+      ".mythatron/checkpoints/blobs/x": entry,
+    });
+    fs.writeFileSync(stored, JSON.stringify(saved));
+
+    const result = manager.restore(checkpoint.id, undefined, (target) => {
+      if (target.endsWith("terminal-policy.json")) throw new Error("protected");
+    });
+
+    assert.deepEqual(result.restored, ["a.txt"]);
+    assert.deepEqual(result.refused.sort(), [
+      ".mythatron/checkpoints/blobs/x",
+      ".mythatron/terminal-policy.json",
+      "../escape.txt",
+      outside,
+    ].sort());
+    assert.equal(fs.existsSync(outside), false);
+    assert.equal(fs.existsSync(file(".mythatron/terminal-policy.json")), false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Completion cache: exact hits, typing through a suggestion, and invalidation
+ */
+
+import { workspace } from "./vscode";
+import { describe, test, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import { CompletionCache } from "../features/completion-cache";
+
+describe("CompletionCache", () => {
+  let cache: CompletionCache;
+  const text = "function add(a, b) {\n  return \n}\n";
+  const offset = text.indexOf("return ") + "return ".length;
+  const typing = (typed: string) => text.slice(0, offset) + typed + text.slice(offset);
+
+  beforeEach(() => {
+    cache = new CompletionCache();
+    workspace.textDocuments = [];
+  });
+
+  afterEach(() => cache.dispose());
+
+  test("serves a suggestion for the same context", () => {
+    cache.set("/a.ts", "typescript", text, offset, "a + b;", false);
+    assert.equal(cache.get("/a.ts", "typescript", text, offset)?.text, "a + b;");
+    assert.equal(cache.get("/a.ts", "javascript", text, offset), null);
+  });
+
+  test("ignores trailing whitespace and line endings in the key", () => {
+    cache.set("/a.ts", "typescript", text, offset, "a + b;", false);
+    const crlf = text.replace(/\n/g, "\r\n");
+    assert.equal(cache.get("/a.ts", "typescript", crlf, crlf.indexOf("return ") + 7)?.text, "a + b;");
+  });
+
+  test("keeps serving the rest while the user types it", () => {
+    cache.set("/a.ts", "typescript", text, offset, "a + b;", false);
+    const hit = cache.get("/a.ts", "typescript", typing("a +"), offset + 3);
+
+    assert.deepEqual(hit && { text: hit.text, typed: hit.typed }, { text: " b;", typed: 3 });
+    assert.equal(cache.get("/a.ts", "typescript", typing("a -"), offset + 3), null);
+  });
+
+  test("drops entries built from a file that changed", () => {
+    cache.set("/a.ts", "typescript", text, offset, "a + b;", false, ["/b.ts"]);
+    cache.invalidateFile("/b.ts");
+    assert.equal(cache.get("/a.ts", "typescript", text, offset), null);
+  });
+
+  test("survives its own document changing only by typed-through text", () => {
+    cache.set("/a.ts", "typescript", text, offset, "a + b;", false);
+
+    workspace.textDocuments = [{ uri: { fsPath: "/a.ts" }, getText: () => typing("a ") }];
+    cache.invalidateFile("/a.ts");
+    assert.equal(cache.get("/a.ts", "typescript", typing("a "), offset + 2)?.text, "+ b;");
+
+    workspace.textDocuments = [{ uri: { fsPath: "/a.ts" }, getText: () => typing("x") }];
+    cache.invalidateFile("/a.ts");
+    assert.equal(cache.get("/a.ts", "typescript", text, offset), null);
+  });
+
+  test("counts hits and misses", () => {
+    cache.set("/a.ts", "typescript", text, offset, "a + b;", false);
+    cache.get("/a.ts", "typescript", text, offset);
+    cache.get("/a.ts", "typescript", "other", 2);
+
+    const stats = cache.getStats();
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.misses, 1);
+    assert.equal(stats.hitRate, 50);
+  });
+});
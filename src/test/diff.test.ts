@@ -0,0 +1,136 @@
+/**
+ * Diff: line diffs, unified diff output, and parsing and applying the
+ * patches models send
+ */
+
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { createUnifiedDiff, parsePatch, applyHunks, splitLines } from "../tools/diff";
+
+const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+describe("createUnifiedDiff", () => {
+  test("is empty for identical text", () => {
+    assert.equal(createUnifiedDiff("a", "a", "x\n", "x\n"), "");
+  });
+
+  test("round-trips through parsePatch and applyHunks", () => {
+    const before = lines(20);
+    const after = before.replace("line 3\n", "line three\n").replace("line 17\n", "") + "line 21\n";
+    const [patch] = parsePatch(createUnifiedDiff("f.txt", "f.txt", before, after));
+
+    assert.equal(patch.oldPath, "f.txt");
+    assert.equal(patch.hunks.length, 2);
+    const result = applyHunks(before, patch.hunks);
+    assert.equal(result.ok, true);
+    assert.equal(result.content, after);
+  });
+
+  test("marks a missing final newline", () => {
+    const diff = createUnifiedDiff("f", "f", "a\n", "a\nb");
+    assert.match(diff, /\+b\n\\ No newline at end of file/);
+    const [patch] = parsePatch(diff);
+    assert.equal(applyHunks("a\n", patch.hunks).content, "a\nb");
+  });
+});
+
+describe("parsePatch", () => {
+  test("reads git headers for create, delete and rename", () => {
+    const patches = parsePatch(
+      [
+        "diff --git a/new.txt b/new.txt",
+        "new file mode 100644",
+        "--- /dev/null",
+        "+++ b/new.txt",
+        "@@ -0,0 +1 @@",
+        "+hello",
+        "diff --git a/old.txt b/old.txt",
+        "deleted file mode 100644",
+        "--- a/old.txt",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-bye",
+        "diff --git a/a.txt b/b.txt",
+        "similarity index 100%",
+        "rename from a.txt",
+        "rename to b.txt",
+      ].join("\n")
+    );
+
+    assert.deepEqual(
+      patches.map((p) => [p.type, p.oldPath, p.newPath]),
+      [
+        ["create", undefined, "new.txt"],
+        ["delete", "old.txt", undefined],
+        ["rename", "a.txt", "b.txt"],
+      ]
+    );
+  });
+
+  test("accepts hunks without line numbers or file headers", () => {
+    const [patch] = parsePatch("@@ @@\n a\n-b\n+c\n");
+    assert.equal(patch.oldPath, undefined);
+    assert.equal(patch.hunks[0].oldStart, -1);
+    assert.equal(applyHunks("a\nb\n", patch.hunks).content, "a\nc\n");
+  });
+
+  test("finds nothing in text that isn't a diff", () => {
+    assert.deepEqual(parsePatch("just some words"), []);
+  });
+});
+
+describe("applyHunks", () => {
+  const hunk = (header: string, body: string[]) => parsePatch(`--- a/f\n+++ b/f\n${header}\n${body.join("\n")}\n`)[0].hunks;
+
+  test("places a hunk whose line numbers are off", () => {
+    const original = "extra\nextra\n" + lines(10);
+    const result = applyHunks(original, hunk("@@ -4,3 +4,3 @@", [" line 4", "-line 5", "+LINE 5", " line 6"]));
+
+    assert.equal(result.ok, true);
+    assert.equal(result.hunks[0].offset, 2);
+    assert.match(result.content, /LINE 5/);
+  });
+
+  test("tolerates context that differs only in whitespace", () => {
+    const result = applyHunks("  a\nb\n", hunk("@@ -1,2 +1,2 @@", [" a", "-b", "+c"]));
+    assert.equal(result.ok, true);
+    assert.equal(result.hunks[0].whitespace, true);
+    assert.equal(result.content, "  a\nc\n");
+  });
+
+  test("uses fuzz for stale outer context", () => {
+    const body = [" line 2", " line 3", "-line 4", "+LINE 4", " line 5", " stale"];
+    const original = lines(8);
+
+    assert.equal(applyHunks(original, hunk("@@ -2,5 +2,5 @@", body), { fuzz: 0 }).ok, false);
+    const result = applyHunks(original, hunk("@@ -2,5 +2,5 @@", body), { fuzz: 2 });
+    assert.equal(result.ok, true);
+    assert.ok((result.hunks[0].fuzz ?? 0) > 0);
+  });
+
+  test("skips a hunk that is already applied", () => {
+    const result = applyHunks("a\nc\n", hunk("@@ -1,2 +1,2 @@", [" a", "-b", "+c"]));
+    assert.equal(result.ok, true);
+    assert.equal(result.hunks[0].status, "already-applied");
+    assert.equal(result.content, "a\nc\n");
+  });
+
+  test("rejects a hunk that doesn't fit and leaves the text alone", () => {
+    const result = applyHunks("x\ny\n", hunk("@@ -1,2 +1,2 @@", [" a", "-b", "+c"]));
+    assert.equal(result.ok, false);
+    assert.equal(result.hunks[0].status, "rejected");
+    assert.equal(result.content, "x\ny\n");
+  });
+
+  test("keeps CRLF line endings", () => {
+    const result = applyHunks("a\r\nb\r\n", hunk("@@ -1,2 +1,2 @@", [" a", "-b", "+c"]));
+    assert.equal(result.content, "a\r\nc\r\n");
+  });
+});
+
+describe("splitLines", () => {
+  test("keeps line endings so a missing final newline is visible", () => {
+    assert.deepEqual(splitLines("a\nb"), ["a\n", "b"]);
+    assert.deepEqual(splitLines("a\r\nb\n"), ["a\n", "b\n"]);
+  });
+});
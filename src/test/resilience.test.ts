@@ -0,0 +1,133 @@
+/**
+ * Provider resilience: the circuit breaker, error classification and timeouts
+ */
+
+import { describe, test, mock, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  CircuitBreaker,
+  ProviderError,
+  classifyError,
+  isProviderFailure,
+  parseRetryAfter,
+  withIdleTimeout,
+} from "../providers/resilience";
+
+describe("CircuitBreaker", () => {
+  afterEach(() => mock.timers.reset());
+
+  const breaker = (onChange = () => {}) => new CircuitBreaker("anthropic", onChange, 3, 1000);
+
+  test("opens after the failure threshold", () => {
+    const circuit = breaker();
+    circuit.recordFailure(new Error("one"));
+    circuit.recordFailure(new Error("two"));
+    assert.equal(circuit.canRequest(), true);
+
+    circuit.recordFailure(new Error("three"));
+    assert.equal(circuit.snapshot().state, "open");
+    assert.equal(circuit.snapshot().lastError, "three");
+    assert.equal(circuit.canRequest(), false);
+  });
+
+  test("lets one probe through after the cooldown", () => {
+    mock.timers.enable({ apis: ["Date"] });
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) circuit.recordFailure(new Error("down"));
+
+    mock.timers.tick(1000);
+    assert.equal(circuit.canRequest(), true);
+    assert.equal(circuit.snapshot().state, "half-open");
+    assert.equal(circuit.canRequest(), false);
+
+    circuit.recordSuccess();
+    assert.equal(circuit.snapshot().state, "closed");
+    assert.equal(circuit.snapshot().failures, 0);
+  });
+
+  test("reopens when the probe fails", () => {
+    mock.timers.enable({ apis: ["Date"] });
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) circuit.recordFailure(new Error("down"));
+
+    mock.timers.tick(1000);
+    circuit.canRequest();
+    circuit.recordFailure(new Error("still down"));
+    assert.equal(circuit.snapshot().state, "open");
+    assert.equal(circuit.canRequest(), false);
+  });
+
+  test("release frees the probe slot without judging the provider", () => {
+    mock.timers.enable({ apis: ["Date"] });
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) circuit.recordFailure(new Error("down"));
+
+    mock.timers.tick(1000);
+    circuit.canRequest();
+    circuit.release();
+    assert.equal(circuit.snapshot().state, "half-open");
+    assert.equal(circuit.canRequest(), true);
+  });
+
+  test("reports state changes", () => {
+    let changes = 0;
+    const circuit = breaker(() => changes++);
+    for (let i = 0; i < 3; i++) circuit.recordFailure(new Error("down"));
+    circuit.reset();
+    assert.equal(circuit.snapshot().state, "closed");
+    assert.ok(changes >= 2);
+  });
+});
+
+describe("error classification", () => {
+  test("only provider-side failures count toward the breaker", () => {
+    const status = (code: number) => new ProviderError("x", code);
+    assert.equal(isProviderFailure(status(400)), false);
+    assert.equal(isProviderFailure(status(401)), false);
+    assert.equal(isProviderFailure(status(503)), true);
+    assert.equal(isProviderFailure(Object.assign(new Error("refused"), { code: "ECONNREFUSED" })), true);
+  });
+
+  test("rate limits are retryable and honor Retry-After", () => {
+    assert.equal(parseRetryAfter("2"), 2000);
+    assert.equal(parseRetryAfter("soon"), undefined);
+    assert.equal(classifyError(new ProviderError("x", 429)).retryable, true);
+    assert.equal(classifyError(new ProviderError("x", 404)).retryable, false);
+  });
+});
+
+describe("withIdleTimeout", () => {
+  test("resolves while progress keeps arriving", async () => {
+    const result = await withIdleTimeout(
+      async (_signal, progress) => {
+        for (let i = 0; i < 3; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          progress();
+        }
+        return "done";
+      },
+      50,
+      "anthropic"
+    );
+    assert.equal(result, "done");
+  });
+
+  test("aborts a stalled stream with a retryable error", async () => {
+    let aborted = false;
+    await assert.rejects(
+      withIdleTimeout(
+        (signal) =>
+          new Promise((_resolve, reject) => {
+            signal.addEventListener("abort", () => {
+              aborted = true;
+              reject(new Error("aborted"));
+            });
+          }),
+        30,
+        "anthropic"
+      ),
+      (error: unknown) => error instanceof ProviderError && /stalled/.test(error.message) && classifyError(error).retryable
+    );
+    assert.equal(aborted, true);
+  });
+});
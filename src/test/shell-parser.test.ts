@@ -0,0 +1,65 @@
+/**
+ * Shell parser: every command a line would run, however it is spelled
+ */
+
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { parseCommandLine } from "../terminal/shell-parser";
+
+const names = (line: string, aliases?: Record<string, string>) =>
+  parseCommandLine(line, aliases).commands.map((c) => c.name);
+
+describe("parseCommandLine", () => {
+  test("splits lists and pipelines", () => {
+    assert.deepEqual(names("a && b || c; d | e & f"), ["a", "b", "c", "d", "e", "f"]);
+  });
+
+  test("keeps quoted text in one word", () => {
+    const [cmd] = parseCommandLine(`echo "a b" 'c d' e\\ f $'g\\nh'`).commands;
+    assert.deepEqual(cmd.args, ["a b", "c d", "e f", "g\nh"]);
+  });
+
+  test("parses substitutions and sh -c scripts", () => {
+    assert.deepEqual(names("echo $(whoami) `id` <(ls)"), ["whoami", "id", "ls", "echo"]);
+    assert.deepEqual(names("bash -lc 'rm x; touch y'"), ["rm", "touch"]);
+    assert.deepEqual(names("eval 'curl x'"), ["curl"]);
+  });
+
+  test("unwraps wrappers, env and multi-call binaries", () => {
+    assert.deepEqual(names("sudo -u root nice -n 5 env A=1 busybox rm x"), ["rm"]);
+    assert.deepEqual(names("timeout 5 curl x"), ["curl"]);
+    assert.deepEqual(names("find . -exec rm {} ;"), ["find", "rm"]);
+  });
+
+  test("expands aliases from the policy and the line", () => {
+    assert.deepEqual(names("ll", { ll: "ls -la" }), ["ls"]);
+    assert.deepEqual(names("alias x='curl'; x site"), ["alias", "curl"]);
+  });
+
+  test("records redirects, including heredocs", () => {
+    const [cmd] = parseCommandLine("cat <<EOF > out.txt 2>&1\nbody\nEOF").commands;
+    assert.deepEqual(
+      cmd.redirects.map((r) => r.op),
+      ["<<", ">", ">&"]
+    );
+    assert.equal(cmd.redirects[1].target, "out.txt");
+  });
+
+  test("marks commands after a pipe as piped", () => {
+    const commands = parseCommandLine("a | b; c").commands;
+    assert.deepEqual(
+      commands.map((c) => c.piped),
+      [false, true, true]
+    );
+  });
+
+  test("marks computed command names as dynamic", () => {
+    const [cmd] = parseCommandLine("$CMD arg").commands;
+    assert.equal(cmd.dynamic, true);
+  });
+
+  test("reports what it can't parse", () => {
+    assert.ok(parseCommandLine("echo 'unterminated").errors.length > 0);
+    assert.ok(parseCommandLine("echo $(ls").errors.length > 0);
+  });
+});
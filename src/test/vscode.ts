@@ -0,0 +1,58 @@
+/**
+ * vscode stub for unit tests
+ * Tests run under plain node (node --test), where the real vscode module
+ * doesn't exist. Importing this first makes `import * as vscode from "vscode"`
+ * resolve to a stand-in with a working EventEmitter, an empty workspace and
+ * no-op objects for everything else.
+ */
+
+import Module = require("module");
+
+type Listener<T> = (event: T) => void;
+
+class EventEmitter<T> {
+  private listeners = new Set<Listener<T>>();
+
+  readonly event = (listener: Listener<T>) => {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  };
+
+  fire(event: T): void {
+    for (const listener of [...this.listeners]) listener(event);
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+// Any property is a callable that returns another no-op, so unused APIs load fine
+const noop: ProxyHandler<object> = {
+  get: (target, prop) => (prop in target ? (target as Record<PropertyKey, unknown>)[prop] : stub()),
+  apply: () => stub(),
+};
+function stub(base: object = function () {}): any {
+  return new Proxy(base, noop);
+}
+
+export const workspace = {
+  workspaceFolders: undefined as Array<{ uri: { fsPath: string } }> | undefined,
+  textDocuments: [] as Array<{ uri: { fsPath: string }; getText(): string }>,
+  getConfiguration: () => ({ get: <T>(_key: string, fallback?: T) => fallback }),
+  createFileSystemWatcher: () => stub(),
+  onDidChangeTextDocument: () => ({ dispose() {} }),
+};
+
+const vscode = stub({
+  EventEmitter,
+  workspace,
+  window: stub(),
+  Uri: { file: (fsPath: string) => ({ fsPath, scheme: "file" }) },
+});
+
+const loader = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+  return request === "vscode" ? vscode : load.call(this, request, ...rest);
+};
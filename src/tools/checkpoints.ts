@@ -0,0 +1,405 @@
+/**
+ * Checkpoints - Persistent pre-images of every file the agent touches
+ * Stored under .mythatron/checkpoints so they survive reloads.
+ * A checkpoint records each file's content just before its first change
+ * while that checkpoint was active (or that it didn't exist yet).
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { createUnifiedDiff } from "./diff";
+
+export interface CheckpointFileEntry {
+  existed: boolean;
+  blob?: string; // sha1 of the pre-image in blobs/
+  tooLarge?: boolean; // existed, but was over MAX_CAPTURE_BYTES so no pre-image was kept
+}
+
+export interface Checkpoint {
+  id: string;
+  name: string;
+  createdAt: number;
+  files: Record<string, CheckpointFileEntry>; // workspace-relative (or absolute if outside)
+}
+
+export interface RestoreResult {
+  restored: string[];
+  deleted: string[];
+  skipped: string[];
+  tooLarge: string[]; // no pre-image to restore from
+  refused: string[]; // outside the workspace, or rejected by the caller's guard
+}
+
+const MAX_CHECKPOINTS = 50;
+const MAX_CAPTURE_BYTES = 20 * 1024 * 1024;
+
+export class CheckpointManager {
+  private dir: string;
+  private blobsDir: string;
+  private active: Checkpoint | null = null;
+  private nextName: string | null = null;
+
+  constructor(private readonly workspaceRoot: string) {
+    this.dir = path.join(workspaceRoot, ".mythatron", "checkpoints");
+    this.blobsDir = path.join(this.dir, "blobs");
+  }
+
+  /**
+   * Start a new checkpoint. Later writes record their pre-images into it.
+   */
+  create(name: string): Checkpoint {
+    let id = `checkpoint-${Date.now()}`;
+    while (fs.existsSync(this.getCheckpointPath(id))) {
+      id = `checkpoint-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    }
+
+    this.active = { id, name, createdAt: Date.now(), files: {} };
+    this.save(this.active);
+    this.prune();
+
+    return this.active;
+  }
+
+  /**
+   * Close the active checkpoint. The next captured write opens a new one
+   * with this name, so turns that change nothing leave no empty checkpoints.
+   */
+  startNext(name: string): void {
+    this.active = null;
+    this.nextName = name;
+  }
+
+  getActive(): Checkpoint | null {
+    return this.active;
+  }
+
+  /**
+   * Record a file's current content before it is modified, created or deleted.
+   * Only the first capture per checkpoint counts - that's the pre-image.
+   * Returns the files that were too large to keep a pre-image of.
+   */
+  capture(filePath: string): string[] {
+    const key = this.toKey(filePath);
+    if (this.isInternal(filePath)) return [];
+
+    if (!this.active) {
+      this.create(this.nextName || `Auto checkpoint ${new Date().toLocaleString()}`);
+      this.nextName = null;
+    }
+    const checkpoint = this.active!;
+    if (checkpoint.files[key]) return [];
+
+    let entry: CheckpointFileEntry = { existed: false };
+    try {
+      const stats = fs.statSync(filePath);
+      if (stats.isDirectory()) {
+        return this.captureTree(filePath);
+      }
+      entry =
+        stats.size > MAX_CAPTURE_BYTES
+          ? { existed: true, tooLarge: true }
+          : { existed: true, blob: this.writeBlob(fs.readFileSync(filePath)) };
+    } catch {
+      // Doesn't exist yet - restoring removes it
+    }
+
+    checkpoint.files[key] = entry;
+    this.save(checkpoint);
+    return entry.tooLarge ? [key] : [];
+  }
+
+  /**
+   * Capture every file under a directory (before a recursive delete or move)
+   */
+  captureTree(dirPath: string): string[] {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dirPath, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const tooLarge: string[] = [];
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        tooLarge.push(...this.captureTree(fullPath));
+      } else if (entry.isFile()) {
+        tooLarge.push(...this.capture(fullPath));
+      }
+    }
+    return tooLarge;
+  }
+
+  /**
+   * All checkpoints, oldest first
+   */
+  list(): Checkpoint[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    const checkpoints: Checkpoint[] = [];
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        checkpoints.push(JSON.parse(fs.readFileSync(path.join(this.dir, file), "utf-8")));
+      } catch {
+        // Skip corrupt checkpoint
+      }
+    }
+
+    return checkpoints.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  get(id: string): Checkpoint | undefined {
+    return this.list().find((c) => c.id === id);
+  }
+
+  /**
+   * What each touched file looked like when the checkpoint was created.
+   * A file's state comes from the earliest pre-image at or after the checkpoint.
+   */
+  getFileStates(id: string): Map<string, CheckpointFileEntry> {
+    const all = this.list();
+    const index = all.findIndex((c) => c.id === id);
+    if (index < 0) throw new Error(`Checkpoint not found: ${id}`);
+
+    const states = new Map<string, CheckpointFileEntry>();
+    for (const checkpoint of all.slice(index)) {
+      for (const [key, entry] of Object.entries(checkpoint.files)) {
+        if (!states.has(key)) states.set(key, entry);
+      }
+    }
+
+    return states;
+  }
+
+  /**
+   * Unified diff from the checkpoint to the working tree
+   */
+  diff(id: string, files?: string[]): string {
+    const states = this.filterStates(this.getFileStates(id), files);
+    const diffs: string[] = [];
+
+    for (const [key, entry] of states) {
+      if (entry.tooLarge) continue;
+      const fullPath = this.toPath(key);
+      const before = entry.existed ? this.readBlob(entry.blob!)?.toString("utf-8") ?? "" : "";
+      const exists = fs.existsSync(fullPath);
+      const after = exists ? fs.readFileSync(fullPath, "utf-8") : "";
+
+      const patch = createUnifiedDiff(
+        entry.existed ? key : null,
+        exists ? key : null,
+        before,
+        after
+      );
+      if (patch) diffs.push(patch);
+    }
+
+    return diffs.join("");
+  }
+
+  /**
+   * Files whose current content differs from the checkpoint
+   */
+  changedFiles(id: string): string[] {
+    const changed: string[] = [];
+
+    for (const [key, entry] of this.getFileStates(id)) {
+      const fullPath = this.toPath(key);
+      const exists = fs.existsSync(fullPath);
+
+      if (!entry.existed) {
+        if (exists) changed.push(key);
+        continue;
+      }
+
+      if (!exists) {
+        changed.push(key);
+        continue;
+      }
+
+      try {
+        if (this.hash(fs.readFileSync(fullPath)) !== entry.blob) changed.push(key);
+      } catch {
+        changed.push(key);
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Put files back the way they were at the checkpoint (all touched files, or just `files`).
+   * The restore itself is checkpointed so it can be undone. Only files inside the
+   * workspace are written, and `guard` may throw to refuse others.
+   */
+  restore(id: string, files?: string[], guard?: (filePath: string) => void): RestoreResult {
+    const checkpoint = this.get(id);
+    if (!checkpoint) throw new Error(`Checkpoint not found: ${id}`);
+
+    const states = this.filterStates(this.getFileStates(id), files);
+    const result: RestoreResult = { restored: [], deleted: [], skipped: [], tooLarge: [], refused: [] };
+
+    this.create(`Before restoring "${checkpoint.name}"`);
+
+    for (const [key, entry] of states) {
+      const fullPath = this.toPath(key);
+      if (!this.isRestorable(fullPath, guard)) {
+        result.refused.push(key);
+        continue;
+      }
+      if (entry.tooLarge) {
+        result.tooLarge.push(key);
+        continue;
+      }
+      this.capture(fullPath);
+
+      if (!entry.existed) {
+        if (fs.existsSync(fullPath)) {
+          fs.rmSync(fullPath, { force: true });
+          result.deleted.push(key);
+        }
+        continue;
+      }
+
+      const content = this.readBlob(entry.blob!);
+      if (!content) {
+        result.skipped.push(key);
+        continue;
+      }
+
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, content);
+      result.restored.push(key);
+    }
+
+    return result;
+  }
+
+  /**
+   * Pre-image content of one file at a checkpoint (null if it didn't exist or wasn't touched)
+   */
+  readFileAt(id: string, file: string): Buffer | null {
+    const entry = this.getFileStates(id).get(this.toKey(this.toPath(file)));
+    if (!entry?.existed || !entry.blob) return null;
+    return this.readBlob(entry.blob);
+  }
+
+  toPath(key: string): string {
+    return path.resolve(this.workspaceRoot, key);
+  }
+
+  private filterStates(
+    states: Map<string, CheckpointFileEntry>,
+    files?: string[]
+  ): Map<string, CheckpointFileEntry> {
+    if (!files || files.length === 0) return states;
+
+    const wanted = new Set(files.map((f) => this.toKey(this.toPath(f))));
+    return new Map([...states].filter(([key]) => wanted.has(key)));
+  }
+
+  private toKey(filePath: string): string {
+    const relative = path.relative(this.workspaceRoot, filePath);
+    return relative.startsWith("..") || path.isAbsolute(relative) ? filePath : relative;
+  }
+
+  /**
+   * Checkpoint files are only trusted to name workspace files outside our own storage
+   */
+  private isRestorable(fullPath: string, guard?: (filePath: string) => void): boolean {
+    const relative = path.relative(this.workspaceRoot, fullPath);
+    if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative) || this.isInternal(fullPath)) {
+      return false;
+    }
+    try {
+      guard?.(fullPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private isInternal(filePath: string): boolean {
+    const relative = path.relative(this.dir, filePath);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+  }
+
+  private hash(content: Buffer): string {
+    return crypto.createHash("sha1").update(content).digest("hex");
+  }
+
+  private writeBlob(content: Buffer): string {
+    const hash = this.hash(content);
+    const blobPath = path.join(this.blobsDir, hash);
+
+    if (!fs.existsSync(blobPath)) {
+      fs.mkdirSync(this.blobsDir, { recursive: true });
+      fs.writeFileSync(blobPath, content);
+    }
+
+    return hash;
+  }
+
+  private readBlob(hash: string): Buffer | null {
+    if (!/^[0-9a-f]{40}$/.test(hash)) return null;
+    try {
+      return fs.readFileSync(path.join(this.blobsDir, hash));
+    } catch {
+      return null;
+    }
+  }
+
+  private getCheckpointPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private save(checkpoint: Checkpoint): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.getCheckpointPath(checkpoint.id), JSON.stringify(checkpoint, null, 2));
+  }
+
+  /**
+   * Drop old checkpoints and any blobs nothing references anymore
+   */
+  private prune(): void {
+    const all = this.list();
+    if (all.length <= MAX_CHECKPOINTS) return;
+
+    for (const checkpoint of all.slice(0, all.length - MAX_CHECKPOINTS)) {
+      fs.rmSync(this.getCheckpointPath(checkpoint.id), { force: true });
+    }
+
+    const referenced = new Set<string>();
+    for (const checkpoint of all.slice(-MAX_CHECKPOINTS)) {
+      for (const entry of Object.values(checkpoint.files)) {
+        if (entry.blob) referenced.add(entry.blob);
+      }
+    }
+
+    try {
+      for (const blob of fs.readdirSync(this.blobsDir)) {
+        if (!referenced.has(blob)) {
+          fs.rmSync(path.join(this.blobsDir, blob), { force: true });
+        }
+      }
+    } catch {
+      // No blobs yet
+    }
+  }
+}
+
+// Singleton
+let checkpointManager: CheckpointManager | null = null;
+
+export function getCheckpointManager(): CheckpointManager {
+  if (!checkpointManager) {
+    checkpointManager = new CheckpointManager(
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd()
+    );
+  }
+  return checkpointManager;
+}
@@ -54,7 +54,11 @@ export const tools: Anthropic.Tool[] = [
   {
     name: "edit_file",
     description:
-      "Make a targeted edit by replacing a specific string. The old_string must match exactly.",
+      "Make a targeted edit by replacing a specific string. old_string should match the file exactly; " +
+      "if it doesn't, a whitespace-insensitive match is tried. Near-misses are never edited; the closest " +
+      "candidates are returned so you can retry with the file's actual text. " +
+      "For TS/JS files, symbol (e.g. 'UserService.save') anchors the edit: without old_string it replaces " +
+      "the symbol's body or full declaration, with old_string it only matches inside that symbol.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -64,7 +68,7 @@ export const tools: Anthropic.Tool[] = [
         },
         old_string: {
           type: "string",
-          description: "The exact string to find and replace",
+          description: "The exact string to find and replace (optional when symbol is given)",
         },
         new_string: {
           type: "string",
@@ -74,13 +78,24 @@ export const tools: Anthropic.Tool[] = [
           type: "boolean",
           description: "Replace all occurrences (default false)",
         },
+        symbol: {
+          type: "string",
+          description: "TS/JS function, class, method or variable name, qualified as needed ('Class.method', 'outer.inner')",
+        },
+        symbol_part: {
+          type: "string",
+          enum: ["body", "full"],
+          description: "With symbol and no old_string: replace the body between the braces (default) or the full declaration",
+        },
       },
-      required: ["path", "old_string", "new_string"],
+      required: ["path", "new_string"],
     },
   },
   {
     name: "multi_edit",
-    description: "Apply multiple edits to multiple files atomically.",
+    description:
+      "Apply multiple edits to multiple files atomically: all edits are checked first and nothing is written if any fails. " +
+      "Each edit takes the same fields as edit_file; later edits to a file see the earlier ones.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -92,7 +107,11 @@ export const tools: Anthropic.Tool[] = [
               path: { type: "string" },
               old_string: { type: "string" },
               new_string: { type: "string" },
+              replace_all: { type: "boolean" },
+              symbol: { type: "string" },
+              symbol_part: { type: "string", enum: ["body", "full"] },
             },
+            required: ["path", "new_string"],
           },
           description: "Array of edits to apply",
         },
@@ -270,10 +289,15 @@ export const tools: Anthropic.Tool[] = [
         cwd: { type: "string", description: "Working directory" },
         timeout: { type: "number", description: "Timeout in ms (default 60000)" },
         is_background: { type: "boolean", description: "Run in background" },
+        pty: {
+          type: "boolean",
+          description: "Background only: run under a pseudo-terminal, for interactive tools that need a TTY",
+        },
         permissions: {
           type: "array",
           items: { type: "string" },
-          description: "Required: 'network', 'git_write', or 'all'",
+          description:
+            "Permissions to grant: 'network', 'git_write', 'filesystem_destructive', 'package_install', 'code_execution' (inline interpreter code like python -c, or a shell fed a script on stdin), or 'all'. Denied commands report which ones they need.",
         },
       },
       required: ["command"],
@@ -299,14 +323,36 @@ export const tools: Anthropic.Tool[] = [
       required: ["job_id"],
     },
   },
+  {
+    name: "send_job_input",
+    description:
+      "Write to a running background job's stdin (answer prompts). Lines sent to a shell are checked by the terminal policy like commands; interpreter REPLs don't accept input. Returns the output that follows.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        job_id: { type: "string", description: "Job ID" },
+        input: { type: "string", description: "Text to send" },
+        press_enter: { type: "boolean", description: "Append a newline (default true)" },
+        close_stdin: { type: "boolean", description: "Send EOF after the input" },
+        wait_ms: { type: "number", description: "How long to collect output afterwards (default 1000)" },
+      },
+      required: ["job_id"],
+    },
+  },
   {
     name: "read_terminal_output",
-    description: "Read recent output from a terminal.",
+    description:
+      "Read output of a background job (run_terminal_command) or a VS Code terminal. Can tail, filter by regex, read only new output since an offset, or wait until a pattern appears (e.g. a dev server's ready message).",
     input_schema: {
       type: "object" as const,
       properties: {
-        terminal_id: { type: "string", description: "Terminal ID (optional, defaults to active)" },
-        lines: { type: "number", description: "Number of lines to read (default 100)" },
+        job_id: { type: "string", description: "Background job ID (defaults to the most recent job)" },
+        terminal_id: { type: "string", description: "VS Code terminal ID or name, instead of a job" },
+        lines: { type: "number", description: "Return only the last N lines (default 100)" },
+        grep: { type: "string", description: "Regex; return only matching lines" },
+        since_offset: { type: "number", description: "Byte offset from a previous read's next_offset" },
+        wait_for: { type: "string", description: "Regex to wait for before returning" },
+        timeout_ms: { type: "number", description: "Max wait for wait_for (default 30000)" },
       },
       required: [],
     },
@@ -638,14 +684,18 @@ export const tools: Anthropic.Tool[] = [
   },
   {
     name: "apply_diff",
-    description: "Apply a unified diff to a file.",
+    description:
+      "Apply a unified diff. Handles multi-file diffs, new/deleted/renamed files and hunks whose line numbers drifted. Nothing is written if any hunk is rejected; the result lists each rejected hunk and why.",
     input_schema: {
       type: "object" as const,
       properties: {
-        path: { type: "string", description: "File path to apply diff to" },
+        path: { type: "string", description: "Target file for a single-file diff without ---/+++ headers" },
         diff: { type: "string", description: "Unified diff content" },
+        dry_run: { type: "boolean", description: "Only report whether the diff applies" },
+        fuzz: { type: "number", description: "Context lines that may mismatch at each end of a hunk (default 2)" },
+        partial: { type: "boolean", description: "Apply the hunks that fit even if others are rejected" },
       },
-      required: ["path", "diff"],
+      required: ["diff"],
     },
   },
 
@@ -840,7 +890,7 @@ export const tools: Anthropic.Tool[] = [
   // ============================================
   {
     name: "mcp_call",
-    description: "Call a tool from an MCP server. Use mcp_list_tools first to see available tools.",
+    description: "Call a tool from an MCP server by server and tool name. Connected MCP tools are also offered directly as server__tool; prefer those.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -866,7 +916,7 @@ export const tools: Anthropic.Tool[] = [
   // ============================================
   {
     name: "create_checkpoint",
-    description: "Save current state as a checkpoint for potential rollback.",
+    description: "Start a new checkpoint. Every file you write, edit or delete afterwards has its previous content saved, so the checkpoint can be diffed or restored later. Checkpoints persist across reloads.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -877,11 +927,32 @@ export const tools: Anthropic.Tool[] = [
   },
   {
     name: "restore_checkpoint",
-    description: "Restore to a previous checkpoint.",
+    description: "Restore files to how they were when a checkpoint was created. Restores every file changed since then, or only the listed files. Files created since the checkpoint are deleted.",
     input_schema: {
       type: "object" as const,
       properties: {
         id: { type: "string", description: "Checkpoint ID to restore" },
+        files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only restore these files (default: all)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "diff_checkpoint",
+    description: "Show a unified diff of everything changed since a checkpoint (checkpoint -> current working tree).",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        id: { type: "string", description: "Checkpoint ID" },
+        files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only diff these files (default: all)",
+        },
       },
       required: ["id"],
     },
@@ -0,0 +1,605 @@
+/**
+ * Diff - In-process line diffing and unified diff output
+ * Myers O(ND) algorithm, no external `diff` binary needed
+ */
+
+export interface DiffOp {
+  type: "equal" | "insert" | "delete";
+  line: string;
+}
+
+// Past this many edits, give up on a minimal diff and replace the middle wholesale
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split text into lines, each keeping its "\n" so a missing final
+ * newline shows up as a changed line
+ */
+export function splitLines(text: string): string[] {
+  const lines = text.replace(/\r\n/g, "\n").split(/(?<=\n)/);
+  return lines[lines.length - 1] === "" ? lines.slice(0, -1) : lines;
+}
+
+/**
+ * Line-level diff of a -> b
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Common prefix/suffix are cheap to strip and usually most of the file
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map((line): DiffOp => ({ type: "delete", line })),
+    ...middleB.map((line): DiffOp => ({ type: "insert", line })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((line): DiffOp => ({ type: "equal", line })),
+    ...middle,
+    ...a.slice(endA).map((line): DiffOp => ({ type: "equal", line })),
+  ];
+}
+
+/**
+ * Myers shortest edit script. Returns null when the edit distance is too large.
+ */
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 && m === 0) return [];
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d-1 .. d+1] as it was at the start of round d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const get = (k: number) => v[k + d + 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+    const prevX = get(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", line: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: "insert", line: b[prevY] });
+      } else {
+        ops.push({ type: "delete", line: a[prevX] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Unified diff (git style headers). null paths mean the file doesn't exist on that side.
+ */
+export function createUnifiedDiff(
+  oldPath: string | null,
+  newPath: string | null,
+  oldText: string,
+  newText: string,
+  contextLines = 3
+): string {
+  if (oldText === newText) return "";
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Line numbers (1-based) of each op on both sides
+  const positions: Array<{ oldLine: number; newLine: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    positions.push({ oldLine, newLine });
+    if (op.type !== "insert") oldLine++;
+    if (op.type !== "delete") newLine++;
+  }
+
+  const output = [
+    `--- ${oldPath === null ? "/dev/null" : `a/${oldPath}`}`,
+    `+++ ${newPath === null ? "/dev/null" : `b/${newPath}`}`,
+  ];
+
+  const changed = ops.map((op, i) => (op.type !== "equal" ? i : -1)).filter((i) => i >= 0);
+
+  let i = 0;
+  while (i < changed.length) {
+    const hunkStart = Math.max(0, changed[i] - contextLines);
+    let hunkEnd = Math.min(ops.length - 1, changed[i] + contextLines);
+
+    // Merge changes whose context overlaps
+    while (i + 1 < changed.length && changed[i + 1] - contextLines <= hunkEnd + 1) {
+      i++;
+      hunkEnd = Math.min(ops.length - 1, changed[i] + contextLines);
+    }
+    i++;
+
+    const hunkOps = ops.slice(hunkStart, hunkEnd + 1);
+    const oldCount = hunkOps.filter((op) => op.type !== "insert").length;
+    const newCount = hunkOps.filter((op) => op.type !== "delete").length;
+    const oldStart = oldCount === 0 ? positions[hunkStart].oldLine - 1 : positions[hunkStart].oldLine;
+    const newStart = newCount === 0 ? positions[hunkStart].newLine - 1 : positions[hunkStart].newLine;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+
+    for (const op of hunkOps) {
+      const prefix = op.type === "equal" ? " " : op.type === "insert" ? "+" : "-";
+      if (op.line.endsWith("\n")) {
+        output.push(prefix + op.line.slice(0, -1));
+      } else {
+        output.push(prefix + op.line, "\\ No newline at end of file");
+      }
+    }
+  }
+
+  return output.join("\n") + "\n";
+}
+
+// ============================================
+// PATCH PARSING
+// ============================================
+
+export interface PatchHunk {
+  header: string; // the @@ line
+  oldStart: number; // 1-based; -1 when the header has no line numbers ("@@ @@")
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // body lines with their " ", "-" or "+" prefix
+  oldNoNewline: boolean; // "\ No newline at end of file" on the old side
+  newNoNewline: boolean;
+}
+
+export type FilePatchType = "modify" | "create" | "delete" | "rename";
+
+export interface FilePatch {
+  oldPath?: string; // undefined when the diff has no file headers
+  newPath?: string;
+  type: FilePatchType;
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a (possibly multi-file, git-style or plain) unified diff.
+ * Lenient about what models produce: wrong hunk counts, "@@ @@" headers without
+ * line numbers, context lines that lost their leading space, and missing file headers.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const patches: Array<FilePatch & { oldNull?: boolean; newNull?: boolean; headers?: boolean }> = [];
+  let current: (typeof patches)[number] | null = null;
+
+  const startFile = () => {
+    current = { type: "modify", hunks: [] };
+    patches.push(current);
+    return current;
+  };
+
+  const isFileHeader = (i: number) =>
+    lines[i].startsWith("diff --git ") ||
+    (lines[i].startsWith("--- ") && lines[i + 1]?.startsWith("+++ "));
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith("diff --git ")) {
+      const file = startFile();
+      const match = line.match(/^diff --git ("?a\/.+?"?) ("?b\/.+"?)$/);
+      if (match) {
+        file.oldPath = cleanPatchPath(match[1]) ?? undefined;
+        file.newPath = cleanPatchPath(match[2]) ?? undefined;
+      }
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      const oldPath = cleanPatchPath(line.slice(4));
+      const newPath = cleanPatchPath(lines[i + 1].slice(4));
+
+      // Belongs to the preceding "diff --git" block if the paths agree (pure renames have no ---/+++)
+      const previous = current as (typeof patches)[number] | null;
+      const continues =
+        previous !== null &&
+        previous.hunks.length === 0 &&
+        !previous.headers &&
+        (oldPath === null || oldPath === previous.oldPath) &&
+        (newPath === null || newPath === previous.newPath);
+      const file = continues ? previous : startFile();
+      file.headers = true;
+      if (oldPath === null) file.oldNull = true;
+      else file.oldPath = oldPath;
+      if (newPath === null) file.newNull = true;
+      else file.newPath = newPath;
+      i += 2;
+      continue;
+    }
+
+    if (current && (current as FilePatch).hunks.length === 0) {
+      const file = current as (typeof patches)[number];
+      if (line.startsWith("new file mode")) file.oldNull = true;
+      if (line.startsWith("deleted file mode")) file.newNull = true;
+      if (line.startsWith("rename from ")) file.oldPath = line.slice(12).trim();
+      if (line.startsWith("rename to ")) file.newPath = line.slice(10).trim();
+    }
+
+    if (line.startsWith("@@")) {
+      const file = current ?? startFile();
+      const numbers = line.match(HUNK_HEADER);
+      const hunk: PatchHunk = {
+        header: line,
+        oldStart: numbers ? parseInt(numbers[1], 10) : -1,
+        oldLines: numbers ? parseInt(numbers[2] ?? "1", 10) : -1,
+        newStart: numbers ? parseInt(numbers[3], 10) : -1,
+        newLines: numbers ? parseInt(numbers[4] ?? "1", 10) : -1,
+        lines: [],
+        oldNoNewline: false,
+        newNoNewline: false,
+      };
+      i++;
+
+      while (i < lines.length && !lines[i].startsWith("@@") && !isFileHeader(i)) {
+        const body = lines[i];
+        const prefix = body[0];
+
+        if (prefix === " " || prefix === "-" || prefix === "+") {
+          hunk.lines.push(body);
+        } else if (prefix === "\\") {
+          const previous = hunk.lines[hunk.lines.length - 1]?.[0];
+          if (previous !== "+") hunk.oldNoNewline = true;
+          if (previous !== "-") hunk.newNoNewline = true;
+        } else if (body === "" && hasMoreHunkLines(lines, i + 1)) {
+          hunk.lines.push(" "); // blank context line that lost its space
+        } else {
+          break;
+        }
+        i++;
+      }
+
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    i++;
+  }
+
+  return patches
+    .filter((p) => p.hunks.length > 0 || p.oldNull || p.newNull || (p.oldPath && p.newPath && p.oldPath !== p.newPath))
+    .map(({ oldNull, newNull, headers, ...patch }) => {
+      if (oldNull) {
+        patch.type = "create";
+        patch.oldPath = undefined;
+      } else if (newNull) {
+        patch.type = "delete";
+        patch.newPath = undefined;
+      } else if (patch.oldPath && patch.newPath && patch.oldPath !== patch.newPath) {
+        patch.type = "rename";
+      }
+      return patch;
+    });
+}
+
+function hasMoreHunkLines(lines: string[], from: number): boolean {
+  for (let i = from; i < lines.length; i++) {
+    if (lines[i] === "") continue;
+    return /^[ +\-\\]/.test(lines[i]) && !(lines[i].startsWith("--- ") && lines[i + 1]?.startsWith("+++ "));
+  }
+  return false;
+}
+
+/**
+ * "a/src/x.ts\t2024-01-01" -> "src/x.ts"; /dev/null -> null
+ */
+function cleanPatchPath(raw: string): string | null {
+  let p = raw.split("\t")[0].trim();
+  if (p.startsWith('"') && p.endsWith('"')) p = p.slice(1, -1);
+  if (p === "/dev/null") return null;
+  return p.replace(/^[ab]\//, "");
+}
+
+// ============================================
+// PATCH APPLICATION
+// ============================================
+
+export interface ApplyOptions {
+  fuzz?: number; // context lines that may be ignored at each end of a hunk (default 2)
+}
+
+export interface HunkResult {
+  hunk: number; // 1-based
+  header: string;
+  status: "applied" | "already-applied" | "rejected";
+  line?: number; // 1-based line in the result where the hunk landed
+  offset?: number; // lines away from where the header put it in the new file
+  fuzz?: number; // context lines ignored to make it fit
+  whitespace?: boolean; // matched only when ignoring whitespace
+  reason?: string;
+}
+
+export interface ApplyResult {
+  content: string;
+  hunks: HunkResult[];
+  ok: boolean; // every hunk applied (or was already applied)
+}
+
+interface HunkMatch {
+  index: number; // start of the matched old lines in the working copy
+  leading: number; // context lines dropped from the front
+  trailing: number;
+  whitespace: boolean;
+}
+
+/**
+ * Apply hunks to text. Hunks are located near their stated position, then
+ * anywhere after the previous hunk, first exactly, then ignoring whitespace,
+ * then with up to `fuzz` context lines ignored at each end. Hunks that can't
+ * be placed are rejected with the closest near-match for the report.
+ */
+export function applyHunks(original: string, hunks: PatchHunk[], options: ApplyOptions = {}): ApplyResult {
+  const maxFuzz = options.fuzz ?? 2;
+  const eol = original.includes("\r\n") ? "\r\n" : "\n";
+  const normalized = original.replace(/\r\n/g, "\n");
+
+  let endsWithNewline = normalized === "" || normalized.endsWith("\n");
+  const lines = normalized === "" ? [] : (endsWithNewline ? normalized.slice(0, -1) : normalized).split("\n");
+
+  const results: HunkResult[] = [];
+  let floor = 0; // hunks apply in order, never before the previous one
+  let delta = 0; // working-copy index minus original index after the last hunk
+
+  hunks.forEach((hunk, n) => {
+    const oldSide = hunk.lines.filter((l) => l[0] !== "+").map((l) => l.slice(1));
+    const newSide = hunk.lines.filter((l) => l[0] !== "-").map((l) => l.slice(1));
+    const originalStart = hunk.oldStart < 0 ? -1 : hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = originalStart < 0 ? floor : Math.max(floor, originalStart + delta);
+    const base = { hunk: n + 1, header: hunk.header };
+
+    // Pure insertion without context: trust the line number
+    if (oldSide.length === 0) {
+      if (originalStart < 0) {
+        results.push({ ...base, status: "rejected", reason: "hunk has no context lines and no line number to anchor it" });
+        return;
+      }
+      const index = Math.min(expected, lines.length);
+      const offset = index - (hunk.newStart - 1);
+      lines.splice(index, 0, ...newSide);
+      floor = index + newSide.length;
+      delta = floor - originalStart;
+      if (floor === lines.length) endsWithNewline = !hunk.newNoNewline;
+      results.push({ ...base, status: "applied", line: index + 1, offset });
+      return;
+    }
+
+    const match = locateHunk(lines, hunk, oldSide, expected, floor, maxFuzz);
+
+    if (match) {
+      const body = hunk.lines.slice(match.leading, hunk.lines.length - match.trailing);
+      const replacement: string[] = [];
+      let cursor = match.index;
+      for (const line of body) {
+        if (line[0] === " ") {
+          replacement.push(lines[cursor++]); // keep the file's own context (whitespace may differ)
+        } else if (line[0] === "-") {
+          cursor++;
+        } else {
+          replacement.push(line.slice(1));
+        }
+      }
+
+      const removed = cursor - match.index;
+      lines.splice(match.index, removed, ...replacement);
+
+      const start = originalStart < 0 ? match.index - delta : originalStart + match.leading;
+      floor = match.index + replacement.length;
+      delta = floor - (start + removed);
+      if (floor === lines.length && match.trailing === 0) endsWithNewline = !hunk.newNoNewline;
+
+      results.push({
+        ...base,
+        status: "applied",
+        line: match.index + 1,
+        offset: originalStart < 0 ? undefined : match.index - (newHunkStart(hunk) + match.leading),
+        fuzz: Math.max(match.leading, match.trailing) || undefined,
+        whitespace: match.whitespace || undefined,
+      });
+      return;
+    }
+
+    // Already applied? Only when the lines it adds are there verbatim, next
+    // to its context - context alone (or a pure removal) proves nothing
+    const added = hunk.lines.filter((l) => l[0] === "+").map((l) => l.slice(1));
+    const applied = added.some((l) => l.trim() !== "")
+      ? findAppliedBlock(lines, hunk, expected, floor)
+      : null;
+    if (applied !== null) {
+      floor = applied + newSide.length;
+      if (originalStart >= 0) delta = floor - (originalStart + oldSide.length);
+      results.push({ ...base, status: "already-applied", line: applied + 1 });
+      return;
+    }
+
+    results.push({ ...base, status: "rejected", reason: describeMismatch(lines, oldSide, expected) });
+  });
+
+  let content = lines.join("\n");
+  if (lines.length > 0 && endsWithNewline) content += "\n";
+  if (eol === "\r\n") content = content.replace(/\n/g, "\r\n");
+
+  return {
+    content,
+    hunks: results,
+    ok: results.every((r) => r.status !== "rejected"),
+  };
+}
+
+/**
+ * 0-based index where the header says the hunk's new side starts
+ */
+function newHunkStart(hunk: PatchHunk): number {
+  return hunk.newLines === 0 ? hunk.newStart : hunk.newStart - 1;
+}
+
+function locateHunk(
+  lines: string[],
+  hunk: PatchHunk,
+  oldSide: string[],
+  expected: number,
+  floor: number,
+  maxFuzz: number
+): HunkMatch | null {
+  const leadingContext = countContext(hunk.lines);
+  const trailingContext = countContext([...hunk.lines].reverse());
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    const leading = Math.min(fuzz, leadingContext);
+    const trailing = Math.min(fuzz, trailingContext);
+    if (fuzz > 0 && leading === 0 && trailing === 0) break; // nothing left to ignore
+
+    const pattern = oldSide.slice(leading, oldSide.length - trailing);
+    if (pattern.length === 0) break;
+
+    for (const whitespace of [false, true]) {
+      const index = findBlock(lines, pattern, expected + leading, floor, whitespace);
+      if (index !== null) return { index, leading, trailing, whitespace };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Where the hunk's new side sits nearest `near`, with every added line
+ * matching exactly (context may differ in whitespace, as when it was applied)
+ */
+function findAppliedBlock(lines: string[], hunk: PatchHunk, near: number, floor: number): number | null {
+  const body = hunk.lines.filter((l) => l[0] !== "-");
+  const fitsAt = (index: number) =>
+    body.every((line, j) =>
+      line[0] === "+"
+        ? lines[index + j] === line.slice(1)
+        : normalizeWhitespace(lines[index + j]) === normalizeWhitespace(line.slice(1))
+    );
+
+  let best: number | null = null;
+  for (let index = floor; index + body.length <= lines.length; index++) {
+    if (fitsAt(index) && (best === null || Math.abs(index - near) < Math.abs(best - near))) best = index;
+  }
+  return best;
+}
+
+function countContext(lines: string[]): number {
+  let count = 0;
+  while (count < lines.length && lines[count][0] === " ") count++;
+  return count;
+}
+
+const normalizeWhitespace = (line: string) => line.trim().replace(/\s+/g, " ");
+
+/**
+ * Start index of block in lines nearest to `near`, at or after `floor`
+ */
+function findBlock(lines: string[], block: string[], near: number, floor: number, ignoreWhitespace: boolean): number | null {
+  const last = lines.length - block.length;
+  if (last < floor) return null;
+
+  const equal = ignoreWhitespace
+    ? (a: string, b: string) => normalizeWhitespace(a) === normalizeWhitespace(b)
+    : (a: string, b: string) => a === b;
+  const matchesAt = (index: number) => block.every((line, j) => equal(lines[index + j], line));
+
+  const start = Math.min(Math.max(near, floor), last);
+  for (let distance = 0; start - distance >= floor || start + distance <= last; distance++) {
+    if (start - distance >= floor && matchesAt(start - distance)) return start - distance;
+    if (distance > 0 && start + distance <= last && matchesAt(start + distance)) return start + distance;
+  }
+
+  return null;
+}
+
+/**
+ * Explain where a rejected hunk came closest to matching
+ */
+function describeMismatch(lines: string[], oldSide: string[], expected: number): string {
+  let best = { index: -1, score: 0 };
+
+  for (let index = 0; index <= Math.max(0, lines.length - 1); index++) {
+    let score = 0;
+    for (let j = 0; j < oldSide.length && index + j < lines.length; j++) {
+      if (normalizeWhitespace(lines[index + j]) === normalizeWhitespace(oldSide[j])) score++;
+    }
+    const closer = Math.abs(index - expected) < Math.abs(best.index - expected);
+    if (score > best.score || (score === best.score && score > 0 && closer)) best = { index, score };
+  }
+
+  if (best.score === 0) {
+    return `none of the ${oldSide.length} context/removed lines were found (expected near line ${expected + 1})`;
+  }
+
+  const mismatch = oldSide.findIndex(
+    (line, j) => normalizeWhitespace(lines[best.index + j] ?? "") !== normalizeWhitespace(line)
+  );
+  const found = lines[best.index + mismatch];
+  return (
+    `closest match at line ${best.index + 1} (${best.score}/${oldSide.length} lines agree); ` +
+    `line ${best.index + mismatch + 1} expected ${JSON.stringify(oldSide[mismatch])} but found ` +
+    (found === undefined ? "end of file" : JSON.stringify(found))
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * Edit Matcher - Finds where an edit's old_string lives in a file
+ * Tiers, each tried only when the previous found nothing: exact, then
+ * whitespace-insensitive. Whitespace matches re-indent the replacement so
+ * indentation drift in the model's strings doesn't leak into the file.
+ * Line-anchored fuzzy matches are never edited; they come back as candidates
+ * so the model can copy the file's actual text and retry.
+ */
+
+export type MatchTier = "exact" | "whitespace" | "fuzzy";
+
+export interface EditMatch {
+  start: number; // character offsets into the searched text
+  end: number;
+  line: number; // 1-based
+  endLine: number;
+  tier: MatchTier;
+  similarity?: number; // fuzzy only, 0-1
+}
+
+export interface MatchResult {
+  tier: Exclude<MatchTier, "fuzzy"> | null;
+  matches: EditMatch[];
+  candidates: EditMatch[]; // fuzzy near-misses, only when nothing matched
+  closest?: EditMatch & { text: string }; // best near-miss, for the failure report
+}
+
+// Average line similarity a fuzzy window needs, and what its first/last lines need on their own
+const FUZZY_THRESHOLD = 0.85;
+const ANCHOR_THRESHOLD = 0.8;
+const MAX_COMPARE_LENGTH = 400;
+
+/**
+ * Find every place old_string could refer to, using the first tier that matches.
+ * With fuzzy off, near-misses still feed `closest` but aren't listed as candidates.
+ */
+export function findEditMatches(content: string, search: string, options: { fuzzy?: boolean } = {}): MatchResult {
+  const lineStarts = getLineStarts(content);
+
+  const exact = findExact(content, search, lineStarts);
+  if (exact.length > 0) return { tier: "exact", matches: exact, candidates: [] };
+
+  const whitespace = findWhitespaceInsensitive(content, search, lineStarts);
+  if (whitespace.length > 0) return { tier: "whitespace", matches: whitespace, candidates: [] };
+
+  const fuzzy = findFuzzy(content, search, lineStarts);
+  return {
+    tier: null,
+    matches: [],
+    candidates: options.fuzzy === false ? [] : fuzzy.matches,
+    closest: fuzzy.closest,
+  };
+}
+
+/**
+ * The text to splice in for a match. Exact matches use new_string as-is; whitespace
+ * matches shift new_string from old_string's indentation to the file's.
+ */
+export function adaptReplacement(
+  content: string,
+  match: EditMatch,
+  oldString: string,
+  newString: string
+): string {
+  if (match.tier === "exact") return newString;
+
+  const lineStart = content.lastIndexOf("\n", match.start - 1) + 1;
+  const fileIndent = leadingWhitespace(content.slice(lineStart));
+  const oldIndent = leadingWhitespace(oldString.split("\n").find((l) => l.trim()) ?? "");
+  const indentMap = mapIndentation(trimBlankLines(oldString.split("\n")), content.slice(lineStart, match.end).split("\n"));
+
+  // The match excludes old_string's surrounding whitespace, so drop the same from new_string
+  const lead = oldString.match(/^\s*/)![0];
+  const trail = oldString.match(/\s*$/)![0];
+  let text = newString;
+  if (lead && text.startsWith(lead)) text = text.slice(lead.length);
+  if (trail && text.endsWith(trail)) text = text.slice(0, -trail.length);
+
+  const reindent = (line: string): string => {
+    const indent = leadingWhitespace(line);
+    const mapped = indentMap.get(indent);
+    return mapped !== undefined && line.trim() ? mapped + line.slice(indent.length) : reindentLine(line, oldIndent, fileIndent);
+  };
+
+  const [first, ...rest] = text.split("\n");
+  // The match starts at the first token, so the file keeps its own indentation there
+  const head = first.replace(/^[ \t]+/, "");
+  return [head, ...rest.map(reindent)].join("\n");
+}
+
+/**
+ * Human-readable report of several candidate matches
+ */
+export function describeMatches(content: string, matches: EditMatch[]): string {
+  const lines = content.split("\n");
+  return matches
+    .map((m) => {
+      const range = m.line === m.endLine ? `line ${m.line}` : `lines ${m.line}-${m.endLine}`;
+      const before = lines[m.line - 2]?.trim();
+      const similarity = m.similarity !== undefined ? `, ${Math.round(m.similarity * 100)}% similar` : "";
+      return `  - ${range}${similarity}: ${JSON.stringify(truncate(lines[m.line - 1].trim()))}` +
+        (before ? ` (after ${JSON.stringify(truncate(before))})` : "");
+    })
+    .join("\n");
+}
+
+/**
+ * Show the closest near-miss so the model can copy the file's actual text
+ */
+export function describeClosest(result: MatchResult): string {
+  const closest = result.closest;
+  if (!closest) return "";
+
+  const text = closest.text.split("\n").slice(0, 30).join("\n");
+  return (
+    `\nClosest text (lines ${closest.line}-${closest.endLine}, ` +
+    `${Math.round((closest.similarity ?? 0) * 100)}% similar):\n${text}`
+  );
+}
+
+// ============================================
+// TIERS
+// ============================================
+
+function findExact(content: string, search: string, lineStarts: number[]): EditMatch[] {
+  const matches: EditMatch[] = [];
+  let index = content.indexOf(search);
+
+  while (index >= 0) {
+    matches.push(makeMatch(index, index + search.length, lineStarts, "exact"));
+    index = content.indexOf(search, index + search.length);
+  }
+
+  return matches;
+}
+
+/**
+ * Same tokens, any whitespace between them (indentation, wrapping, tabs vs spaces)
+ */
+function findWhitespaceInsensitive(content: string, search: string, lineStarts: number[]): EditMatch[] {
+  const tokens = search.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+
+  const pattern = new RegExp(tokens.map(escapeRegExp).join("\\s+"), "g");
+  const matches: EditMatch[] = [];
+
+  for (let m = pattern.exec(content); m; m = pattern.exec(content)) {
+    matches.push(makeMatch(m.index, m.index + m[0].length, lineStarts, "whitespace"));
+    if (m[0].length === 0) pattern.lastIndex++;
+  }
+
+  return matches;
+}
+
+/**
+ * Windows of whole lines whose first and last lines closely match old_string's,
+ * and whose lines match well on average
+ */
+function findFuzzy(
+  content: string,
+  search: string,
+  lineStarts: number[]
+): { matches: EditMatch[]; closest?: EditMatch & { text: string } } {
+  const fileLines = content.split("\n");
+  const searchLines = trimBlankLines(search.split("\n"));
+  const k = searchLines.length;
+  if (k === 0 || k > fileLines.length) return { matches: [] };
+
+  const normalizedSearch = searchLines.map(normalize);
+  const normalizedFile = fileLines.map(normalize);
+
+  const scored: Array<{ index: number; score: number }> = [];
+  let best: { index: number; score: number } | null = null;
+
+  for (let i = 0; i + k <= fileLines.length; i++) {
+    const first = similarity(normalizedFile[i], normalizedSearch[0]);
+    const last = k === 1 ? first : similarity(normalizedFile[i + k - 1], normalizedSearch[k - 1]);
+
+    // Cheap anchor check first; only anchored windows get the full comparison
+    const anchored = first >= ANCHOR_THRESHOLD && last >= ANCHOR_THRESHOLD;
+    if (!anchored && (first + last) / 2 < (best?.score ?? 0.5)) continue;
+
+    let total = first + (k > 1 ? last : 0);
+    for (let j = 1; j < k - 1; j++) {
+      total += similarity(normalizedFile[i + j], normalizedSearch[j]);
+    }
+    const score = total / k;
+
+    if (!best || score > best.score) best = { index: i, score };
+    if (anchored && score >= FUZZY_THRESHOLD) scored.push({ index: i, score });
+  }
+
+  // Overlapping windows around one spot count once: keep the best of each cluster
+  const matches: EditMatch[] = [];
+  for (const candidate of scored.sort((a, b) => b.score - a.score)) {
+    if (matches.some((m) => Math.abs(m.line - 1 - candidate.index) < k)) continue;
+    matches.push(windowMatch(candidate.index, k, candidate.score, fileLines, lineStarts));
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  const closest = best
+    ? {
+        ...windowMatch(best.index, k, best.score, fileLines, lineStarts),
+        text: fileLines.slice(best.index, best.index + k).join("\n"),
+      }
+    : undefined;
+
+  return { matches, closest };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function windowMatch(index: number, k: number, score: number, fileLines: string[], lineStarts: number[]): EditMatch {
+  const start = lineStarts[index];
+  const end = lineStarts[index + k - 1] + fileLines[index + k - 1].length;
+  return { ...makeMatch(start, end, lineStarts, "fuzzy"), similarity: score };
+}
+
+function makeMatch(start: number, end: number, lineStarts: number[], tier: MatchTier): EditMatch {
+  return {
+    start,
+    end,
+    line: lineAt(lineStarts, start),
+    endLine: lineAt(lineStarts, Math.max(start, end - 1)),
+    tier,
+  };
+}
+
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineAt(lineStarts: number[], offset: number): number {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+}
+
+function normalize(line: string): string {
+  return line.trim().replace(/\s+/g, " ").slice(0, MAX_COMPARE_LENGTH);
+}
+
+/**
+ * 1 - normalized Levenshtein distance
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+  if (Math.min(a.length, b.length) / Math.max(a.length, b.length) < 0.5) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+}
+
+function reindentLine(line: string, from: string, to: string): string {
+  if (!line.trim()) return line;
+  if (line.startsWith(from)) return to + line.slice(from.length);
+  return line;
+}
+
+/**
+ * Indentation old_string used at each level -> what the file uses there, from
+ * line-aligned matches (e.g. 2-space model output against a 4-space file)
+ */
+function mapIndentation(oldLines: string[], fileLines: string[]): Map<string, string> {
+  const map = new Map<string, string>();
+  if (oldLines.length !== fileLines.length) return map;
+
+  for (let i = 0; i < oldLines.length; i++) {
+    if (!oldLines[i].trim() || !fileLines[i].trim()) continue;
+    const from = leadingWhitespace(oldLines[i]);
+    if (!map.has(from)) map.set(from, leadingWhitespace(fileLines[i]));
+  }
+  return map;
+}
+
+function leadingWhitespace(text: string): string {
+  return text.match(/^[ \t]*/)![0];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function truncate(text: string, max = 80): string {
+  return text.length > max ? text.slice(0, max - 3) + "..." : text;
+}
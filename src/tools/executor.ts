@@ -8,37 +8,53 @@ import * as fs from "fs";
 import * as path from "path";
 import { exec, spawn, ChildProcess } from "child_process";
 import { promisify } from "util";
+import { AsyncLocalStorage } from "async_hooks";
 import { glob } from "glob";
 import ignore from "ignore";
 import type { ToolName, ToolInput } from "./definitions";
-import { getTerminalManager, TerminalPermission } from "../terminal";
+import { getTerminalManager, getTerminalCapture, readOutput, OutputBuffer, TerminalPermission } from "../terminal";
 import { getSemanticSearch } from "../search/semantic";
 import { getWebSearch } from "../search/web";
 import { getMemoryManager } from "../memory";
 import { getMCPManager } from "../mcp";
+import type { MCPToolResult } from "../mcp";
 import { getContextTracker } from "../features/context";
 import { isImageFile, readImageAsBase64 } from "../features/vision";
 import {
   editNotebookCell,
   createNotebookCell,
 } from "../features/notebooks";
+import { getCheckpointManager } from "./checkpoints";
+import { getRegressionTracker } from "../preflight/regressions";
+import { parsePatch, applyHunks, FilePatch, HunkResult } from "./diff";
+import {
+  findEditMatches,
+  adaptReplacement,
+  describeMatches,
+  describeClosest,
+  EditMatch,
+  MatchResult,
+} from "./edit-matcher";
+import type { SymbolPart } from "./symbol-edit";
 
 const execAsync = promisify(exec);
 
-let taskStore: Array<{ id: string; content: string; status: string }> = [];
-
-// Checkpoint storage
-interface Checkpoint {
-  id: string;
-  name: string;
-  timestamp: Date;
-  files: Map<string, string>;
+export interface ToolResult {
+  content: string;
+  isError: boolean; // the tool failed instead of doing its job
 }
-let checkpoints: Checkpoint[] = [];
+
+/**
+ * Thrown by a tool to fail with exactly this message as its result
+ */
+class ToolFailure extends Error {}
+
+let taskStore: Array<{ id: string; content: string; status: string }> = [];
 
 export class ToolExecutor {
   private workspaceRoot: string;
   private gitignore: ReturnType<typeof ignore> | null = null;
+  private notes = new AsyncLocalStorage<string[]>(); // appended to the running tool's result
 
   constructor() {
     this.workspaceRoot =
@@ -63,6 +79,29 @@ export class ToolExecutor {
     return path.join(this.workspaceRoot, filePath);
   }
 
+  /**
+   * Call before changing a file: checkpoints its pre-image, and records it for
+   * attributing any errors the change introduces. Refuses the terminal policy,
+   * its audit log, the MCP and preflight config and the checkpoints, which only
+   * the user may change.
+   */
+  private captureWrite(filePath: string): void {
+    this.assertWritable(filePath);
+    const tooLarge = getCheckpointManager().capture(filePath);
+    if (tooLarge.length > 0) {
+      this.notes.getStore()?.push(
+        `Note: ${tooLarge.join(", ")} is over 20 MB, so no checkpoint was kept - restoring a checkpoint won't undo this change`
+      );
+    }
+    getRegressionTracker().recordWrite(filePath);
+  }
+
+  private assertWritable(filePath: string): void {
+    if (getTerminalManager().getPolicy().isProtectedPath(filePath)) {
+      throw new Error(`${filePath} is protected agent configuration or history, which only the user can change`);
+    }
+  }
+
   private formatWithLineNumbers(content: string, startLine = 1): string {
     return content
       .split("\n")
@@ -70,107 +109,119 @@ export class ToolExecutor {
       .join("\n");
   }
 
-  async execute(toolName: ToolName, input: ToolInput): Promise<string> {
+  async execute(toolName: ToolName, input: ToolInput): Promise<ToolResult> {
+    const notes: string[] = [];
+    let result: ToolResult;
     try {
-      switch (toolName) {
-        // File operations
-        case "read_file": return await this.readFile(input);
-        case "write_file": return await this.writeFile(input);
-        case "edit_file": return await this.editFile(input);
-        case "multi_edit": return await this.multiEdit(input);
-        case "list_directory": return await this.listDirectory(input);
-        case "create_directory": return await this.createDirectory(input);
-        case "delete_file": return await this.deleteFile(input);
-        case "rename_file": return await this.renameFile(input);
-        case "copy_file": return await this.copyFile(input);
-
-        // Notebook
-        case "edit_notebook": return await this.editNotebook(input);
-
-        // Search
-        case "codebase_search": return await this.codebaseSearch(input);
-        case "grep": return await this.grep(input);
-        case "search_files": return await this.searchFiles(input);
-        case "web_search": return await this.webSearch(input);
-        case "fetch_url": return await this.fetchUrl(input);
-
-        // Terminal
-        case "run_terminal_command": return await this.runTerminalCommand(input);
-        case "list_running_jobs": return await this.listRunningJobs();
-        case "kill_job": return await this.killJob(input);
-        case "read_terminal_output": return await this.readTerminalOutput(input);
-
-        // Code intelligence (basic)
-        case "get_diagnostics": return await this.getDiagnostics(input);
-        case "get_definition": return await this.getDefinition(input);
-        case "get_references": return await this.getReferences(input);
-        case "get_hover_info": return await this.getHoverInfo(input);
-
-        // Code intelligence (advanced)
-        case "rename_symbol": return await this.renameSymbol(input);
-        case "find_implementations": return await this.findImplementations(input);
-        case "workspace_symbols": return await this.workspaceSymbols(input);
-        case "document_symbols": return await this.documentSymbols(input);
-        case "call_hierarchy": return await this.callHierarchy(input);
-        case "type_hierarchy": return await this.typeHierarchy(input);
-        case "get_code_actions": return await this.getCodeActions(input);
-        case "apply_code_action": return await this.applyCodeAction(input);
-        case "format_document": return await this.formatDocument(input);
-
-        // Git (basic)
-        case "get_git_status": return await this.getGitStatus(input);
-        case "git_diff": return await this.gitDiff(input);
-        case "apply_diff": return await this.applyDiff(input);
-
-        // Git (full)
-        case "git_log": return await this.gitLog(input);
-        case "git_commit": return await this.gitCommit(input);
-        case "git_push": return await this.gitPush(input);
-        case "git_pull": return await this.gitPull(input);
-        case "git_branch": return await this.gitBranch(input);
-        case "git_checkout": return await this.gitCheckout(input);
-        case "git_stash": return await this.gitStash(input);
-        case "git_blame": return await this.gitBlame(input);
-        case "git_add": return await this.gitAdd(input);
-        case "git_reset": return await this.gitReset(input);
-
-        // Memory
-        case "update_memory": return await this.updateMemory(input);
-        case "search_memories": return await this.searchMemories(input);
-        case "list_memories": return await this.listMemories();
-
-        // Workspace & Context
-        case "get_workspace_info": return await this.getWorkspaceInfo();
-        case "get_context": return await this.getContext();
-        case "get_open_files": return await this.getOpenFiles();
-        case "get_selection": return await this.getSelection();
-
-        // Tasks
-        case "todo_write": return await this.todoWrite(input);
-
-        // Browser
-        case "browser_navigate": return await this.browserNavigate(input);
-        case "browser_snapshot": return await this.browserSnapshot();
-        case "browser_click": return await this.browserClick(input);
-        case "browser_type": return await this.browserType(input);
-        case "browser_screenshot": return await this.browserScreenshot(input);
-        case "browser_console": return await this.browserConsole();
-        case "browser_network": return await this.browserNetwork();
-
-        // MCP
-        case "mcp_call": return await this.mcpCall(input);
-        case "mcp_list_tools": return await this.mcpListTools();
-
-        // Checkpoints
-        case "create_checkpoint": return await this.createCheckpoint(input);
-        case "restore_checkpoint": return await this.restoreCheckpoint(input);
-        case "list_checkpoints": return await this.listCheckpoints();
-
-        default:
-          return `Unknown tool: ${toolName}`;
-      }
+      result = { content: await this.notes.run(notes, () => this.dispatch(toolName, input)), isError: false };
     } catch (error) {
-      return `Error executing ${toolName}: ${error instanceof Error ? error.message : String(error)}`;
+      const message = error instanceof Error ? error.message : String(error);
+      result = { content: error instanceof ToolFailure ? message : `Error executing ${toolName}: ${message}`, isError: true };
+    }
+    if (notes.length > 0) result.content += `\n\n${notes.join("\n")}`;
+    return result;
+  }
+
+  private async dispatch(toolName: ToolName, input: ToolInput): Promise<string> {
+    switch (toolName) {
+      // File operations
+      case "read_file": return await this.readFile(input);
+      case "write_file": return await this.writeFile(input);
+      case "edit_file": return await this.editFile(input);
+      case "multi_edit": return await this.multiEdit(input);
+      case "list_directory": return await this.listDirectory(input);
+      case "create_directory": return await this.createDirectory(input);
+      case "delete_file": return await this.deleteFile(input);
+      case "rename_file": return await this.renameFile(input);
+      case "copy_file": return await this.copyFile(input);
+
+      // Notebook
+      case "edit_notebook": return await this.editNotebook(input);
+
+      // Search
+      case "codebase_search": return await this.codebaseSearch(input);
+      case "grep": return await this.grep(input);
+      case "search_files": return await this.searchFiles(input);
+      case "web_search": return await this.webSearch(input);
+      case "fetch_url": return await this.fetchUrl(input);
+
+      // Terminal
+      case "run_terminal_command": return await this.runTerminalCommand(input);
+      case "list_running_jobs": return await this.listRunningJobs();
+      case "kill_job": return await this.killJob(input);
+      case "send_job_input": return await this.sendJobInput(input);
+      case "read_terminal_output": return await this.readTerminalOutput(input);
+
+      // Code intelligence (basic)
+      case "get_diagnostics": return await this.getDiagnostics(input);
+      case "get_definition": return await this.getDefinition(input);
+      case "get_references": return await this.getReferences(input);
+      case "get_hover_info": return await this.getHoverInfo(input);
+
+      // Code intelligence (advanced)
+      case "rename_symbol": return await this.renameSymbol(input);
+      case "find_implementations": return await this.findImplementations(input);
+      case "workspace_symbols": return await this.workspaceSymbols(input);
+      case "document_symbols": return await this.documentSymbols(input);
+      case "call_hierarchy": return await this.callHierarchy(input);
+      case "type_hierarchy": return await this.typeHierarchy(input);
+      case "get_code_actions": return await this.getCodeActions(input);
+      case "apply_code_action": return await this.applyCodeAction(input);
+      case "format_document": return await this.formatDocument(input);
+
+      // Git (basic)
+      case "get_git_status": return await this.getGitStatus(input);
+      case "git_diff": return await this.gitDiff(input);
+      case "apply_diff": return await this.applyDiff(input);
+
+      // Git (full)
+      case "git_log": return await this.gitLog(input);
+      case "git_commit": return await this.gitCommit(input);
+      case "git_push": return await this.gitPush(input);
+      case "git_pull": return await this.gitPull(input);
+      case "git_branch": return await this.gitBranch(input);
+      case "git_checkout": return await this.gitCheckout(input);
+      case "git_stash": return await this.gitStash(input);
+      case "git_blame": return await this.gitBlame(input);
+      case "git_add": return await this.gitAdd(input);
+      case "git_reset": return await this.gitReset(input);
+
+      // Memory
+      case "update_memory": return await this.updateMemory(input);
+      case "search_memories": return await this.searchMemories(input);
+      case "list_memories": return await this.listMemories();
+
+      // Workspace & Context
+      case "get_workspace_info": return await this.getWorkspaceInfo();
+      case "get_context": return await this.getContext();
+      case "get_open_files": return await this.getOpenFiles();
+      case "get_selection": return await this.getSelection();
+
+      // Tasks
+      case "todo_write": return await this.todoWrite(input);
+
+      // Browser
+      case "browser_navigate": return await this.browserNavigate(input);
+      case "browser_snapshot": return await this.browserSnapshot();
+      case "browser_click": return await this.browserClick(input);
+      case "browser_type": return await this.browserType(input);
+      case "browser_screenshot": return await this.browserScreenshot(input);
+      case "browser_console": return await this.browserConsole();
+      case "browser_network": return await this.browserNetwork();
+
+      // MCP
+      case "mcp_call": return await this.mcpCall(input);
+      case "mcp_list_tools": return await this.mcpListTools();
+
+      // Checkpoints
+      case "create_checkpoint": return await this.createCheckpoint(input);
+      case "restore_checkpoint": return await this.restoreCheckpoint(input);
+      case "diff_checkpoint": return await this.diffCheckpoint(input);
+      case "list_checkpoints": return await this.listCheckpoints();
+
+      default:
+        if (getMCPManager().isMCPTool(toolName)) return await this.mcpTool(toolName, input);
+        throw new ToolFailure(`Unknown tool: ${toolName}`);
     }
   }
 
@@ -182,7 +233,7 @@ export class ToolExecutor {
     const filePath = this.resolvePath(input.path as string);
 
     if (!fs.existsSync(filePath)) {
-      return `File not found: ${filePath}`;
+      throw new ToolFailure(`File not found: ${filePath}`);
     }
 
     if (isImageFile(filePath)) {
@@ -190,7 +241,7 @@ export class ToolExecutor {
       if (imageData) {
         return `[Image: ${path.basename(filePath)}]\nType: ${imageData.mediaType}\nSize: ${imageData.data.length} bytes (base64)`;
       }
-      return `Failed to read image: ${filePath}`;
+      throw new ToolFailure(`Failed to read image: ${filePath}`);
     }
 
     const content = fs.readFileSync(filePath, "utf-8");
@@ -214,6 +265,7 @@ export class ToolExecutor {
       fs.mkdirSync(dir, { recursive: true });
     }
 
+    this.captureWrite(filePath);
     fs.writeFileSync(filePath, content, "utf-8");
 
     const doc = await vscode.workspace.openTextDocument(filePath);
@@ -224,49 +276,197 @@ export class ToolExecutor {
 
   private async editFile(input: ToolInput): Promise<string> {
     const filePath = this.resolvePath(input.path as string);
-    const oldString = input.old_string as string;
-    const newString = input.new_string as string;
-    const replaceAll = input.replace_all as boolean;
 
     if (!fs.existsSync(filePath)) {
-      return `File not found: ${filePath}`;
+      throw new ToolFailure(`File not found: ${filePath}`);
     }
 
     const content = fs.readFileSync(filePath, "utf-8");
-    const occurrences = content.split(oldString).length - 1;
-
-    if (occurrences === 0) {
-      return `Error: Could not find text in ${filePath}`;
+    const plan = await this.planEdit(content, filePath, input);
+    if ("error" in plan) {
+      throw new ToolFailure(`Error: ${plan.error}`);
     }
 
-    if (!replaceAll && occurrences > 1) {
-      return `Error: Found ${occurrences} occurrences. Use replace_all or provide more context.`;
-    }
-
-    const newContent = replaceAll
-      ? content.split(oldString).join(newString)
-      : content.replace(oldString, newString);
-
-    fs.writeFileSync(filePath, newContent, "utf-8");
+    this.captureWrite(filePath);
+    fs.writeFileSync(filePath, plan.content, "utf-8");
 
     const doc = await vscode.workspace.openTextDocument(filePath);
     await vscode.window.showTextDocument(doc);
 
-    return `Edited ${filePath}${replaceAll ? ` (${occurrences} replacements)` : ""}`;
+    return `Edited ${filePath}${plan.note}`;
   }
 
   private async multiEdit(input: ToolInput): Promise<string> {
-    const edits = input.edits as Array<{ path: string; old_string: string; new_string: string }>;
+    const edits = input.edits as ToolInput[];
+    const files = new Map<string, string>();
     const results: string[] = [];
 
-    for (const edit of edits) {
-      const result = await this.editFile(edit);
-      results.push(result);
+    // Apply everything in memory first; nothing is written unless every edit succeeds
+    for (const [index, edit] of edits.entries()) {
+      const filePath = this.resolvePath(edit.path as string);
+      let content = files.get(filePath);
+
+      if (content === undefined) {
+        if (!fs.existsSync(filePath)) {
+          throw new ToolFailure(`Error: edit ${index + 1}: File not found: ${filePath}\nNo files were changed.`);
+        }
+        content = fs.readFileSync(filePath, "utf-8");
+      }
+
+      const plan = await this.planEdit(content, filePath, edit);
+      if ("error" in plan) {
+        throw new ToolFailure(`Error: edit ${index + 1} (${edit.path}): ${plan.error}\nNo files were changed.`);
+      }
+
+      this.assertWritable(filePath);
+      files.set(filePath, plan.content);
+      results.push(`Edit ${index + 1}: ${edit.path}${plan.note}`);
+    }
+
+    for (const [filePath, content] of files) {
+      this.captureWrite(filePath);
+      fs.writeFileSync(filePath, content, "utf-8");
     }
 
+    results.push(`Applied ${edits.length} edits to ${files.size} file${files.size === 1 ? "" : "s"}`);
     return results.join("\n");
   }
 
+  /**
+   * Work out the new content for one edit_file-style edit without writing it.
+   * old_string goes through the tiered matcher; `symbol` anchors the edit to a
+   * TS/JS declaration, either replacing it outright or scoping old_string to it.
+   */
+  private async planEdit(
+    content: string,
+    filePath: string,
+    edit: ToolInput
+  ): Promise<{ content: string; note: string } | { error: string }> {
+    const oldString = edit.old_string as string | undefined;
+    const newString = (edit.new_string as string | undefined) ?? "";
+    const replaceAll = edit.replace_all as boolean;
+    const symbolName = edit.symbol as string | undefined;
+
+    let scopeStart = 0;
+    let scopeEnd = content.length;
+    let where = `in ${filePath}`;
+
+    if (symbolName) {
+      if (!this.supportsSymbolEdits(filePath)) {
+        return { error: `symbol edits need a TypeScript/JavaScript file; use old_string for ${path.basename(filePath)}` };
+      }
+
+      const symbolEdit = await import("./symbol-edit");
+      const { symbol, candidates } = symbolEdit.resolveSymbol(symbolEdit.findSymbols(content, filePath), symbolName);
+
+      if (!symbol) {
+        const ambiguous = candidates.some((c) => c.name === symbolName || c.name.endsWith(`.${symbolName}`));
+        return {
+          error: ambiguous
+            ? `symbol "${symbolName}" is ambiguous. Use a qualified name:\n${symbolEdit.formatSymbolList(candidates)}`
+            : `symbol "${symbolName}" not found in ${filePath}. Symbols:\n${symbolEdit.formatSymbolList(candidates)}`,
+        };
+      }
+
+      if (!oldString) {
+        const part = (edit.symbol_part as SymbolPart | undefined) ?? "body";
+        let updated: string;
+        try {
+          updated = symbolEdit.replaceSymbol(content, symbol, part, newString);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+
+        const broken = symbolEdit.countSyntaxErrors(updated, filePath) - symbolEdit.countSyntaxErrors(content, filePath);
+        return {
+          content: updated,
+          note:
+            ` (replaced ${part === "body" ? "body of " : ""}${symbol.kind} ${symbol.name}, lines ${symbol.line}-${symbol.endLine})` +
+            (broken > 0 ? `\nWarning: the edit introduced ${broken} syntax error(s); check the result.` : ""),
+        };
+      }
+
+      // Match old_string only inside the symbol, from the start of its first line
+      scopeStart = content.lastIndexOf("\n", symbol.start - 1) + 1;
+      scopeEnd = symbol.end;
+      where = `in ${symbol.name}`;
+    }
+
+    if (!oldString) {
+      return { error: "old_string is required unless symbol is given" };
+    }
+
+    // A fuzzy hit on one line, or on every occurrence, is too likely to be the wrong code
+    const fuzzy = !replaceAll && oldString.trim().includes("\n");
+    const scope = content.slice(scopeStart, scopeEnd);
+    const result = findEditMatches(scope, oldString, { fuzzy });
+
+    // Report line numbers against the whole file
+    const lineOffset = content.slice(0, scopeStart).split("\n").length - 1;
+    const shift = <T extends EditMatch>(m: T): T => ({ ...m, line: m.line + lineOffset, endLine: m.endLine + lineOffset });
+    const located: MatchResult = {
+      ...result,
+      matches: result.matches.map(shift),
+      candidates: result.candidates.map(shift),
+      closest: result.closest && shift(result.closest),
+    };
+
+    if (result.candidates.length > 0) {
+      return {
+        error:
+          `Could not find old_string ${where}; nothing was changed. Close matches:\n` +
+          `${describeMatches(content, located.candidates)}${describeClosest(located)}\n` +
+          "Copy the file's text into old_string and retry.",
+      };
+    }
+
+    if (result.matches.length === 0) {
+      return { error: `Could not find old_string ${where}.${describeClosest(located)}` };
+    }
+
+    if (result.matches.length > 1 && !replaceAll) {
+      return {
+        error:
+          `old_string matches ${result.matches.length} places ${where}` +
+          (result.tier !== "exact" ? ` (${result.tier} match)` : "") +
+          `:\n${describeMatches(content, located.matches)}\n` +
+          "Include more surrounding lines in old_string to pick one, or set replace_all.",
+      };
+    }
+
+    // Splice from the end so earlier offsets stay valid
+    let updated = scope;
+    for (const match of [...result.matches].reverse()) {
+      updated = updated.slice(0, match.start) + adaptReplacement(scope, match, oldString, newString) + updated.slice(match.end);
+    }
+    const newContent = content.slice(0, scopeStart) + updated + content.slice(scopeEnd);
+
+    const notes: string[] = [];
+    if (replaceAll) notes.push(`${result.matches.length} replacements`);
+    if (result.tier === "whitespace") {
+      notes.push(`matched ignoring whitespace at ${this.describeMatchRange(located.matches)}`);
+    }
+
+    let warning = "";
+    if (result.tier !== "exact" && this.supportsSymbolEdits(filePath)) {
+      const { countSyntaxErrors } = await import("./symbol-edit");
+      const broken = countSyntaxErrors(newContent, filePath) - countSyntaxErrors(content, filePath);
+      if (broken > 0) warning = `\nWarning: the edit introduced ${broken} syntax error(s); check the result.`;
+    }
+
+    return { content: newContent, note: (notes.length > 0 ? ` (${notes.join("; ")})` : "") + warning };
+  }
+
+  private supportsSymbolEdits(filePath: string): boolean {
+    return /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i.test(filePath);
+  }
+
+  private describeMatchRange(matches: EditMatch[]): string {
+    return matches
+      .map((m) => (m.line === m.endLine ? `line ${m.line}` : `lines ${m.line}-${m.endLine}`))
+      .join(", ");
+  }
+
   private async listDirectory(input: ToolInput): Promise<string> {
     const dirPath = this.resolvePath(input.path as string);
     const recursive = (input.recursive as boolean) || false;
@@ -274,7 +474,7 @@ export class ToolExecutor {
     const pattern = input.pattern as string | undefined;
 
     if (!fs.existsSync(dirPath)) {
-      return `Directory not found: ${dirPath}`;
+      throw new ToolFailure(`Directory not found: ${dirPath}`);
     }
 
     const results: string[] = [];
@@ -316,7 +516,9 @@ export class ToolExecutor {
     const filePath = this.resolvePath(input.path as string);
     const recursive = (input.recursive as boolean) || false;
 
-    if (!fs.existsSync(filePath)) return `Not found: ${filePath}`;
+    if (!fs.existsSync(filePath)) throw new ToolFailure(`Not found: ${filePath}`);
+
+    this.captureWrite(filePath);
 
     const stats = fs.statSync(filePath);
     if (stats.isDirectory()) {
@@ -331,11 +533,13 @@ export class ToolExecutor {
     const oldPath = this.resolvePath(input.old_path as string);
     const newPath = this.resolvePath(input.new_path as string);
 
-    if (!fs.existsSync(oldPath)) return `Not found: ${oldPath}`;
+    if (!fs.existsSync(oldPath)) throw new ToolFailure(`Not found: ${oldPath}`);
 
     const newDir = path.dirname(newPath);
     if (!fs.existsSync(newDir)) fs.mkdirSync(newDir, { recursive: true });
 
+    this.captureWrite(oldPath);
+    this.captureWrite(newPath);
     fs.renameSync(oldPath, newPath);
     return `Renamed: ${oldPath} → ${newPath}`;
   }
@@ -344,11 +548,12 @@ export class ToolExecutor {
     const source = this.resolvePath(input.source as string);
     const dest = this.resolvePath(input.destination as string);
 
-    if (!fs.existsSync(source)) return `Not found: ${source}`;
+    if (!fs.existsSync(source)) throw new ToolFailure(`Not found: ${source}`);
 
     const destDir = path.dirname(dest);
     if (!fs.existsSync(destDir)) fs.mkdirSync(destDir, { recursive: true });
 
+    this.captureWrite(dest);
     fs.copyFileSync(source, dest);
     return `Copied: ${source} → ${dest}`;
   }
@@ -366,9 +571,11 @@ export class ToolExecutor {
     const newString = input.new_string as string;
 
     if (!fs.existsSync(filePath)) {
-      return `Notebook not found: ${filePath}`;
+      throw new ToolFailure(`Notebook not found: ${filePath}`);
     }
 
+    this.captureWrite(filePath);
+
     if (isNewCell) {
       const result = createNotebookCell(filePath, cellIndex, cellType, newString);
       return result.success ? `Created cell ${cellIndex}` : `Error: ${result.error}`;
@@ -469,17 +676,22 @@ export class ToolExecutor {
     const timeout = (input.timeout as number) || 60000;
     const isBackground = (input.is_background as boolean) || false;
     const permissions = (input.permissions as TerminalPermission[]) || [];
+    const pty = (input.pty as boolean) || false;
 
     const terminal = getTerminalManager();
-    const job = await terminal.run(command, { cwd, timeout, isBackground, permissions });
+    const job = await terminal.run(command, { cwd, timeout, isBackground, permissions, pty });
 
-    if (isBackground) {
-      return `Background job ${job.id} started\nCommand: ${job.command}\nPID: ${job.pid || "N/A"}`;
+    if (isBackground && job.status !== "failed") {
+      let result = `Background job ${job.id} started\nCommand: ${job.command}\nPID: ${job.pid || "N/A"}`;
+      if (pty && !job.pty) result += "\nPTY unavailable (no `script` utility) - running with pipes";
+      return result;
     }
 
     let result = "";
     if (job.output) result += job.output;
     if (job.error) result += (result ? "\n" : "") + `STDERR: ${job.error}`;
+    // No exit code: the policy refused it or it never started
+    if (job.status === "failed" && job.exitCode === undefined) throw new ToolFailure(result);
     if (job.status === "failed") result += `\nExit: ${job.exitCode}`;
 
     return result || "Command completed";
@@ -498,16 +710,101 @@ export class ToolExecutor {
     const jobId = input.job_id as string;
     const terminal = getTerminalManager();
     const killed = await terminal.kill(jobId);
-    return killed ? `Killed: ${jobId}` : `Not found: ${jobId}`;
+    if (!killed) throw new ToolFailure(`Not found: ${jobId}`);
+    return `Killed: ${jobId}`;
+  }
+
+  private async sendJobInput(input: ToolInput): Promise<string> {
+    const jobId = input.job_id as string;
+    const text = (input.input as string) ?? "";
+    const pressEnter = input.press_enter !== false;
+    const waitMs = (input.wait_ms as number) ?? 1000;
+
+    const terminal = getTerminalManager();
+    const job = terminal.getJob(jobId);
+    if (!job) throw new ToolFailure(`Not found: ${jobId}`);
+    if (job.status !== "running") throw new ToolFailure(`Job ${jobId} is not running (${job.status})`);
+
+    let output = "";
+    const subscription = terminal.subscribe(jobId, (event) => {
+      output += event.data;
+    });
+
+    try {
+      const result = terminal.writeInput(jobId, pressEnter ? text + "\n" : text);
+      if (!result.written) {
+        throw new ToolFailure(result.reason ?? `Job ${jobId} is not accepting input`);
+      }
+      if (input.close_stdin) terminal.closeInput(jobId);
+
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    } finally {
+      subscription.dispose();
+    }
+
+    const status = job.status === "running" ? "" : `\n[job ${job.status}, exit ${job.exitCode ?? "N/A"}]`;
+    return (output || "(no output yet)") + status;
   }
 
   private async readTerminalOutput(input: ToolInput): Promise<string> {
-    // Read from VS Code terminal
-    const terminals = vscode.window.terminals;
-    if (terminals.length === 0) return "No terminals open";
+    const terminal = getTerminalManager();
+    let buffer: OutputBuffer | undefined;
+    let describe: () => string; // evaluated after any wait, so job status is current
+
+    if (input.terminal_id || (!input.job_id && terminal.getRecentJobs(1).length === 0)) {
+      const captured = getTerminalCapture().find(input.terminal_id as string | undefined);
+      if (!captured) {
+        throw new ToolFailure(input.terminal_id ? `Terminal not found: ${input.terminal_id}` : "No jobs or terminals to read from");
+      }
+      if (!captured.shellIntegration && captured.buffer.end === 0) {
+        throw new ToolFailure(`Terminal "${captured.name}" has no shell integration, so its output can't be read. Run the command with run_terminal_command instead.`);
+      }
+      buffer = captured.buffer;
+      describe = () => `[${captured.id}: ${captured.name}]`;
+    } else {
+      const job = input.job_id
+        ? terminal.getJob(input.job_id as string)
+        : terminal.getRecentJobs(1)[0];
+      if (!job) throw new ToolFailure(`Not found: ${input.job_id}`);
+
+      buffer = terminal.getOutputBuffer(job.id);
+      describe = () =>
+        `[${job.id}: ${job.command}] ${job.status}` +
+        (job.status === "running" ? ` (PID ${job.pid ?? "N/A"})` : `, exit ${job.exitCode ?? "N/A"}`);
+    }
+    if (!buffer) return `${describe()}\n(no output captured)`;
 
-    const active = vscode.window.activeTerminal;
-    return `Active terminal: ${active?.name || "none"}\nTotal terminals: ${terminals.length}`;
+    const waitFor = input.wait_for as string | undefined;
+    const timeoutMs = Math.min((input.timeout_ms as number) ?? 30000, 300000);
+
+    let result;
+    try {
+      result = await readOutput(buffer, {
+        lines: (input.lines as number) ?? 100,
+        grep: input.grep as string | undefined,
+        sinceOffset: input.since_offset as number | undefined,
+        waitFor,
+        timeoutMs,
+      });
+    } catch (error) {
+      throw new ToolFailure(`Invalid regex: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const lines = [describe()];
+    if (waitFor) {
+      lines.push(
+        result.matched
+          ? `Found /${waitFor}/`
+          : result.closed
+            ? `Output ended without /${waitFor}/`
+            : `Timed out after ${timeoutMs}ms waiting for /${waitFor}/`
+      );
+    }
+    if (result.dropped) lines.push(`(output before offset ${result.startOffset} was discarded)`);
+    lines.push(result.text || "(no output)");
+    lines.push(`next_offset: ${result.nextOffset}`);
+
+    return lines.join("\n");
   }
 
   // ============================================
@@ -617,7 +914,11 @@ export class ToolExecutor {
       newName
     );
 
-    if (!edit || edit.size === 0) return "Could not rename symbol";
+    if (!edit || edit.size === 0) throw new ToolFailure("Could not rename symbol");
+
+    for (const [editUri] of edit.entries()) {
+      if (editUri.scheme === "file") this.captureWrite(editUri.fsPath);
+    }
 
     await vscode.workspace.applyEdit(edit);
     return `Renamed to "${newName}" in ${edit.size} locations`;
@@ -772,7 +1073,7 @@ export class ToolExecutor {
     );
 
     const action = actions?.find((a) => a.title === actionTitle);
-    if (!action) return `Code action not found: ${actionTitle}`;
+    if (!action) throw new ToolFailure(`Code action not found: ${actionTitle}`);
 
     if (action.edit) {
       await vscode.workspace.applyEdit(action.edit);
@@ -829,7 +1130,7 @@ export class ToolExecutor {
 
       return result;
     } catch {
-      return "Not a git repository";
+      throw new ToolFailure("Not a git repository");
     }
   }
 
@@ -847,7 +1148,7 @@ export class ToolExecutor {
       const { stdout } = await execAsync(cmd, { cwd: this.workspaceRoot, maxBuffer: 10 * 1024 * 1024 });
       return stdout || "No changes";
     } catch {
-      return "Not a git repository";
+      throw new ToolFailure("Not a git repository");
     }
   }
 
@@ -866,7 +1167,7 @@ export class ToolExecutor {
       const { stdout } = await execAsync(cmd, { cwd: this.workspaceRoot });
       return stdout || "No commits found";
     } catch {
-      return "Not a git repository";
+      throw new ToolFailure("Not a git repository");
     }
   }
 
@@ -882,7 +1183,7 @@ export class ToolExecutor {
       const { stdout } = await execAsync(`git commit -m "${message.replace(/"/g, '\\"')}"`, { cwd: this.workspaceRoot });
       return stdout;
     } catch (error) {
-      return `Commit failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Commit failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -899,7 +1200,7 @@ export class ToolExecutor {
       const { stdout, stderr } = await execAsync(cmd, { cwd: this.workspaceRoot });
       return stdout || stderr || "Pushed successfully";
     } catch (error) {
-      return `Push failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Push failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -916,7 +1217,7 @@ export class ToolExecutor {
       const { stdout } = await execAsync(cmd, { cwd: this.workspaceRoot });
       return stdout || "Already up to date";
     } catch (error) {
-      return `Pull failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Pull failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -931,18 +1232,18 @@ export class ToolExecutor {
           return stdout;
         }
         case "create": {
-          if (!name) return "Branch name required";
+          if (!name) throw new ToolFailure("Branch name required");
           await execAsync(`git branch "${name}"`, { cwd: this.workspaceRoot });
           return `Created branch: ${name}`;
         }
         case "delete": {
-          if (!name) return "Branch name required";
+          if (!name) throw new ToolFailure("Branch name required");
           await execAsync(`git branch -d "${name}"`, { cwd: this.workspaceRoot });
           return `Deleted branch: ${name}`;
         }
       }
     } catch (error) {
-      return `Branch operation failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Branch operation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -953,6 +1254,7 @@ export class ToolExecutor {
 
     try {
       if (files && files.length > 0) {
+        for (const file of files) this.captureWrite(this.resolvePath(file));
         await execAsync(`git checkout -- ${files.map((f) => `"${this.resolvePath(f)}"`).join(" ")}`, { cwd: this.workspaceRoot });
         return `Restored ${files.length} file(s)`;
       }
@@ -961,7 +1263,7 @@ export class ToolExecutor {
       await execAsync(`git checkout ${flag} "${target}"`, { cwd: this.workspaceRoot });
       return `Switched to ${target}`;
     } catch (error) {
-      return `Checkout failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Checkout failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -993,7 +1295,7 @@ export class ToolExecutor {
         }
       }
     } catch (error) {
-      return `Stash operation failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Stash operation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -1011,7 +1313,7 @@ export class ToolExecutor {
       const { stdout } = await execAsync(cmd, { cwd: this.workspaceRoot });
       return stdout;
     } catch (error) {
-      return `Blame failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Blame failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -1025,12 +1327,12 @@ export class ToolExecutor {
         return "All changes staged";
       }
 
-      if (!files || files.length === 0) return "No files specified";
+      if (!files || files.length === 0) throw new ToolFailure("No files specified");
 
       await execAsync(`git add ${files.map((f) => `"${this.resolvePath(f)}"`).join(" ")}`, { cwd: this.workspaceRoot });
       return `Staged ${files.length} file(s)`;
     } catch (error) {
-      return `Add failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Add failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -1053,28 +1355,155 @@ export class ToolExecutor {
       await execAsync("git reset", { cwd: this.workspaceRoot });
       return "Unstaged all changes";
     } catch (error) {
-      return `Reset failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`Reset failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   private async applyDiff(input: ToolInput): Promise<string> {
-    const filePath = this.resolvePath(input.path as string);
     const diff = input.diff as string;
-    const tempPath = path.join(this.workspaceRoot, ".mythatron-code-temp.diff");
+    const dryRun = input.dry_run === true;
+    const partial = input.partial === true;
+    const fuzz = (input.fuzz as number) ?? 2;
 
-    try {
-      fs.writeFileSync(tempPath, diff);
-      await execAsync(`patch "${filePath}" < "${tempPath}"`, { cwd: this.workspaceRoot });
-      fs.unlinkSync(tempPath);
+    const patches = parsePatch(diff);
+    if (patches.length === 0) throw new ToolFailure("Error: no hunks or file headers found in diff");
+
+    // A bare hunk list (or a single-file diff) targets `path`
+    if (input.path && patches.length === 1 && patches[0].type === "modify") {
+      patches[0].oldPath = patches[0].newPath = input.path as string;
+    }
+    const headerless = patches.find((p) => !p.oldPath && !p.newPath);
+    if (headerless) throw new ToolFailure("Error: diff has no file headers; pass `path` or include ---/+++ lines");
+
+    // Patches apply in order, each against what the earlier ones left, so
+    // two patches to one file both land
+    const pending = new Map<string, string | null>(); // null: deleted
+    const outcomes = patches.map((patch) => {
+      const outcome = this.planFilePatch(patch, fuzz, pending);
+      if (this.changesFile(outcome)) {
+        if (patch.oldPath && patch.type !== "create") pending.set(this.resolvePath(patch.oldPath), null);
+        if (patch.type !== "delete") pending.set(this.resolvePath(patch.newPath!), outcome.content);
+      }
+      return outcome;
+    });
+    const rejected = outcomes.some((o) => !o.ok);
+    const write = !dryRun && (!rejected || partial);
+
+    const changed: string[] = [];
+    if (write) {
+      // Check every target first so a refused one doesn't leave the batch half-applied
+      for (const { patch } of outcomes) {
+        for (const target of [patch.oldPath, patch.newPath]) {
+          if (target) this.assertWritable(this.resolvePath(target));
+        }
+      }
 
-      const doc = await vscode.workspace.openTextDocument(filePath);
-      await vscode.window.showTextDocument(doc);
+      for (const outcome of outcomes) {
+        const { patch } = outcome;
+        if (!this.changesFile(outcome)) continue;
 
-      return `Applied diff to ${filePath}`;
-    } catch (error) {
-      if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
-      throw error;
+        const oldFile = patch.oldPath ? this.resolvePath(patch.oldPath) : null;
+        const newFile = patch.newPath ? this.resolvePath(patch.newPath) : null;
+
+        if (oldFile) this.captureWrite(oldFile);
+        if (newFile) this.captureWrite(newFile);
+
+        if (patch.type === "delete") {
+          fs.rmSync(oldFile!, { force: true });
+        } else {
+          fs.mkdirSync(path.dirname(newFile!), { recursive: true });
+          fs.writeFileSync(newFile!, outcome.content);
+          if (patch.type === "rename") fs.rmSync(oldFile!, { force: true });
+        }
+        if (!changed.includes(patch.newPath || patch.oldPath!)) changed.push(patch.newPath || patch.oldPath!);
+      }
+
+      if (changed.length === 1 && patches[0].type !== "delete") {
+        const doc = await vscode.workspace.openTextDocument(this.resolvePath(changed[0]));
+        await vscode.window.showTextDocument(doc);
+      }
     }
+
+    const lines: string[] = [];
+    for (const outcome of outcomes) {
+      const { patch, hunks } = outcome;
+      const name = patch.type === "rename" ? `${patch.oldPath} -> ${patch.newPath}` : patch.newPath || patch.oldPath;
+      const applied = hunks.filter((h) => h.status !== "rejected").length;
+      lines.push(
+        `${name} (${patch.type}): ` +
+          (outcome.error ? `REJECTED - ${outcome.error}` : `${applied}/${hunks.length} hunks OK`)
+      );
+      for (const hunk of hunks) {
+        const detail = this.describeHunkResult(hunk);
+        if (detail) lines.push(`  ${detail}`);
+      }
+    }
+
+    if (dryRun) {
+      lines.unshift(rejected ? "Dry run: some hunks would be rejected" : "Dry run: diff applies cleanly");
+    } else if (rejected && !partial) {
+      lines.unshift("Diff NOT applied - no files were changed. Fix the rejected hunks and resend (or pass partial: true).");
+    } else {
+      lines.unshift(`Applied diff to ${changed.length} file(s)${rejected ? " (rejected hunks skipped)" : ""}`);
+    }
+
+    if (!dryRun && rejected && !partial) throw new ToolFailure(lines.join("\n"));
+    return lines.join("\n");
+  }
+
+  /**
+   * Nothing to write: unreadable file, or every hunk rejected / already there
+   */
+  private changesFile(outcome: { patch: FilePatch; hunks: HunkResult[]; error?: string }): boolean {
+    if (outcome.error) return false;
+    return outcome.patch.type !== "modify" || outcome.hunks.some((h) => h.status === "applied");
+  }
+
+  /**
+   * Work out the new content for one file of a patch without touching disk.
+   * `pending` holds what earlier patches in the batch will leave (null: deleted).
+   */
+  private planFilePatch(
+    patch: FilePatch,
+    fuzz: number,
+    pending: Map<string, string | null>
+  ): { patch: FilePatch; content: string; hunks: HunkResult[]; ok: boolean; error?: string } {
+    const fail = (error: string) => ({ patch, content: "", hunks: [], ok: false, error });
+    const oldFile = patch.oldPath ? this.resolvePath(patch.oldPath) : null;
+    const newFile = patch.newPath ? this.resolvePath(patch.newPath) : null;
+    const exists = (file: string) => (pending.has(file) ? pending.get(file) !== null : fs.existsSync(file));
+    const read = (file: string) => pending.get(file) ?? fs.readFileSync(file, "utf-8");
+
+    let original = "";
+    if (patch.type === "create") {
+      if (newFile && exists(newFile) && read(newFile) !== "") {
+        return fail("file already exists");
+      }
+    } else {
+      if (!oldFile || !exists(oldFile)) return fail("file not found");
+      original = read(oldFile);
+    }
+    if (patch.type === "rename" && newFile && exists(newFile)) {
+      return fail(`rename target ${patch.newPath} already exists`);
+    }
+
+    const result = applyHunks(original, patch.hunks, { fuzz });
+    if (patch.type === "delete" && result.ok && result.content.trim() !== "") {
+      return { ...fail("file still has content after removing the diff's lines"), hunks: result.hunks };
+    }
+
+    return { patch, content: result.content, hunks: result.hunks, ok: result.ok };
+  }
+
+  private describeHunkResult(hunk: HunkResult): string | null {
+    if (hunk.status === "rejected") return `hunk ${hunk.hunk} ${hunk.header} REJECTED: ${hunk.reason}`;
+    if (hunk.status === "already-applied") return `hunk ${hunk.hunk} already applied at line ${hunk.line}, skipped`;
+
+    const notes: string[] = [];
+    if (hunk.offset) notes.push(`offset ${hunk.offset > 0 ? "+" : ""}${hunk.offset}`);
+    if (hunk.fuzz) notes.push(`fuzz ${hunk.fuzz}`);
+    if (hunk.whitespace) notes.push("whitespace ignored");
+    return notes.length > 0 ? `hunk ${hunk.hunk} applied at line ${hunk.line} (${notes.join(", ")})` : null;
   }
 
   // ============================================
@@ -1092,18 +1521,18 @@ export class ToolExecutor {
 
     switch (action) {
       case "create":
-        if (!title || !content) return "Error: title and content required";
+        if (!title || !content) throw new ToolFailure("Error: title and content required");
         const mem = mm.createMemory(title, content, tags);
         return `Created memory: ${mem.id}`;
       case "update":
-        if (!id) return "Error: id required";
+        if (!id) throw new ToolFailure("Error: id required");
         const updated = mm.updateMemory(id, { title, content, tags });
         return updated ? `Updated: ${id}` : `Not found: ${id}`;
       case "delete":
-        if (!id) return "Error: id required";
+        if (!id) throw new ToolFailure("Error: id required");
         return mm.deleteMemory(id) ? `Deleted: ${id}` : `Not found: ${id}`;
       default:
-        return `Unknown action: ${action}`;
+        throw new ToolFailure(`Unknown action: ${action}`);
     }
   }
 
@@ -1232,7 +1661,7 @@ export class ToolExecutor {
       const result = await mcp.callTool("browser", "browser_snapshot", {});
       return result.content.map((c) => c.text || "").join("\n");
     } catch {
-      return "Browser MCP not connected. Configure in .mythatron/mcp.json";
+      throw new ToolFailure("Browser MCP not connected. Configure in .mythatron/mcp.json");
     }
   }
 
@@ -1242,7 +1671,7 @@ export class ToolExecutor {
       await mcp.callTool("browser", "browser_click", input);
       return `Clicked: ${input.element}`;
     } catch {
-      return "Browser MCP not connected";
+      throw new ToolFailure("Browser MCP not connected");
     }
   }
 
@@ -1252,7 +1681,7 @@ export class ToolExecutor {
       await mcp.callTool("browser", "browser_type", input);
       return `Typed in: ${input.element}`;
     } catch {
-      return "Browser MCP not connected";
+      throw new ToolFailure("Browser MCP not connected");
     }
   }
 
@@ -1262,7 +1691,7 @@ export class ToolExecutor {
       const result = await mcp.callTool("browser", "browser_take_screenshot", input);
       return `Screenshot taken`;
     } catch {
-      return "Browser MCP not connected";
+      throw new ToolFailure("Browser MCP not connected");
     }
   }
 
@@ -1272,7 +1701,7 @@ export class ToolExecutor {
       const result = await mcp.callTool("browser", "browser_console_messages", {});
       return result.content.map((c) => c.text || "").join("\n");
     } catch {
-      return "Browser MCP not connected";
+      throw new ToolFailure("Browser MCP not connected");
     }
   }
 
@@ -1282,7 +1711,7 @@ export class ToolExecutor {
       const result = await mcp.callTool("browser", "browser_network_requests", {});
       return result.content.map((c) => c.text || "").join("\n");
     } catch {
-      return "Browser MCP not connected";
+      throw new ToolFailure("Browser MCP not connected");
     }
   }
 
@@ -1296,12 +1725,28 @@ export class ToolExecutor {
     const args = (input.arguments as Record<string, unknown>) || {};
 
     const mcp = getMCPManager();
+    let result: MCPToolResult;
     try {
-      const result = await mcp.callTool(server, tool, args);
-      return result.content.map((c) => c.text || "[binary]").join("\n");
+      result = await mcp.callTool(server, tool, args);
     } catch (error) {
-      return `MCP error: ${error instanceof Error ? error.message : String(error)}`;
+      throw new ToolFailure(`MCP error: ${error instanceof Error ? error.message : String(error)}`);
     }
+    const text = mcp.formatToolResult(server, result);
+    if (result.isError) throw new ToolFailure(text);
+    return text;
+  }
+
+  private async mcpTool(name: string, input: ToolInput): Promise<string> {
+    const mcp = getMCPManager();
+    let result: MCPToolResult;
+    try {
+      result = await mcp.callNamespacedTool(name, input);
+    } catch (error) {
+      throw new ToolFailure(`MCP error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const text = mcp.formatToolResult(mcp.resolveTool(name)!.server, result);
+    if (result.isError) throw new ToolFailure(text);
+    return text;
   }
 
   private async mcpListTools(): Promise<string> {
@@ -1312,6 +1757,7 @@ export class ToolExecutor {
       return "No MCP tools available. Configure servers in .mythatron/mcp.json";
     }
 
+    // Namespaced names can be called directly as tools
     return tools
       .map((t) => `[${t.server}] ${t.tool.name}: ${t.tool.description || "No description"}`)
       .join("\n");
@@ -1323,50 +1769,54 @@ export class ToolExecutor {
 
   private async createCheckpoint(input: ToolInput): Promise<string> {
     const name = input.name as string;
-    const id = `checkpoint-${Date.now()}`;
+    const checkpoint = getCheckpointManager().create(name);
+    return `Checkpoint created: ${name} (${checkpoint.id}). Changes from here on can be diffed or restored.`;
+  }
 
-    // Save current state of modified files
-    const files = new Map<string, string>();
-    for (const doc of vscode.workspace.textDocuments) {
-      if (doc.uri.scheme === "file" && doc.isDirty) {
-        files.set(doc.uri.fsPath, doc.getText());
-      }
-    }
+  private async restoreCheckpoint(input: ToolInput): Promise<string> {
+    const id = input.id as string;
+    const files = input.files as string[] | undefined;
+    const manager = getCheckpointManager();
 
-    checkpoints.push({
-      id,
-      name,
-      timestamp: new Date(),
-      files,
-    });
+    const checkpoint = manager.get(id);
+    if (!checkpoint) throw new ToolFailure(`Checkpoint not found: ${id}`);
 
-    // Keep only last 10 checkpoints
-    if (checkpoints.length > 10) {
-      checkpoints = checkpoints.slice(-10);
-    }
+    const restoring = files?.length ? files.map((f) => this.resolvePath(f)) : Array.from(manager.getFileStates(id).keys(), (key) => manager.toPath(key));
+    for (const file of restoring) getRegressionTracker().recordWrite(file);
 
-    return `Checkpoint created: ${name} (${id})`;
+    const result = manager.restore(id, files, (file) => this.assertWritable(file));
+    const lines = [`Restored checkpoint: ${checkpoint.name}`];
+    if (result.restored.length) lines.push(`Restored: ${result.restored.join(", ")}`);
+    if (result.deleted.length) lines.push(`Deleted (created after checkpoint): ${result.deleted.join(", ")}`);
+    if (result.skipped.length) lines.push(`Skipped (content missing): ${result.skipped.join(", ")}`);
+    if (result.tooLarge.length) lines.push(`Not restored (over 20 MB, never checkpointed): ${result.tooLarge.join(", ")}`);
+    if (result.refused.length) lines.push(`Refused (outside the workspace or protected): ${result.refused.join(", ")}`);
+    if (lines.length === 1) lines.push("No files to restore");
+
+    return lines.join("\n");
   }
 
-  private async restoreCheckpoint(input: ToolInput): Promise<string> {
+  private async diffCheckpoint(input: ToolInput): Promise<string> {
     const id = input.id as string;
-    const checkpoint = checkpoints.find((c) => c.id === id);
+    const files = input.files as string[] | undefined;
+    const manager = getCheckpointManager();
 
-    if (!checkpoint) return `Checkpoint not found: ${id}`;
+    if (!manager.get(id)) throw new ToolFailure(`Checkpoint not found: ${id}`);
 
-    for (const [filePath, content] of checkpoint.files) {
-      fs.writeFileSync(filePath, content, "utf-8");
-    }
-
-    return `Restored checkpoint: ${checkpoint.name}`;
+    return manager.diff(id, files) || "No changes since checkpoint";
   }
 
   private async listCheckpoints(): Promise<string> {
+    const manager = getCheckpointManager();
+    const checkpoints = manager.list();
     if (checkpoints.length === 0) return "No checkpoints";
 
+    const activeId = manager.getActive()?.id;
     return checkpoints
-      .map((c) => `${c.id}: ${c.name} (${c.timestamp.toISOString()}) - ${c.files.size} files`)
+      .map((c) => {
+        const active = c.id === activeId ? " [active]" : "";
+        return `${c.id}: ${c.name} (${new Date(c.createdAt).toISOString()}) - ${Object.keys(c.files).length} files${active}`;
+      })
       .join("\n");
   }
 }
-
@@ -0,0 +1,254 @@
+/**
+ * Symbol Edit - AST-anchored edits for TypeScript/JavaScript
+ * Locates functions, classes, methods and declarations by qualified name
+ * ("UserService.save", "outer.inner") with the TypeScript compiler API, so an
+ * edit can replace a symbol's body or whole declaration without quoting it.
+ */
+
+import * as ts from "typescript";
+
+export type SymbolPart = "body" | "full";
+
+export interface SymbolLocation {
+  name: string; // qualified: "Class.method", "outer.inner"
+  kind: string;
+  start: number; // full declaration, from its first token (leading comments excluded)
+  end: number;
+  bodyStart?: number; // between the braces, or the expression of an arrow function
+  bodyEnd?: number;
+  bodyIsBlock: boolean;
+  line: number; // 1-based
+  endLine: number;
+}
+
+export interface SymbolResolution {
+  symbol?: SymbolLocation;
+  candidates: SymbolLocation[]; // several matches, or every symbol when none matched
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ".ts": ts.ScriptKind.TS,
+  ".mts": ts.ScriptKind.TS,
+  ".cts": ts.ScriptKind.TS,
+  ".tsx": ts.ScriptKind.TSX,
+  ".js": ts.ScriptKind.JS,
+  ".mjs": ts.ScriptKind.JS,
+  ".cjs": ts.ScriptKind.JS,
+  ".jsx": ts.ScriptKind.JSX,
+};
+
+/**
+ * Every named declaration in the file, outermost first
+ */
+export function findSymbols(content: string, filePath: string): SymbolLocation[] {
+  const sourceFile = parse(content, filePath);
+  const symbols: SymbolLocation[] = [];
+
+  const visit = (node: ts.Node, container: string[]): void => {
+    const declared = describeDeclaration(node);
+    let scope = container;
+
+    if (declared) {
+      const qualified = [...container, declared.name].join(".");
+      symbols.push(locate(node, declared.kind, qualified, sourceFile));
+      scope = [...container, declared.name];
+    }
+
+    ts.forEachChild(node, (child) => visit(child, scope));
+  };
+
+  visit(sourceFile, []);
+  return symbols;
+}
+
+/**
+ * Match a name against qualified names: exact first, then by trailing segments
+ * ("save" finds "UserService.save")
+ */
+export function resolveSymbol(symbols: SymbolLocation[], name: string): SymbolResolution {
+  const exact = symbols.filter((s) => s.name === name);
+  const matches = exact.length > 0 ? exact : symbols.filter((s) => s.name.endsWith(`.${name}`));
+
+  if (matches.length === 1) return { symbol: matches[0], candidates: [] };
+  return { candidates: matches.length > 0 ? matches : symbols };
+}
+
+/**
+ * Replace a symbol's body (contents between the braces, or an arrow function's
+ * expression) or its full declaration, re-indenting newText to fit
+ */
+export function replaceSymbol(
+  content: string,
+  symbol: SymbolLocation,
+  part: SymbolPart,
+  newText: string
+): string {
+  const declIndent = lineIndent(content, symbol.start);
+  const lines = dedent(newText);
+
+  if (part === "full") {
+    const text = lines.map((line, i) => (i === 0 || !line ? line : declIndent + line)).join("\n");
+    return content.slice(0, symbol.start) + text + content.slice(symbol.end);
+  }
+
+  if (symbol.bodyStart === undefined || symbol.bodyEnd === undefined) {
+    throw new Error(`${symbol.name} (${symbol.kind}) has no body; use symbol_part "full"`);
+  }
+
+  let text: string;
+  if (symbol.bodyIsBlock) {
+    const inner = declIndent + detectIndentUnit(content, symbol, declIndent);
+    text = lines.length === 0
+      ? ""
+      : "\n" + lines.map((line) => (line ? inner + line : line)).join("\n") + "\n" + declIndent;
+  } else {
+    text = lines.map((line, i) => (i === 0 || !line ? line : declIndent + line)).join("\n");
+  }
+
+  return content.slice(0, symbol.bodyStart) + text + content.slice(symbol.bodyEnd);
+}
+
+/**
+ * Syntax errors in the file, to flag edits that broke it
+ */
+export function countSyntaxErrors(content: string, filePath: string): number {
+  const output = ts.transpileModule(content, {
+    fileName: filePath,
+    reportDiagnostics: true,
+    compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve },
+  });
+  return output.diagnostics?.length ?? 0;
+}
+
+export function formatSymbolList(symbols: SymbolLocation[], limit = 40): string {
+  const shown = symbols.slice(0, limit).map((s) => `  - ${s.name} (${s.kind}, lines ${s.line}-${s.endLine})`);
+  if (symbols.length > limit) shown.push(`  ... ${symbols.length - limit} more`);
+  return shown.join("\n");
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function parse(content: string, filePath: string): ts.SourceFile {
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, getScriptKind(filePath));
+}
+
+function getScriptKind(filePath: string): ts.ScriptKind | undefined {
+  const ext = filePath.slice(filePath.lastIndexOf(".")).toLowerCase();
+  return SCRIPT_KINDS[ext];
+}
+
+function describeDeclaration(node: ts.Node): { name: string; kind: string } | null {
+  const name = (n: ts.Node | undefined): string | null =>
+    n && (ts.isIdentifier(n) || ts.isStringLiteral(n) || ts.isPrivateIdentifier(n)) ? n.text : null;
+
+  if (ts.isFunctionDeclaration(node) && node.name) return { name: node.name.text, kind: "function" };
+  if (ts.isClassDeclaration(node) && node.name) return { name: node.name.text, kind: "class" };
+  if (ts.isInterfaceDeclaration(node)) return { name: node.name.text, kind: "interface" };
+  if (ts.isTypeAliasDeclaration(node)) return { name: node.name.text, kind: "type" };
+  if (ts.isEnumDeclaration(node)) return { name: node.name.text, kind: "enum" };
+  if (ts.isModuleDeclaration(node)) return name(node.name) ? { name: name(node.name)!, kind: "namespace" } : null;
+  if (ts.isConstructorDeclaration(node)) return { name: "constructor", kind: "constructor" };
+
+  const member = name((node as ts.NamedDeclaration).name);
+  if (!member) return null;
+
+  if (ts.isMethodDeclaration(node)) return { name: member, kind: "method" };
+  if (ts.isGetAccessorDeclaration(node)) return { name: member, kind: "getter" };
+  if (ts.isSetAccessorDeclaration(node)) return { name: member, kind: "setter" };
+  if (ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node)) {
+    return { name: member, kind: isFunctionLike(node.initializer) ? "method" : "property" };
+  }
+  if (ts.isVariableDeclaration(node)) {
+    return { name: member, kind: isFunctionLike(node.initializer) ? "function" : "variable" };
+  }
+  return null;
+}
+
+function isFunctionLike(node: ts.Node | undefined): node is ts.ArrowFunction | ts.FunctionExpression {
+  return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+function locate(node: ts.Node, kind: string, name: string, sourceFile: ts.SourceFile): SymbolLocation {
+  // `export const x = ...` with a single declaration: the statement is the declaration
+  let outer: ts.Node = node;
+  if (
+    ts.isVariableDeclaration(node) &&
+    ts.isVariableDeclarationList(node.parent) &&
+    node.parent.declarations.length === 1 &&
+    ts.isVariableStatement(node.parent.parent)
+  ) {
+    outer = node.parent.parent;
+  }
+
+  const start = outer.getStart(sourceFile);
+  const end = outer.getEnd();
+  const location: SymbolLocation = {
+    name,
+    kind,
+    start,
+    end,
+    bodyIsBlock: true,
+    line: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+    endLine: sourceFile.getLineAndCharacterOfPosition(end).line + 1,
+  };
+
+  const initializer = (node as ts.VariableDeclaration | ts.PropertyDeclaration).initializer;
+  const bodyOwner = isFunctionLike(initializer) ? initializer : node;
+  const body = ts.isFunctionLike(bodyOwner) ? (bodyOwner as ts.FunctionLikeDeclaration).body : undefined;
+
+  if (body && !ts.isBlock(body)) {
+    location.bodyStart = body.getStart(sourceFile);
+    location.bodyEnd = body.getEnd();
+    location.bodyIsBlock = false;
+    return location;
+  }
+
+  const braces = findBraces(body ?? (ts.isModuleDeclaration(node) ? node.body : node), sourceFile)
+    ?? (initializer && ts.isObjectLiteralExpression(initializer) ? findBraces(initializer, sourceFile) : undefined);
+  if (braces) {
+    location.bodyStart = braces.open + 1;
+    location.bodyEnd = braces.close;
+  }
+
+  return location;
+}
+
+function findBraces(node: ts.Node | undefined, sourceFile: ts.SourceFile): { open: number; close: number } | undefined {
+  if (!node) return undefined;
+  const children = node.getChildren(sourceFile);
+  const open = children.find((c) => c.kind === ts.SyntaxKind.OpenBraceToken);
+  const close = [...children].reverse().find((c) => c.kind === ts.SyntaxKind.CloseBraceToken);
+  return open && close ? { open: open.getStart(sourceFile), close: close.getStart(sourceFile) } : undefined;
+}
+
+/**
+ * Indentation step used inside the existing body, defaulting to two spaces
+ */
+function detectIndentUnit(content: string, symbol: SymbolLocation, declIndent: string): string {
+  const body = content.slice(symbol.bodyStart, symbol.bodyEnd);
+  for (const line of body.split("\n").slice(1)) {
+    if (!line.trim()) continue;
+    const indent = line.match(/^[ \t]*/)![0];
+    if (indent.length > declIndent.length && indent.startsWith(declIndent)) return indent.slice(declIndent.length);
+  }
+  return declIndent.includes("\t") ? "\t" : "  ";
+}
+
+function lineIndent(content: string, offset: number): string {
+  return content.slice(content.lastIndexOf("\n", offset - 1) + 1).match(/^[ \t]*/)![0];
+}
+
+/**
+ * Drop surrounding blank lines and the common indentation
+ */
+function dedent(text: string): string[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  while (lines.length > 0 && !lines[0].trim()) lines.shift();
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+
+  const indents = lines.filter((l) => l.trim()).map((l) => l.match(/^[ \t]*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => (line.trim() ? line.slice(common).trimEnd() : ""));
+}